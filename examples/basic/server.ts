@@ -106,19 +106,10 @@ async function startServer() {
         console.error("Basic Server (Express): LangflowProxyService was not initialized. Cannot start server.");
         process.exit(1);
     }
-    // LangflowProxyService now handles its initialization internally.
-    // The constructor kicks off an async initialization process.
-    // Public methods like handleRequest will await this internal initialization.
-    // Therefore, we don't need to explicitly call an initializeFlows() method here.
-
-    // We should, however, wait for the internal initialization to complete before 
-    // declaring the server fully ready, or at least be aware that requests might 
-    // be processed by the proxy only after its internal init finishes.
-    // For this basic example, we can await the internal promise before starting the server 
-    // to ensure all profiles are loaded and logged.
+    // The constructor starts loading the flow list and profiles; ready() rejects if that fails,
+    // for example when a flow cannot be resolved under the 'strict' flowResolution policy.
     try {
-        // @ts-expect-error Accessing private member for robust startup logging
-        await langflowProxy.initializationPromise; 
+        await langflowProxy.ready();
         console.log("Basic Server (Express): LangflowProxyService internal initialization complete. Profiles processed.");
 
         const httpServer = http.createServer(app); // Use the Express app
@@ -0,0 +1,204 @@
+import { Logger } from '../utils/logger';
+import { FlowTweaks, PageContext } from '../types';
+
+/** A frame received from the proxy's WebSocket chat channel. */
+export interface ChatSocketFrame {
+    requestId?: string;
+    event: string;
+    data?: any;
+}
+
+export interface ChatSocketRequest {
+    profileId: string;
+    message: string;
+    sessionId?: string;
+    /** Paths of uploaded attachments, as returned by `LangflowChatClient.uploadFiles`. */
+    files?: string[];
+    /** Component settings allowed by the profile's `server.clientTweaks`. */
+    tweaks?: FlowTweaks;
+    /** Values describing the host page, checked against the profile's `server.context`. */
+    context?: PageContext;
+}
+
+export interface ChatSocketOptions {
+    /** Delay before the first reconnect attempt; doubled after each failed attempt. Defaults to 1000 ms. */
+    reconnectDelayMs?: number;
+    /** Upper bound for the reconnect delay. Defaults to 30000 ms. */
+    maxReconnectDelayMs?: number;
+}
+
+/** Events after which the server sends nothing more for a request. */
+const FINAL_EVENTS = ['end', 'error', 'cancelled'];
+
+/**
+ * A connection to the proxy's WebSocket chat channel, shared by all requests of a client.
+ * Requests are multiplexed over the socket by `requestId`. The socket is opened on first use.
+ * If it drops, requests in flight end with an error event and the socket is reopened in the
+ * background with exponential backoff.
+ */
+export class ChatSocket {
+    private readonly url: string;
+    private readonly logger: Logger;
+    private readonly reconnectDelayMs: number;
+    private readonly maxReconnectDelayMs: number;
+    private socket: WebSocket | null = null;
+    private connecting: Promise<WebSocket> | null = null;
+    private readonly listeners = new Map<string, (frame: ChatSocketFrame) => void>();
+    private requestCount = 0;
+    private hasConnected = false;
+    private reconnectAttempts = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private closed = false;
+
+    /**
+     * @param {string} url - The `ws:` or `wss:` URL of the chat channel.
+     * @param {Logger} logger - Logger for connection state changes.
+     * @param {ChatSocketOptions} [options] - Reconnect timing.
+     */
+    constructor(url: string, logger: Logger, options: ChatSocketOptions = {}) {
+        this.url = url;
+        this.logger = logger;
+        this.reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+        this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30000;
+    }
+
+    private connect(): Promise<WebSocket> {
+        if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+            return Promise.resolve(this.socket);
+        }
+        if (!this.connecting) {
+            this.connecting = new Promise<WebSocket>((resolve, reject) => {
+                const socket = new WebSocket(this.url);
+                let opened = false;
+                socket.onopen = () => {
+                    if (this.closed) {
+                        this.connecting = null;
+                        socket.close();
+                        reject(new Error("The chat connection was closed."));
+                        return;
+                    }
+                    opened = true;
+                    this.socket = socket;
+                    this.connecting = null;
+                    this.hasConnected = true;
+                    this.reconnectAttempts = 0;
+                    this.logger.debug("Chat socket connected.");
+                    resolve(socket);
+                };
+                socket.onmessage = (message: MessageEvent) => this.dispatch(message.data);
+                // An error is always followed by a close event, which handles both cases.
+                socket.onclose = () => {
+                    if (opened) {
+                        this.socket = null;
+                        this.failPendingRequests("Connection to the chat server was lost.");
+                    } else {
+                        this.connecting = null;
+                        reject(new Error("Could not connect to the chat server."));
+                    }
+                    this.scheduleReconnect();
+                };
+            });
+        }
+        return this.connecting;
+    }
+
+    private scheduleReconnect(): void {
+        if (this.closed || !this.hasConnected || this.reconnectTimer) {
+            return;
+        }
+        const delay = Math.min(this.reconnectDelayMs * 2 ** this.reconnectAttempts, this.maxReconnectDelayMs);
+        this.reconnectAttempts++;
+        this.logger.warn(`Chat socket disconnected. Reconnecting in ${delay} ms.`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            // A failed attempt closes the socket, which schedules the next one.
+            this.connect().catch(() => undefined);
+        }, delay);
+    }
+
+    private dispatch(raw: unknown): void {
+        let frame: ChatSocketFrame;
+        try {
+            frame = JSON.parse(String(raw));
+        } catch (e) {
+            this.logger.error("Chat socket received a frame that is not JSON:", raw);
+            return;
+        }
+        const listener = frame.requestId ? this.listeners.get(frame.requestId) : undefined;
+        if (listener) {
+            listener(frame);
+        } else if (frame.event === 'error') {
+            this.logger.error("Chat socket error:", frame.data?.message);
+        }
+    }
+
+    private failPendingRequests(message: string): void {
+        for (const listener of Array.from(this.listeners.values())) {
+            listener({ event: 'error', data: { message } });
+        }
+    }
+
+    /**
+     * Sends a chat message and yields the frames of its reply, ending after `end` or `error`.
+     * Returning from the iteration early, or aborting `signal`, cancels the request on the server.
+     * @param {ChatSocketRequest} request - The message and the profile and session it is for.
+     * @param {AbortSignal} [signal] - Ends the iteration without further frames when aborted.
+     */
+    async *request(request: ChatSocketRequest, signal?: AbortSignal): AsyncGenerator<ChatSocketFrame, void, undefined> {
+        const requestId = String(++this.requestCount);
+        const queue: ChatSocketFrame[] = [];
+        let wake: (() => void) | null = null;
+        let finished = false;
+        this.listeners.set(requestId, frame => {
+            queue.push(frame);
+            wake?.();
+        });
+        const onAbort = () => wake?.();
+        signal?.addEventListener('abort', onAbort);
+
+        try {
+            let socket: WebSocket;
+            try {
+                socket = await this.connect();
+            } catch (error: any) {
+                finished = true;
+                yield { event: 'error', data: { message: error.message } };
+                return;
+            }
+            if (signal?.aborted) {
+                finished = true; // Nothing was sent, so there is nothing to cancel.
+                return;
+            }
+            socket.send(JSON.stringify({ type: 'chat', requestId, ...request }));
+
+            while (!finished && !signal?.aborted) {
+                if (queue.length === 0) {
+                    await new Promise<void>(resolve => { wake = resolve; });
+                    wake = null;
+                    continue;
+                }
+                const frame = queue.shift()!;
+                finished = FINAL_EVENTS.includes(frame.event);
+                yield frame;
+            }
+        } finally {
+            signal?.removeEventListener('abort', onAbort);
+            this.listeners.delete(requestId);
+            if (!finished && this.socket && this.socket.readyState === WebSocket.OPEN) {
+                this.socket.send(JSON.stringify({ type: 'cancel', requestId }));
+            }
+        }
+    }
+
+    /** Closes the socket and stops reconnecting. Requests in flight end with an error event. */
+    close(): void {
+        this.closed = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.failPendingRequests("The chat connection was closed.");
+        this.socket?.close();
+        this.socket = null;
+    }
+}
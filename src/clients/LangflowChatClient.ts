@@ -1,10 +1,13 @@
 import { Logger } from '../utils/logger';
+import { FlowTweaks, PageContext } from '../types';
 
 export interface BotResponse {
     reply?: string;
     sessionId?: string;
     error?: string;
     detail?: string;
+    /** The HTTP status of a failed request; 503 means the chatbot service is unavailable. */
+    code?: number;
     // outputs?: any[]; // As per Langflow client, might be useful for 'end' event
 }
 
@@ -60,15 +63,65 @@ export interface ChatMessageData {
     // other optional fields from docs: edit, duration, properties, category, content_blocks
 }
 
+/** A file uploaded for the profile's flow, to be sent with a message. */
+export interface UploadedAttachment {
+    name: string;
+    /** The path to pass to `sendMessage` or `streamMessage`, and to `getFileUrl`. */
+    path: string;
+    type: string;
+    size: number;
+}
+
+export interface FileUploadResponse {
+    files?: UploadedAttachment[];
+    error?: string;
+    detail?: string;
+    /** The HTTP status of a failed upload. */
+    code?: number;
+}
+
 import { 
-    PROFILE_CHAT_ENDPOINT_PREFIX
+    PROFILE_CHAT_ENDPOINT_PREFIX,
+    PROFILE_FILES_ENDPOINT_SUFFIX,
+    PROXY_CHAT_SOCKET_SUFFIX
 } from '../config/apiPaths'; 
+import { ChatSocket, ChatSocketRequest } from './ChatSocket';
+
+/** How streamed replies are delivered: newline-delimited JSON, Server-Sent Events, or the WebSocket chat channel. */
+export type StreamTransportType = 'ndjson' | 'sse' | 'websocket';
+
+export interface LangflowChatClientOptions {
+    /**
+     * Transport for streamed replies. 'sse' gets through proxies that buffer chunked responses.
+     * 'websocket' sends messages over one shared socket that reconnects automatically; the proxy must
+     * be attached to the HTTP server with `attachWebSocket()`. Defaults to 'ndjson'.
+     * HTTP replies are parsed by their Content-Type, so 'ndjson' and 'sse' understand each other's format.
+     */
+    streamTransport?: StreamTransportType;
+    /**
+     * Component settings sent with every message, keyed by component ID and field. The proxy refuses
+     * messages whose tweaks are not all listed in the profile's `server.clientTweaks`.
+     */
+    tweaks?: FlowTweaks;
+    /**
+     * Values describing the host page, sent with every message. A function is called for each message,
+     * so the values can follow the page. The proxy refuses messages whose context does not match the
+     * profile's `server.context`.
+     */
+    context?: PageContext | (() => PageContext);
+}
 
 export class LangflowChatClient {
     private readonly baseApiUrl: string;
     private readonly chatEndpoint: string;
     private readonly historyEndpoint: string;
+    private readonly filesEndpoint: string;
     private readonly logger: Logger;
+    private readonly streamTransport: StreamTransportType;
+    private readonly tweaks?: FlowTweaks;
+    private readonly context?: PageContext | (() => PageContext);
+    private readonly socketEndpoint: string;
+    private chatSocket: ChatSocket | null = null;
     private profileId: string;
 
     /**
@@ -76,8 +129,9 @@ export class LangflowChatClient {
      * @param {string} profileId - The unique identifier for the chatbot profile.
      * @param {string} baseApiUrl - The base API URL for the Langflow proxy.
      * @param {Logger} [logger] - Optional logger instance.
+     * @param {LangflowChatClientOptions} [options] - Optional transport settings.
      */
-    constructor(profileId: string, baseApiUrl: string, logger?: Logger) {
+    constructor(profileId: string, baseApiUrl: string, logger?: Logger, options: LangflowChatClientOptions = {}) {
         if (!profileId || profileId.trim() === '') {
             throw new Error("profileId is required and cannot be empty.");
         }
@@ -87,24 +141,201 @@ export class LangflowChatClient {
         this.profileId = profileId;
         this.baseApiUrl = baseApiUrl.endsWith('/') ? baseApiUrl.slice(0, -1) : baseApiUrl;
         this.logger = logger || new Logger('info', 'LangflowChatClient');
+        this.streamTransport = options.streamTransport || 'ndjson';
+        this.tweaks = options.tweaks && Object.keys(options.tweaks).length > 0 ? options.tweaks : undefined;
+        this.context = options.context;
         // Construct endpoints using profileId
         this.chatEndpoint = `${this.baseApiUrl}${PROFILE_CHAT_ENDPOINT_PREFIX}/${this.profileId}`;
         this.historyEndpoint = `${this.baseApiUrl}${PROFILE_CHAT_ENDPOINT_PREFIX}/${this.profileId}/history`;
+        this.filesEndpoint = `${this.chatEndpoint}${PROFILE_FILES_ENDPOINT_SUFFIX}`;
+        this.socketEndpoint = `${this.baseApiUrl}${PROXY_CHAT_SOCKET_SUFFIX}`;
     }
 
     private generateSessionId(): string {
         return crypto.randomUUID();
     }
 
-    async sendMessage(message: string, sessionId?: string | null): Promise<BotResponse> {
+    /** Stamps the client's session ID on 'end' events, as the proxy's end payload may not carry it. */
+    private withSessionId(parsedEvent: StreamEvent, sessionId: string): StreamEvent {
+        if (parsedEvent.event === 'end') {
+            if (parsedEvent.data && (parsedEvent.data as EndEventData).flowResponse) {
+                (parsedEvent.data as EndEventData).flowResponse.sessionId = sessionId;
+            } else if (parsedEvent.data) {
+                (parsedEvent.data as any).sessionId = sessionId;
+            }
+        }
+        return parsedEvent;
+    }
+
+    /**
+     * Reads a `text/event-stream` response. Each SSE message carries the event type as its `event`
+     * field and the JSON event data as its `data` field; comments (heartbeats) are skipped.
+     */
+    private async *readServerSentEvents(body: ReadableStream<Uint8Array>, sessionId: string): AsyncGenerator<StreamEvent, void, undefined> {
+        const reader = body.getReader();
+        const decoder = new TextDecoder("utf-8");
+        let buffer = "";
+        let eventName = "";
+        let dataLines: string[] = [];
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (value) {
+                buffer += decoder.decode(value, { stream: true });
+            }
+            if (done) {
+                // A final blank line dispatches an event the server did not terminate.
+                buffer += decoder.decode() + '\n\n';
+            }
+
+            let newlineIndex;
+            while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+                const line = buffer.substring(0, newlineIndex).replace(/\r$/, '');
+                buffer = buffer.substring(newlineIndex + 1);
+
+                if (line === '') {
+                    if (dataLines.length > 0) {
+                        const data = dataLines.join('\n');
+                        try {
+                            yield this.withSessionId({ event: (eventName || 'message') as StreamEventType, data: JSON.parse(data) } as StreamEvent, sessionId);
+                        } catch (e: any) {
+                            this.logger.error(`[Stream] Error parsing SSE data:`, JSON.stringify(data), e);
+                            yield {
+                                event: 'error',
+                                data: { message: `Failed to parse SSE data`, detail: e.message, sessionId }
+                            } as StreamEvent<'error'>;
+                        }
+                    }
+                    eventName = "";
+                    dataLines = [];
+                } else if (!line.startsWith(':')) {
+                    const colonIndex = line.indexOf(':');
+                    const field = colonIndex >= 0 ? line.substring(0, colonIndex) : line;
+                    const fieldValue = colonIndex >= 0 ? line.substring(colonIndex + 1).replace(/^ /, '') : '';
+                    if (field === 'event') {
+                        eventName = fieldValue;
+                    } else if (field === 'data') {
+                        dataLines.push(fieldValue);
+                    }
+                }
+            }
+
+            if (done) {
+                break;
+            }
+        }
+    }
+
+    /**
+     * The page context to send with a message. A context function that throws is logged, and the
+     * message is sent without context.
+     * @returns {PageContext | undefined} The context, or undefined if there is none to send.
+     */
+    private resolveContext(): PageContext | undefined {
+        let context: PageContext | undefined;
+        try {
+            context = typeof this.context === 'function' ? this.context() : this.context;
+        } catch (error) {
+            this.logger.error("The page context function failed; sending the message without context:", error);
+            return undefined;
+        }
+        return context && Object.keys(context).length > 0 ? context : undefined;
+    }
+
+    /** Streams a reply over the WebSocket chat channel, opening the shared socket on first use. */
+    private async *streamOverSocket(message: string, sessionId: string, signal?: AbortSignal, files?: string[]): AsyncGenerator<StreamEvent, void, undefined> {
+        if (!this.chatSocket) {
+            const socketUrl = new URL(this.socketEndpoint, window.location.href);
+            socketUrl.protocol = socketUrl.protocol === 'https:' ? 'wss:' : 'ws:';
+            this.chatSocket = new ChatSocket(socketUrl.toString(), this.logger);
+        }
+        const request: ChatSocketRequest = { profileId: this.profileId, message, sessionId };
+        if (files) request.files = files;
+        if (this.tweaks) request.tweaks = this.tweaks;
+        const context = this.resolveContext();
+        if (context) request.context = context;
+        for await (const frame of this.chatSocket.request(request, signal)) {
+            if (frame.event === 'error') {
+                this.logger.error("Chat socket stream error:", frame.data);
+                yield { event: 'error', data: { ...frame.data, sessionId } } as StreamEvent<'error'>;
+            } else if (frame.event !== 'cancelled') {
+                yield this.withSessionId({ event: frame.event, data: frame.data } as StreamEvent, sessionId);
+            }
+        }
+    }
+
+    /** Closes the WebSocket chat channel, if one was opened. */
+    close(): void {
+        this.chatSocket?.close();
+        this.chatSocket = null;
+    }
+
+    /**
+     * Uploads files to attach to a message. Only profiles with attachments enabled accept them.
+     * @param {File[]} files - The files to upload, within the profile's `attachments` limits.
+     * @param {string | null} [sessionId] - The session the files are for; the proxy then only accepts them within it.
+     * @returns {Promise<FileUploadResponse>} The uploaded files, whose paths go with the message, or the error.
+     */
+    async uploadFiles(files: File[], sessionId?: string | null): Promise<FileUploadResponse> {
+        const form = new FormData();
+        files.forEach(file => form.append('file', file, file.name));
+        try {
+            const response = await fetch(this.withSessionQuery(this.filesEndpoint, sessionId), {
+                method: 'POST',
+                headers: {
+                    'Accept': 'application/json',
+                },
+                body: form,
+            });
+            if (!response.ok) {
+                let errorData: FileUploadResponse = { error: `Upload failed with status ${response.status}` };
+                try {
+                    errorData = await response.json();
+                } catch (e) {
+                    // Ignore if response is not JSON
+                }
+                this.logger.error("File upload error:", response.status, errorData);
+                return { error: errorData.error || `Upload failed: ${response.statusText}`, detail: errorData.detail, code: response.status };
+            }
+            return await response.json() as FileUploadResponse;
+        } catch (error: any) {
+            this.logger.error("Failed to upload files:", error);
+            return { error: "Network error or invalid response from server.", detail: error.message || 'Unknown fetch error' };
+        }
+    }
+
+    /**
+     * Returns the URL the proxy serves an attachment at, e.g. for an image's `src`.
+     * @param {string} path - An attachment path, as returned by `uploadFiles` or found in a history entry's `files`.
+     * @param {string | null} [sessionId] - The session the file was uploaded for, if any.
+     */
+    getFileUrl(path: string, sessionId?: string | null): string {
+        return this.withSessionQuery(`${this.filesEndpoint}/${path.split('/').map(encodeURIComponent).join('/')}`, sessionId);
+    }
+
+    private withSessionQuery(url: string, sessionId?: string | null): string {
+        return sessionId ? `${url}?session_id=${encodeURIComponent(sessionId)}` : url;
+    }
+
+    /**
+     * Sends a message and waits for the complete reply.
+     * @param {string} message - The user's message.
+     * @param {string | null} [sessionId] - The session to continue; a new one is generated if omitted.
+     * @param {string[]} [files] - Paths of attachments uploaded with `uploadFiles`.
+     */
+    async sendMessage(message: string, sessionId?: string | null, files?: string[]): Promise<BotResponse> {
         const effectiveSessionId = sessionId || this.generateSessionId();
 
         try {
-            const requestBody: { message: string; sessionId?: string; stream?: boolean; } = {
+            const requestBody: { message: string; sessionId?: string; stream?: boolean; files?: string[]; tweaks?: FlowTweaks; context?: PageContext; } = {
                 message,
                 sessionId: effectiveSessionId,
                 stream: false,
             };
+            if (files && files.length > 0) requestBody.files = files;
+            if (this.tweaks) requestBody.tweaks = this.tweaks;
+            const context = this.resolveContext();
+            if (context) requestBody.context = context;
             
             const response = await fetch(this.chatEndpoint, {
                 method: 'POST',
@@ -125,6 +356,7 @@ export class LangflowChatClient {
                 return { 
                     error: errorData.error || `API request failed: ${response.statusText}`,
                     detail: errorData.detail,
+                    code: response.status,
                     sessionId: errorData.sessionId || effectiveSessionId
                 };
             }
@@ -142,25 +374,43 @@ export class LangflowChatClient {
         }
     }
 
-    async *streamMessage(message: string, sessionId?: string | null): AsyncGenerator<StreamEvent, void, undefined> {
+    /**
+     * Sends a message and yields the reply as it streams in.
+     * @param {string} message - The user's message.
+     * @param {string | null} [sessionId] - The session to continue; a new one is generated if omitted.
+     * @param {AbortSignal} [signal] - Stops the reply. The request is aborted and the iteration ends without an error event.
+     * @param {string[]} [files] - Paths of attachments uploaded with `uploadFiles`.
+     */
+    async *streamMessage(message: string, sessionId?: string | null, signal?: AbortSignal, files?: string[]): AsyncGenerator<StreamEvent, void, undefined> {
         const effectiveSessionId = sessionId || this.generateSessionId();
+        const attachedFiles = files && files.length > 0 ? files : undefined;
 
         yield { event: 'stream_started', data: { sessionId: effectiveSessionId } };
 
-        const requestBody: { message: string; sessionId?: string; stream: boolean; } = {
+        if (this.streamTransport === 'websocket') {
+            yield* this.streamOverSocket(message, effectiveSessionId, signal, attachedFiles);
+            return;
+        }
+
+        const requestBody: { message: string; sessionId?: string; stream: boolean; files?: string[]; tweaks?: FlowTweaks; context?: PageContext; } = {
             message,
             sessionId: effectiveSessionId,
             stream: true,
         };
+        if (attachedFiles) requestBody.files = attachedFiles;
+        if (this.tweaks) requestBody.tweaks = this.tweaks;
+        const context = this.resolveContext();
+        if (context) requestBody.context = context;
 
         try {
             const response = await fetch(this.chatEndpoint, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'Accept': 'application/x-ndjson',
+                    'Accept': this.streamTransport === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
                 },
                 body: JSON.stringify(requestBody),
+                signal,
             });
 
             if (!response.ok) {
@@ -203,6 +453,11 @@ export class LangflowChatClient {
                 return;
             }
 
+            if ((response.headers?.get('Content-Type') || '').includes('text/event-stream')) {
+                yield* this.readServerSentEvents(response.body, effectiveSessionId);
+                return;
+            }
+
             const reader = response.body.getReader();
             const decoder = new TextDecoder("utf-8");
             let buffer = "";
@@ -223,15 +478,7 @@ export class LangflowChatClient {
                     const trimmedLine = line.trim();
                     if (trimmedLine.length > 0) {
                         try {
-                            let parsedEvent = JSON.parse(trimmedLine) as StreamEvent;
-                            if (parsedEvent.event === 'end') {
-                                if (parsedEvent.data && (parsedEvent.data as EndEventData).flowResponse) {
-                                    (parsedEvent.data as EndEventData).flowResponse.sessionId = effectiveSessionId;
-                                } else if (parsedEvent.data) {
-                                    (parsedEvent.data as any).sessionId = effectiveSessionId;
-                                }
-                            }
-                            yield parsedEvent;
+                            yield this.withSessionId(JSON.parse(trimmedLine) as StreamEvent, effectiveSessionId);
                         } catch (e: any) {
                             this.logger.error(`[Stream] Error parsing line:`, JSON.stringify(trimmedLine), e);
                             yield { 
@@ -260,15 +507,7 @@ export class LangflowChatClient {
                         const trimmedFinalLine = finalLineSegment.trim();
                         if(trimmedFinalLine.length > 0) {
                             try {
-                                let parsedEvent = JSON.parse(trimmedFinalLine) as StreamEvent;
-                                if (parsedEvent.event === 'end') {
-                                    if (parsedEvent.data && (parsedEvent.data as EndEventData).flowResponse) {
-                                        (parsedEvent.data as EndEventData).flowResponse.sessionId = effectiveSessionId;
-                                    } else if (parsedEvent.data) {
-                                        (parsedEvent.data as any).sessionId = effectiveSessionId;
-                                    }
-                                }
-                                yield parsedEvent;
+                                yield this.withSessionId(JSON.parse(trimmedFinalLine) as StreamEvent, effectiveSessionId);
                             } catch (e: any) {
                                 this.logger.error(`[Stream] Error parsing final line segment:`, JSON.stringify(trimmedFinalLine), e);
                                 yield { 
@@ -286,15 +525,7 @@ export class LangflowChatClient {
                     // Process any very last piece of data if buffer is not empty and has no newline
                     if (buffer.trim().length > 0) {
                         try {
-                            let parsedEvent = JSON.parse(buffer.trim()) as StreamEvent;
-                             if (parsedEvent.event === 'end') {
-                                if (parsedEvent.data && (parsedEvent.data as EndEventData).flowResponse) {
-                                    (parsedEvent.data as EndEventData).flowResponse.sessionId = effectiveSessionId;
-                                } else if (parsedEvent.data) {
-                                    (parsedEvent.data as any).sessionId = effectiveSessionId;
-                                }
-                            }
-                            yield parsedEvent;
+                            yield this.withSessionId(JSON.parse(buffer.trim()) as StreamEvent, effectiveSessionId);
                         } catch (e: any) {
                              this.logger.error(`[Stream] Error parsing remaining buffer:`, JSON.stringify(buffer.trim()), e);
                              yield { 
@@ -312,6 +543,10 @@ export class LangflowChatClient {
                 }
             }
         } catch (error: any) {
+            if (signal?.aborted) {
+                this.logger.info("Stream stopped by the user.");
+                return;
+            }
             this.logger.error("General stream error:", error);
             yield { 
                 event: 'error', 
@@ -1,6 +1,7 @@
 import { Logger } from '../utils/logger';
 import { DatetimeHandler, createDefaultDatetimeHandler, isValidDatetimeHandler } from '../utils/datetimeUtils';
-import { SenderConfig } from '../types';
+import { HtmlSanitizer } from '../utils/htmlSanitizer';
+import { SenderConfig, SanitizerConfig } from '../types';
 
 /**
  * Configuration for the ChatDisplayManager.
@@ -10,8 +11,18 @@ export interface ChatDisplayManagerConfig extends SenderConfig {
     messageTemplate: string;
     /** Optional datetime format string (e.g., 'HH:mm') for the default datetime handler. */
     datetimeFormat?: string;
+    /** Optional sanitizer settings applied to all message content before it reaches the DOM. */
+    sanitizer?: SanitizerConfig;
+    /** Resolves an attachment path to the URL it is served at; paths are used as URLs when unset. */
+    fileUrl?: (path: string) => string;
 }
 
+/** Attachments with these extensions are shown as thumbnails; other files as download links. */
+const IMAGE_FILE_PATTERN = /\.(png|jpe?g|gif|webp|bmp|svg)$/i;
+
+/** Langflow prefixes stored file names with the upload time, e.g. '2025-01-31_09-15-00_report.pdf'. */
+const UPLOAD_TIMESTAMP_PREFIX = /^\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}_/;
+
 /**
  * Manages the display of messages and other UI elements within the chat widget.
  * Handles DOM manipulations for adding, updating, and removing messages, scrolling, etc.
@@ -19,6 +30,7 @@ export interface ChatDisplayManagerConfig extends SenderConfig {
 export class ChatDisplayManager {
     private chatMessagesContainer: HTMLElement | null;
     private datetimeHandler: DatetimeHandler;
+    private sanitizer: HtmlSanitizer;
 
     /**
      * Constructs a ChatDisplayManager instance.
@@ -37,6 +49,7 @@ export class ChatDisplayManager {
             // It will be harder to operate, but we don't throw here to allow potential recovery or partial functionality.
         }
         this.datetimeHandler = createDefaultDatetimeHandler(this.config.datetimeFormat); 
+        this.sanitizer = new HtmlSanitizer(this.config.sanitizer);
     }
 
     /**
@@ -56,8 +69,9 @@ export class ChatDisplayManager {
     /**
      * Adds a message to the chat display.
      * @param {string} sender - The sender of the message (e.g., user, bot).
-     * @param {string} message - The message content (HTML or plain text).
-     * @param {boolean} [isThinking=false] - Whether the message is a "thinking" indicator.
+     * @param {string} message - The message content (HTML or plain text). It is sanitized before insertion.
+     * @param {boolean} [isThinking=false] - Whether the message is a "thinking" indicator. The indicator markup is
+     *                                       widget-owned, so it bypasses the sanitizer.
      * @param {string} [datetime] - Optional ISO datetime string for the message. Defaults to current time.
      * @returns {HTMLElement | null} The created message element, or null if an error occurred.
      */
@@ -84,14 +98,14 @@ export class ChatDisplayManager {
         const effectiveDatetime = datetime || new Date().toISOString();
         const formattedDatetime = this.datetimeHandler(effectiveDatetime); 
 
-        // Ensure message content is treated as text to prevent XSS if it's not explicitly HTML.
-        // For this component, we assume `message` can be HTML as it's used for bot thinking bubbles.
-        // Proper sanitization should happen before this stage if content is purely user-generated and untrusted.
+        const safeMessage = isThinking ? message : this.sanitizer.sanitize(message);
+
+        // Replacer functions keep `$` sequences in the content from being read as replacement patterns.
         let populatedTemplate = this.config.messageTemplate
             .replace("{{messageClasses}}", messageClasses)
-            .replace("{{sender}}", sender)
-            .replace("{{message}}", message)
-            .replace("{{datetime}}", formattedDatetime);
+            .replace("{{sender}}", () => sender)
+            .replace("{{message}}", () => safeMessage)
+            .replace("{{datetime}}", () => formattedDatetime);
         
         const tempDiv = document.createElement('div');
         tempDiv.innerHTML = populatedTemplate.trim();
@@ -111,9 +125,10 @@ export class ChatDisplayManager {
      * Prioritizes updating the `.message-text-content` span within the element.
      * If not found, falls back to updating the first child (if not sender display) or the element itself.
      * @param {HTMLElement} messageElement - The bot message HTML element to update.
-     * @param {string} htmlOrText - The new HTML or text content.
+     * @param {string} htmlOrText - The new HTML or text content. It is sanitized before insertion.
      */
     public updateBotMessageContent(messageElement: HTMLElement, htmlOrText: string): void {
+        htmlOrText = this.sanitizer.sanitize(htmlOrText);
         const textContentSpan = messageElement.querySelector('.message-text-content');
         if (textContentSpan) {
             textContentSpan.innerHTML = htmlOrText;
@@ -149,6 +164,44 @@ export class ChatDisplayManager {
         }
     }
 
+    /**
+     * Shows a message's attachments below its bubble: images as thumbnails linking to the full image,
+     * other files as download links. Built with DOM APIs, so file names never pass through `innerHTML`.
+     * @param {HTMLElement} messageElement - The message the files were sent with.
+     * @param {string[]} files - The attachment paths, e.g. from a history entry's `files`.
+     */
+    public addAttachmentsToMessage(messageElement: HTMLElement, files: string[]): void {
+        const list = document.createElement('div');
+        list.className = 'message-attachments';
+        for (const path of files) {
+            const url = this.config.fileUrl ? this.config.fileUrl(path) : path;
+            const fileName = (path.split('/').pop() || path).replace(UPLOAD_TIMESTAMP_PREFIX, '');
+            const link = document.createElement('a');
+            link.href = url;
+            link.target = '_blank';
+            link.rel = 'noopener';
+            if (IMAGE_FILE_PATTERN.test(path)) {
+                link.className = 'message-attachment-image';
+                const image = document.createElement('img');
+                image.src = url;
+                image.alt = fileName;
+                link.appendChild(image);
+            } else {
+                link.className = 'message-attachment-file';
+                link.setAttribute('download', fileName);
+                link.textContent = fileName;
+            }
+            list.appendChild(link);
+        }
+        const bubble = messageElement.querySelector('.message-bubble');
+        if (bubble) {
+            bubble.insertAdjacentElement('afterend', list);
+        } else {
+            messageElement.appendChild(list);
+        }
+        this.scrollChatToBottom();
+    }
+
     /**
      * Removes a specific message element from the display.
      * @param {HTMLElement} messageElement - The HTML element of the message to remove.
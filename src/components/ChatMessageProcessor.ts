@@ -9,6 +9,8 @@
  * - Interacting with `LangflowChatClient` to send the message and receive responses (either full or streamed chunks).
  * - Handling various stream events (`token`, `error`, `end`, `stream_started`, `add_message`) to update the UI progressively.
  * - Managing the display of "thinking" indicators during bot processing.
+ * - Stopping a streaming reply on request, keeping the partial answer.
+ * - Reporting when the server says the chatbot service is unavailable, so the UI can show a notice.
  * - Updating the session ID based on responses from the Langflow backend.
  * - Relaying UI changes (like adding messages, updating content, disabling/enabling input)
      to the main ChatWidget or other UI controller via the `MessageProcessorUICallbacks`.
@@ -20,6 +22,20 @@ import { SenderConfig } from '../types';
 import { THINKING_BUBBLE_HTML } from '../config/uiConstants';
 import { IMessageParser } from './messageParsers/IMessageParser';
 
+/** The status the proxy answers with while the chatbot service (Langflow) is unavailable. */
+const SERVICE_UNAVAILABLE_STATUS = 503;
+
+/**
+ * Joins an error message and its detail for display. Server errors that are already full sentences
+ * ("Message is too long.") are followed by the detail as a second sentence rather than a colon.
+ */
+function formatErrorMessage(message: string, detail?: string): string {
+    if (!detail) {
+        return message;
+    }
+    return /[.!?]$/.test(message.trim()) ? `${message} ${detail}` : `${message}: ${detail}`;
+}
+
 export interface MessageProcessorUICallbacks {
     addMessage: (sender: string, message: string, isThinking?: boolean, datetime?: string) => HTMLElement | null;
     updateMessageContent: (element: HTMLElement, htmlOrText: string) => void;
@@ -29,9 +45,18 @@ export interface MessageProcessorUICallbacks {
     scrollChatToBottom: () => void;
     updateSessionId: (sessionId: string, notify?: boolean) => void; // notify is important for ChatWidget's logic
     setInputDisabled: (disabled: boolean) => void;
+    /** Shows or hides the control that stops a streaming reply; omitted by UIs without one. */
+    setStopAvailable?: (available: boolean) => void;
+    /** Shows or hides a notice that the chatbot service is unavailable; omitted by UIs without one. */
+    setServiceUnavailable?: (unavailable: boolean) => void;
 }
 
 export class ChatMessageProcessor {
+    /** Parser output rendered so far for the current stream; parsers that append chunks build on it. */
+    private renderedStreamContent = "";
+    /** Aborts the reply that is currently streaming, if any. */
+    private activeStream: AbortController | null = null;
+
     /**
      * Constructs a ChatMessageProcessor.
      * @param chatClient The client for interacting with the Langflow API.
@@ -65,8 +90,9 @@ export class ChatMessageProcessor {
      * It disables input, determines streaming vs. non-streaming, calls the appropriate handler,
      * and re-enables input.
      * @param messageText The text of the message from the user.
+     * @param files Paths of the attachments uploaded for the message, if any.
      */
-    public async process(messageText: string): Promise<void> {
+    public async process(messageText: string, files?: string[]): Promise<void> {
         this.logger.info(`ChatMessageProcessor starting to process: "${messageText}"`);
 
         const useStream = this.getEnableStream();
@@ -76,15 +102,26 @@ export class ChatMessageProcessor {
         this.ui.setBotMessageElement(null); 
 
         if (useStream) {
-            await this.handleStreamingResponse(messageText, sessionIdToSend);
+            await this.handleStreamingResponse(messageText, sessionIdToSend, files);
         } else {
-            await this.handleNonStreamingResponse(messageText, sessionIdToSend);
+            await this.handleNonStreamingResponse(messageText, sessionIdToSend, files);
         }
 
         this.ui.setInputDisabled(false);
         this.logger.info(`ChatMessageProcessor finished processing: "${messageText}"`);
     }
 
+    /**
+     * Stops the reply that is currently streaming. The request is aborted, and the part of the
+     * reply received so far stays on screen, marked as stopped.
+     */
+    public stop(): void {
+        if (this.activeStream) {
+            this.logger.info("ChatMessageProcessor: Stopping the streaming response.");
+            this.activeStream.abort();
+        }
+    }
+
     /**
      * Attempts to update an existing "thinking" message bubble to display an error.
      * @param baseErrorMessage The main error message text.
@@ -109,14 +146,22 @@ export class ChatMessageProcessor {
      * Iterates through stream events, updates UI progressively, and handles errors/completion.
      * @param messageText The user's message text.
      * @param sessionIdToSend The session ID to use for the request.
+     * @param files Paths of the message's attachments, if any.
      */
-    private async handleStreamingResponse(messageText: string, sessionIdToSend?: string): Promise<void> {
+    private async handleStreamingResponse(messageText: string, sessionIdToSend?: string, files?: string[]): Promise<void> {
         this.displayInitialThinkingIndicator();
 
         let accumulatedResponse = "";
+        this.renderedStreamContent = "";
+        const abortController = new AbortController();
+        this.activeStream = abortController;
+        this.ui.setStopAvailable?.(true);
 
         try {
-            for await (const event of this.chatClient.streamMessage(messageText, sessionIdToSend)) {
+            for await (const event of this.chatClient.streamMessage(messageText, sessionIdToSend, abortController.signal, files)) {
+                if (abortController.signal.aborted) {
+                    break;
+                }
                 const currentBotElement = this.ui.getBotMessageElement();
 
                 if (event.event === 'stream_started') {
@@ -130,6 +175,9 @@ export class ChatMessageProcessor {
                 this.clearThinkingIndicatorIfNeeded(event, currentBotElement, accumulatedResponse);
                 accumulatedResponse = this.processStreamEvent(event, accumulatedResponse);
             }
+            if (abortController.signal.aborted) {
+                this.markResponseStopped(accumulatedResponse);
+            }
         } catch (error: any) {
             this.logger.error("handleStreamingResponse: Failed to process stream message:", error);
             const displayMessage = error.message || "Error processing stream.";
@@ -138,6 +186,8 @@ export class ChatMessageProcessor {
                 this.ui.addMessage(this.config.errorSender, parsedDisplayMessage, false, new Date().toISOString());
             }
         } finally {
+            this.activeStream = null;
+            this.ui.setStopAvailable?.(false);
             const botElementForFinally = this.ui.getBotMessageElement();
             const messageSpan = botElementForFinally?.querySelector('.message-text-content');
 
@@ -164,6 +214,25 @@ export class ChatMessageProcessor {
         }
     }
 
+    /**
+     * Marks the current bot message as stopped, keeping whatever was streamed before the user stopped it.
+     * @param accumulatedResponse The text received before the stream was stopped.
+     */
+    private markResponseStopped(accumulatedResponse: string): void {
+        const botElement = this.ui.getBotMessageElement();
+        if (!botElement) {
+            return;
+        }
+        if (botElement.classList.contains('thinking')) {
+            this.ui.updateMessageContent(botElement, "");
+            botElement.classList.remove('thinking');
+        } else if (accumulatedResponse.length > 0 && this.messageParser.rendersAccumulatedContent) {
+            // Close any markup the partial text left open, as at the end of a complete stream.
+            this.ui.updateMessageContent(botElement, this.messageParser.parseComplete(accumulatedResponse));
+        }
+        botElement.classList.add('stopped');
+    }
+
     /**
      * Clears the "thinking" indicator from a message element if conditions are met
      * (e.g., content starts streaming, or an error/end event occurs).
@@ -224,6 +293,8 @@ export class ChatMessageProcessor {
     /**
      * Handles a 'token' event from the stream.
      * Appends the token to the accumulated response and updates the UI.
+     * The full rendering is written through `updateMessageContent` on every token (rather than appending
+     * to `innerHTML`) so it always passes the display sanitizer as a whole.
      * @param data The data associated with the token event.
      * @param accumulatedResponse The response accumulated so far.
      * @returns The new accumulated response.
@@ -234,7 +305,10 @@ export class ChatMessageProcessor {
             const textSpan = botMessageElement.querySelector<HTMLElement>('.message-text-content');
             if (textSpan) {
                 const parsedChunk = this.messageParser.parseChunk(data.chunk, accumulatedResponse);
-                textSpan.innerHTML += parsedChunk;
+                this.renderedStreamContent = this.messageParser.rendersAccumulatedContent
+                    ? parsedChunk
+                    : this.renderedStreamContent + parsedChunk;
+                this.ui.updateMessageContent(botMessageElement, this.renderedStreamContent);
                 this.ui.scrollChatToBottom();
             } else {
                 this.logger.warn("Stream token: message-text-content span not found in bot message element. Cannot append token.");
@@ -250,9 +324,12 @@ export class ChatMessageProcessor {
      * @param data The data associated with the error event.
      */
     private handleStreamErrorEvent(data: StreamEventDataMap['error']): void {
+        if (data.code === SERVICE_UNAVAILABLE_STATUS) {
+            this.ui.setServiceUnavailable?.(true);
+        }
         const currentBotElement = this.ui.getBotMessageElement();
         if (currentBotElement) {
-            const displayMessage = data.detail ? `${data.message}: ${data.detail}` : data.message;
+            const displayMessage = formatErrorMessage(data.message, data.detail);
             const parsedDisplayMessage = this.messageParser.parseComplete(displayMessage);
             this.ui.updateMessageContent(currentBotElement, parsedDisplayMessage);
             currentBotElement.classList.remove('thinking', 'bot-message');
@@ -310,13 +387,10 @@ export class ChatMessageProcessor {
 
             const parsedMessage = this.messageParser.parseComplete(messageContent);
             
-            const textSpan = currentBotElement.querySelector<HTMLElement>('.message-text-content');
-            if (textSpan) {
-                textSpan.innerHTML = parsedMessage; 
-            } else {
+            if (!currentBotElement.querySelector('.message-text-content')) {
                  this.logger.warn("handleStreamAddMessageEvent: .message-text-content span not found. Updating currentBotElement directly.");
-                 this.ui.updateMessageContent(currentBotElement, parsedMessage);
             }
+            this.ui.updateMessageContent(currentBotElement, parsedMessage);
             this.ui.scrollChatToBottom();
         } else {
             this.logger.warn("handleStreamAddMessageEvent: Bot message content found, but no currentBotElement to update. This is unusual if a thinking indicator was expected.");
@@ -331,6 +405,7 @@ export class ChatMessageProcessor {
      */
     private handleStreamEndEvent(data: StreamEventDataMap['end'], accumulatedResponse: string): void {
         const botElement = this.ui.getBotMessageElement();
+        this.ui.setServiceUnavailable?.(false);
 
         if (botElement) {
             if (botElement.classList.contains('thinking') && data.flowResponse?.reply && accumulatedResponse === "") {
@@ -348,6 +423,10 @@ export class ChatMessageProcessor {
                  }
 
             }
+            // Streaming renders tolerate half-received markup; swap in the definitive rendering now that the text is complete.
+            if (accumulatedResponse.length > 0 && this.messageParser.rendersAccumulatedContent && !botElement.classList.contains('error-message')) {
+                this.ui.updateMessageContent(botElement, this.messageParser.parseComplete(accumulatedResponse));
+            }
             if (data.sessionId) {
                 this.ui.updateSessionId(data.sessionId);
             }
@@ -362,20 +441,25 @@ export class ChatMessageProcessor {
      * Sends the message, waits for a full response, and updates the UI.
      * @param messageText The user's message text.
      * @param sessionIdToSend The session ID to use for the request.
+     * @param files Paths of the message's attachments, if any.
      */
-    private async handleNonStreamingResponse(messageText: string, sessionIdToSend?: string): Promise<void> {
+    private async handleNonStreamingResponse(messageText: string, sessionIdToSend?: string, files?: string[]): Promise<void> {
         this.displayInitialThinkingIndicator();
 
         try {
-            const result: BotResponse = await this.chatClient.sendMessage(messageText, sessionIdToSend);
+            const result: BotResponse = await this.chatClient.sendMessage(messageText, sessionIdToSend, files);
             const botElement = this.ui.getBotMessageElement();
 
             if (botElement && botElement.classList.contains('thinking')) {
                 if (result.reply) {
                     const parsedReply = this.messageParser.parseComplete(result.reply);
                     this.ui.updateMessageContent(botElement, parsedReply);
+                    this.ui.setServiceUnavailable?.(false);
                 } else if (result.error) {
-                    const errorMessage = result.detail ? `${result.error}: ${result.detail}` : result.error;
+                    if (result.code === SERVICE_UNAVAILABLE_STATUS) {
+                        this.ui.setServiceUnavailable?.(true);
+                    }
+                    const errorMessage = formatErrorMessage(result.error, result.detail);
                     const parsedErrorMessage = this.messageParser.parseComplete(errorMessage);
                     this.ui.updateMessageContent(botElement, parsedErrorMessage);
                     botElement.classList.remove('bot-message'); // It's an error, not a regular bot message
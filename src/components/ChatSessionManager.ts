@@ -11,6 +11,8 @@ export interface SessionManagerDisplayCallbacks {
     addMessage: (sender: string, message: string, isThinking?: boolean, datetime?: string) => HTMLElement | null;
     /** Scrolls the chat display to the bottom. */
     scrollChatToBottom: () => void;
+    /** Shows the files a message was sent with; omitted by UIs that do not show attachments. */
+    addAttachments?: (messageElement: HTMLElement, files: string[]) => void;
 }
 
 /**
@@ -148,12 +150,15 @@ export class ChatSessionManager {
             
             const normalizedTimestamp = normalizeLangflowTimestamp(rawMessage.timestamp);
 
-            this.displayCallbacks.addMessage(
+            const messageElement = this.displayCallbacks.addMessage(
                 senderType,
                 messageText,
                 false, // History messages are not "thinking" indicators
                 normalizedTimestamp
             );
+            if (messageElement && rawMessage.files && rawMessage.files.length > 0) {
+                this.displayCallbacks.addAttachments?.(messageElement, rawMessage.files);
+            }
         }
         this._isHistoryLoaded = true;
         this.displayCallbacks.scrollChatToBottom();
@@ -5,10 +5,11 @@ import { ChatDisplayManager, ChatDisplayManagerConfig } from './ChatDisplayManag
 import { ChatTemplateManager, TemplateManagerConfig } from './ChatTemplateManager';
 import { ChatSessionManager } from './ChatSessionManager';
 import { DatetimeHandler } from '../utils/datetimeUtils';
-import { SenderConfig, Labels, Template } from '../types';
+import { SenderConfig, Labels, Template, MessageFormat, SanitizerConfig, AttachmentPolicy } from '../types';
 import { IMessageParser } from './messageParsers/IMessageParser';
 import { PlaintextMessageParser } from './messageParsers/PlaintextMessageParser';
-import { SVG_RESET_ICON } from '../config/uiConstants';
+import { MarkdownMessageParser } from './messageParsers/MarkdownMessageParser';
+import { DEFAULT_MESSAGE_FORMAT, SVG_RESET_ICON } from '../config/uiConstants';
 
 /**
  * Configuration options for the ChatWidget.
@@ -18,6 +19,12 @@ export interface ChatWidgetConfigOptions {
     template?: Partial<Template & { widgetHeaderTemplate?: string }>;
     /** Optional datetime format string (e.g., 'HH:mm') for displaying message timestamps. */
     datetimeFormat?: string;
+    /** How bot messages are rendered: 'plaintext' (default) or 'markdown'. */
+    messageFormat?: MessageFormat;
+    /** Sanitizer applied to all message content; defaults to the built-in tag/attribute allowlist. */
+    sanitizer?: SanitizerConfig;
+    /** Set for profiles that accept attachments: shows the attach button and accepts dropped files. */
+    attachments?: AttachmentPolicy;
 }
 
 /**
@@ -48,11 +55,23 @@ export class ChatWidget {
         messageTemplate?: string;
         widgetHeaderTemplate?: string;
         datetimeFormat?: string;
+        messageFormat: MessageFormat;
+        sanitizer?: SanitizerConfig;
+        attachments?: AttachmentPolicy;
     };
     
     private sendButtonClickListener?: () => void;
     private chatInputKeyPressListener?: (event: KeyboardEvent) => void;
     private resetButtonClickListener?: () => void;
+    private stopButtonClickListener?: () => void;
+    private attachButtonClickListener?: () => void;
+    private fileInputChangeListener?: () => void;
+    private dragOverListener?: (event: DragEvent) => void;
+    private dragLeaveListener?: () => void;
+    private dropListener?: (event: DragEvent) => void;
+
+    /** Files chosen for the next message; uploaded when it is sent. */
+    private pendingFiles: File[] = [];
 
     private logger: Logger;
     private messageProcessor: ChatMessageProcessor;
@@ -120,6 +139,9 @@ export class ChatWidget {
             messageTemplate: effectiveTemplate.messageTemplate,
             widgetHeaderTemplate: effectiveTemplate.widgetHeaderTemplate,
             datetimeFormat: configOptions.datetimeFormat,
+            messageFormat: configOptions.messageFormat === 'markdown' ? 'markdown' : DEFAULT_MESSAGE_FORMAT,
+            sanitizer: configOptions.sanitizer,
+            attachments: configOptions.attachments,
         };
         
         const templateMgrConfig: TemplateManagerConfig = {
@@ -141,6 +163,8 @@ export class ChatWidget {
             errorSender: this.config.errorSender,
             systemSender: this.config.systemSender,
             datetimeFormat: this.config.datetimeFormat,
+            sanitizer: this.config.sanitizer,
+            fileUrl: (path: string) => this.chatClient.getFileUrl(path, this.sessionManager.currentSessionId),
         };
 
         this.displayManager = new ChatDisplayManager(
@@ -149,6 +173,10 @@ export class ChatWidget {
             this.logger
         );
 
+        this.messageParser = this.config.messageFormat === 'markdown'
+            ? new MarkdownMessageParser()
+            : new PlaintextMessageParser();
+
         this.sessionManager = new ChatSessionManager(
             this.chatClient,
             { 
@@ -160,8 +188,14 @@ export class ChatWidget {
             { 
                 clearMessages: () => this.displayManager.clearMessages(),
                 addMessage: (sender: string, message: string, isThinking?: boolean, datetime?: string) => 
-                    this.displayManager.addMessageToDisplay(sender, message, isThinking, datetime),
+                    this.displayManager.addMessageToDisplay(
+                        sender,
+                        sender === this.config.botSender ? this.messageParser.parseComplete(message) : message,
+                        isThinking,
+                        datetime
+                    ),
                 scrollChatToBottom: () => this.displayManager.scrollChatToBottom(),
+                addAttachments: (messageElement: HTMLElement, files: string[]) => this.displayManager.addAttachmentsToMessage(messageElement, files),
             },
             this.logger,
             initialSessionId, 
@@ -182,10 +216,11 @@ export class ChatWidget {
                 }
             },
             setInputDisabled: (disabled: boolean) => this.setInputDisabled(disabled),
+            setStopAvailable: (available: boolean) => this.setStopAvailable(available),
+            setServiceUnavailable: (unavailable: boolean) => this.setServiceUnavailable(unavailable),
         };
 
         this.uiCallbacks = messageProcessorCallbacks;
-        this.messageParser = new PlaintextMessageParser();
 
         this.messageProcessor = new ChatMessageProcessor(
             this.chatClient,
@@ -304,6 +339,55 @@ export class ChatWidget {
             this.resetButtonClickListener = () => this.handleResetButtonClick();
             resetButton.addEventListener('click', this.resetButtonClickListener);
         }
+
+        const stopButton = this.element.querySelector<HTMLButtonElement>('.stop-button');
+        if (stopButton) {
+            this.stopButtonClickListener = () => this.messageProcessor.stop();
+            stopButton.addEventListener('click', this.stopButtonClickListener);
+        }
+
+        if (this.config.attachments) {
+            this.setupAttachmentListeners();
+        }
+    }
+
+    /**
+     * Shows the attach button and lets files be picked with it or dropped onto the widget.
+     * Input area templates without an `.attach-button` and `.file-input` only accept dropped files.
+     */
+    private setupAttachmentListeners(): void {
+        const attachButton = this.element.querySelector<HTMLButtonElement>('.attach-button');
+        const fileInput = this.element.querySelector<HTMLInputElement>('.file-input');
+        if (attachButton && fileInput) {
+            attachButton.style.display = '';
+            this.attachButtonClickListener = () => fileInput.click();
+            this.fileInputChangeListener = () => {
+                this.addPendingFiles(Array.from(fileInput.files || []));
+                fileInput.value = ''; // Lets the same file be picked again after it was removed.
+            };
+            attachButton.addEventListener('click', this.attachButtonClickListener);
+            fileInput.addEventListener('change', this.fileInputChangeListener);
+        }
+
+        this.dragOverListener = (event: DragEvent) => {
+            if (!event.dataTransfer?.types?.includes('Files')) {
+                return;
+            }
+            event.preventDefault();
+            this.element.querySelector('.chat-widget')?.classList.add('drag-over');
+        };
+        this.dragLeaveListener = () => this.element.querySelector('.chat-widget')?.classList.remove('drag-over');
+        this.dropListener = (event: DragEvent) => {
+            if (!event.dataTransfer?.files?.length) {
+                return;
+            }
+            event.preventDefault();
+            this.element.querySelector('.chat-widget')?.classList.remove('drag-over');
+            this.addPendingFiles(Array.from(event.dataTransfer.files));
+        };
+        this.element.addEventListener('dragover', this.dragOverListener);
+        this.element.addEventListener('dragleave', this.dragLeaveListener);
+        this.element.addEventListener('drop', this.dropListener);
     }
 
     /**
@@ -328,6 +412,94 @@ export class ChatWidget {
             resetButton.removeEventListener('click', this.resetButtonClickListener);
             this.resetButtonClickListener = undefined;
         }
+
+        const stopButton = this.element.querySelector<HTMLButtonElement>('.stop-button');
+        if (stopButton && this.stopButtonClickListener) {
+            stopButton.removeEventListener('click', this.stopButtonClickListener);
+            this.stopButtonClickListener = undefined;
+        }
+
+        const attachButton = this.element.querySelector<HTMLButtonElement>('.attach-button');
+        const fileInput = this.element.querySelector<HTMLInputElement>('.file-input');
+        if (attachButton && this.attachButtonClickListener) {
+            attachButton.removeEventListener('click', this.attachButtonClickListener);
+            this.attachButtonClickListener = undefined;
+        }
+        if (fileInput && this.fileInputChangeListener) {
+            fileInput.removeEventListener('change', this.fileInputChangeListener);
+            this.fileInputChangeListener = undefined;
+        }
+        if (this.dragOverListener && this.dragLeaveListener && this.dropListener) {
+            this.element.removeEventListener('dragover', this.dragOverListener);
+            this.element.removeEventListener('dragleave', this.dragLeaveListener);
+            this.element.removeEventListener('drop', this.dropListener);
+            this.dragOverListener = this.dragLeaveListener = this.dropListener = undefined;
+        }
+    }
+
+    /**
+     * Tells why a file cannot be attached, checking the limits the server will enforce anyway.
+     * The type is the one the browser guesses from the file name, so this check only spares the user a
+     * failed upload; the proxy checks the content of the types it can recognize.
+     * @returns {string | null} The reason, or null if the file may be attached.
+     */
+    private attachmentError(file: File): string | null {
+        const { maxFileBytes, allowedTypes } = this.config.attachments || {};
+        if (maxFileBytes !== undefined && file.size > maxFileBytes) {
+            return `'${file.name}' is too large to attach.`;
+        }
+        const type = (file.type || 'application/octet-stream').toLowerCase();
+        if (allowedTypes && !allowedTypes.some(allowed => allowed.endsWith('/*') ? type.startsWith(allowed.slice(0, -1).toLowerCase()) : type === allowed.toLowerCase())) {
+            return `Files of type '${type}' cannot be attached.`;
+        }
+        return null;
+    }
+
+    /**
+     * Adds files to those sent with the next message, reporting the ones that cannot be attached.
+     * @param {File[]} files - Files picked with the attach button or dropped onto the widget.
+     */
+    private addPendingFiles(files: File[]): void {
+        const maxFiles = this.config.attachments?.maxFiles;
+        for (const file of files) {
+            const error = maxFiles !== undefined && this.pendingFiles.length >= maxFiles
+                ? `At most ${maxFiles} files may be attached to a message.`
+                : this.attachmentError(file);
+            if (error) {
+                this.displayManager.addMessageToDisplay(this.config.errorSender, error, false, new Date().toISOString());
+                continue;
+            }
+            this.pendingFiles.push(file);
+        }
+        this.renderPendingFiles();
+    }
+
+    /**
+     * Lists the files chosen for the next message as chips with a remove button.
+     * Input area templates without a `.pending-attachments` element show nothing.
+     */
+    private renderPendingFiles(): void {
+        const container = this.element.querySelector<HTMLElement>('.pending-attachments');
+        if (!container) {
+            return;
+        }
+        container.innerHTML = '';
+        this.pendingFiles.forEach(file => {
+            const chip = document.createElement('span');
+            chip.className = 'attachment-chip';
+            chip.textContent = file.name;
+            const removeButton = document.createElement('button');
+            removeButton.className = 'attachment-chip-remove';
+            removeButton.title = `Remove ${file.name}`;
+            removeButton.textContent = '×';
+            removeButton.addEventListener('click', () => {
+                this.pendingFiles = this.pendingFiles.filter(pending => pending !== file);
+                this.renderPendingFiles();
+            });
+            chip.appendChild(removeButton);
+            container.appendChild(chip);
+        });
+        container.style.display = this.pendingFiles.length > 0 ? '' : 'none';
     }
 
     /**
@@ -340,8 +512,9 @@ export class ChatWidget {
     }
 
     /**
-     * Processes the user's message: adds it to the display, clears the input,
-     * and passes it to the MessageProcessor.
+     * Processes the user's message: uploads its pending attachments, adds it to the display,
+     * clears the input, and passes it to the MessageProcessor. If the upload fails, the message
+     * and its attachments are kept so the user can try again.
      * @param {string} message - The message text from the user.
      * @param {HTMLInputElement} chatInput - The chat input element (to clear it after sending).
      */
@@ -350,13 +523,36 @@ export class ChatWidget {
             return; // Do not send empty messages
         }
 
+        let files: string[] | undefined;
+        if (this.pendingFiles.length > 0) {
+            // The proxy binds files to a session, so the first message of a conversation starts one here
+            // rather than waiting for the flow to assign it.
+            if (!this.sessionManager.currentSessionId) {
+                this.uiCallbacks.updateSessionId(crypto.randomUUID());
+            }
+            this.setInputDisabled(true);
+            const upload = await this.chatClient.uploadFiles(this.pendingFiles, this.sessionManager.currentSessionId);
+            this.setInputDisabled(false);
+            if (!upload.files) {
+                const reason = [upload.error || "The upload failed.", upload.detail].filter(Boolean).join(' ');
+                this.displayManager.addMessageToDisplay(this.config.errorSender, `Could not attach the files. ${reason}`, false, new Date().toISOString());
+                return;
+            }
+            files = upload.files.map(file => file.path);
+            this.pendingFiles = [];
+            this.renderPendingFiles();
+        }
+
         // Display user's message immediately
-        this.displayManager.addMessageToDisplay(this.config.userSender, message, false, new Date().toLocaleString());
+        const userMessageElement = this.displayManager.addMessageToDisplay(this.config.userSender, message, false, new Date().toLocaleString());
+        if (files && userMessageElement) {
+            this.displayManager.addAttachmentsToMessage(userMessageElement, files);
+        }
         const currentMessageText = message;
         chatInput.value = ''; // Clear input after sending
 
         // Let MessageProcessor handle the actual sending and bot response
-        await this.messageProcessor.process(currentMessageText);
+        await this.messageProcessor.process(currentMessageText, files);
     }
 
     /**
@@ -404,13 +600,44 @@ export class ChatWidget {
     private setInputDisabled(disabled: boolean): void {
         const chatInput = this.element.querySelector<HTMLInputElement>('.chat-input');
         const sendButton = this.element.querySelector<HTMLButtonElement>('.send-button');
+        const attachButton = this.element.querySelector<HTMLButtonElement>('.attach-button');
         if (chatInput) chatInput.disabled = disabled;
         if (sendButton) sendButton.disabled = disabled;
+        if (attachButton) attachButton.disabled = disabled;
         if (!disabled && chatInput) {
             chatInput.focus(); // Focus input when enabled
         }
     }
 
+    /**
+     * Swaps the send button for the stop button while a reply is streaming.
+     * Input area templates without a `.stop-button` keep the send button.
+     * @param {boolean} available - True while a streaming reply can be stopped.
+     */
+    private setStopAvailable(available: boolean): void {
+        const stopButton = this.element.querySelector<HTMLButtonElement>('.stop-button');
+        const sendButton = this.element.querySelector<HTMLButtonElement>('.send-button');
+        if (!stopButton) {
+            return;
+        }
+        stopButton.style.display = available ? '' : 'none';
+        if (sendButton) {
+            sendButton.style.display = available ? 'none' : '';
+        }
+    }
+
+    /**
+     * Shows the banner telling the user the chatbot service is unavailable, or hides it once replies
+     * come through again. Main container templates without a `.service-unavailable-banner` show nothing.
+     * @param {boolean} unavailable - True while the server reports the service as unavailable.
+     */
+    private setServiceUnavailable(unavailable: boolean): void {
+        const banner = this.element.querySelector<HTMLElement>('.service-unavailable-banner');
+        if (banner) {
+            banner.style.display = unavailable ? '' : 'none';
+        }
+    }
+
     /**
      * Gets the internal, resolved configuration of the widget (including defaults).
      * @returns {Readonly<typeof this.config>} The read-only internal configuration.
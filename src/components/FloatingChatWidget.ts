@@ -142,6 +142,9 @@ export class FloatingChatWidget {
                     widgetHeaderTemplate: userConfig.floatingWidgetHeaderTemplate || userConfig.chatWidgetConfig?.template?.widgetHeaderTemplate || DEFAULT_FLOATING_WIDGET_HEADER_TEMPLATE,
                 },
                 datetimeFormat: userConfig.chatWidgetConfig?.datetimeFormat,
+                messageFormat: userConfig.chatWidgetConfig?.messageFormat,
+                sanitizer: userConfig.chatWidgetConfig?.sanitizer,
+                attachments: userConfig.chatWidgetConfig?.attachments,
             },
             containerId: userConfig.containerId,
         };
@@ -233,6 +236,9 @@ export class FloatingChatWidget {
                     labels: this.config.chatWidgetConfig.labels,
                     template: this.config.chatWidgetConfig.template,
                     datetimeFormat: this.config.chatWidgetConfig.datetimeFormat,
+                    messageFormat: this.config.chatWidgetConfig.messageFormat,
+                    sanitizer: this.config.chatWidgetConfig.sanitizer,
+                    attachments: this.config.chatWidgetConfig.attachments,
                 },
                 this.logger,
                 this.config.initialSessionId,
@@ -1,11 +1,19 @@
 export interface IMessageParser {
+    /**
+     * When true, `parseChunk` returns the rendering of the *entire* accumulated message (including
+     * the current chunk), and callers replace the displayed content instead of appending to it.
+     * Parsers whose output for earlier text can change as more text arrives (e.g. Markdown) need this.
+     */
+    readonly rendersAccumulatedContent?: boolean;
+
     /**
      * Parses a chunk of a streaming message.
      * @param chunk The current chunk of text from the stream.
      * @param rawAccumulatedContentBeforeThisChunk The raw, unparsed content that has been accumulated
      *                                             so far in the stream, *before* this current chunk.
      *                                             This allows parsers to be context-aware if needed.
-     * @returns The processed string version of the current chunk to be appended to the display.
+     * @returns The processed string version of the current chunk to be appended to the display,
+     *          or the full rendered message if `rendersAccumulatedContent` is true.
      */
     parseChunk(chunk: string, rawAccumulatedContentBeforeThisChunk: string): string;
 
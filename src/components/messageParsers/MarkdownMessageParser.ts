@@ -0,0 +1,319 @@
+import { IMessageParser } from './IMessageParser';
+
+const FENCE_REGEX = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING_REGEX = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR_REGEX = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE_REGEX = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const SAFE_URL_REGEX = /^(https?:|mailto:|\/|#|\.\/|\.\.\/)/i;
+
+/**
+ * Parses Markdown (CommonMark subset plus GFM tables and strikethrough) into HTML.
+ * All raw text is HTML-escaped before any Markdown markup is applied, so the output only
+ * contains tags generated by this parser.
+ *
+ * Streaming: `parseChunk` re-renders the whole accumulated message on every chunk, because
+ * a single token can change the meaning of earlier text (e.g. the closing `**` of a bold run).
+ * While streaming, constructs that are only half received are rendered as if they were already
+ * closed: an open code fence becomes a code block running to the end of the text, and dangling
+ * inline markers (`` ` ``, `**`, `*`, `~~`) at the tail of the message are closed or hidden.
+ */
+export class MarkdownMessageParser implements IMessageParser {
+    /** The output of `parseChunk` is the full rendering of the accumulated message. */
+    public readonly rendersAccumulatedContent = true;
+
+    /**
+     * Renders the accumulated content plus the new chunk, tolerating incomplete Markdown at the tail.
+     * @param chunk The current chunk of text from the stream.
+     * @param rawAccumulatedContentBeforeThisChunk The raw content received before this chunk.
+     * @returns The HTML for the entire message so far, to replace the displayed content.
+     */
+    parseChunk(chunk: string, rawAccumulatedContentBeforeThisChunk: string): string {
+        return renderMarkdown(rawAccumulatedContentBeforeThisChunk + chunk, true);
+    }
+
+    /**
+     * Renders a complete Markdown message.
+     * @param fullContent The complete raw string content.
+     * @returns The rendered HTML.
+     */
+    parseComplete(fullContent: string): string {
+        return renderMarkdown(fullContent, false);
+    }
+}
+
+function renderMarkdown(source: string, partial: boolean): string {
+    let text = source.replace(/\r\n?/g, '\n');
+    if (partial) {
+        // A fence that has only started arriving ("`" or "``" alone on the last line) would
+        // otherwise flash as literal backticks until the third one comes in.
+        text = text.replace(/(^|\n)\s{0,3}(`{1,2}|~{1,2})$/, '$1');
+    }
+    return renderBlocks(text.split('\n'), partial);
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function isBlockStart(line: string): boolean {
+    return FENCE_REGEX.test(line)
+        || HEADING_REGEX.test(line)
+        || HR_REGEX.test(line)
+        || BLOCKQUOTE_REGEX.test(line)
+        || LIST_ITEM_REGEX.test(line);
+}
+
+function splitTableRow(line: string): string[] {
+    let row = line.trim();
+    if (row.startsWith('|')) row = row.substring(1);
+    if (row.endsWith('|') && !row.endsWith('\\|')) row = row.substring(0, row.length - 1);
+    return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function getTableAlignments(separatorLine: string): Array<string | null> {
+    return splitTableRow(separatorLine).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        if (left && right) return 'center';
+        if (right) return 'right';
+        if (left) return 'left';
+        return null;
+    });
+}
+
+function renderBlocks(lines: string[], partial: boolean): string {
+    const html: string[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (line.trim() === '') {
+            i++;
+            continue;
+        }
+
+        const fenceMatch = line.match(FENCE_REGEX);
+        if (fenceMatch) {
+            const fenceChar = fenceMatch[1][0];
+            const fenceLength = fenceMatch[1].length;
+            const language = fenceMatch[2];
+            const codeLines: string[] = [];
+            i++;
+            // An unclosed fence runs to the end of the text, which is exactly what we want while streaming.
+            while (i < lines.length) {
+                const closing = lines[i].match(/^\s{0,3}(`{3,}|~{3,})\s*$/);
+                if (closing && closing[1][0] === fenceChar && closing[1].length >= fenceLength) {
+                    i++;
+                    break;
+                }
+                codeLines.push(lines[i]);
+                i++;
+            }
+            const languageClass = language ? ` class="language-${escapeHtml(language)}"` : '';
+            html.push(`<pre><code${languageClass}>${escapeHtml(codeLines.join('\n'))}</code></pre>`);
+            continue;
+        }
+
+        const isTail = (end: number) => partial && end >= lines.length;
+
+        const headingMatch = line.match(HEADING_REGEX);
+        if (headingMatch) {
+            const level = headingMatch[1].length;
+            html.push(`<h${level}>${renderInline(headingMatch[2], isTail(i + 1))}</h${level}>`);
+            i++;
+            continue;
+        }
+
+        if (HR_REGEX.test(line)) {
+            html.push('<hr>');
+            i++;
+            continue;
+        }
+
+        if (BLOCKQUOTE_REGEX.test(line)) {
+            const quoteLines: string[] = [];
+            while (i < lines.length && lines[i].trim() !== '') {
+                const quoteMatch = lines[i].match(BLOCKQUOTE_REGEX);
+                quoteLines.push(quoteMatch ? quoteMatch[1] : lines[i]);
+                i++;
+            }
+            html.push(`<blockquote>${renderBlocks(quoteLines, isTail(i))}</blockquote>`);
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_REGEX.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+            const headerCells = splitTableRow(line);
+            const alignments = getTableAlignments(lines[i + 1]);
+            i += 2;
+            const bodyRows: string[][] = [];
+            while (i < lines.length && lines[i].trim() !== '' && lines[i].includes('|')) {
+                bodyRows.push(splitTableRow(lines[i]));
+                i++;
+            }
+            const tail = isTail(i);
+            const alignAttr = (index: number) => alignments[index] ? ` style="text-align: ${alignments[index]}"` : '';
+            const headerHtml = headerCells.map((cell, index) => `<th${alignAttr(index)}>${renderInline(cell, false)}</th>`).join('');
+            const bodyHtml = bodyRows.map((row, rowIndex) => {
+                const cells = headerCells.map((_, index) => {
+                    const isLastCell = tail && rowIndex === bodyRows.length - 1 && index === row.length - 1;
+                    return `<td${alignAttr(index)}>${renderInline(row[index] ?? '', isLastCell)}</td>`;
+                });
+                return `<tr>${cells.join('')}</tr>`;
+            }).join('');
+            html.push(`<table><thead><tr>${headerHtml}</tr></thead>${bodyHtml ? `<tbody>${bodyHtml}</tbody>` : ''}</table>`);
+            continue;
+        }
+
+        const listMatch = line.match(LIST_ITEM_REGEX);
+        if (listMatch) {
+            const ordered = /\d/.test(listMatch[2]);
+            const baseIndent = listMatch[1].length;
+            const items: string[][] = [];
+            const startNumber = ordered ? parseInt(listMatch[2], 10) : 1;
+
+            while (i < lines.length) {
+                const current = lines[i];
+                const itemMatch = current.match(LIST_ITEM_REGEX);
+                if (itemMatch && itemMatch[1].length <= baseIndent + 1) {
+                    if (/\d/.test(itemMatch[2]) !== ordered) break;
+                    items.push([itemMatch[3]]);
+                    i++;
+                    continue;
+                }
+                if (current.trim() === '') {
+                    // A blank line only continues the list if the next line is still part of it.
+                    const next = lines[i + 1];
+                    if (next !== undefined && (/^\s+\S/.test(next) || LIST_ITEM_REGEX.test(next))) {
+                        const nextItem = next.match(LIST_ITEM_REGEX);
+                        if (nextItem && nextItem[1].length <= baseIndent + 1 && /\d/.test(nextItem[2]) !== ordered) break;
+                        i++;
+                        continue;
+                    }
+                    break;
+                }
+                if (/^\s+\S/.test(current) && items.length > 0) {
+                    items[items.length - 1].push(current.replace(new RegExp(`^\\s{1,${baseIndent + 4}}`), ''));
+                    i++;
+                    continue;
+                }
+                if (isBlockStart(current) || items.length === 0) break;
+                // Lazy continuation of the previous item's paragraph.
+                items[items.length - 1].push(current);
+                i++;
+            }
+
+            const tail = isTail(i);
+            const itemsHtml = items.map((itemLines, index) => {
+                const isLastItem = tail && index === items.length - 1;
+                const hasNestedBlocks = itemLines.slice(1).some(itemLine => isBlockStart(itemLine));
+                const content = hasNestedBlocks
+                    ? renderItemWithNestedBlocks(itemLines, isLastItem)
+                    : renderInline(itemLines.join('\n'), isLastItem);
+                return `<li>${content}</li>`;
+            }).join('');
+
+            if (ordered) {
+                const startAttr = startNumber !== 1 ? ` start="${startNumber}"` : '';
+                html.push(`<ol${startAttr}>${itemsHtml}</ol>`);
+            } else {
+                html.push(`<ul>${itemsHtml}</ul>`);
+            }
+            continue;
+        }
+
+        const paragraphLines: string[] = [];
+        while (i < lines.length && lines[i].trim() !== '' && (paragraphLines.length === 0 || !isBlockStart(lines[i]))) {
+            if (paragraphLines.length > 0 && lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_REGEX.test(lines[i + 1])) {
+                break;
+            }
+            paragraphLines.push(lines[i].trim());
+            i++;
+        }
+        html.push(`<p>${renderInline(paragraphLines.join('\n'), isTail(i))}</p>`);
+    }
+
+    return html.join('');
+}
+
+function renderItemWithNestedBlocks(itemLines: string[], isTail: boolean): string {
+    const firstBlockIndex = itemLines.findIndex((itemLine, index) => index > 0 && isBlockStart(itemLine));
+    const leadText = itemLines.slice(0, firstBlockIndex).join('\n');
+    return renderInline(leadText, false) + renderBlocks(itemLines.slice(firstBlockIndex), isTail);
+}
+
+/**
+ * Closes (or drops) inline markers left open at the end of a message that is still streaming,
+ * so that e.g. `**bol` renders as bold text rather than as literal asterisks.
+ */
+function closeDanglingInlineMarkers(text: string): string {
+    let result = text;
+
+    const backtickCount = (result.match(/(?<!\\)`/g) || []).length;
+    if (backtickCount % 2 === 1) {
+        result = /`$/.test(result) ? result.slice(0, -1) : result + '`';
+    }
+
+    // Markers inside code spans don't count; strip them before counting.
+    const withoutCode = result.replace(/`[^`]*`/g, '');
+    const pairs: Array<[RegExp, string]> = [
+        [/(?<!\\)\*\*/g, '**'],
+        [/(?<!\\)__/g, '__'],
+        [/(?<!\\)~~/g, '~~'],
+    ];
+    for (const [pattern, marker] of pairs) {
+        const count = (withoutCode.match(pattern) || []).length;
+        if (count % 2 === 1) {
+            result = result.endsWith(marker) ? result.slice(0, -marker.length) : result + marker;
+        }
+    }
+
+    const singleStars = (withoutCode.replace(/\*\*/g, '').match(/(?<![\\\s])\*|\*(?=\S)/g) || []).length;
+    if (singleStars % 2 === 1) {
+        result = /(?<!\*)\*$/.test(result) ? result.slice(0, -1) : result + '*';
+    }
+    return result;
+}
+
+function renderInline(text: string, closeOpenMarkers: boolean): string {
+    const source = closeOpenMarkers ? closeDanglingInlineMarkers(text) : text;
+    const placeholders: string[] = [];
+    const protect = (html: string) => {
+        placeholders.push(html);
+        return `\u0000${placeholders.length - 1}\u0000`;
+    };
+
+    // Code spans first, so that nothing inside them is interpreted as Markdown.
+    let result = source.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => protect(`<code>${escapeHtml(code.trim())}</code>`));
+    result = result.replace(/\\([\\`*_{}\[\]()#+\-.!|~>])/g, (_, char: string) => protect(escapeHtml(char)));
+
+    result = escapeHtml(result);
+
+    result = result.replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;([^&]*)&quot;)?\)/g, (match, label: string, url: string, title?: string) => {
+        const decodedUrl = url.replace(/&amp;/g, '&');
+        if (!SAFE_URL_REGEX.test(decodedUrl)) {
+            return label;
+        }
+        const titleAttr = title ? ` title="${title}"` : '';
+        return protect(`<a href="${url}"${titleAttr} target="_blank" rel="noopener noreferrer">`) + label + protect('</a>');
+    });
+    result = result.replace(/(^|[\s(])(https?:\/\/[^\s<]+[^\s<.,:;!?)"'])/g, (_, prefix: string, url: string) =>
+        `${prefix}${protect(`<a href="${url}" target="_blank" rel="noopener noreferrer">${url}</a>`)}`);
+
+    result = result
+        .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+        .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+        .replace(/\*(?=\S)([^*]*?\S)\*/g, '<em>$1</em>')
+        .replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+        .replace(/ {2,}\n|\\\n|\n/g, '<br>');
+
+    return result.replace(/\u0000(\d+)\u0000/g, (_, index: string) => placeholders[parseInt(index, 10)]);
+}
@@ -1,10 +1,15 @@
 // Standalone, static paths (no dynamic parameters)
 export const PROXY_PROFILES_SUFFIX = '/profiles'; // Path for listing available chatbot profiles
 export const PROXY_FLOWS_SUFFIX = '/flows-config'; // Path for listing available langflow flows
+export const PROXY_CHAT_SOCKET_SUFFIX = '/ws'; // WebSocket chat channel, e.g. ws://host/api/langflow/ws
+export const PROXY_LIVENESS_SUFFIX = '/healthz'; // Liveness probe
+export const PROXY_READINESS_SUFFIX = '/readyz'; // Readiness probe, reporting startup and Langflow reachability
+export const PROXY_METRICS_SUFFIX = '/metrics'; // Prometheus metrics
 
 // Prefixes for routes that include a dynamic :profileId
 export const PROFILE_CONFIG_ENDPOINT_PREFIX = '/config'; // e.g., /api/langflow/config/:profileId
 export const PROFILE_CHAT_ENDPOINT_PREFIX = '/chat'; // e.g., /api/langflow/chat/:profileId, and /api/langflow/chat/:profileId/history
+export const PROFILE_FILES_ENDPOINT_SUFFIX = '/files'; // Attachments, e.g. /api/langflow/chat/:profileId/files and .../files/:flowId/:fileName
 
 // Langflow specific API base path (version 1)
 export const LANGFLOW_API_BASE_PATH_V1 = '/api/v1';
@@ -12,5 +17,10 @@ export const LANGFLOW_API_BASE_PATH_V1 = '/api/v1';
 // Suffix for Langflow flows endpoint (listing, creating, etc.)
 export const LANGFLOW_FLOWS_ENDPOINT_SUFFIX = '/flows/';  // Trailing slash is required!
 
+// Langflow's file API (within a specific flow), e.g. /api/v1/files/upload/{flow_id} and /api/v1/files/download/{flow_id}/{file_name}
+export const LANGFLOW_FILES_UPLOAD_ENDPOINT_PREFIX = '/files/upload';
+export const LANGFLOW_FILES_DOWNLOAD_ENDPOINT_PREFIX = '/files/download';
+export const LANGFLOW_FILES_DELETE_ENDPOINT_PREFIX = '/files/delete';
+
 // Suffix for Langflow chat endpoint (within a specific flow)
 export const LANGFLOW_CHAT_ENDPOINT_SUFFIX = '/chat'; // e.g. /api/v1/chat/{flow_id}
\ No newline at end of file
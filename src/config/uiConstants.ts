@@ -1,5 +1,6 @@
 export const SVG_CHAT_ICON = '<svg viewBox="0 0 24 24" fill="currentColor"><path d="M20 2H4c-1.1 0-2 .9-2 2v18l4-4h14c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2zm0 14H6l-2 2V4h16v12z"></path></svg>';
 export const SVG_MINIMIZE_ICON = '<svg viewBox="0 0 24 24" stroke-width="2"><path stroke="currentColor" stroke-linecap="round" stroke-linejoin="round" d="M18 12H6"></path></svg>';
+export const SVG_ATTACH_ICON = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48"></path></svg>';
 export const SVG_RESET_ICON = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="23 4 23 10 17 10"></polyline><polyline points="1 20 1 14 7 14"></polyline><path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"></path></svg>';
 
 // Default Chatbot Behaviors
@@ -7,6 +8,7 @@ export const DEFAULT_ENABLE_STREAM = true;
 export const DEFAULT_USE_FLOATING = false;
 export const DEFAULT_FLOAT_POSITION: "bottom-right" | "bottom-left" | "top-right" | "top-left" = "bottom-right";
 export const DEFAULT_DATETIME_FORMAT = "relative";
+export const DEFAULT_MESSAGE_FORMAT: "plaintext" | "markdown" = "plaintext";
 
 // Default Labels
 export const DEFAULT_WIDGET_TITLE = "Chat Assistant";
@@ -36,6 +38,7 @@ export const DEFAULT_MAIN_CONTAINER_TEMPLATE = `
     <div id="chat-widget-header-container" style="flex-shrink: 0;">
         <!-- Widget header will be injected here -->
     </div>
+    <div class="service-unavailable-banner" role="status" style="display: none; flex-shrink: 0;">The assistant is temporarily unavailable. Please try again shortly.</div>
     <div class="chat-messages" style="flex-grow: 1; overflow-y: auto;">
         <!-- Messages will appear here -->
     </div>
@@ -45,8 +48,12 @@ export const DEFAULT_MAIN_CONTAINER_TEMPLATE = `
 
 export const DEFAULT_INPUT_AREA_TEMPLATE = `
 <div class="chat-input-area">
+    <div class="pending-attachments" style="display: none;"></div>
+    <button class="attach-button" title="Attach files" style="display: none;">${SVG_ATTACH_ICON}</button>
+    <input type="file" class="file-input" multiple style="display: none;" />
     <input type="text" class="chat-input" placeholder="Type your message..." />
     <button class="send-button">Send</button>
+    <button class="stop-button" style="display: none;">Stop</button>
 </div>
 `;
 
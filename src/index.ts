@@ -3,3 +3,9 @@ export * from './components';
 export * from './clients';
 export * from './types';
 export { LangflowProxyService } from './langflow-proxy';
+export * from './lib/conversation';
+export { SessionOwnershipGuard, InMemorySessionOwnershipStore, SessionOwnershipStore, SessionOwnershipConfig } from './lib/auth/sessionOwnership';
+export { validateConfig } from './lib/startup/config-loader';
+export { ConfigIssue, ConfigValidationResult } from './lib/startup/config-schema';
+export { JsonLogger, JsonLoggerOptions, ServerLogger, LogFields, consoleLogger } from './lib/logging';
+export { ReplyExtractor, BUILT_IN_REPLY_EXTRACTORS } from './lib/langflow/replyExtractors';
@@ -1,12 +1,32 @@
 import http from 'http';
+import { Duplex } from 'stream';
 import { LangflowClient } from '@datastax/langflow-client';
-import { loadBaseConfig, loadInstanceConfig } from './lib/startup/config-loader';
-import { FlowMapper } from './utils/flow-mapper';
-import { handleRequest as handleRequestFromModule } from './lib/request-handler';
-import { Profile, LangflowProxyConfig } from './types';
+import { loadBaseConfig, loadInstanceDocument, InstanceConfig } from './lib/startup/config-loader';
+import { FlowMapper, DEFAULT_FLOW_REFRESH_INTERVAL_MS } from './utils/flow-mapper';
+import { handleRequest as handleRequestFromModule, RequestHandlerOptions } from './lib/request-handler';
+import { Profile, LangflowProxyConfig, RateLimitConfig, FlowResolutionPolicy, UpstreamConfig } from './types';
 import { sendJsonError } from './lib/request-utils';
+import { ConversationStore } from './lib/conversation/ConversationStore';
+import { AuthenticateFn, requiresAuthentication } from './lib/auth/authentication';
+import { SessionOwnershipGuard } from './lib/auth/sessionOwnership';
+import { FileOwnershipGuard } from './lib/auth/fileOwnership';
+import { RateLimiter } from './lib/rateLimiter';
+import { ConfigWatcher, watchConfigFile, diffProfiles, formatProfileDiff } from './lib/startup/config-watcher';
+import { WebSocketServer } from 'ws';
+import { handleChatSocketConnection, isAllowedSocketOrigin, MAX_CHAT_SOCKET_FRAME_BYTES } from './lib/chatSocket';
+import { PROXY_CHAT_SOCKET_SUFFIX, PROXY_LIVENESS_SUFFIX, PROXY_METRICS_SUFFIX, PROXY_READINESS_SUFFIX } from './config/apiPaths';
+import { fetchWithRetries, resolveUpstreamPolicy, sendUpstreamTimeout, UpstreamTimeoutError } from './lib/langflow/upstream';
+import { CircuitBreaker, CircuitBreakerStatus, sendCircuitOpen } from './lib/langflow/circuitBreaker';
+import { cachePing, handleLivenessRequest, handleReadinessRequest, pingLangflow, ReadinessReport } from './lib/health';
+import { classifyRoute, handleMetricsRequest, ProxyMetrics } from './lib/metrics';
+import { ReplyExtractorRegistry } from './lib/langflow/replyExtractors';
+import { consoleLogger, REQUEST_ID_HEADER, resolveRequestId, ServerLogger, withLogFields } from './lib/logging';
+
+const FLOW_RESOLUTION_POLICIES: FlowResolutionPolicy[] = ['strict', 'disable', 'lazy'];
 
 export class LangflowProxyService {
+    /** Minimum time between flow list refreshes triggered by requests to unresolved profiles. */
+    private static readonly ON_DEMAND_REFRESH_INTERVAL_MS = 10_000;
     private langflowClient!: LangflowClient;
     private flowConfigs: Map<string, Profile> = new Map();
     private langflowConnectionDetails: { endpoint_url: string; api_key?: string };
@@ -14,16 +34,85 @@ export class LangflowProxyService {
     private flowMapper: FlowMapper;
     private initializationPromise: Promise<void>;
     private isInitialized: boolean = false;
+    /** Why initialization failed, if it did. */
+    private initializationError?: string;
+    private conversationStore?: ConversationStore;
+    private authenticate?: AuthenticateFn;
+    private sessionOwnership?: SessionOwnershipGuard;
+    private fileOwnership: FileOwnershipGuard;
+    private rateLimiter?: RateLimiter;
+    private globalRateLimit?: RateLimitConfig;
+    /** The top-level `upstream` section of the instance YAML; re-read on reload. */
+    private upstreamConfig?: UpstreamConfig;
+    private circuitBreaker?: CircuitBreaker;
+    /** Pings Langflow for `/readyz`, reusing the outcome for a few seconds; a failed ping is logged once per ping. */
+    private langflowPing = cachePing(async () => {
+        const ping = await pingLangflow(this.langflowConnectionDetails.endpoint_url, this.upstreamConfig);
+        if (!ping.ok) {
+            this.logger.warn(`LangflowProxyService: Langflow did not answer the readiness ping: ${ping.error}`);
+        }
+        return ping;
+    });
+    private metrics?: ProxyMetrics;
+    /** Whether `<proxyApiBasePath>/metrics` is served; otherwise the host app serves `getMetricsText()` itself. */
+    private serveMetricsRoute: boolean;
+    private replyExtractors: ReplyExtractorRegistry;
+    private logger: ServerLogger;
+    private instanceConfigPath: string;
+    private serverDefaults: Partial<Profile['server']>;
+    private chatbotDefaults: Partial<Profile['chatbot']>;
+    private configWatcher?: ConfigWatcher;
+    private reloadQueue: Promise<unknown> = Promise.resolve();
+    private flowResolution: FlowResolutionPolicy;
+    private flowRefreshInFlight?: Promise<boolean>;
+    private lastFlowRefreshAt = 0;
+    private flowRefreshTimer?: NodeJS.Timeout;
+    /** The flow identifier each loaded profile was configured with, before resolution to a UUID. */
+    private configuredFlowIds: WeakMap<Profile, string> = new WeakMap();
+    /** Profiles already reported as keeping a flow whose name no longer resolves. */
+    private staleFlowProfiles: WeakSet<Profile> = new WeakSet();
+    private chatSocketServer?: WebSocketServer;
+    private allowedOrigins?: string[];
+    private detachChatSocket?: () => void;
 
     constructor(config: LangflowProxyConfig) {
         if (!config.proxyApiBasePath || typeof config.proxyApiBasePath !== 'string' || config.proxyApiBasePath.trim() === '') {
             throw new TypeError('LangflowProxyService: proxyApiBasePath is required in config and must be a non-empty string.');
         }
 
+        if (config.flowResolution !== undefined && !FLOW_RESOLUTION_POLICIES.includes(config.flowResolution)) {
+            throw new TypeError(`LangflowProxyService: flowResolution must be one of ${FLOW_RESOLUTION_POLICIES.map(policy => `'${policy}'`).join(', ')}.`);
+        }
+        this.flowResolution = config.flowResolution || 'disable';
+        this.logger = config.logger || consoleLogger;
+
         const { langflowConnection, serverDefaults, chatbotDefaults } = loadBaseConfig();
         this.langflowConnectionDetails = langflowConnection;
+        this.serverDefaults = serverDefaults;
+        this.chatbotDefaults = chatbotDefaults;
+        this.instanceConfigPath = config.instanceConfigPath;
         this.proxyApiBasePath = config.proxyApiBasePath;
-        console.log(`LangflowProxyService: API Base Path configured to: ${this.proxyApiBasePath}`);
+        this.logger.info(`LangflowProxyService: API Base Path configured to: ${this.proxyApiBasePath}`);
+        this.conversationStore = config.conversationStore;
+        if (this.conversationStore) {
+            this.logger.info("LangflowProxyService: Conversation store configured. Chat history will be recorded and served by the proxy.");
+        }
+        this.authenticate = config.authenticate;
+        if (this.authenticate && config.sessionOwnership !== false) {
+            this.sessionOwnership = new SessionOwnershipGuard(config.sessionOwnership || {});
+            this.logger.info("LangflowProxyService: Session ownership enforcement enabled.");
+        }
+        // Attachments are always bound to their uploader, with the session ownership store and expiry when configured.
+        this.fileOwnership = new FileOwnershipGuard(config.sessionOwnership || {});
+        if (config.circuitBreaker !== false) {
+            this.circuitBreaker = new CircuitBreaker(config.circuitBreaker || {}, this.logger);
+        }
+        if (config.metrics !== false) {
+            this.metrics = new ProxyMetrics();
+        }
+        this.serveMetricsRoute = typeof config.metrics === 'object' && config.metrics.route === true;
+        this.replyExtractors = new ReplyExtractorRegistry(config.replyExtractors);
+        this.allowedOrigins = config.allowedOrigins;
 
         const clientConfig: { baseUrl: string; apiKey?: string } = {
             baseUrl: langflowConnection.endpoint_url,
@@ -32,12 +121,54 @@ export class LangflowProxyService {
             clientConfig.apiKey = langflowConnection.api_key;
         }
         this.langflowClient = new LangflowClient(clientConfig);
-        console.log(`LangflowProxyService: LangflowClient initialized. Configured Endpoint: ${langflowConnection.endpoint_url}`);
+        this.logger.info(`LangflowProxyService: LangflowClient initialized. Configured Endpoint: ${langflowConnection.endpoint_url}`);
 
-        const rawInstanceProfiles: Profile[] = loadInstanceConfig(config.instanceConfigPath);
-        this.flowMapper = new FlowMapper(langflowConnection.endpoint_url, langflowConnection.api_key);
+        const instanceConfig = loadInstanceDocument(config.instanceConfigPath);
+        const rawInstanceProfiles: Profile[] = instanceConfig.profiles;
+        this.configureRateLimiter(instanceConfig.rateLimit, rawInstanceProfiles);
+        this.upstreamConfig = instanceConfig.upstream;
+        this.flowMapper = new FlowMapper(langflowConnection.endpoint_url, langflowConnection.api_key, () => this.upstreamConfig, this.logger);
 
         this.initializationPromise = this._internalAsyncInit(rawInstanceProfiles, serverDefaults, chatbotDefaults);
+        // The failure is logged and reported by ready(), /readyz and handleRequest; it must not be an unhandled rejection.
+        this.initializationPromise.catch(() => undefined);
+
+        if (config.watchInstanceConfig) {
+            const intervalMs = typeof config.watchInstanceConfig === 'object' ? config.watchInstanceConfig.intervalMs : undefined;
+            this.configWatcher = watchConfigFile(config.instanceConfigPath, () => {
+                this.logger.info(`LangflowProxyService: Change detected in ${config.instanceConfigPath}. Reloading chatbot profiles...`);
+                this.reloadInstanceConfig().catch(error => {
+                    this.logger.error("LangflowProxyService: Unexpected error while reloading instance config:", { error });
+                });
+            }, intervalMs);
+            this.logger.info(`LangflowProxyService: Watching ${config.instanceConfigPath} for changes.`);
+        }
+
+        if (config.flowRefresh) {
+            const intervalMs = (typeof config.flowRefresh === 'object' && config.flowRefresh.intervalMs) || DEFAULT_FLOW_REFRESH_INTERVAL_MS;
+            this.flowRefreshTimer = setInterval(() => {
+                this.refreshFlows().catch(error => {
+                    this.logger.error("LangflowProxyService: Unexpected error while refreshing flows:", { error });
+                });
+            }, intervalMs);
+            this.flowRefreshTimer.unref(); // Do not keep the process alive just to refresh flows.
+            this.logger.info(`LangflowProxyService: Refreshing the flow list from Langflow every ${intervalMs} ms.`);
+        }
+    }
+
+    /**
+     * Creates, replaces or removes the rate limiter to match the configured limits.
+     * Buckets are only reset when the global limit itself changes.
+     */
+    private configureRateLimiter(globalRateLimit: RateLimitConfig | undefined, profiles: Profile[]): void {
+        const hasLimits = !!globalRateLimit || profiles.some(profile => profile.server.rateLimit);
+        if (!hasLimits) {
+            this.rateLimiter = undefined;
+        } else if (!this.rateLimiter || JSON.stringify(globalRateLimit) !== JSON.stringify(this.globalRateLimit)) {
+            this.rateLimiter = new RateLimiter(globalRateLimit);
+            this.logger.info(`LangflowProxyService: Rate limiting enabled${globalRateLimit ? ` (global: ${globalRateLimit.requestsPerMinute} requests/minute per ${globalRateLimit.keyBy || 'ip'})` : ''}.`);
+        }
+        this.globalRateLimit = globalRateLimit;
     }
 
     private async _internalAsyncInit(
@@ -46,64 +177,356 @@ export class LangflowProxyService {
         chatbotDefaultValues: Partial<Profile['chatbot']>
     ): Promise<void> {
         try {
-            console.log("LangflowProxyService: Starting internal asynchronous initialization...");
+            this.logger.info("LangflowProxyService: Starting internal asynchronous initialization...");
             await this.flowMapper.initialize();
-            console.log("LangflowProxyService: FlowMapper initialized successfully internally.");
-
-            rawInstanceProfiles.forEach(profile => {
-                const completeProfile: Profile = {
-                    profileId: profile.profileId,
-                    server: {
-                        flowId: profile.server.flowId,
-                        enableStream: profile.server.enableStream ?? serverDefaultValues.enableStream,
-                        datetimeFormat: profile.server.datetimeFormat ?? serverDefaultValues.datetimeFormat,
-                    },
-                    chatbot: {
-                        labels: { ...(chatbotDefaultValues.labels || {}), ...(profile.chatbot?.labels || {}) }, 
-                        template: { ...(chatbotDefaultValues.template || {}), ...(profile.chatbot?.template || {}) },
-                        floatingWidget: { ...(chatbotDefaultValues.floatingWidget || {}), ...(profile.chatbot?.floatingWidget || {}) }
-                    }
-                };
-
-                const configuredFlowIdentifier = completeProfile.server.flowId;
-                const resolvedFlowId = this.flowMapper.getTrueFlowId(configuredFlowIdentifier);
-
-                if (resolvedFlowId) {
-                    if (resolvedFlowId !== configuredFlowIdentifier) {
-                         console.log(`LangflowProxyService: Resolved flow identifier '${configuredFlowIdentifier}' to UUID '${resolvedFlowId}' for profile '${completeProfile.profileId}'.`);
-                    }
-                    completeProfile.server.flowId = resolvedFlowId;
-                } else {
-                    console.error(`LangflowProxyService: CRITICAL - Could not resolve flow identifier '${configuredFlowIdentifier}' for profile '${completeProfile.profileId}'. This profile will not function correctly as the identifier is not a valid UUID and was not found in the flow map.`);
-                }
-                this.flowConfigs.set(completeProfile.profileId, completeProfile);
-                console.log(`LangflowProxyService: Loaded profile: '${completeProfile.profileId}' configured with resolved flowId '${completeProfile.server.flowId}'.`);
-            });
+            this.logger.info("LangflowProxyService: FlowMapper initialized successfully internally.");
+
+            this.flowConfigs = this.buildProfiles(rawInstanceProfiles, serverDefaultValues, chatbotDefaultValues);
 
             if (this.flowConfigs.size === 0) {
-                console.warn("LangflowProxyService: No chatbot profiles were loaded after async init. The service may not function as expected.");
+                this.logger.warn("LangflowProxyService: No chatbot profiles were loaded after async init. The service may not function as expected.");
             } else {
-                const unresolvedCount = Array.from(this.flowConfigs.values()).filter(p => !(/^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/.test(p.server.flowId))).length;
-                if (unresolvedCount > 0) {
-                    console.warn(`LangflowProxyService: Finished async profile loading. ${this.flowConfigs.size - unresolvedCount} profiles have a valid resolved flowId. ${unresolvedCount} profiles have unresolved flow identifiers and may not function.`);
+                const unresolvedIds = Array.from(this.flowConfigs.values()).filter(p => p.server.status !== 'available').map(p => p.profileId);
+                if (unresolvedIds.length > 0) {
+                    const outcome = this.flowResolution === 'lazy' ? 'will be resolved on first use' : 'are unavailable';
+                    this.logger.warn(`LangflowProxyService: Finished async profile loading. ${this.flowConfigs.size - unresolvedIds.length} profiles have a valid resolved flowId. ${unresolvedIds.length} profiles have unresolved flow identifiers and ${outcome}: ${unresolvedIds.join(', ')}.`);
                 } else {
-                    console.log(`LangflowProxyService: Finished async profile loading. All ${this.flowConfigs.size} profiles have a valid resolved flowId.`);
+                    this.logger.info(`LangflowProxyService: Finished async profile loading. All ${this.flowConfigs.size} profiles have a valid resolved flowId.`);
                 }
             }
             this.isInitialized = true;
-            console.log("LangflowProxyService: Internal asynchronous initialization complete.");
+            this.logger.info("LangflowProxyService: Internal asynchronous initialization complete.");
         } catch (error: any) {
-            console.error(`LangflowProxyService: CRITICAL - Error during internal asynchronous initialization: ${error.message}`);
+            this.logger.error(`LangflowProxyService: CRITICAL - Error during internal asynchronous initialization: ${error.message}`);
             this.isInitialized = false;
+            this.initializationError = error.message;
             throw error; 
         }
     }
 
+    /**
+     * Applies defaults to the raw profiles from the instance YAML and resolves their flow identifiers.
+     * Profiles whose identifier cannot be resolved are marked according to the flow resolution policy.
+     * @returns A new map of complete profiles keyed by profileId.
+     * @throws If a flow identifier cannot be resolved and the policy is 'strict'.
+     */
+    private buildProfiles(
+        rawInstanceProfiles: Profile[],
+        serverDefaultValues: Partial<Profile['server']>,
+        chatbotDefaultValues: Partial<Profile['chatbot']>
+    ): Map<string, Profile> {
+        const profiles = new Map<string, Profile>();
+        const unresolved: string[] = [];
+        rawInstanceProfiles.forEach(profile => {
+            const completeProfile: Profile = {
+                profileId: profile.profileId,
+                server: {
+                    flowId: profile.server.flowId,
+                    enableStream: profile.server.enableStream ?? serverDefaultValues.enableStream,
+                    datetimeFormat: profile.server.datetimeFormat ?? serverDefaultValues.datetimeFormat,
+                    access: profile.server.access,
+                    rateLimit: profile.server.rateLimit,
+                    messagePolicy: profile.server.messagePolicy,
+                    upstream: profile.server.upstream,
+                    attachments: profile.server.attachments,
+                    tweaks: profile.server.tweaks,
+                    clientTweaks: profile.server.clientTweaks,
+                    context: profile.server.context,
+                    inputType: profile.server.inputType,
+                    outputType: profile.server.outputType,
+                    outputComponent: profile.server.outputComponent,
+                    replyExtractors: profile.server.replyExtractors,
+                    debugReplyExtractors: profile.server.debugReplyExtractors,
+                },
+                chatbot: {
+                    labels: { ...(chatbotDefaultValues.labels || {}), ...(profile.chatbot?.labels || {}) }, 
+                    template: { ...(chatbotDefaultValues.template || {}), ...(profile.chatbot?.template || {}) },
+                    floatingWidget: { ...(chatbotDefaultValues.floatingWidget || {}), ...(profile.chatbot?.floatingWidget || {}) },
+                    messageFormat: profile.chatbot?.messageFormat,
+                    sanitizer: profile.chatbot?.sanitizer,
+                }
+            };
+
+            const configuredFlowIdentifier = completeProfile.server.flowId;
+            this.configuredFlowIds.set(completeProfile, configuredFlowIdentifier);
+            const resolvedFlowId = this.flowMapper.getTrueFlowId(configuredFlowIdentifier);
+
+            if (resolvedFlowId) {
+                if (resolvedFlowId !== configuredFlowIdentifier) {
+                     this.logger.info(`LangflowProxyService: Resolved flow identifier '${configuredFlowIdentifier}' to UUID '${resolvedFlowId}' for profile '${completeProfile.profileId}'.`);
+                }
+                completeProfile.server.flowId = resolvedFlowId;
+                completeProfile.server.status = 'available';
+            } else {
+                unresolved.push(`${completeProfile.profileId} ('${configuredFlowIdentifier}')`);
+                completeProfile.server.status = this.flowResolution === 'lazy' ? 'unresolved' : 'unavailable';
+                const consequence = this.flowResolution === 'lazy'
+                    ? 'Resolution will be retried when the profile is next used.'
+                    : 'The profile is unavailable until the flow exists in Langflow and the config is reloaded.';
+                this.logger.error(`LangflowProxyService: Could not resolve flow identifier '${configuredFlowIdentifier}' for profile '${completeProfile.profileId}': it is not a valid UUID and was not found in the flow map. ${consequence}`);
+            }
+            if (!this.authenticate && requiresAuthentication(completeProfile)) {
+                this.logger.warn(`LangflowProxyService: Profile '${completeProfile.profileId}' requires authentication but no authenticate hook is configured. All requests to it will be rejected.`);
+            }
+            profiles.set(completeProfile.profileId, completeProfile);
+            if (completeProfile.server.status === 'available') {
+                this.logger.info(`LangflowProxyService: Loaded profile: '${completeProfile.profileId}' configured with resolved flowId '${completeProfile.server.flowId}'.`);
+            }
+        });
+        if (unresolved.length > 0 && this.flowResolution === 'strict') {
+            throw new Error(`LangflowProxyService: Could not resolve the flow identifiers of ${unresolved.join(', ')}. Refusing to load the profiles because flowResolution is 'strict'.`);
+        }
+        return profiles;
+    }
+
+    /**
+     * Re-fetches the flow list from Langflow and re-resolves the flow of every loaded profile, so that
+     * flows created or renamed since startup are followed. Unresolved profiles become available once
+     * their flow exists; a profile whose name no longer resolves keeps its last known flow.
+     * Concurrent calls share one refresh.
+     * @returns {Promise<boolean>} True if the flow list was fetched.
+     */
+    public refreshFlows(): Promise<boolean> {
+        if (!this.flowRefreshInFlight) {
+            this.flowRefreshInFlight = this._refreshFlows().finally(() => { this.flowRefreshInFlight = undefined; });
+        }
+        return this.flowRefreshInFlight;
+    }
+
+    private async _refreshFlows(): Promise<boolean> {
+        try {
+            await this.initializationPromise;
+        } catch {
+            return false;
+        }
+        this.lastFlowRefreshAt = Date.now();
+        try {
+            await this.flowMapper.refresh();
+        } catch (error: any) {
+            this.logger.warn(`LangflowProxyService: Could not refresh the flow list from Langflow; keeping the current flow resolution. ${error.message}`);
+            return false;
+        }
+        this.flowConfigs.forEach(profile => this.reresolveProfileFlow(profile));
+        return true;
+    }
+
+    /**
+     * Resolves a profile's configured flow identifier against the current flow list and logs any change.
+     * @returns {boolean} True if the profile has a resolved flow.
+     */
+    private reresolveProfileFlow(profile: Profile): boolean {
+        const configuredFlowIdentifier = this.configuredFlowIds.get(profile) ?? profile.server.flowId;
+        const resolvedFlowId = this.flowMapper.getTrueFlowId(configuredFlowIdentifier);
+        const wasAvailable = profile.server.status === 'available';
+        if (!resolvedFlowId) {
+            if (wasAvailable && !this.staleFlowProfiles.has(profile)) {
+                this.staleFlowProfiles.add(profile);
+                this.logger.warn(`LangflowProxyService: Flow identifier '${configuredFlowIdentifier}' of profile '${profile.profileId}' no longer resolves; keeping flow '${profile.server.flowId}'.`);
+            }
+            return wasAvailable;
+        }
+        this.staleFlowProfiles.delete(profile);
+        if (!wasAvailable || resolvedFlowId !== profile.server.flowId) {
+            this.logger.info(`LangflowProxyService: Flow identifier '${configuredFlowIdentifier}' of profile '${profile.profileId}' now resolves to UUID '${resolvedFlowId}' (was ${wasAvailable ? `'${profile.server.flowId}'` : 'unresolved'}).`);
+            profile.server.flowId = resolvedFlowId;
+            profile.server.status = 'available';
+        }
+        return true;
+    }
+
+    /**
+     * Retries resolving the flow of a profile loaded with the 'lazy' policy. The flow list is refreshed
+     * first unless it was refreshed within the last ON_DEMAND_REFRESH_INTERVAL_MS.
+     * @returns {Promise<boolean>} True if the profile can now be used.
+     */
+    private async resolveProfileFlow(profile: Profile): Promise<boolean> {
+        if (profile.server.status !== 'unresolved') {
+            return profile.server.status !== 'unavailable';
+        }
+        if (this.flowRefreshInFlight || Date.now() - this.lastFlowRefreshAt >= LangflowProxyService.ON_DEMAND_REFRESH_INTERVAL_MS) {
+            await this.refreshFlows();
+        }
+        return this.reresolveProfileFlow(profile);
+    }
+
+    /**
+     * Re-reads the instance config file, re-resolves flow names and swaps in the new profiles.
+     * If the file is missing or invalid, the current profiles are kept. Reloads run one at a time.
+     * @returns {Promise<boolean>} True if the new configuration was applied.
+     */
+    public reloadInstanceConfig(): Promise<boolean> {
+        const reload = this.reloadQueue.then(() => this._reloadInstanceConfig());
+        this.reloadQueue = reload.catch(() => undefined);
+        return reload;
+    }
+
+    private async _reloadInstanceConfig(): Promise<boolean> {
+        try {
+            await this.initializationPromise;
+        } catch {
+            this.logger.error("LangflowProxyService: Cannot reload instance config because initialization failed.");
+            return false;
+        }
+
+        let instanceConfig: InstanceConfig;
+        try {
+            instanceConfig = loadInstanceDocument(this.instanceConfigPath);
+        } catch (error: any) {
+            this.logger.error(`LangflowProxyService: Reloading instance config failed; keeping the current configuration. ${error.message}`);
+            return false;
+        }
+
+        try {
+            await this.flowMapper.refresh();
+        } catch (error: any) {
+            this.logger.warn(`LangflowProxyService: Could not refresh the flow list from Langflow during reload; resolving flow names with the previous list. ${error.message}`);
+        }
+
+        let nextFlowConfigs: Map<string, Profile>;
+        try {
+            nextFlowConfigs = this.buildProfiles(instanceConfig.profiles, this.serverDefaults, this.chatbotDefaults);
+        } catch (error: any) {
+            this.logger.error(`LangflowProxyService: Reloading instance config failed; keeping the current configuration. ${error.message}`);
+            return false;
+        }
+        const diff = diffProfiles(this.flowConfigs, nextFlowConfigs);
+        this.configureRateLimiter(instanceConfig.rateLimit, instanceConfig.profiles);
+        this.upstreamConfig = instanceConfig.upstream;
+        // Requests read this.flowConfigs when they start, so replacing the map switches configurations atomically.
+        this.flowConfigs = nextFlowConfigs;
+        this.logger.info(`LangflowProxyService: Reloaded instance config (${nextFlowConfigs.size} profiles): ${formatProfileDiff(diff)}.`);
+        return true;
+    }
+
+    /**
+     * Serves the WebSocket chat channel at `<proxyApiBasePath>/ws` on the host app's HTTP server.
+     * Upgrade requests for other paths are left to the host app's own listeners. Upgrades from pages of
+     * another origin than the host's or `allowedOrigins` are refused with 403.
+     * @param {http.Server} server - The server the host app listens on.
+     */
+    public attachWebSocket(server: http.Server): void {
+        if (this.chatSocketServer) {
+            throw new Error('LangflowProxyService: The WebSocket chat channel is already attached to a server.');
+        }
+        const socketPath = this.proxyApiBasePath.replace(/\/$/, '') + PROXY_CHAT_SOCKET_SUFFIX;
+        const chatSocketServer = new WebSocketServer({ noServer: true, maxPayload: MAX_CHAT_SOCKET_FRAME_BYTES });
+        const onUpgrade = (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+            const pathname = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`).pathname;
+            if (pathname !== socketPath) {
+                return;
+            }
+            if (!isAllowedSocketOrigin(req, this.allowedOrigins)) {
+                this.logger.warn(`LangflowProxyService: Refused WebSocket upgrade from origin '${req.headers.origin}'.`);
+                socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+                return;
+            }
+            // Normalized here so the socket's log entries and the echoed header carry the same id.
+            req.headers[REQUEST_ID_HEADER.toLowerCase()] = resolveRequestId(req);
+            this.initializationPromise.then(() => {
+                chatSocketServer.handleUpgrade(req, socket, head, ws => {
+                    handleChatSocketConnection(ws, req, {
+                        getProfiles: () => this.flowConfigs,
+                        getOptions: () => this.requestHandlerOptions(),
+                        langflowClient: this.langflowClient,
+                        langflowConnection: { endpointUrl: this.langflowConnectionDetails.endpoint_url, apiKey: this.langflowConnectionDetails.api_key },
+                    });
+                });
+            }, () => socket.destroy());
+        };
+        chatSocketServer.on('headers', (headers: string[], req: http.IncomingMessage) => {
+            headers.push(`${REQUEST_ID_HEADER}: ${req.headers[REQUEST_ID_HEADER.toLowerCase()]}`);
+        });
+        server.on('upgrade', onUpgrade);
+        this.chatSocketServer = chatSocketServer;
+        this.detachChatSocket = () => server.off('upgrade', onUpgrade);
+        this.logger.info(`LangflowProxyService: WebSocket chat channel listening at ${socketPath}.`);
+    }
+
+    /**
+     * Stops watching the instance config file and refreshing flows, and closes the WebSocket chat
+     * channel. Call this when shutting the service down.
+     */
+    public close(): void {
+        if (this.configWatcher) {
+            this.configWatcher.close();
+            this.configWatcher = undefined;
+        }
+        if (this.flowRefreshTimer) {
+            clearInterval(this.flowRefreshTimer);
+            this.flowRefreshTimer = undefined;
+        }
+        if (this.chatSocketServer) {
+            this.detachChatSocket?.();
+            for (const client of this.chatSocketServer.clients) {
+                client.close(1001, 'Server shutting down');
+            }
+            this.chatSocketServer.close();
+            this.chatSocketServer = undefined;
+            this.detachChatSocket = undefined;
+        }
+    }
+
+    /**
+     * Waits for the flow list to be fetched and the profiles to be loaded. Await it before accepting traffic:
+     * it rejects when initialization fails, e.g. when a flow cannot be resolved under the 'strict' policy.
+     * @returns {Promise<void>} Resolves once the proxy can serve requests.
+     */
+    public ready(): Promise<void> {
+        return this.initializationPromise;
+    }
+
     public async getChatbotProfile(profileId: string): Promise<Profile | undefined> {
         await this.initializationPromise;
         return this.flowConfigs.get(profileId);
     }
 
+    /**
+     * Reports whether requests are currently sent to Langflow or refused by the circuit breaker.
+     * @returns {CircuitBreakerStatus | undefined} The breaker's state, or undefined if it is disabled.
+     */
+    public getCircuitBreakerStatus(): CircuitBreakerStatus | undefined {
+        return this.circuitBreaker?.getStatus();
+    }
+
+    /**
+     * Checks whether the proxy can serve chat traffic: initialization completed, the flow list was fetched
+     * and Langflow answers a ping. Does not wait for initialization, so it can be polled during startup.
+     * @returns {Promise<ReadinessReport>} The outcome of each check, as served at `<proxyApiBasePath>/readyz`.
+     */
+    public async checkReadiness(): Promise<ReadinessReport> {
+        // Only states and counts: the probe is unauthenticated, and the errors behind them are logged where they occur.
+        const initialization: ReadinessReport['checks']['initialization'] = this.isInitialized
+            ? { ok: true, state: 'complete' }
+            : { ok: false, state: this.initializationError !== undefined ? 'failed' : 'pending' };
+        const flowMapperStatus = this.flowMapper.getStatus();
+        const flowMapper: ReadinessReport['checks']['flowMapper'] = { ok: flowMapperStatus.initialized, flows: flowMapperStatus.flows };
+        const profiles = Array.from(this.flowConfigs.values());
+        const resolved = profiles.filter(profile => !profile.server.status || profile.server.status === 'available').length;
+        const { ok, latencyMs } = await this.langflowPing();
+
+        const report: ReadinessReport = {
+            status: initialization.ok && flowMapper.ok && ok ? 'ready' : 'not_ready',
+            checks: {
+                initialization,
+                flowMapper,
+                profiles: { total: profiles.length, resolved, unresolved: profiles.length - resolved },
+                langflow: { ok, latencyMs },
+            },
+        };
+        if (this.circuitBreaker) {
+            report.checks.circuitBreaker = this.circuitBreaker.getStatus();
+        }
+        return report;
+    }
+
+    /**
+     * Renders the collected metrics, e.g. to serve them from a protected route of the host application.
+     * @returns {string | undefined} The Prometheus text, or undefined if metrics are disabled.
+     */
+    public getMetricsText(): string | undefined {
+        return this.metrics?.render();
+    }
+
     public getLangflowConnectionDetails(): { endpoint_url: string; api_key?: string } {
         return this.langflowConnectionDetails;
     }
@@ -118,20 +541,32 @@ export class LangflowProxyService {
         return this.flowConfigs;
     }
 
+    /**
+     * Sends a GET request to Langflow's REST API for a route handler.
+     * @returns {Promise<Response | null>} Langflow's response, or null once the client has been answered with an error.
+     */
     private async _makeDirectLangflowApiRequest(
         res: http.ServerResponse,
         path: string,
         method: 'GET', 
-        queryParams?: URLSearchParams
+        queryParams?: URLSearchParams,
+        upstream?: UpstreamConfig,
+        logger: ServerLogger = this.logger
     ): Promise<Response | null> { 
         if (!this.langflowConnectionDetails.endpoint_url) {
-            console.warn(`LangflowProxyService: Attempted API call to "${path}" when Langflow endpoint URL is not configured.`);
+            logger.warn(`LangflowProxyService: Attempted API call to "${path}" when Langflow endpoint URL is not configured.`);
             res.statusCode = 503;
             res.setHeader('Content-Type', 'application/json');
             res.end(JSON.stringify({ error: "Langflow endpoint URL not configured in proxy." }));
             return null;
         }
 
+        if (this.circuitBreaker && !this.circuitBreaker.tryAcquire()) {
+            logger.warn(`LangflowProxyService: Refused ${method} request to "${path}" because Langflow is unavailable (circuit open).`);
+            sendCircuitOpen(res, this.circuitBreaker);
+            return null;
+        }
+
         const targetUrl = new URL(path, this.langflowConnectionDetails.endpoint_url);
         if (queryParams) {
             queryParams.forEach((value, key) => {
@@ -139,7 +574,7 @@ export class LangflowProxyService {
             });
         }
 
-        console.log(`LangflowProxyService: Forwarding ${method} request to Langflow: ${targetUrl.toString()}`);
+        logger.info(`LangflowProxyService: Forwarding ${method} request to Langflow: ${targetUrl.toString()}`);
 
         const headers: HeadersInit = {
             'Accept': 'application/json',
@@ -149,23 +584,79 @@ export class LangflowProxyService {
         }
 
         try {
-            const response = await fetch(targetUrl.toString(), {
-                method: method,
-                headers: headers,
-            });
+            const response = await fetchWithRetries(
+                targetUrl.toString(),
+                { method: method, headers: headers },
+                resolveUpstreamPolicy(this.upstreamConfig, upstream),
+                `${method} ${path}`,
+                logger
+            );
+            if (response.status >= 500) {
+                this.circuitBreaker?.recordFailure();
+            } else {
+                this.circuitBreaker?.recordSuccess();
+            }
             if (!response.ok) { 
-                console.error(`LangflowProxyService: Langflow API request failed: ${response.status} ${response.statusText} for path ${path}`);
+                this.metrics?.recordUpstreamError(response.status);
+                logger.error(`LangflowProxyService: Langflow API request failed: ${response.status} ${response.statusText} for path ${path}`);
             }
             return response; 
         } catch (error: any) {
-            console.error(`LangflowProxyService: Error during Langflow API request to ${path}:`, error);
+            this.circuitBreaker?.recordFailure();
+            this.metrics?.recordUpstreamError(error);
+            if (error instanceof UpstreamTimeoutError) {
+                logger.error(`LangflowProxyService: ${error.message}`);
+                sendUpstreamTimeout(res, error);
+                return null;
+            }
+            logger.error(`LangflowProxyService: Error during Langflow API request to ${path}:`, { error });
+            if (!res.headersSent) {
+                sendJsonError(res, 502, "Failed to reach Langflow.", error?.message);
+            }
             return null; 
         }
     }
 
-    public async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
-        await this.initializationPromise;
+    /**
+     * The collaborators passed to route handlers; built per request, as reloading the config may replace the rate limiter.
+     * @param {ServerLogger} [logger] - The request's logger, carrying its correlation id.
+     */
+    private requestHandlerOptions(logger: ServerLogger = this.logger): RequestHandlerOptions {
+        return {
+            conversationStore: this.conversationStore,
+            authenticate: this.authenticate,
+            sessionOwnership: this.sessionOwnership,
+            fileOwnership: this.fileOwnership,
+            rateLimiter: this.rateLimiter,
+            resolveProfileFlow: this.resolveProfileFlow.bind(this),
+            upstream: this.upstreamConfig,
+            circuitBreaker: this.circuitBreaker,
+            metrics: this.metrics,
+            logger,
+            replyExtractors: this.replyExtractors,
+        };
+    }
+
+    /**
+     * Counts the request once its response is complete. Only loaded profiles are used as the profile
+     * label, so requests to unknown profiles cannot add series.
+     */
+    private observeRequest(req: http.IncomingMessage, res: http.ServerResponse, pathname: string): void {
+        const metrics = this.metrics;
+        if (!metrics) {
+            return;
+        }
+        const method = req.method || 'GET';
+        const { route, profileId } = classifyRoute(pathname);
+        res.once?.('close', () => {
+            const profile = profileId !== undefined && this.flowConfigs.has(profileId) ? profileId : '';
+            metrics.recordRequest(route, profile, method, res.statusCode);
+        });
+    }
 
+    public async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const requestId = resolveRequestId(req);
+        res.setHeader(REQUEST_ID_HEADER, requestId);
         const entryReqUrl = req.url || '';
         let effectiveFullPath: string;
 
@@ -187,6 +678,30 @@ export class LangflowProxyService {
             return;
         }
 
+        // Probes and metrics are answered without waiting for initialization, so startup can be observed.
+        const probePath = internalRoutePath.split('?')[0];
+        this.observeRequest(req, res, probePath);
+        const logger = withLogFields(this.logger, { requestId, route: classifyRoute(probePath).route });
+        if (req.method === 'GET' && probePath === PROXY_METRICS_SUFFIX && this.metrics && this.serveMetricsRoute) {
+            handleMetricsRequest(res, this.metrics);
+            return;
+        }
+        if (req.method === 'GET' && probePath === PROXY_LIVENESS_SUFFIX) {
+            handleLivenessRequest(res);
+            return;
+        }
+        if (req.method === 'GET' && probePath === PROXY_READINESS_SUFFIX) {
+            await handleReadinessRequest(res, () => this.checkReadiness());
+            return;
+        }
+
+        try {
+            await this.initializationPromise;
+        } catch {
+            sendJsonError(res, 503, "Chatbot proxy failed to initialize.");
+            return;
+        }
+
         req.url = internalRoutePath;
 
         const preParsedBody: any | undefined = (req as any).body;
@@ -204,10 +719,11 @@ export class LangflowProxyService {
                 this.langflowClient,
                 this.langflowConnectionDetails.endpoint_url,
                 this.langflowConnectionDetails.api_key,
-                this._makeDirectLangflowApiRequest.bind(this),
+                (res, path, method, queryParams, upstream) => this._makeDirectLangflowApiRequest(res, path, method, queryParams, upstream, logger),
                 this.proxyApiBasePath,
                 preParsedBody,
-                isBodyPreParsed
+                isBodyPreParsed,
+                this.requestHandlerOptions(logger)
             );
         } finally {
             req.url = entryReqUrl;
@@ -0,0 +1,90 @@
+/**
+ * @file authentication.ts
+ * @description Identity and access control for proxy routes. The host application supplies an
+ * `authenticate(req)` hook on `LangflowProxyConfig` that resolves the caller to a `Principal`
+ * (or null for anonymous callers); each profile's `server.access` rule then decides whether that
+ * principal may use the profile.
+ */
+import http from 'http';
+import { AccessRule, Principal, Profile } from '../../types';
+
+/**
+ * Resolves the caller of a request. Return null or undefined for anonymous requests.
+ * Throwing (or rejecting) is treated as a failed authentication attempt.
+ */
+export type AuthenticateFn = (req: http.IncomingMessage) => Principal | null | undefined | Promise<Principal | null | undefined>;
+
+export type AccessDecision =
+    | { allowed: true }
+    | { allowed: false; statusCode: 401 | 403; error: string };
+
+/**
+ * Checks whether a value is a well-formed access rule.
+ * @param {unknown} rule - The value to check (typically read from YAML).
+ * @returns {boolean} True if the rule is 'public', 'authenticated' or `{ roles: string[] }` with at least one role.
+ */
+export function isValidAccessRule(rule: unknown): rule is AccessRule {
+    if (rule === 'public' || rule === 'authenticated') {
+        return true;
+    }
+    if (rule && typeof rule === 'object' && Array.isArray((rule as any).roles)) {
+        const roles = (rule as any).roles as unknown[];
+        return roles.length > 0 && roles.every(role => typeof role === 'string' && role.trim() !== '');
+    }
+    return false;
+}
+
+/**
+ * Returns true if the profile's access rule requires an identified caller.
+ * @param {Profile} profile - The chatbot profile.
+ */
+export function requiresAuthentication(profile: Profile): boolean {
+    const rule = profile.server.access;
+    return rule !== undefined && rule !== 'public';
+}
+
+/**
+ * Decides whether a principal may use a profile. Profiles without an access rule are public.
+ * @param {Profile} profile - The chatbot profile being accessed.
+ * @param {Principal | null} principal - The resolved caller, or null if anonymous.
+ * @returns {AccessDecision} The decision, with the status code and message to send when denied.
+ */
+export function checkProfileAccess(profile: Profile, principal: Principal | null): AccessDecision {
+    const rule = profile.server.access;
+    if (!requiresAuthentication(profile)) {
+        return { allowed: true };
+    }
+    if (!principal) {
+        return { allowed: false, statusCode: 401, error: "Authentication required." };
+    }
+    if (rule === 'authenticated') {
+        return { allowed: true };
+    }
+    const requiredRoles = (rule as { roles: string[] }).roles;
+    const principalRoles = principal.roles || [];
+    if (requiredRoles.some(role => principalRoles.includes(role))) {
+        return { allowed: true };
+    }
+    return { allowed: false, statusCode: 403, error: `Access to chatbot profile '${profile.profileId}' is not permitted.` };
+}
+
+/**
+ * Runs the configured authenticate hook for a request.
+ * @param {http.IncomingMessage} req - The incoming request.
+ * @param {AuthenticateFn} [authenticate] - The hook from `LangflowProxyConfig`, if any.
+ * @returns {Promise<Principal | null>} The principal, or null for anonymous callers (or when no hook is configured).
+ * @throws Re-throws errors from the hook so the caller can reject the request.
+ */
+export async function resolvePrincipal(req: http.IncomingMessage, authenticate?: AuthenticateFn): Promise<Principal | null> {
+    if (!authenticate) {
+        return null;
+    }
+    const principal = await authenticate(req);
+    if (!principal) {
+        return null;
+    }
+    if (typeof principal.id !== 'string' || principal.id === '') {
+        throw new Error("authenticate() must return a principal with a non-empty string 'id', or null for anonymous callers.");
+    }
+    return principal;
+}
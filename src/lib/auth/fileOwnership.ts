@@ -0,0 +1,90 @@
+/**
+ * @file fileOwnership.ts
+ * @description Binds uploaded attachments to the caller that uploaded them, so a file path cannot be
+ * downloaded or sent with a message by anyone else who learns (or guesses) it. Each path is bound to
+ * the uploader's principal and, when the upload named one, its session. Anonymous uploads must name a
+ * session, since all anonymous callers share the same (absent) principal. Records are kept in a
+ * `SessionOwnershipStore` and expire like session ownership.
+ */
+import { Principal } from '../../types';
+import {
+    DEFAULT_SESSION_OWNERSHIP_TTL_SECONDS,
+    InMemorySessionOwnershipStore,
+    SessionOwnershipConfig,
+    SessionOwnershipStore
+} from './sessionOwnership';
+
+/** The caller an attachment is checked against. */
+export interface FileCaller {
+    /** The caller resolved by the proxy's authenticate hook, or null/undefined if anonymous. */
+    principal?: Principal | null;
+    /** The session the caller names, if any. */
+    sessionId?: string | null;
+}
+
+/** What is recorded for an uploaded file. */
+interface FileOwnerRecord {
+    principalId?: string;
+    sessionId?: string;
+}
+
+/**
+ * Enforces attachment ownership for the download route and the `files` of chat messages.
+ * A file is only accessible to the principal that uploaded it, and, if it was uploaded for a session, only
+ * within that session; anonymous uploads are always bound to a session. Paths with no record are refused.
+ */
+export class FileOwnershipGuard {
+    private store: SessionOwnershipStore;
+    private ttlMs: number;
+
+    constructor(config: SessionOwnershipConfig = {}) {
+        this.store = config.store || new InMemorySessionOwnershipStore();
+        this.ttlMs = (config.ttlSeconds ?? DEFAULT_SESSION_OWNERSHIP_TTL_SECONDS) * 1000;
+    }
+
+    /**
+     * Binds a file just uploaded to its uploader.
+     * @param {string} profileId - The chatbot profile.
+     * @param {string} path - The path Langflow stored the file under, `<flowId>/<stored file name>`.
+     * @param {FileCaller} uploader - The caller that uploaded it.
+     * @throws If the uploader is anonymous and names no session, as the file could not be told apart from other anonymous callers' files.
+     */
+    public async record(profileId: string, path: string, uploader: FileCaller): Promise<void> {
+        if (!uploader.principal && !uploader.sessionId) {
+            throw new Error("FileOwnershipGuard: An anonymous upload must name a session.");
+        }
+        const owner: FileOwnerRecord = { principalId: uploader.principal?.id, sessionId: uploader.sessionId || undefined };
+        await this.store.setOwner(this.key(profileId, path), JSON.stringify(owner), this.ttlMs);
+    }
+
+    /**
+     * Checks whether a caller may download a file or send it with a message.
+     * @param {string} profileId - The chatbot profile.
+     * @param {string} path - The file's path.
+     * @param {FileCaller} caller - The caller.
+     * @returns {Promise<boolean>} True if the caller uploaded the file.
+     */
+    public async canAccess(profileId: string, path: string, caller: FileCaller): Promise<boolean> {
+        const stored = await this.store.getOwner(this.key(profileId, path));
+        if (stored === undefined) {
+            return false;
+        }
+        let owner: FileOwnerRecord;
+        try {
+            owner = JSON.parse(stored);
+        } catch {
+            return false;
+        }
+        if (owner.principalId === undefined && owner.sessionId === undefined) {
+            return false; // Not bound to anyone in particular, e.g. recorded before anonymous uploads needed a session.
+        }
+        if (owner.principalId !== caller.principal?.id) {
+            return false;
+        }
+        return owner.sessionId === undefined || owner.sessionId === caller.sessionId;
+    }
+
+    private key(profileId: string, path: string): string {
+        return `file::${profileId}::${path}`;
+    }
+}
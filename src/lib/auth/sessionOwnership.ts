@@ -0,0 +1,128 @@
+/**
+ * @file sessionOwnership.ts
+ * @description Binds Langflow session IDs to the principal that started them, so one user cannot
+ * read or continue another user's conversation by knowing (or guessing) its session ID.
+ * Ownership is keyed by profile and session, expires after a period of inactivity, and is kept
+ * in a pluggable `SessionOwnershipStore` (in memory by default).
+ */
+import { Principal } from '../../types';
+
+/** Default time a session stays bound to its owner after the last activity: 24 hours. */
+export const DEFAULT_SESSION_OWNERSHIP_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Persistence adapter for session ownership records.
+ * Implementations must stop returning an owner once its TTL has elapsed.
+ */
+export interface SessionOwnershipStore {
+    getOwner(key: string): Promise<string | undefined>;
+    setOwner(key: string, ownerId: string, ttlMs: number): Promise<void>;
+}
+
+/**
+ * Settings for session ownership enforcement on `LangflowProxyConfig`.
+ */
+export interface SessionOwnershipConfig {
+    /** Where ownership records are kept. Defaults to an `InMemorySessionOwnershipStore`. */
+    store?: SessionOwnershipStore;
+    /** Inactivity period after which a session is released. Defaults to 24 hours. */
+    ttlSeconds?: number;
+}
+
+/**
+ * Keeps ownership records in process memory. Expired records are dropped when read and swept
+ * periodically on write, so the map does not grow without bound.
+ */
+export class InMemorySessionOwnershipStore implements SessionOwnershipStore {
+    private static readonly SWEEP_INTERVAL_WRITES = 500;
+    private owners: Map<string, { ownerId: string; expiresAt: number }> = new Map();
+    private writesSinceSweep = 0;
+
+    /**
+     * @param {() => number} [now] - Clock used for expiry; injectable for tests.
+     */
+    constructor(private now: () => number = Date.now) {}
+
+    public async getOwner(key: string): Promise<string | undefined> {
+        const record = this.owners.get(key);
+        if (!record) {
+            return undefined;
+        }
+        if (record.expiresAt <= this.now()) {
+            this.owners.delete(key);
+            return undefined;
+        }
+        return record.ownerId;
+    }
+
+    public async setOwner(key: string, ownerId: string, ttlMs: number): Promise<void> {
+        this.owners.set(key, { ownerId, expiresAt: this.now() + ttlMs });
+        if (++this.writesSinceSweep >= InMemorySessionOwnershipStore.SWEEP_INTERVAL_WRITES) {
+            this.sweepExpired();
+        }
+    }
+
+    /** Number of records currently held, including ones that have expired but not yet been swept. */
+    public get size(): number {
+        return this.owners.size;
+    }
+
+    private sweepExpired(): void {
+        const now = this.now();
+        for (const [key, record] of this.owners) {
+            if (record.expiresAt <= now) {
+                this.owners.delete(key);
+            }
+        }
+        this.writesSinceSweep = 0;
+    }
+}
+
+/**
+ * Enforces session ownership for chat and history requests.
+ * Sessions started anonymously have no owner and remain accessible to everyone; a session claimed
+ * by a principal is only accessible to that principal until its ownership expires.
+ */
+export class SessionOwnershipGuard {
+    private store: SessionOwnershipStore;
+    private ttlMs: number;
+
+    constructor(config: SessionOwnershipConfig = {}) {
+        this.store = config.store || new InMemorySessionOwnershipStore();
+        this.ttlMs = (config.ttlSeconds ?? DEFAULT_SESSION_OWNERSHIP_TTL_SECONDS) * 1000;
+    }
+
+    /**
+     * Checks whether a principal may read or continue a session.
+     * @param {string} profileId - The chatbot profile.
+     * @param {string} sessionId - The Langflow session ID.
+     * @param {Principal | null | undefined} principal - The caller, or null if anonymous.
+     * @returns {Promise<boolean>} True if the session is unowned or owned by the caller.
+     */
+    public async canAccess(profileId: string, sessionId: string, principal: Principal | null | undefined): Promise<boolean> {
+        const ownerId = await this.store.getOwner(this.key(profileId, sessionId));
+        return ownerId === undefined || ownerId === principal?.id;
+    }
+
+    /**
+     * Binds an unowned session to the principal, or refreshes the expiry if the principal already owns it.
+     * Anonymous callers never claim sessions.
+     * @param {string} profileId - The chatbot profile.
+     * @param {string} sessionId - The Langflow session ID.
+     * @param {Principal | null | undefined} principal - The caller, or null if anonymous.
+     */
+    public async claim(profileId: string, sessionId: string, principal: Principal | null | undefined): Promise<void> {
+        if (!principal) {
+            return;
+        }
+        const key = this.key(profileId, sessionId);
+        const ownerId = await this.store.getOwner(key);
+        if (ownerId === undefined || ownerId === principal.id) {
+            await this.store.setOwner(key, principal.id, this.ttlMs);
+        }
+    }
+
+    private key(profileId: string, sessionId: string): string {
+        return `${profileId}::${sessionId}`;
+    }
+}
@@ -0,0 +1,269 @@
+/**
+ * @file chatSocket.ts
+ * @description The WebSocket chat channel. One socket carries several concurrent chat
+ * requests, each tagged with a `requestId` chosen by the client:
+ *
+ *   client -> server   { type: 'chat', requestId, profileId, message, sessionId?, files?, tweaks?, context? }
+ *                      { type: 'cancel', requestId }
+ *   server -> client   { requestId, event, data }
+ *
+ * Server frames carry the same events as the HTTP stream (`token`, `add_message`, `end`, `error`).
+ * A request finishes with `end`, `error`, or `cancelled` after a cancel frame. Frames that cannot be
+ * attributed to a request are answered with an `error` event without a `requestId`. A socket may have
+ * at most `MAX_CONCURRENT_CHAT_SOCKET_REQUESTS` requests in progress; further ones are refused with 429.
+ * The caller is authenticated once, from the upgrade request, which the proxy only accepts from the page's
+ * own origin or an allowed one (see `isAllowedSocketOrigin`). Log entries of a request carry the
+ * correlation id `<connection id>:<requestId>`, the connection id being taken from the upgrade request.
+ */
+import http from 'http';
+import { LangflowClient } from '@datastax/langflow-client';
+import { WebSocket, RawData } from 'ws';
+import { Principal, Profile } from '../types';
+import { resolvePrincipal, checkProfileAccess } from './auth/authentication';
+import { RequestHandlerOptions, buildChatRequestOptions, isProfileAvailable } from './request-handler';
+import { ChatMessageExtras, PreparedRun, StreamedChat, admitChatMessage, prepareRun, streamChatRun } from './langflow/chatHandlers';
+import { LangflowConnection } from './langflow/fileHandlers';
+import { StreamedEvent } from './langflow/streamTransport';
+import { DEFAULT_MAX_BODY_BYTES } from './request-utils';
+import { UpstreamTimeoutError, UPSTREAM_TIMEOUT_ERROR } from './langflow/upstream';
+import { consoleLogger, resolveRequestId, ServerLogger, withLogFields } from './logging';
+
+/** Largest frame a client may send; larger frames close the socket. Profiles may set a lower limit. */
+export const MAX_CHAT_SOCKET_FRAME_BYTES = DEFAULT_MAX_BODY_BYTES;
+
+/** Most chat requests one socket may have in progress at a time. */
+export const MAX_CONCURRENT_CHAT_SOCKET_REQUESTS = 4;
+
+export interface ChatSocketContext {
+    /** The profiles currently served; read for each request so config reloads apply to open sockets. */
+    getProfiles: () => Map<string, Profile>;
+    /** The proxy's collaborators, likewise read for each request. */
+    getOptions: () => RequestHandlerOptions;
+    langflowClient: LangflowClient | undefined;
+    /** Where Langflow's REST API is; used to find the Chat Input component that receives attachments. */
+    langflowConnection?: LangflowConnection;
+}
+
+/** A frame sent to the client: a stream event, tagged with the request it belongs to. */
+export interface ChatSocketServerFrame extends StreamedEvent {
+    requestId?: string;
+}
+
+/** A frame received from the client that names the request it belongs to. */
+interface ClientFrame {
+    type?: unknown;
+    requestId: string;
+}
+
+interface ChatFrame extends ClientFrame {
+    type: 'chat';
+    profileId?: unknown;
+    message?: unknown;
+    sessionId?: unknown;
+    files?: unknown;
+    tweaks?: unknown;
+    context?: unknown;
+}
+
+function isClientFrame(value: unknown): value is ClientFrame {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const requestId = (value as { requestId?: unknown }).requestId;
+    return typeof requestId === 'string' && requestId !== '';
+}
+
+function isChatFrame(frame: ClientFrame): frame is ChatFrame {
+    return frame.type === 'chat';
+}
+
+/**
+ * Tells whether an upgrade request may open the chat channel. Browsers send the page's `Origin` with every
+ * upgrade; only the proxy's own host and the `allowedOrigins` are accepted, so a third-party page cannot
+ * open a socket authenticated with the visitor's cookies. Requests without an `Origin` do not come from a
+ * browser page and are accepted.
+ * @param {string[]} [allowedOrigins] - Further origins to accept, e.g. 'https://app.example.com'.
+ */
+export function isAllowedSocketOrigin(req: http.IncomingMessage, allowedOrigins: string[] = []): boolean {
+    const origin = req.headers.origin;
+    if (!origin) {
+        return true;
+    }
+    if (allowedOrigins.includes(origin)) {
+        return true;
+    }
+    try {
+        return new URL(origin).host === req.headers.host;
+    } catch {
+        return false;
+    }
+}
+
+function errorEvent(code: number, message: string, detail?: string, retryAfterSeconds?: number): StreamedEvent {
+    return { event: 'error', data: { message, detail, code, retryAfterSeconds } };
+}
+
+/**
+ * Serves one chat request received on a socket, sending its events through `send`.
+ */
+async function runChatRequest(
+    frame: ChatFrame,
+    frameBytes: number,
+    req: http.IncomingMessage,
+    principal: Principal | null,
+    context: ChatSocketContext,
+    signal: AbortSignal,
+    send: (event: StreamedEvent) => void,
+    logger: ServerLogger
+): Promise<void> {
+    const handlerOptions = context.getOptions();
+    const profileId = typeof frame.profileId === 'string' ? frame.profileId : '';
+    const profile = context.getProfiles().get(profileId);
+    if (!profile) {
+        send(errorEvent(404, `Chatbot profile with profileId '${profileId}' not found.`));
+        return;
+    }
+    const access = checkProfileAccess(profile, principal);
+    if (!access.allowed) {
+        logger.warn(`ChatSocket: Denied access to profile '${profileId}' for ${principal ? `principal '${principal.id}'` : 'anonymous caller'} (${access.statusCode}).`, { profileId });
+        send(errorEvent(access.statusCode, access.error));
+        return;
+    }
+    if (!(await isProfileAvailable(profile, handlerOptions))) {
+        logger.warn(`ChatSocket: Refused request to profile '${profileId}' because its flow '${profile.server.flowId}' could not be resolved.`, { profileId });
+        send(errorEvent(503, `Chatbot profile '${profileId}' is currently unavailable.`, "Its flow could not be found in Langflow."));
+        return;
+    }
+    if (profile.server.enableStream === false) {
+        send(errorEvent(400, "Streaming is disabled for this chatbot profile.", "Send messages to the HTTP chat endpoint instead."));
+        return;
+    }
+    const maxBodyBytes = profile.server.messagePolicy?.maxBodyBytes;
+    if (maxBodyBytes !== undefined && frameBytes > maxBodyBytes) {
+        send(errorEvent(413, "Message is too large.", `Request body too large: limit is ${maxBodyBytes} bytes.`));
+        return;
+    }
+    if (!context.langflowClient) {
+        send(errorEvent(503, "LangflowClient not available. Check server logs."));
+        return;
+    }
+
+    const flowId = profile.server.flowId;
+    const sessionId = typeof frame.sessionId === 'string' && frame.sessionId !== '' ? frame.sessionId : undefined;
+    const options = buildChatRequestOptions(profile, principal, handlerOptions, context.langflowConnection ?? {}, logger);
+    const extras: ChatMessageExtras = { files: frame.files, tweaks: frame.tweaks, context: frame.context };
+    const rejection = await admitChatMessage(req, flowId, frame.message, sessionId, options, extras);
+    if (rejection) {
+        send(errorEvent(rejection.statusCode, rejection.error, rejection.detail, rejection.retryAfterSeconds));
+        return;
+    }
+    const message = frame.message as string;
+    if (signal.aborted) {
+        send({ event: 'cancelled' });
+        return;
+    }
+
+    const userTimestamp = new Date().toISOString();
+    const log = withLogFields(logger, { profileId, sessionId });
+    let run: PreparedRun;
+    try {
+        run = await prepareRun(options, message, extras);
+    } catch (error: any) {
+        log.error(`ChatSocket: Could not hand attachments of request '${frame.requestId}' to flow '${flowId}':`, { error });
+        send(errorEvent(502, "Failed to attach the files to the message.", error.message));
+        return;
+    }
+    log.info(`ChatSocket: Streaming request '${frame.requestId}' for Flow '${flowId}', session: ${sessionId || 'new'}, message: "${message.substring(0, 50)}..."`);
+    try {
+        const chat: StreamedChat = { flowId, sessionId, message, userTimestamp, run };
+        await streamChatRun(context.langflowClient, chat, options, signal, () => ({ send, close: () => undefined }), log);
+    } catch (error: any) {
+        if (signal.aborted) {
+            log.info(`ChatSocket: Request '${frame.requestId}' for profile '${profileId}' was cancelled.`);
+            send({ event: 'cancelled' });
+            return;
+        }
+        if (error instanceof UpstreamTimeoutError) {
+            log.warn(`ChatSocket: ${error.message} Aborted request '${frame.requestId}' for flow '${flowId}'.`);
+            send(errorEvent(504, UPSTREAM_TIMEOUT_ERROR, error.message));
+            return;
+        }
+        log.error(`ChatSocket: Error during Langflow stream for flow '${flowId}':`, { error });
+        send(errorEvent(500, "Error during streaming.", error.message || 'Unknown error on stream'));
+    }
+}
+
+/**
+ * Serves the chat channel on an accepted WebSocket. Requests still running when the socket
+ * closes are cancelled.
+ * @param {WebSocket} socket - The accepted socket.
+ * @param {http.IncomingMessage} req - The upgrade request; used to authenticate the caller and key rate limits.
+ * @param {ChatSocketContext} context - The proxy state the requests are served from.
+ */
+export function handleChatSocketConnection(socket: WebSocket, req: http.IncomingMessage, context: ChatSocketContext): void {
+    const activeRequests = new Map<string, AbortController>();
+    const connectionId = resolveRequestId(req);
+    const logger = withLogFields(context.getOptions().logger ?? consoleLogger, { requestId: connectionId, route: 'ws' });
+    const principal = resolvePrincipal(req, context.getOptions().authenticate).catch(error => {
+        // As over HTTP, a failed authentication attempt is treated as anonymous.
+        logger.warn(`ChatSocket: authenticate hook rejected the connection: ${error?.message || error}`);
+        return null;
+    });
+    const send = (frame: ChatSocketServerFrame) => {
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(frame));
+        }
+    };
+
+    socket.on('message', (raw: RawData) => {
+        const text = raw.toString();
+        let frame: unknown;
+        try {
+            frame = JSON.parse(text);
+        } catch {
+            send(errorEvent(400, "Frames must be JSON objects."));
+            return;
+        }
+        if (!isClientFrame(frame)) {
+            send(errorEvent(400, "Frames must carry a non-empty string requestId."));
+            return;
+        }
+        const requestId = frame.requestId;
+        if (frame.type === 'cancel') {
+            activeRequests.get(requestId)?.abort();
+            return;
+        }
+        if (!isChatFrame(frame)) {
+            send({ requestId, ...errorEvent(400, `Unknown frame type '${frame.type}'.`) });
+            return;
+        }
+        if (activeRequests.has(requestId)) {
+            send({ requestId, ...errorEvent(409, `Request '${requestId}' is already in progress.`) });
+            return;
+        }
+        if (activeRequests.size >= MAX_CONCURRENT_CHAT_SOCKET_REQUESTS) {
+            logger.warn(`ChatSocket: Refused request '${requestId}' because ${activeRequests.size} requests are already in progress on the connection.`);
+            send({ requestId, ...errorEvent(429, "Too many requests in progress on this connection.", `At most ${MAX_CONCURRENT_CHAT_SOCKET_REQUESTS} requests may run at a time; wait for a reply to finish.`) });
+            return;
+        }
+
+        const controller = new AbortController();
+        activeRequests.set(requestId, controller);
+        const chatFrame = frame;
+        const requestLogger = withLogFields(logger, { requestId: `${connectionId}:${requestId}` });
+        principal
+            .then(resolved => runChatRequest(chatFrame, Buffer.byteLength(text), req, resolved, context, controller.signal, event => send({ requestId, ...event }), requestLogger))
+            .catch(error => {
+                requestLogger.error(`ChatSocket: Error handling request '${requestId}':`, { error });
+                send({ requestId, ...errorEvent(500, "Failed to process chat message.", error?.message) });
+            })
+            .finally(() => activeRequests.delete(requestId));
+    });
+
+    socket.on('close', () => {
+        for (const controller of activeRequests.values()) {
+            controller.abort();
+        }
+        activeRequests.clear();
+    });
+}
@@ -1,9 +1,11 @@
 import http from 'http';
 import { Profile, ChatbotProfile } from '../types';
 import { sendJsonError } from './request-utils';
+import { clientAttachmentSettings } from './langflow/fileHandlers';
+import { consoleLogger, ServerLogger } from './logging';
 
-export async function handleGetChatbotConfigRequest(profileId: string, res: http.ServerResponse, chatbotConfigurations: Map<string, Profile>, proxyApiBasePath: string): Promise<void> {
-    console.log(`RequestHandler: Received GET request for chatbot configuration: '${profileId}'`);
+export async function handleGetChatbotConfigRequest(profileId: string, res: http.ServerResponse, chatbotConfigurations: Map<string, Profile>, proxyApiBasePath: string, logger: ServerLogger = consoleLogger): Promise<void> {
+    logger.info(`RequestHandler: Received GET request for chatbot configuration: '${profileId}'`);
     const profile = chatbotConfigurations.get(profileId);
 
     if (profile) {
@@ -11,6 +13,9 @@ export async function handleGetChatbotConfigRequest(profileId: string, res: http
             ...profile.chatbot,
             proxyBasePath: proxyApiBasePath
         };
+        if (profile.server.attachments) {
+            clientSafeProfile.attachments = clientAttachmentSettings(profile.server.attachments);
+        }
         res.statusCode = 200;
         res.setHeader('Content-Type', 'application/json');
         res.end(JSON.stringify(clientSafeProfile));
@@ -19,8 +24,8 @@ export async function handleGetChatbotConfigRequest(profileId: string, res: http
     }
 }
 
-export async function handleListChatbotProfilesRequest(req: http.IncomingMessage, res: http.ServerResponse, chatbotConfigurations: Map<string, Profile>): Promise<void> {
-    console.log('RequestHandler: Received GET request to list chatbot profiles.');
+export async function handleListChatbotProfilesRequest(req: http.IncomingMessage, res: http.ServerResponse, chatbotConfigurations: Map<string, Profile>, logger: ServerLogger = consoleLogger): Promise<void> {
+    logger.info('RequestHandler: Received GET request to list chatbot profiles.');
     try {
         const profilesList = Array.from(chatbotConfigurations.values()).map(profile => {
             const id = profile.profileId;
@@ -28,6 +33,7 @@ export async function handleListChatbotProfilesRequest(req: http.IncomingMessage
             return {
                 profileId: id,
                 widgetTitle: widgetTitle,
+                status: profile.server?.status || 'available',
             };
         });
 
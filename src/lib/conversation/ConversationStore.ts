@@ -0,0 +1,48 @@
+/**
+ * @file ConversationStore.ts
+ * @description Defines the persistence contract the proxy uses to record chat exchanges
+ * independently of Langflow's own message storage. When a store is configured on
+ * `LangflowProxyService`, every user message and final bot reply is appended to it and
+ * the history route is served from it instead of Langflow's `/monitor/messages`.
+ */
+
+/** A single recorded chat message. */
+export interface ConversationMessage {
+    /** Unique message identifier. */
+    id: string;
+    /** The chatbot profile the exchange belongs to. */
+    profileId: string;
+    /** The resolved Langflow flow ID that handled the exchange. */
+    flowId: string;
+    /** The Langflow session ID. */
+    sessionId: string;
+    /** ID of the authenticated principal who held the conversation, if any. */
+    userId?: string;
+    /** Who sent the message, using Langflow's sender values. */
+    sender: 'User' | 'Machine';
+    /** The message text. */
+    text: string;
+    /** Paths of the files attached to a user message, as stored by Langflow. */
+    files?: string[];
+    /** ISO 8601 timestamp of when the message was recorded. */
+    timestamp: string;
+}
+
+/**
+ * Persistence adapter for recorded conversations.
+ * Implementations must return messages of a session in the order they were appended.
+ */
+export interface ConversationStore {
+    appendMessages(messages: ConversationMessage[]): Promise<void>;
+    getMessages(profileId: string, sessionId: string): Promise<ConversationMessage[]>;
+}
+
+/**
+ * Builds the key used by the bundled adapters to group messages by profile and session.
+ * @param {string} profileId - The chatbot profile ID.
+ * @param {string} sessionId - The Langflow session ID.
+ * @returns {string} The conversation key.
+ */
+export function conversationKey(profileId: string, sessionId: string): string {
+    return `${profileId}::${sessionId}`;
+}
@@ -0,0 +1,26 @@
+import { ConversationMessage, ConversationStore, conversationKey } from './ConversationStore';
+
+/**
+ * Keeps conversations in process memory. Suitable for development and single-instance
+ * deployments where history does not need to survive a restart.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+    private conversations: Map<string, ConversationMessage[]> = new Map();
+
+    public async appendMessages(messages: ConversationMessage[]): Promise<void> {
+        for (const message of messages) {
+            const key = conversationKey(message.profileId, message.sessionId);
+            const conversation = this.conversations.get(key);
+            if (conversation) {
+                conversation.push({ ...message });
+            } else {
+                this.conversations.set(key, [{ ...message }]);
+            }
+        }
+    }
+
+    public async getMessages(profileId: string, sessionId: string): Promise<ConversationMessage[]> {
+        const conversation = this.conversations.get(conversationKey(profileId, sessionId)) || [];
+        return conversation.map(message => ({ ...message }));
+    }
+}
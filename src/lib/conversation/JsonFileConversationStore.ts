@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import { ConversationMessage, ConversationStore, conversationKey } from './ConversationStore';
+
+type ConversationFileContents = Record<string, ConversationMessage[]>;
+
+/**
+ * Persists conversations to a single JSON file. The file is read once on first use and
+ * rewritten atomically (write to a temp file, then rename) after every append. Writes are
+ * serialized, so concurrent requests cannot interleave. Intended for single-process deployments.
+ */
+export class JsonFileConversationStore implements ConversationStore {
+    private filePath: string;
+    private conversations: ConversationFileContents | null = null;
+    private pendingOperation: Promise<void> = Promise.resolve();
+
+    /**
+     * @param {string} filePath - Path of the JSON file. It is created, along with its directory, if missing.
+     */
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+    }
+
+    public async appendMessages(messages: ConversationMessage[]): Promise<void> {
+        await this.enqueue(async () => {
+            const conversations = await this.load();
+            for (const message of messages) {
+                const key = conversationKey(message.profileId, message.sessionId);
+                (conversations[key] = conversations[key] || []).push({ ...message });
+            }
+            await this.persist(conversations);
+        });
+    }
+
+    public async getMessages(profileId: string, sessionId: string): Promise<ConversationMessage[]> {
+        let result: ConversationMessage[] = [];
+        await this.enqueue(async () => {
+            const conversations = await this.load();
+            result = (conversations[conversationKey(profileId, sessionId)] || []).map(message => ({ ...message }));
+        });
+        return result;
+    }
+
+    private enqueue(operation: () => Promise<void>): Promise<void> {
+        const run = this.pendingOperation.then(operation);
+        // Keep the queue alive after a failure; the caller still receives the rejection.
+        this.pendingOperation = run.catch(() => undefined);
+        return run;
+    }
+
+    private async load(): Promise<ConversationFileContents> {
+        if (this.conversations) {
+            return this.conversations;
+        }
+        try {
+            const raw = await fs.promises.readFile(this.filePath, 'utf-8');
+            const parsed = raw.trim() === '' ? {} : JSON.parse(raw);
+            if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                throw new Error('expected a JSON object keyed by conversation');
+            }
+            this.conversations = parsed as ConversationFileContents;
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw new Error(`JsonFileConversationStore: Could not read conversation file at ${this.filePath}: ${error.message}`);
+            }
+            this.conversations = {};
+        }
+        return this.conversations;
+    }
+
+    private async persist(conversations: ConversationFileContents): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(conversations, null, 2), 'utf-8');
+        await fs.promises.rename(tempPath, this.filePath);
+    }
+}
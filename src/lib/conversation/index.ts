@@ -0,0 +1,3 @@
+export * from './ConversationStore';
+export { InMemoryConversationStore } from './InMemoryConversationStore';
+export { JsonFileConversationStore } from './JsonFileConversationStore';
@@ -0,0 +1,101 @@
+/**
+ * @file health.ts
+ * @description Liveness and readiness endpoints for container probes. `/healthz` answers as long as the
+ * process serves requests. `/readyz` reports whether the proxy can serve chat traffic: startup finished,
+ * the flow list was fetched, and Langflow answers a ping. Both answer JSON and need no authentication,
+ * so they reveal counts and states but no configuration or error details; failures are logged instead.
+ */
+import http from 'http';
+import { UpstreamConfig } from '../types';
+import { fetchWithRetries } from './langflow/upstream';
+import { CircuitBreakerStatus } from './langflow/circuitBreaker';
+
+/** Langflow's own liveness endpoint, used as the ping. */
+const LANGFLOW_HEALTH_PATH = '/health';
+
+export interface ReadinessReport {
+    /** 'ready' when every check below with an `ok` field passed. */
+    status: 'ready' | 'not_ready';
+    checks: {
+        /** The proxy's startup: loading profiles and fetching the flow list. */
+        initialization: { ok: boolean; state: 'pending' | 'complete' | 'failed' };
+        /** The last fetch of the flow list used to resolve flow names. */
+        flowMapper: { ok: boolean; flows: number };
+        /** How many loaded profiles have a usable flow. Informational: unresolved profiles do not fail readiness. */
+        profiles: { total: number; resolved: number; unresolved: number };
+        /** Whether Langflow answered the ping, and how long it took. */
+        langflow: { ok: boolean; latencyMs: number };
+        /** The circuit breaker's state; omitted when it is disabled. */
+        circuitBreaker?: CircuitBreakerStatus;
+    };
+}
+
+/** The outcome of a Langflow ping; the `error` is for logs, not for the readiness report. */
+export interface LangflowPing {
+    ok: boolean;
+    latencyMs: number;
+    error?: string;
+}
+
+/** How long a ping's outcome is reused, so frequent probes do not each reach Langflow. */
+export const LANGFLOW_PING_CACHE_MS = 5_000;
+
+/**
+ * Pings Langflow's health endpoint once, without retries.
+ * @param {string} endpointUrl - The Langflow base URL.
+ * @param {UpstreamConfig} [upstream] - Its `connectTimeoutMs` bounds the ping.
+ * @returns The outcome, with the round-trip time.
+ */
+export async function pingLangflow(endpointUrl: string, upstream?: UpstreamConfig): Promise<LangflowPing> {
+    const startedAt = Date.now();
+    try {
+        const response = await fetchWithRetries(
+            new URL(LANGFLOW_HEALTH_PATH, endpointUrl).toString(),
+            { method: 'GET', headers: { 'Accept': 'application/json' } },
+            { ...upstream, retries: 0 },
+            'Langflow ping'
+        );
+        const latencyMs = Date.now() - startedAt;
+        return response.ok ? { ok: true, latencyMs } : { ok: false, latencyMs, error: `Langflow answered with status ${response.status}.` };
+    } catch (error: any) {
+        return { ok: false, latencyMs: Date.now() - startedAt, error: error?.message || String(error) };
+    }
+}
+
+/**
+ * Reuses a ping's outcome for `ttlMs`. Probes that arrive while a ping is in flight share it.
+ * @param {() => Promise<LangflowPing>} ping - Pings Langflow.
+ * @param {number} [ttlMs] - How long an outcome is reused, counted from when the ping started.
+ * @param {() => number} [now] - The clock; replaceable for tests.
+ * @returns {() => Promise<LangflowPing>} The cached ping.
+ */
+export function cachePing(ping: () => Promise<LangflowPing>, ttlMs: number = LANGFLOW_PING_CACHE_MS, now: () => number = Date.now): () => Promise<LangflowPing> {
+    let cached: { startedAt: number; outcome: Promise<LangflowPing> } | undefined;
+    return () => {
+        if (!cached || now() - cached.startedAt >= ttlMs) {
+            cached = { startedAt: now(), outcome: ping() };
+        }
+        return cached.outcome;
+    };
+}
+
+/** Answers a liveness probe. */
+export function handleLivenessRequest(res: http.ServerResponse): void {
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(JSON.stringify({ status: 'ok' }));
+}
+
+/**
+ * Answers a readiness probe with the report, as 200 when ready and 503 otherwise.
+ * @param {http.ServerResponse} res - The response to the probe.
+ * @param {() => Promise<ReadinessReport>} checkReadiness - Runs the checks.
+ */
+export async function handleReadinessRequest(res: http.ServerResponse, checkReadiness: () => Promise<ReadinessReport>): Promise<void> {
+    const report = await checkReadiness();
+    res.statusCode = report.status === 'ready' ? 200 : 503;
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(JSON.stringify(report));
+}
@@ -1,85 +1,498 @@
 import http from 'http';
+import { randomUUID } from 'crypto';
 import { LangflowClient } from '@datastax/langflow-client';
 import { sendJsonError, parseJsonBody } from '../request-utils';
+import { ConversationStore } from '../conversation/ConversationStore';
+import { ContextPolicy, FlowInputType, FlowOutputType, FlowTweaks, MessagePolicy, Principal, Profile, UpstreamConfig } from '../../types';
+import { SessionOwnershipGuard } from '../auth/sessionOwnership';
+import { FileOwnershipGuard } from '../auth/fileOwnership';
+import { RateLimiter } from '../rateLimiter';
+import { checkMessagePolicy } from '../messagePolicy';
+import { applyPageContext, checkPageContext } from '../pageContext';
+import { openStreamTransport, StreamTransport, StreamedEvent } from './streamTransport';
+import { callWithTimeout, resolveUpstreamPolicy, sendUpstreamTimeout, UpstreamTimeoutError, UPSTREAM_TIMEOUT_ERROR, withIdleTimeout } from './upstream';
+import { CircuitBreaker, CIRCUIT_OPEN_DETAIL, CIRCUIT_OPEN_ERROR, isUpstreamFailure } from './circuitBreaker';
+import { ProxyMetrics } from '../metrics';
+import { consoleLogger, ServerLogger, withLogFields } from '../logging';
+import { AttachmentContext, buildFileTweaks, checkAttachedFiles } from './fileHandlers';
+import { checkClientTweaks, mergeTweaks } from './tweaks';
+import { EMPTY_REPLY_MESSAGE, extractReply, NO_REPLY_MESSAGE, ReplyExtractor, ReplyExtractorRegistry } from './replyExtractors';
 
-// Helper function to extract reply from Langflow's response
-function extractReplyFromLangflowResponse(langflowResponse: any): string {
-    let reply = "Sorry, I could not process that.";
-
-    if (langflowResponse && Array.isArray(langflowResponse.outputs) && langflowResponse.outputs.length > 0) {
-        const firstOutputComponent = langflowResponse.outputs[0];
-        if (firstOutputComponent && Array.isArray(firstOutputComponent.outputs) && firstOutputComponent.outputs.length > 0) {
-            const innerOutput = firstOutputComponent.outputs[0];
-            if (innerOutput) {
-                let textFromResults: string | null = null;
-                if (innerOutput.results?.message && typeof innerOutput.results.message.text === 'string') {
-                    textFromResults = innerOutput.results.message.text;
-                }
+/**
+ * Optional collaborators for a chat request.
+ */
+export interface ChatRequestOptions {
+    /** The profile being served; required for conversation recording. */
+    profileId?: string;
+    /** When set, the user message and final bot reply are recorded here. */
+    conversationStore?: ConversationStore;
+    /** The caller resolved by the proxy's authenticate hook, or null/undefined if anonymous. */
+    principal?: Principal | null;
+    /** When set, sessions are bound to the principal that started them. */
+    sessionOwnership?: SessionOwnershipGuard;
+    /** When set, each message is counted against the global and profile rate limits before it reaches Langflow. */
+    rateLimit?: { limiter: RateLimiter; profile: Profile };
+    /** The profile's limits on body size, message length and content. */
+    messagePolicy?: MessagePolicy;
+    /** Timeouts for the Langflow calls; unset fields use the defaults. */
+    upstream?: UpstreamConfig;
+    /** When set, messages are refused while Langflow keeps failing, and each call's outcome is recorded. */
+    circuitBreaker?: CircuitBreaker;
+    /** When set, the message's timings and outcome and any failed Langflow call are counted here. */
+    metrics?: ProxyMetrics;
+    /** The request's logger, carrying its correlation id and route. Defaults to the console. */
+    logger?: ServerLogger;
+    /** Set for profiles that accept attachments; messages with `files` are refused otherwise. */
+    attachments?: AttachmentContext;
+    /** When set, messages with `files` the caller did not upload are refused. */
+    fileOwnership?: FileOwnershipGuard;
+    /** The profile's `server.tweaks`, merged into every run. */
+    tweaks?: FlowTweaks;
+    /** The profile's `server.clientTweaks`; messages with `tweaks` outside this list are refused. */
+    clientTweaks?: string[];
+    /** The profile's `server.context`; messages with `context` are refused when unset. */
+    context?: ContextPolicy;
+    /** The profile's `server.inputType`; defaults to 'chat'. */
+    inputType?: FlowInputType;
+    /** The profile's `server.outputType`; defaults to 'chat'. */
+    outputType?: FlowOutputType;
+    /** The profile's `server.outputComponent`: the output whose result is the reply, even when other components streamed tokens. */
+    outputComponent?: string;
+    /** The profile's reply extractors, from `ReplyExtractorRegistry.resolve`; unset means those for `outputComponent`, or the built-in ones. */
+    replyExtractors?: readonly ReplyExtractor[];
+    /** The profile's `server.debugReplyExtractors`: replies name the extractor that found them. */
+    debugReplyExtractors?: boolean;
+}
 
-                if (textFromResults !== null) { // If results.message.text was present
-                    reply = textFromResults;
-                } else if (innerOutput.outputs && typeof innerOutput.outputs === 'object') {
-                    const innerComponentOutputs = innerOutput.outputs as Record<string, any>;
-                    if (innerComponentOutputs.message && typeof innerComponentOutputs.message === 'object' && typeof innerComponentOutputs.message.message === 'string') {
-                        if (innerComponentOutputs.message.message !== '') {
-                           reply = innerComponentOutputs.message.message;
-                        } else if (reply === "Sorry, I could not process that.") {
-                            reply = '';
-                        }
-                    } else if (typeof innerComponentOutputs.text === 'string') {
-                        if (innerComponentOutputs.text !== '') {
-                           reply = innerComponentOutputs.text;
-                        } else if (reply === "Sorry, I could not process that.") {
-                            reply = '';
-                        }
-                    }
-                }
-            }
+const defaultReplyExtractors = new ReplyExtractorRegistry();
+
+/** The optional parts of a chat message, as received from the client. */
+export interface ChatMessageExtras {
+    /** The attachment paths. */
+    files?: unknown;
+    /** Component settings, limited to the profile's `server.clientTweaks`. */
+    tweaks?: unknown;
+    /** Values describing the host page, checked against the profile's `server.context`. */
+    context?: unknown;
+}
+
+/** The logger for a chat request's entries, which adds its profile and session. */
+function chatLogger(options: ChatRequestOptions, sessionId?: string): ServerLogger {
+    return withLogFields(options.logger ?? consoleLogger, { profileId: options.profileId, sessionId });
+}
+
+/**
+ * Records the outcome of a Langflow call on the circuit breaker and in the metrics, if configured.
+ * @param {ChatRequestOptions} options - The request's collaborators.
+ * @param {unknown} [error] - The error the call failed with; omitted if it succeeded.
+ */
+export function recordUpstreamOutcome(options: ChatRequestOptions, error?: unknown): void {
+    if (error !== undefined) {
+        options.metrics?.recordUpstreamError(error);
+    }
+    if (!options.circuitBreaker) {
+        return;
+    }
+    if (error !== undefined && isUpstreamFailure(error)) {
+        options.circuitBreaker.recordFailure();
+    } else {
+        options.circuitBreaker.recordSuccess();
+    }
+}
+
+/**
+ * Binds the session to the requesting principal, if ownership tracking is enabled.
+ * Failures are logged and swallowed; the chat response has already been produced.
+ */
+async function claimSession(options: ChatRequestOptions, sessionId: string | undefined): Promise<void> {
+    const { sessionOwnership, profileId, principal } = options;
+    if (!sessionOwnership || !profileId || !sessionId) {
+        return;
+    }
+    try {
+        await sessionOwnership.claim(profileId, sessionId, principal);
+    } catch (error: any) {
+        chatLogger(options, sessionId).error(`RequestHandler: Failed to record ownership of session '${sessionId}' for profile '${profileId}':`, { error });
+    }
+}
+
+/**
+ * Reads the bot's reply from a flow result with the request's reply extractors.
+ * @param {any} langflowResponse - The result of `flow.run()`, or the result of a stream's 'end' event.
+ * @returns The reply to send, which is a notice when the result has no reply or an empty one, and the
+ *          extractor that found it, or null.
+ */
+export function readReply(options: ChatRequestOptions, langflowResponse: any, logger: ServerLogger = chatLogger(options)): { reply: string; extractor: string | null } {
+    const extractors = options.replyExtractors ?? defaultReplyExtractors.resolve({ outputComponent: options.outputComponent }, logger);
+    const extracted = extractReply(langflowResponse, extractors, logger);
+    if (!extracted) {
+        return { reply: NO_REPLY_MESSAGE, extractor: null };
+    }
+    return { reply: extracted.reply === '' ? EMPTY_REPLY_MESSAGE : extracted.reply, extractor: extracted.extractor };
+}
+
+/**
+ * The reply of a flow result as sent to the client: `reply`, and in debug mode the `replyExtractor`
+ * that found it (null if none did).
+ */
+export function replyPayload(options: ChatRequestOptions, langflowResponse: any, logger?: ServerLogger): { reply: string; replyExtractor?: string | null } {
+    const { reply, extractor } = readReply(options, langflowResponse, logger);
+    return options.debugReplyExtractors ? { reply, replyExtractor: extractor } : { reply };
+}
+
+/**
+ * Records a completed exchange in the configured conversation store.
+ * Failures are logged and swallowed so persistence problems never fail the chat response.
+ */
+async function recordExchange(
+    options: ChatRequestOptions,
+    flowId: string,
+    sessionId: string | undefined,
+    userMessage: string,
+    userTimestamp: string,
+    reply: string,
+    files?: string[]
+): Promise<void> {
+    const { conversationStore, profileId, principal } = options;
+    if (!conversationStore || !profileId) {
+        return;
+    }
+    if (!sessionId) {
+        chatLogger(options).warn(`RequestHandler: No session ID available for profile '${profileId}'; exchange not recorded in conversation store.`);
+        return;
+    }
+    const userId = principal?.id;
+    try {
+        await conversationStore.appendMessages([
+            { id: randomUUID(), profileId, flowId, sessionId, userId, sender: 'User', text: userMessage, files, timestamp: userTimestamp },
+            { id: randomUUID(), profileId, flowId, sessionId, userId, sender: 'Machine', text: reply, timestamp: new Date().toISOString() },
+        ]);
+    } catch (error: any) {
+        chatLogger(options, sessionId).error(`RequestHandler: Failed to record exchange for profile '${profileId}', session '${sessionId}':`, { error });
+    }
+}
+
+/** Why a chat message was refused before it reached Langflow. */
+export interface ChatRejection {
+    statusCode: number;
+    error: string;
+    detail?: string;
+    /** Set when the rate limit was exceeded or the circuit is open. */
+    retryAfterSeconds?: number;
+}
+
+/**
+ * Validates a chat message and applies the message policy, rate limit and session ownership checks,
+ * then the circuit breaker. A session that may be continued is claimed up front, so a concurrent
+ * request from another user cannot take it first. Once admitted, the outcome of the Langflow call
+ * must be passed to `recordUpstreamOutcome`.
+ * @param {http.IncomingMessage} req - The request carrying the message; used to key the rate limit.
+ * @param {string} flowId - The target flow, for logging.
+ * @param {unknown} userMessage - The message as received from the client.
+ * @param {string | undefined} clientSessionId - The session the client asked to continue.
+ * @param {ChatRequestOptions} options - The request's collaborators.
+ * @param {ChatMessageExtras} [extras] - The message's attachments, tweaks and context.
+ * @returns {Promise<ChatRejection | null>} The rejection to report, or null if the message may be sent to the flow.
+ */
+export async function admitChatMessage(
+    req: http.IncomingMessage,
+    flowId: string,
+    userMessage: unknown,
+    clientSessionId: string | undefined,
+    options: ChatRequestOptions,
+    extras: ChatMessageExtras = {}
+): Promise<ChatRejection | null> {
+    const logger = chatLogger(options, clientSessionId);
+    if (!userMessage || typeof userMessage !== 'string') {
+        return { statusCode: 400, error: "Message is required and must be a string." };
+    }
+    const filesError = checkAttachedFiles(extras.files, flowId, options.attachments?.policy);
+    if (filesError) {
+        logger.warn(`RequestHandler: Attachments for flow '${flowId}' rejected: ${filesError}`);
+        return { statusCode: 400, error: filesError };
+    }
+    const files = attachedFiles(extras.files);
+    if (files && options.fileOwnership && options.profileId) {
+        const { fileOwnership, profileId } = options;
+        const caller = { principal: options.principal, sessionId: clientSessionId };
+        const owned = await Promise.all(files.map(file => fileOwnership.canAccess(profileId, file, caller)));
+        if (owned.includes(false)) {
+            logger.warn(`RequestHandler: Attachments for flow '${flowId}' rejected: not uploaded by the caller.`);
+            return { statusCode: 403, error: "Attachments must be files you uploaded." };
         }
+    }
+    const tweaksError = checkClientTweaks(extras.tweaks, options.clientTweaks);
+    if (tweaksError) {
+        logger.warn(`RequestHandler: Tweaks for flow '${flowId}' rejected: ${tweaksError}`);
+        return { statusCode: 400, error: tweaksError };
+    }
+    const contextError = checkPageContext(extras.context, options.context);
+    if (contextError) {
+        logger.warn(`RequestHandler: Context for flow '${flowId}' rejected: ${contextError}`);
+        return { statusCode: 400, error: contextError };
+    }
+    const policyDecision = checkMessagePolicy(options.messagePolicy, userMessage);
+    if (!policyDecision.allowed) {
+        logger.warn(`RequestHandler: Message for flow '${flowId}' rejected by message policy: ${policyDecision.error}`);
+        return { statusCode: policyDecision.statusCode, error: policyDecision.error, detail: policyDecision.detail };
+    }
+    if (clientSessionId && options.sessionOwnership && options.profileId) {
+        if (!(await options.sessionOwnership.canAccess(options.profileId, clientSessionId, options.principal))) {
+            logger.warn(`RequestHandler: Refused to continue session '${clientSessionId}' of profile '${options.profileId}' for a caller who does not own it.`);
+            return { statusCode: 403, error: "This session belongs to another user." };
+        }
+    }
+    // Checked before the circuit breaker, whose probe slot must not go to a message refused here, and only
+    // spent once nothing else refuses the message. Counted before choosing a transport, so streaming and
+    // non-streaming messages cost the same.
+    const rateLimitClient = { req, sessionId: clientSessionId, principal: options.principal };
+    if (options.rateLimit) {
+        const { limiter, profile } = options.rateLimit;
+        const decision = limiter.check(profile, rateLimitClient);
+        if (!decision.allowed) {
+            logger.warn(`RequestHandler: Rate limit exceeded for profile '${profile.profileId}'. Retry after ${decision.retryAfterSeconds}s.`);
+            return { statusCode: 429, error: "Too many requests. Please wait before sending another message.", retryAfterSeconds: decision.retryAfterSeconds };
+        }
+    }
+    if (options.circuitBreaker && !options.circuitBreaker.tryAcquire()) {
+        logger.warn(`RequestHandler: Refused message for flow '${flowId}' because Langflow is unavailable (circuit open).`);
+        return { statusCode: 503, error: CIRCUIT_OPEN_ERROR, detail: CIRCUIT_OPEN_DETAIL, retryAfterSeconds: options.circuitBreaker.getStatus().retryAfterSeconds ?? 1 };
+    }
+    options.rateLimit?.limiter.consume(options.rateLimit.profile, rateLimitClient);
+    await claimSession(options, clientSessionId);
+    return null;
+}
 
-        if (reply === "Sorry, I could not process that.") {
-            console.log("RequestHandler: Primary reply extraction failed or yielded no usable primary value, attempting fallback...");
-            for (const outputComponent of langflowResponse.outputs) {
-                if (reply !== "Sorry, I could not process that.") break;
-                if (outputComponent && typeof outputComponent === 'object' && Array.isArray(outputComponent.outputs)) {
-                    for (const innerDocOutput of outputComponent.outputs) {
-                        if (reply !== "Sorry, I could not process that.") break;
-                        if (innerDocOutput && typeof innerDocOutput === 'object') {
-                            if (innerDocOutput.outputs && typeof innerDocOutput.outputs === 'object') {
-                                const componentOutputs = innerDocOutput.outputs as Record<string, any>;
-                                if (componentOutputs.chat && typeof componentOutputs.chat === 'string' && componentOutputs.chat !== '') {
-                                    reply = componentOutputs.chat; break;
-                                } else if (componentOutputs.chat === '' && reply === "Sorry, I could not process that.") { reply = ''; break;}
-
-                                if (componentOutputs.text && typeof componentOutputs.text === 'string' && componentOutputs.text !== '') {
-                                    reply = componentOutputs.text; break;
-                                } else if (componentOutputs.text === '' && reply === "Sorry, I could not process that.") { reply = ''; break;}
-                                
-                                if (componentOutputs.message && typeof componentOutputs.message === 'object' && typeof componentOutputs.message.message === 'string' && componentOutputs.message.message !== '') {
-                                    reply = componentOutputs.message.message; break;
-                                } else if (componentOutputs.message?.message === '' && reply === "Sorry, I could not process that.") { reply = ''; break;}
-                            }
-                            if (innerDocOutput.results && innerDocOutput.results.message && typeof innerDocOutput.results.message.text === 'string') {
-                                if (innerDocOutput.results.message.text !== '') {
-                                    reply = innerDocOutput.results.message.text; break;
-                                } else if (reply === "Sorry, I could not process that.") { reply = ''; break; }
-                            }
-                            if (innerDocOutput.artifacts && typeof innerDocOutput.artifacts.message === 'string') {
-                                 if (innerDocOutput.artifacts.message !== '') {
-                                    reply = innerDocOutput.artifacts.message; break;
-                                } else if (reply === "Sorry, I could not process that.") { reply = ''; break; }
-                            }
-                        }
-                    }
-                }
+function sendRejection(res: http.ServerResponse, rejection: ChatRejection): void {
+    if (rejection.retryAfterSeconds !== undefined) {
+        res.setHeader('Retry-After', String(rejection.retryAfterSeconds));
+    }
+    if (rejection.detail !== undefined) {
+        sendJsonError(res, rejection.statusCode, rejection.error, rejection.detail);
+    } else {
+        sendJsonError(res, rejection.statusCode, rejection.error);
+    }
+}
+
+/** The options of `flow.run()` and `flow.stream()` used for chat messages. */
+export interface RunOptions {
+    input_type: FlowInputType;
+    output_type: FlowOutputType;
+    session_id?: string;
+    signal?: AbortSignal;
+    /** Typed loosely, as the client's `Tweak` type does not allow the list of files a Chat Input takes. */
+    tweaks?: Record<string, any>;
+}
+
+/**
+ * Builds the Langflow run options for a chat message.
+ * @param {string} [sessionId] - The session to continue; omitted to let Langflow start one.
+ * @param {AbortSignal} [signal] - Aborts the Langflow request when the client goes away.
+ * @param {Record<string, any>} [tweaks] - Component settings for this run, from `prepareRun`.
+ * @param io - The profile's input and output types; 'chat' when unset.
+ */
+export function buildRunOptions(
+    sessionId?: string,
+    signal?: AbortSignal,
+    tweaks?: Record<string, any>,
+    io: { inputType?: FlowInputType; outputType?: FlowOutputType } = {}
+): RunOptions {
+    const runOptions: RunOptions = {
+        input_type: io.inputType ?? 'chat',
+        output_type: io.outputType ?? 'chat',
+    };
+    if (sessionId) runOptions.session_id = sessionId;
+    if (signal) runOptions.signal = signal;
+    if (tweaks) runOptions.tweaks = tweaks;
+    return runOptions;
+}
+
+/**
+ * The attachments of an admitted message, checked by `admitChatMessage`.
+ * @returns {string[] | undefined} The paths, or undefined if the message has none.
+ */
+export function attachedFiles(files: unknown): string[] | undefined {
+    return Array.isArray(files) && files.length > 0 ? files : undefined;
+}
+
+/** What an admitted message is run with. */
+export interface PreparedRun {
+    /** The text sent to the flow: the user's message behind the profile's context prefix, if any. */
+    input: string;
+    tweaks?: Record<string, any>;
+    /** From `attachedFiles`; recorded with the user's message. */
+    files?: string[];
+}
+
+/**
+ * Prepares the run of an admitted message. Its tweaks are the profile's, then the context's, then
+ * the client's, then those that hand the message's attachments to the flow, each overriding the
+ * fields set before it. Looking up the flow's Chat Input component is a Langflow call, so its
+ * outcome is recorded like the run's.
+ * @param {string} userMessage - The message as the user wrote it.
+ * @param {ChatMessageExtras} extras - The message's attachments, tweaks and context, checked by `admitChatMessage`.
+ * @throws If the Chat Input component cannot be found.
+ */
+export async function prepareRun(options: ChatRequestOptions, userMessage: string, extras: ChatMessageExtras = {}): Promise<PreparedRun> {
+    const files = attachedFiles(extras.files);
+    let fileTweaks: FlowTweaks | undefined;
+    if (files && options.attachments) {
+        try {
+            fileTweaks = await buildFileTweaks(options.attachments, files);
+        } catch (error) {
+            recordUpstreamOutcome(options, error);
+            throw error;
+        }
+    }
+    const context = applyPageContext(options.context, extras.context, userMessage);
+    const tweaks = mergeTweaks(options.tweaks, context.tweaks, extras.tweaks as FlowTweaks | undefined, fileTweaks);
+    return { input: context.message, tweaks, files };
+}
+
+/** The outcome of a relayed Langflow stream. */
+export interface RelayedStream {
+    /** The concatenated token chunks. */
+    reply: string;
+    /** The flow result carried by the 'end' event, if one arrived. */
+    endResult: any;
+}
+
+/**
+ * Forwards each event of a Langflow stream and collects the reply.
+ * @param {AsyncIterable<any>} stream - The stream returned by `flow.stream()`.
+ * @param {(event: StreamedEvent) => void} send - Writes one event to the client.
+ * @param {AbortSignal} [signal] - Stops relaying (and cancels the stream) when aborted.
+ * @param {(result: any) => object} [toFlowResponse] - Reads the reply from the 'end' event's result, e.g.
+ *        with `replyPayload`. When no tokens were streamed, as with flows ending in a Text Output, it is
+ *        sent as the event's `flowResponse`, so the client can show the reply.
+ * @returns {Promise<RelayedStream>} The streamed reply and final result.
+ * @throws The signal's abort reason if it is aborted before the stream ends.
+ */
+export async function relayLangflowStream(
+    stream: AsyncIterable<any>,
+    send: (event: StreamedEvent) => void,
+    signal?: AbortSignal,
+    toFlowResponse?: (result: any) => object
+): Promise<RelayedStream> {
+    let reply = '';
+    let endResult: any;
+    for await (const event of stream) {
+        signal?.throwIfAborted();
+        if (event.event === 'token') {
+            reply += event.data.chunk;
+        } else if (event.event === 'end') {
+            endResult = event.data?.result;
+            if (reply === '' && endResult && toFlowResponse) {
+                send({ ...event, data: { ...event.data, flowResponse: toFlowResponse(endResult) } });
+                continue;
             }
         }
+        send(event);
     }
+    return { reply, endResult };
+}
 
-    if (reply === '') {
-        reply = "Received an empty message from Bot.";
+/**
+ * Returns a controller that is aborted if the client disconnects before its response is complete,
+ * so the Langflow run is not paid for after nobody is waiting for it. Only the response's 'close'
+ * event tells a disconnect apart: `req` also emits 'close' once its body has been read.
+ */
+function abortOnDisconnect(res: http.ServerResponse): AbortController {
+    const controller = new AbortController();
+    res.once?.('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+    return controller;
+}
+
+/**
+ * Claims the session Langflow used for a streamed reply and records the exchange.
+ */
+export async function finishStreamedExchange(
+    options: ChatRequestOptions,
+    flowId: string,
+    clientSessionId: string | undefined,
+    userMessage: string,
+    userTimestamp: string,
+    relayed: RelayedStream,
+    files?: string[]
+): Promise<void> {
+    const streamSessionId = relayed.endResult?.session_id || clientSessionId;
+    await claimSession(options, streamSessionId);
+    const log = chatLogger(options, streamSessionId);
+    // A selected output component is the reply even when other components streamed tokens.
+    const finalReply = relayed.reply !== '' && !(options.outputComponent && relayed.endResult)
+        ? relayed.reply
+        : readReply(options, relayed.endResult, log).reply;
+    await recordExchange(options, flowId, streamSessionId, userMessage, userTimestamp, finalReply, files);
+}
+
+/** An admitted message, as `streamChatRun` runs it. */
+export interface StreamedChat {
+    flowId: string;
+    /** The session the client named, if any. */
+    sessionId: string | undefined;
+    message: string;
+    /** When the user's message was received; recorded with it. */
+    userTimestamp: string;
+    run: PreparedRun;
+}
+
+/**
+ * Runs an admitted message as a Langflow stream, relays its events and records the exchange.
+ * Shared by the HTTP and WebSocket transports: the stream is opened within the connect timeout and
+ * aborted when no event arrives for the response timeout. The Langflow call is counted by the circuit
+ * breaker, and the message's timings and outcome by the metrics.
+ * @param {LangflowClient} langflowClient - The client the flow is run with.
+ * @param {StreamedChat} chat - The message.
+ * @param {ChatRequestOptions} options - The request's collaborators.
+ * @param {AbortSignal} signal - Cancels the run when the client goes away.
+ * @param {() => Pick<StreamTransport, 'send' | 'close'>} openTransport - Called once Langflow has accepted the request; returns the writer for the events.
+ * @param {ServerLogger} log - The request's logger.
+ * @throws The abort reason when `signal` is aborted, an `UpstreamTimeoutError`, or Langflow's error. Each is already counted.
+ */
+export async function streamChatRun(
+    langflowClient: LangflowClient,
+    chat: StreamedChat,
+    options: ChatRequestOptions,
+    signal: AbortSignal,
+    openTransport: () => Pick<StreamTransport, 'send' | 'close'>,
+    log: ServerLogger
+): Promise<void> {
+    const observation = options.metrics?.startChat(options.profileId ?? '', 'stream');
+    const policy = resolveUpstreamPolicy(options.upstream);
+    // Aborts the Langflow request when the stream goes quiet; the client's signal still cancels it as well.
+    const idle = new AbortController();
+    let streamOpened = false;
+    try {
+        const stream = await callWithTimeout(
+            streamSignal => langflowClient.flow(chat.flowId).stream(chat.run.input, buildRunOptions(chat.sessionId, streamSignal, chat.run.tweaks, options)),
+            policy.connectTimeoutMs,
+            'flow stream',
+            AbortSignal.any([signal, idle.signal])
+        );
+        streamOpened = true;
+        recordUpstreamOutcome(options);
+        const transport = openTransport();
+        const events = withIdleTimeout(stream, policy.responseTimeoutMs, 'flow stream', error => idle.abort(error));
+        const relayed = await relayLangflowStream(events, event => {
+            if (event.event === 'token') observation?.firstToken();
+            transport.send(event);
+        }, signal, result => replyPayload(options, result, log));
+        transport.close();
+        observation?.finish('completed');
+        await finishStreamedExchange(options, chat.flowId, chat.sessionId, chat.message, chat.userTimestamp, relayed, chat.run.files);
+    } catch (error) {
+        if (signal.aborted) {
+            observation?.finish('cancelled');
+            throw error;
+        }
+        if (!streamOpened) {
+            recordUpstreamOutcome(options, error);
+        }
+        observation?.finish(error instanceof UpstreamTimeoutError ? 'timeout' : 'error');
+        throw error;
     }
-    return reply;
 }
 
 export async function handleChatMessageRequest(
@@ -89,60 +502,82 @@ export async function handleChatMessageRequest(
     enableStream: boolean,
     langflowClient: LangflowClient | undefined,
     preParsedBody: any | undefined,
-    isBodyPreParsed: boolean
+    isBodyPreParsed: boolean,
+    options: ChatRequestOptions = {}
 ): Promise<void> {
     if (!langflowClient) {
         sendJsonError(res, 503, "RequestHandler: LangflowClient not available. Check server logs.");
         return;
     }
 
+    let log = chatLogger(options);
     try {
         let actualBody: any;
         if (isBodyPreParsed && preParsedBody) {
-            console.log("[Debug ChatHandler] Using pre-parsed body provided by adapter:", preParsedBody);
+            log.debug("[Debug ChatHandler] Using pre-parsed body provided by adapter:", { data: preParsedBody });
             actualBody = preParsedBody;
         } else {
-            console.log("[Debug ChatHandler] Pre-parsed body not available or not indicated. Attempting to parse JSON body via parseJsonBody.");
-            actualBody = await parseJsonBody(req);
-            console.log("[Debug ChatHandler] JSON body parsed successfully via parseJsonBody:", actualBody);
+            log.debug("[Debug ChatHandler] Pre-parsed body not available or not indicated. Attempting to parse JSON body via parseJsonBody.");
+            actualBody = await parseJsonBody(req, options.messagePolicy?.maxBodyBytes);
+            log.debug("[Debug ChatHandler] JSON body parsed successfully via parseJsonBody:", { data: actualBody });
         }
 
         const userMessage = actualBody.message;
         const clientSessionId = actualBody.sessionId;
         const clientWantsStream = actualBody.stream === true;
         const useStream = enableStream && clientWantsStream;
+        log = chatLogger(options, typeof clientSessionId === 'string' ? clientSessionId : undefined);
 
-        if (!userMessage || typeof userMessage !== 'string') {
-            sendJsonError(res, 400, "Message is required and must be a string.");
+        const extras: ChatMessageExtras = { files: actualBody.files, tweaks: actualBody.tweaks, context: actualBody.context };
+        const rejection = await admitChatMessage(req, flowId, userMessage, clientSessionId, options, extras);
+        if (rejection) {
+            sendRejection(res, rejection);
+            return;
+        }
+        const userTimestamp = new Date().toISOString();
+        let run: PreparedRun;
+        try {
+            run = await prepareRun(options, userMessage, extras);
+        } catch (attachError: any) {
+            log.error(`RequestHandler: Could not hand attachments to flow '${flowId}':`, { error: attachError });
+            sendJsonError(res, 502, "Failed to attach the files to the message.", attachError.message);
             return;
         }
         
-        const runOptions: any = {
-            input_type: 'chat',
-            output_type: 'chat',
-            session_id: clientSessionId || undefined,
-        };
-        if (runOptions.session_id === undefined) delete runOptions.session_id;
-
-        const flow = langflowClient.flow(flowId);
+        const upstream = abortOnDisconnect(res);
+        const upstreamPolicy = resolveUpstreamPolicy(options.upstream);
+        const runOptions = buildRunOptions(clientSessionId, undefined, undefined, options);
 
         if (useStream) {
-            console.log(`RequestHandler: Streaming request for Flow '${flowId}', session: ${runOptions.session_id || 'new'}, message: "${userMessage.substring(0, 50)}..."`);
-            res.setHeader('Content-Type', 'application/x-ndjson');
-            res.setHeader('Transfer-Encoding', 'chunked');
+            log.info(`RequestHandler: Streaming request for Flow '${flowId}', session: ${runOptions.session_id || 'new'}, message: "${userMessage.substring(0, 50)}..."`);
 
+            let transport: StreamTransport | undefined;
             try {
-                const streamResponse = await flow.stream(userMessage, runOptions);
-                for await (const event of streamResponse) {
-                    res.write(JSON.stringify(event) + '\n');
-                }
-                res.end();
+                const chat: StreamedChat = { flowId, sessionId: clientSessionId, message: userMessage, userTimestamp, run };
+                // Opened once Langflow has accepted the request, so setup failures still get a JSON error.
+                await streamChatRun(langflowClient, chat, options, upstream.signal, () => (transport = openStreamTransport(req, res)), log);
             } catch (streamError: any) {
-                console.error(`RequestHandler: Error during Langflow stream for flow '${flowId}':`, streamError);
+                if (upstream.signal.aborted) {
+                    log.info(`RequestHandler: Client disconnected; cancelled the Langflow stream for flow '${flowId}'.`);
+                    return;
+                }
+                if (streamError instanceof UpstreamTimeoutError) {
+                    log.warn(`RequestHandler: ${streamError.message} Aborted the stream of flow '${flowId}'.`);
+                    if (transport) {
+                        transport.send({ event: 'error', data: { message: UPSTREAM_TIMEOUT_ERROR, detail: streamError.message } });
+                        transport.close();
+                    } else {
+                        sendUpstreamTimeout(res, streamError);
+                    }
+                    return;
+                }
+                log.error(`RequestHandler: Error during Langflow stream for flow '${flowId}':`, { error: streamError });
                 if (!res.headersSent) {
                     sendJsonError(res, 500, "Failed to process stream.", streamError.message || 'Unknown stream error');
-                } else {
-                    res.write(JSON.stringify({ event: 'error', data: { message: "Error during streaming.", detail: streamError.message || 'Unknown error on stream' } }) + '\n');
+                } else if (transport) {
+                    transport.send({ event: 'error', data: { message: "Error during streaming.", detail: streamError.message || 'Unknown error on stream' } });
+                    transport.close();
+                } else if (!res.writableEnded) {
                     res.end();
                 }
             }
@@ -150,23 +585,55 @@ export async function handleChatMessageRequest(
             let logMessage = `RequestHandler: Non-streaming request for Flow '${flowId}'`;
             if (clientSessionId) logMessage += `, session: ${runOptions.session_id}`;
             logMessage += `, input_type: ${runOptions.input_type}, message: "${userMessage.substring(0,50)}..."`;
-            console.log(logMessage);
+            log.info(logMessage);
             
-            const langflowResponse = await flow.run(userMessage, runOptions);
-            const reply = extractReplyFromLangflowResponse(langflowResponse);
+            const flow = langflowClient.flow(flowId);
+            const observation = options.metrics?.startChat(options.profileId ?? '', 'non_stream');
+            let langflowResponse: any;
+            try {
+                langflowResponse = await callWithTimeout(
+                    signal => flow.run(run.input, buildRunOptions(clientSessionId, signal, run.tweaks, options)),
+                    upstreamPolicy.responseTimeoutMs,
+                    'flow run',
+                    upstream.signal
+                );
+                recordUpstreamOutcome(options);
+            } catch (runError: any) {
+                if (!upstream.signal.aborted) {
+                    recordUpstreamOutcome(options, runError);
+                }
+                observation?.finish(runError instanceof UpstreamTimeoutError ? 'timeout' : upstream.signal.aborted ? 'cancelled' : 'error');
+                if (runError instanceof UpstreamTimeoutError) {
+                    log.warn(`RequestHandler: ${runError.message} Aborted the run of flow '${flowId}'.`);
+                    sendUpstreamTimeout(res, runError);
+                    return;
+                }
+                if (upstream.signal.aborted) {
+                    log.info(`RequestHandler: Client disconnected; cancelled the Langflow run for flow '${flowId}'.`);
+                    return;
+                }
+                throw runError;
+            }
+            const { reply, replyExtractor } = replyPayload(options, langflowResponse, log);
             const sessionId = langflowResponse && langflowResponse.sessionId ? langflowResponse.sessionId : clientSessionId;
 
             res.statusCode = 200;
             res.setHeader('Content-Type', 'application/json');
-            res.end(JSON.stringify({ reply: reply, sessionId: sessionId }));
+            res.end(JSON.stringify({ reply: reply, sessionId: sessionId, replyExtractor }));
+            observation?.finish('completed');
+            await claimSession(options, sessionId);
+            await recordExchange(options, flowId, sessionId, userMessage, userTimestamp, reply, run.files);
         }
 
     } catch (error: any) {
         if (error.message.includes('Invalid JSON body')) {
-             console.warn(`RequestHandler: Invalid JSON body for flow '${flowId}'. Error: ${error.message}`);
+             log.warn(`RequestHandler: Invalid JSON body for flow '${flowId}'. Error: ${error.message}`);
              sendJsonError(res, 400, "Invalid JSON body provided.", error.message);
+        } else if (error.message.includes('Request body too large')) {
+             log.warn(`RequestHandler: Oversized request body for flow '${flowId}'. Error: ${error.message}`);
+             sendJsonError(res, 413, "Message is too large.", error.message);
         } else {
-            console.error(`RequestHandler: Error handling chat message for flow '${flowId}':`, error);
+            log.error(`RequestHandler: Error handling chat message for flow '${flowId}':`, { error });
             if (!res.headersSent) {
                 sendJsonError(res, 500, "Failed to process chat message.", error.message);
             } else if (!res.writableEnded) {
@@ -0,0 +1,122 @@
+/**
+ * @file circuitBreaker.ts
+ * @description Stops sending requests to Langflow while it is down. After `failureThreshold` consecutive
+ * failed calls the circuit opens, and requests are refused straight away with a 503 instead of each
+ * waiting for its own timeout. Once `resetTimeoutMs` has passed, one request is let through as a probe:
+ * if it succeeds the circuit closes, otherwise it opens again for another period.
+ */
+import http from 'http';
+import { sendJsonError } from '../request-utils';
+import { consoleLogger, ServerLogger } from '../logging';
+
+/** Settings for the circuit breaker on `LangflowProxyConfig`. */
+export interface CircuitBreakerConfig {
+    /** Consecutive failed Langflow calls that open the circuit. Defaults to 5. */
+    failureThreshold?: number;
+    /** How long the circuit stays open before a probe request is let through. Defaults to 30000 ms. */
+    resetTimeoutMs?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/** A snapshot of the breaker, e.g. for health checks. */
+export interface CircuitBreakerStatus {
+    state: CircuitState;
+    consecutiveFailures: number;
+    /** Set while requests are refused: seconds until the next probe may be sent. */
+    retryAfterSeconds?: number;
+}
+
+export const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 5;
+export const DEFAULT_CIRCUIT_RESET_TIMEOUT_MS = 30_000;
+
+/** The `error` of every 503 answered while the circuit is open. */
+export const CIRCUIT_OPEN_ERROR = "The chatbot service is temporarily unavailable.";
+/** Shown to the user below the error; worded for people rather than operators. */
+export const CIRCUIT_OPEN_DETAIL = "The assistant is not responding right now. Please try again in a few moments.";
+
+/**
+ * Tells whether an error from a Langflow call means Langflow is unhealthy. Errors that carry a response
+ * below 500 (e.g. an unknown flow) show that Langflow answered, so they do not count.
+ * @param {any} error - The error thrown by the call.
+ */
+export function isUpstreamFailure(error: any): boolean {
+    const status = error?.cause?.status ?? error?.status;
+    return !(typeof status === 'number' && status < 500);
+}
+
+export class CircuitBreaker {
+    private readonly failureThreshold: number;
+    private readonly resetTimeoutMs: number;
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    /** When the circuit last opened, or when the current probe was let through. */
+    private openedAt = 0;
+
+    /**
+     * @param {CircuitBreakerConfig} [config] - The thresholds; unset fields use the defaults.
+     * @param {ServerLogger} [logger] - Where state changes are logged; defaults to the console.
+     */
+    constructor(config: CircuitBreakerConfig = {}, private readonly logger: ServerLogger = consoleLogger) {
+        this.failureThreshold = config.failureThreshold ?? DEFAULT_CIRCUIT_FAILURE_THRESHOLD;
+        this.resetTimeoutMs = config.resetTimeoutMs ?? DEFAULT_CIRCUIT_RESET_TIMEOUT_MS;
+    }
+
+    /**
+     * Asks whether a call to Langflow may be made. While the circuit is half-open only one probe is let
+     * through per `resetTimeoutMs`, so a probe that never reports back does not block recovery for good.
+     * @returns {boolean} True if the call may proceed; its outcome must then be recorded.
+     */
+    public tryAcquire(): boolean {
+        if (this.state === 'closed') {
+            return true;
+        }
+        if (Date.now() - this.openedAt < this.resetTimeoutMs) {
+            return false;
+        }
+        if (this.state === 'open') {
+            this.state = 'half-open';
+            this.logger.info("CircuitBreaker: Probing whether Langflow has recovered.");
+        }
+        this.openedAt = Date.now();
+        return true;
+    }
+
+    /** Records a call that Langflow answered; closes the circuit if it was open. */
+    public recordSuccess(): void {
+        if (this.state !== 'closed') {
+            this.logger.info("CircuitBreaker: Langflow is responding again. Closing the circuit.");
+        }
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+    }
+
+    /** Records a failed call; opens the circuit once the threshold is reached, or again after a failed probe. */
+    public recordFailure(): void {
+        this.consecutiveFailures++;
+        if (this.state === 'half-open' || (this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold)) {
+            this.state = 'open';
+            this.openedAt = Date.now();
+            this.logger.warn(`CircuitBreaker: ${this.consecutiveFailures} consecutive Langflow calls failed. Refusing requests for ${this.resetTimeoutMs} ms.`);
+        }
+    }
+
+    public getStatus(): CircuitBreakerStatus {
+        const status: CircuitBreakerStatus = { state: this.state, consecutiveFailures: this.consecutiveFailures };
+        const remainingMs = this.openedAt + this.resetTimeoutMs - Date.now();
+        if (this.state !== 'closed' && remainingMs > 0) {
+            status.retryAfterSeconds = Math.ceil(remainingMs / 1000);
+        }
+        return status;
+    }
+}
+
+/**
+ * Answers a request refused because the circuit is open with a 503 and a `Retry-After` header.
+ * @param {http.ServerResponse} res - The response to the client.
+ * @param {CircuitBreaker} breaker - The open breaker, which gives the retry delay.
+ */
+export function sendCircuitOpen(res: http.ServerResponse, breaker: CircuitBreaker): void {
+    res.setHeader('Retry-After', String(breaker.getStatus().retryAfterSeconds ?? 1));
+    sendJsonError(res, 503, CIRCUIT_OPEN_ERROR, CIRCUIT_OPEN_DETAIL);
+}
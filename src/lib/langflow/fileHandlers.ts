@@ -0,0 +1,488 @@
+/**
+ * @file fileHandlers.ts
+ * @description Attachments for profiles with `server.attachments`. The upload route forwards each file
+ * of a multipart request to Langflow's file API for the profile's flow and answers the paths Langflow
+ * stored them under; if one file fails, those already stored are deleted again. Chat messages carry
+ * those paths, which reach the flow as a tweak of its Chat Input component, and the download route
+ * serves the files back for display. Paths are only accepted for the profile's own flow, and, when a
+ * `FileOwnershipGuard` is passed, only to the caller that uploaded them.
+ */
+import http from 'http';
+import { AttachmentPolicy, Principal, Profile, UpstreamConfig } from '../../types';
+import {
+    LANGFLOW_API_BASE_PATH_V1,
+    LANGFLOW_FILES_DELETE_ENDPOINT_PREFIX,
+    LANGFLOW_FILES_DOWNLOAD_ENDPOINT_PREFIX,
+    LANGFLOW_FILES_UPLOAD_ENDPOINT_PREFIX,
+    LANGFLOW_FLOWS_ENDPOINT_SUFFIX
+} from '../../config/apiPaths';
+import { sendJsonError } from '../request-utils';
+import { getMultipartBoundary, MultipartPart, parseMultipartBody } from '../multipart';
+import { fetchWithRetries, sendUpstreamTimeout, UpstreamTimeoutError } from './upstream';
+import { CircuitBreaker, isUpstreamFailure, sendCircuitOpen } from './circuitBreaker';
+import { ProxyMetrics } from '../metrics';
+import { consoleLogger, ServerLogger, withLogFields } from '../logging';
+import { FileOwnershipGuard } from '../auth/fileOwnership';
+import { RateLimiter } from '../rateLimiter';
+
+/** Used when a profile's `server.attachments` does not set `maxFileBytes`. */
+export const DEFAULT_MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+/** Used when a profile's `server.attachments` does not set `maxFiles`. */
+export const DEFAULT_MAX_ATTACHMENTS = 5;
+
+/** Room for the multipart boundaries and part headers on top of the files themselves. */
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+/** Where the proxy reaches Langflow's REST API. */
+export interface LangflowConnection {
+    endpointUrl?: string;
+    apiKey?: string;
+}
+
+/** One file as stored by Langflow, as answered by the upload route. */
+export interface UploadedFile {
+    name: string;
+    /** The path to send with the chat message, `<flowId>/<stored file name>`. */
+    path: string;
+    type: string;
+    size: number;
+}
+
+/** Optional collaborators for an attachment request. */
+export interface FileRequestOptions {
+    /** Timeouts for the Langflow calls; unset fields use the defaults. */
+    upstream?: UpstreamConfig;
+    /** When set, uploads are refused while Langflow keeps failing, and each call's outcome is recorded. */
+    circuitBreaker?: CircuitBreaker;
+    /** When set, failed Langflow calls are counted here. */
+    metrics?: ProxyMetrics;
+    /** When set, each upload spends a token of the caller's chat rate limit before its body is read. */
+    rateLimit?: { limiter: RateLimiter; profile: Profile };
+    /** The request's logger, carrying its correlation id and route. Defaults to the console. */
+    logger?: ServerLogger;
+    /** When set, uploaded files are bound to the caller, and downloads of other callers' files are refused. */
+    fileOwnership?: FileOwnershipGuard;
+    /** The caller resolved by the proxy's authenticate hook, or null/undefined if anonymous. */
+    principal?: Principal | null;
+    /** The request's `session_id` query parameter, if any. */
+    sessionId?: string | null;
+}
+
+/** What a chat message needs to hand its attachments to the flow. */
+export interface AttachmentContext {
+    policy: AttachmentPolicy;
+    /** Names the flow's Chat Input component, which receives the files. */
+    resolveChatInputId: () => Promise<string>;
+}
+
+/** The limits of a profile's attachment policy, with the defaults applied. */
+export function resolveAttachmentLimits(policy: AttachmentPolicy): { maxFileBytes: number; maxFiles: number } {
+    return {
+        maxFileBytes: policy.maxFileBytes ?? DEFAULT_MAX_ATTACHMENT_BYTES,
+        maxFiles: policy.maxFiles ?? DEFAULT_MAX_ATTACHMENTS,
+    };
+}
+
+/**
+ * The attachment settings the widget needs: the limits and allowed types, without the Chat Input
+ * component, which is of no use outside the proxy.
+ */
+export function clientAttachmentSettings(policy: AttachmentPolicy): AttachmentPolicy {
+    return { ...resolveAttachmentLimits(policy), allowedTypes: policy.allowedTypes };
+}
+
+/** The types whose files can be told apart by their first bytes, so a file cannot claim another type. */
+const CONTENT_SIGNATURES: { type: string; matches: (data: Buffer) => boolean }[] = [
+    { type: 'image/png', matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+    { type: 'image/jpeg', matches: data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+    { type: 'image/gif', matches: data => /^GIF8[79]a$/.test(data.toString('latin1', 0, 6)) },
+    { type: 'image/webp', matches: data => data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP' },
+    { type: 'application/pdf', matches: data => data.toString('latin1', 0, 5) === '%PDF-' },
+];
+
+/**
+ * Finds the type of a file from its content, for the types listed in `CONTENT_SIGNATURES`.
+ * @returns The type, or undefined if the content has none of the known signatures.
+ */
+function sniffContentType(data: Buffer): string | undefined {
+    return CONTENT_SIGNATURES.find(signature => signature.matches(data))?.type;
+}
+
+/**
+ * Tells whether a MIME type is allowed. Entries such as `image/*` match every subtype.
+ * @param {string} contentType - The file's type; parameters such as `charset` are ignored.
+ * @param {string[]} [allowedTypes] - The allowed types; every type is allowed when unset.
+ */
+export function isAllowedType(contentType: string, allowedTypes?: string[]): boolean {
+    if (!allowedTypes) {
+        return true;
+    }
+    const type = contentType.split(';')[0].trim().toLowerCase();
+    return allowedTypes.some(allowed => {
+        const entry = allowed.toLowerCase();
+        return entry.endsWith('/*') ? type.startsWith(entry.slice(0, -1)) : type === entry;
+    });
+}
+
+function langflowHeaders(apiKey?: string): Record<string, string> {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+}
+
+/** An error standing for a Langflow answer with an error status, so it is counted like a thrown one. */
+function statusError(operation: string, status: number): Error {
+    return Object.assign(new Error(`Langflow answered the ${operation} with status ${status}.`), { status });
+}
+
+function recordOutcome(options: FileRequestOptions, error?: unknown): void {
+    if (error !== undefined) {
+        options.metrics?.recordUpstreamError(error);
+    }
+    if (error !== undefined && isUpstreamFailure(error)) {
+        options.circuitBreaker?.recordFailure();
+    } else {
+        options.circuitBreaker?.recordSuccess();
+    }
+}
+
+/**
+ * Looks up the Chat Input component of a flow, which receives a message's files.
+ * @param {string} flowId - The flow to inspect.
+ * @param {LangflowConnection} connection - Where Langflow is.
+ * @param {UpstreamConfig} [upstream] - Timeouts and retries for the lookup.
+ * @param {ServerLogger} [logger] - Where retries are logged; defaults to the console.
+ * @returns {Promise<string>} The component's ID, e.g. 'ChatInput-x7Yz1'.
+ * @throws If Langflow cannot be reached, or the flow has no Chat Input component.
+ */
+export async function findChatInputId(flowId: string, connection: LangflowConnection, upstream: UpstreamConfig = {}, logger: ServerLogger = consoleLogger): Promise<string> {
+    if (!connection.endpointUrl) {
+        throw new Error("Langflow endpoint URL not configured in proxy.");
+    }
+    const url = new URL(`${LANGFLOW_API_BASE_PATH_V1}${LANGFLOW_FLOWS_ENDPOINT_SUFFIX}${encodeURIComponent(flowId)}`, connection.endpointUrl);
+    const response = await fetchWithRetries(url.toString(), { method: 'GET', headers: langflowHeaders(connection.apiKey) }, upstream, 'flow lookup', logger);
+    if (!response.ok) {
+        throw statusError('flow lookup', response.status);
+    }
+    const flow: any = await response.json();
+    const nodes: any[] = Array.isArray(flow?.data?.nodes) ? flow.data.nodes : [];
+    const chatInput = nodes.find(node => node?.data?.type === 'ChatInput');
+    if (typeof chatInput?.id !== 'string') {
+        throw new Error(`Flow '${flowId}' has no Chat Input component to receive attachments.`);
+    }
+    return chatInput.id;
+}
+
+/**
+ * Builds the attachment context of a profile's chat messages.
+ * @returns {AttachmentContext | undefined} The context, or undefined if the profile does not accept attachments.
+ */
+export function createAttachmentContext(profile: Profile, connection: LangflowConnection, upstream?: UpstreamConfig, logger: ServerLogger = consoleLogger): AttachmentContext | undefined {
+    const policy = profile.server.attachments;
+    if (!policy) {
+        return undefined;
+    }
+    return {
+        policy,
+        resolveChatInputId: async () => policy.chatInputId ?? findChatInputId(profile.server.flowId, connection, upstream, logger),
+    };
+}
+
+/**
+ * Checks the `files` of a chat message: at most `maxFiles` paths, each naming a file uploaded for the flow.
+ * @param {unknown} files - As received from the client; undefined or an empty list means no attachments.
+ * @param {string} flowId - The profile's flow.
+ * @param {AttachmentPolicy} [policy] - The profile's attachment policy; unset means attachments are refused.
+ * @returns {string | null} The error to report, or null if the files may be sent.
+ */
+export function checkAttachedFiles(files: unknown, flowId: string, policy?: AttachmentPolicy): string | null {
+    if (files === undefined || files === null || (Array.isArray(files) && files.length === 0)) {
+        return null;
+    }
+    if (!policy) {
+        return "Attachments are not enabled for this chatbot profile.";
+    }
+    if (!Array.isArray(files) || !files.every(file => typeof file === 'string')) {
+        return "files must be a list of uploaded file paths.";
+    }
+    const { maxFiles } = resolveAttachmentLimits(policy);
+    if (files.length > maxFiles) {
+        return `At most ${maxFiles} files may be attached to a message.`;
+    }
+    const prefix = `${flowId}/`;
+    const foreign = files.some(file => !file.startsWith(prefix) || !isFileName(file.substring(prefix.length)));
+    return foreign ? "Attachments must be files uploaded for this chatbot profile." : null;
+}
+
+function isFileName(name: string): boolean {
+    return name !== '' && name !== '.' && name !== '..' && !/[\\/]/.test(name);
+}
+
+/**
+ * Builds the run tweaks that hand files to the flow's Chat Input component.
+ * @param {AttachmentContext} attachments - The profile's attachment context.
+ * @param {string[]} files - Paths checked with `checkAttachedFiles`.
+ * @throws If the Chat Input component cannot be found.
+ */
+export async function buildFileTweaks(attachments: AttachmentContext, files: string[]): Promise<Record<string, { files: string[] }>> {
+    return { [await attachments.resolveChatInputId()]: { files } };
+}
+
+async function uploadToLangflow(file: MultipartPart, flowId: string, connection: LangflowConnection, upstream: UpstreamConfig, logger: ServerLogger): Promise<Response> {
+    const form = new FormData();
+    form.append('file', new Blob([file.data], { type: file.contentType }), file.filename);
+    const url = new URL(`${LANGFLOW_API_BASE_PATH_V1}${LANGFLOW_FILES_UPLOAD_ENDPOINT_PREFIX}/${encodeURIComponent(flowId)}`, connection.endpointUrl);
+    return fetchWithRetries(url.toString(), { method: 'POST', headers: langflowHeaders(connection.apiKey), body: form }, upstream, 'file upload', logger);
+}
+
+/**
+ * Deletes the files of an upload that failed part way, so none are left in Langflow without a message
+ * referring to them. Failures are only logged: the request has already failed, and Langflow may be down.
+ */
+async function rollBackUpload(uploaded: UploadedFile[], connection: LangflowConnection, upstream: UpstreamConfig, logger: ServerLogger): Promise<void> {
+    for (const file of uploaded) {
+        const [flowId, fileName] = file.path.split('/');
+        const url = new URL(`${LANGFLOW_API_BASE_PATH_V1}${LANGFLOW_FILES_DELETE_ENDPOINT_PREFIX}/${encodeURIComponent(flowId)}/${encodeURIComponent(fileName)}`, connection.endpointUrl);
+        try {
+            const response = await fetchWithRetries(url.toString(), { method: 'DELETE', headers: langflowHeaders(connection.apiKey) }, upstream, 'file deletion', logger);
+            if (!response.ok && response.status !== 404) {
+                throw statusError('file deletion', response.status);
+            }
+        } catch (error: any) {
+            logger.error(`RequestHandler: Failed to delete '${file.path}' after its upload failed; the file is left in Langflow:`, { error });
+        }
+    }
+}
+
+/**
+ * Finds the reason to refuse an upload's files.
+ * @returns The status and error to answer with, or null if every file may be uploaded.
+ */
+function checkUploadedParts(files: MultipartPart[], policy: AttachmentPolicy): { statusCode: number; error: string; detail?: string } | null {
+    const { maxFileBytes, maxFiles } = resolveAttachmentLimits(policy);
+    if (files.length === 0) {
+        return { statusCode: 400, error: "No files were attached." };
+    }
+    if (files.length > maxFiles) {
+        return { statusCode: 400, error: `At most ${maxFiles} files may be attached to a message.` };
+    }
+    for (const file of files) {
+        if (file.data.length > maxFileBytes) {
+            return { statusCode: 413, error: `File '${file.filename}' is too large.`, detail: `The limit is ${maxFileBytes} bytes.` };
+        }
+        if (!policy.allowedTypes) {
+            continue;
+        }
+        // The declared type is the client's word for it, so it is checked against the content when the
+        // content has a known signature. Types without one, such as text, can only be checked as declared.
+        const declared = file.contentType.split(';')[0].trim().toLowerCase();
+        const sniffed = sniffContentType(file.data);
+        if (CONTENT_SIGNATURES.some(signature => signature.type === declared) && sniffed !== declared) {
+            return { statusCode: 415, error: `File '${file.filename}' is not a valid '${declared}' file.` };
+        }
+        const type = sniffed ?? file.contentType;
+        if (!isAllowedType(type, policy.allowedTypes)) {
+            return { statusCode: 415, error: `Files of type '${type}' cannot be attached.` };
+        }
+    }
+    return null;
+}
+
+/**
+ * Serves an upload: a `multipart/form-data` request whose file fields are forwarded to Langflow one by one.
+ * Answers `{ files: UploadedFile[] }`.
+ */
+export async function handleFileUploadRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    profile: Profile,
+    connection: LangflowConnection,
+    options: FileRequestOptions = {}
+): Promise<void> {
+    const log = withLogFields(options.logger ?? consoleLogger, { profileId: profile.profileId });
+    const policy = profile.server.attachments;
+    if (!policy) {
+        sendJsonError(res, 404, "Attachments are not enabled for this chatbot profile.");
+        return;
+    }
+    if (!connection.endpointUrl) {
+        sendJsonError(res, 503, "Langflow endpoint URL not configured in proxy.");
+        return;
+    }
+    const boundary = getMultipartBoundary(req.headers['content-type']);
+    if (!boundary) {
+        sendJsonError(res, 415, "Attachments must be sent as multipart/form-data.");
+        return;
+    }
+    // Anonymous callers are only told apart by their session, so their files must be bound to one.
+    if (options.fileOwnership && !options.principal && !options.sessionId) {
+        req.resume(); // Discard the body so the connection can still deliver the error response.
+        sendJsonError(res, 400, "Anonymous uploads must name a session.", "Pass the chat session as the session_id query parameter.");
+        return;
+    }
+    if (options.rateLimit) {
+        const { limiter, profile: limitedProfile } = options.rateLimit;
+        const decision = limiter.consume(limitedProfile, { req, sessionId: options.sessionId ?? undefined, principal: options.principal });
+        if (!decision.allowed) {
+            log.warn(`RequestHandler: Rate limit exceeded for uploads to profile '${profile.profileId}'. Retry after ${decision.retryAfterSeconds}s.`);
+            req.resume(); // Discard the body so the connection can still deliver the error response.
+            res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+            sendJsonError(res, 429, "Too many requests. Please wait before attaching more files.");
+            return;
+        }
+    }
+
+    const { maxFileBytes, maxFiles } = resolveAttachmentLimits(policy);
+    let files: MultipartPart[];
+    try {
+        const parts = await parseMultipartBody(req, boundary, maxFiles * maxFileBytes + MULTIPART_OVERHEAD_BYTES);
+        files = parts.filter(part => part.filename !== undefined);
+    } catch (error: any) {
+        if (error.message.includes('Request body too large')) {
+            log.warn(`RequestHandler: Oversized upload for profile '${profile.profileId}'. Error: ${error.message}`);
+            sendJsonError(res, 413, "Attachments are too large.", error.message);
+        } else {
+            log.warn(`RequestHandler: Malformed upload for profile '${profile.profileId}'. Error: ${error.message}`);
+            sendJsonError(res, 400, "Invalid multipart body provided.", error.message);
+        }
+        return;
+    }
+    const refusal = checkUploadedParts(files, policy);
+    if (refusal) {
+        log.warn(`RequestHandler: Refused upload for profile '${profile.profileId}': ${refusal.error}`);
+        sendJsonError(res, refusal.statusCode, refusal.error, refusal.detail);
+        return;
+    }
+    if (options.circuitBreaker && !options.circuitBreaker.tryAcquire()) {
+        log.warn(`RequestHandler: Refused upload for profile '${profile.profileId}' because Langflow is unavailable (circuit open).`);
+        sendCircuitOpen(res, options.circuitBreaker);
+        return;
+    }
+
+    const flowId = profile.server.flowId;
+    const upstream = options.upstream ?? {};
+    // Each file is bound to its caller as soon as Langflow stores it, and the whole batch is deleted
+    // again if a later file fails, so a failed request leaves no files behind.
+    const uploaded: UploadedFile[] = [];
+    for (const file of files) {
+        let stored: UploadedFile;
+        try {
+            const response = await uploadToLangflow(file, flowId, connection, upstream, log);
+            if (!response.ok) {
+                throw statusError('file upload', response.status);
+            }
+            const body: any = await response.json();
+            if (typeof body?.file_path !== 'string') {
+                throw new Error("Langflow's upload response has no file_path.");
+            }
+            recordOutcome(options);
+            stored = { name: file.filename!, path: body.file_path, type: file.contentType, size: file.data.length };
+        } catch (error: any) {
+            recordOutcome(options, error);
+            await rollBackUpload(uploaded, connection, upstream, log);
+            if (error instanceof UpstreamTimeoutError) {
+                log.warn(`RequestHandler: ${error.message} Aborted the upload of '${file.filename}' to flow '${flowId}'.`);
+                sendUpstreamTimeout(res, error);
+                return;
+            }
+            log.error(`RequestHandler: Failed to upload '${file.filename}' to flow '${flowId}':`, { error });
+            sendJsonError(res, 502, "Failed to upload the attachment to Langflow.", error.message);
+            return;
+        }
+        uploaded.push(stored);
+        try {
+            await options.fileOwnership?.record(profile.profileId, stored.path, options);
+        } catch (error: any) {
+            log.error(`RequestHandler: Failed to record the owner of '${stored.path}' for profile '${profile.profileId}':`, { error });
+            await rollBackUpload(uploaded, connection, upstream, log);
+            sendJsonError(res, 500, "Failed to store the attachment.");
+            return;
+        }
+    }
+    log.info(`RequestHandler: Uploaded ${uploaded.length} file(s) to flow '${flowId}' for profile '${profile.profileId}'.`);
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ files: uploaded }));
+}
+
+/**
+ * Serves a file uploaded for the profile's flow. Only images are shown inline; everything else is
+ * downloaded, and the response is sandboxed, so an uploaded page cannot run in the host app's origin.
+ * @param {string[]} pathSegments - The still URL-encoded path below the files route: the flow ID and file name.
+ * @param {FileRequestOptions} [options] - The caller and the ownership guard; only those fields are used.
+ */
+export async function handleFileDownloadRequest(
+    res: http.ServerResponse,
+    profile: Profile,
+    pathSegments: string[],
+    makeDirectLangflowApiRequest: (
+        res: http.ServerResponse,
+        path: string,
+        method: 'GET'
+    ) => Promise<Response | null>,
+    options: FileRequestOptions = {}
+): Promise<void> {
+    if (!profile.server.attachments) {
+        sendJsonError(res, 404, "Attachments are not enabled for this chatbot profile.");
+        return;
+    }
+    let segments: string[];
+    try {
+        segments = pathSegments.map(segment => decodeURIComponent(segment));
+    } catch {
+        sendJsonError(res, 400, "Malformed attachment path.");
+        return;
+    }
+    const [flowId, fileName] = segments;
+    if (segments.length !== 2 || flowId !== profile.server.flowId || !isFileName(fileName)) {
+        sendJsonError(res, 404, "Attachment not found.");
+        return;
+    }
+    // Answered like a missing file, so other callers cannot tell which paths exist.
+    if (options.fileOwnership && !(await options.fileOwnership.canAccess(profile.profileId, `${flowId}/${fileName}`, options))) {
+        withLogFields(options.logger ?? consoleLogger, { profileId: profile.profileId }).warn(`RequestHandler: Refused attachment '${flowId}/${fileName}' of profile '${profile.profileId}' to a caller who did not upload it.`);
+        sendJsonError(res, 404, "Attachment not found.");
+        return;
+    }
+
+    const targetPath = `${LANGFLOW_API_BASE_PATH_V1}${LANGFLOW_FILES_DOWNLOAD_ENDPOINT_PREFIX}/${encodeURIComponent(flowId)}/${encodeURIComponent(fileName)}`;
+    const response = await makeDirectLangflowApiRequest(res, targetPath, 'GET');
+    if (!response) {
+        if (!res.headersSent) {
+            sendJsonError(res, 502, "Failed to fetch the attachment from Langflow.");
+        }
+        return;
+    }
+    if (!response.ok) {
+        if (response.status === 404) {
+            sendJsonError(res, 404, "Attachment not found.");
+        } else {
+            sendJsonError(res, 502, "Failed to fetch the attachment from Langflow.", `Langflow answered with status ${response.status}.`);
+        }
+        return;
+    }
+    const contentType = response.headers.get('Content-Type') || 'application/octet-stream';
+    let body: Buffer;
+    try {
+        body = Buffer.from(await response.arrayBuffer());
+    } catch (error: any) {
+        const log = withLogFields(options.logger ?? consoleLogger, { profileId: profile.profileId });
+        if (error instanceof UpstreamTimeoutError) {
+            log.warn(`RequestHandler: ${error.message} Aborted the download of attachment '${flowId}/${fileName}'.`);
+            sendUpstreamTimeout(res, error);
+        } else {
+            log.error(`RequestHandler: Failed to read attachment '${flowId}/${fileName}' from Langflow:`, { error });
+            sendJsonError(res, 502, "Failed to fetch the attachment from Langflow.", error.message);
+        }
+        return;
+    }
+    res.statusCode = 200;
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `${contentType.startsWith('image/') ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+    res.setHeader('Content-Security-Policy', 'sandbox');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.end(body);
+}
@@ -1,6 +1,7 @@
 import http from 'http';
 import { LANGFLOW_API_BASE_PATH_V1, LANGFLOW_FLOWS_ENDPOINT_SUFFIX } from '../../config/apiPaths';
 import { proxyLangflowApiRequest } from '../request-utils';
+import { consoleLogger, ServerLogger } from '../logging';
 
 export async function handleGetFlowsRequest(
     req: http.IncomingMessage,
@@ -10,15 +11,17 @@ export async function handleGetFlowsRequest(
         path: string,
         method: 'GET',
         queryParams?: URLSearchParams
-    ) => Promise<Response | null>
+    ) => Promise<Response | null>,
+    logger: ServerLogger = consoleLogger
 ): Promise<void> {
-    console.log(`RequestHandler: Received GET request for flows configuration: ${req.url}`);
+    logger.info(`RequestHandler: Received GET request for flows configuration: ${req.url}`);
     const targetPath = `${LANGFLOW_API_BASE_PATH_V1}${LANGFLOW_FLOWS_ENDPOINT_SUFFIX}`;
     const queryParams = new URLSearchParams();
     queryParams.append('header_flows', 'true');
     queryParams.append('get_all', 'true');
 
     await proxyLangflowApiRequest(res, () => 
-        makeDirectLangflowApiRequest(res, targetPath, 'GET', queryParams)
+        makeDirectLangflowApiRequest(res, targetPath, 'GET', queryParams),
+        logger
     );
 } 
\ No newline at end of file
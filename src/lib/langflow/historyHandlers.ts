@@ -2,6 +2,39 @@ import http from 'http';
 import { URLSearchParams } from 'url';
 import { LANGFLOW_API_BASE_PATH_V1 } from '../../config/apiPaths';
 import { sendJsonError, proxyLangflowApiRequest } from '../request-utils';
+import { ConversationStore } from '../conversation/ConversationStore';
+import { consoleLogger, ServerLogger, withLogFields } from '../logging';
+
+/**
+ * Serves history from a conversation store, shaped like Langflow's `/monitor/messages` response
+ * so the client renders it the same way.
+ */
+async function sendHistoryFromStore(
+    res: http.ServerResponse,
+    conversationStore: ConversationStore,
+    profileId: string,
+    sessionId: string,
+    logger: ServerLogger
+): Promise<void> {
+    try {
+        const messages = await conversationStore.getMessages(profileId, sessionId);
+        const history = messages.map(message => ({
+            id: message.id,
+            flow_id: message.flowId,
+            session_id: message.sessionId,
+            sender: message.sender,
+            text: message.text,
+            files: message.files,
+            timestamp: message.timestamp,
+        }));
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(history));
+    } catch (error: any) {
+        logger.error(`RequestHandler: Error reading chat history from conversation store for profile '${profileId}', session '${sessionId}':`, { error });
+        sendJsonError(res, 500, "Failed to read chat history.", error.message);
+    }
+}
 
 export async function handleGetChatHistoryRequest(
     res: http.ServerResponse,
@@ -12,21 +45,30 @@ export async function handleGetChatHistoryRequest(
         path: string,
         method: 'GET',
         queryParams?: URLSearchParams
-    ) => Promise<Response | null>
+    ) => Promise<Response | null>,
+    conversation?: { store: ConversationStore; profileId: string },
+    logger: ServerLogger = consoleLogger
 ): Promise<void> {
-    console.log(`RequestHandler: Received GET request for chat history for flow '${flowId}', session '${sessionId}'`); 
+    const log = sessionId ? withLogFields(logger, { sessionId }) : logger;
+    log.info(`RequestHandler: Received GET request for chat history for flow '${flowId}', session '${sessionId}'`);
 
     if (!sessionId) {
         sendJsonError(res, 400, "session_id is a required query parameter for history.");
         return;
     }
 
+    if (conversation) {
+        await sendHistoryFromStore(res, conversation.store, conversation.profileId, sessionId, log);
+        return;
+    }
+
     const targetPath = `${LANGFLOW_API_BASE_PATH_V1}/monitor/messages`;
     const queryParams = new URLSearchParams();
     queryParams.append('flow_id', flowId);
     queryParams.append('session_id', sessionId);
     
     await proxyLangflowApiRequest(res, () => 
-        makeDirectLangflowApiRequest(res, targetPath, 'GET', queryParams)
+        makeDirectLangflowApiRequest(res, targetPath, 'GET', queryParams),
+        log
     );
 } 
\ No newline at end of file
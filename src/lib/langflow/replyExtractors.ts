@@ -0,0 +1,246 @@
+/**
+ * @file replyExtractors.ts
+ * @description Reading the bot's reply from a Langflow run result. Where the text sits depends on the
+ * flow's output components and the Langflow version, so each place is read by a named strategy, and
+ * strategies are tried in order until one finds a string. Profiles choose the order with
+ * `server.replyExtractors`, which lists strategy names and `{ path }` selectors such as
+ * `outputs[0].outputs[1].results.text.text`. Strategies registered with the proxy's `replyExtractors`
+ * option can be named too, and `defaults` stands for the built-in order.
+ */
+import { ReplyExtractorSpec, ServerProfile } from '../../types';
+import { consoleLogger, ServerLogger } from '../logging';
+
+export interface ReplyExtractor {
+    /** Names the strategy in `server.replyExtractors` and in debug output. */
+    name: string;
+    /**
+     * @param {any} result - The result of `flow.run()`, or the result of a stream's 'end' event.
+     * @param {ServerLogger} logger - For explaining why the result does not have the expected shape.
+     * @returns {string | undefined} The reply, '' included, or undefined if this strategy does not apply.
+     */
+    extract(result: any, logger: ServerLogger): string | undefined;
+}
+
+/** A reply and the strategy that found it. */
+export interface ExtractedReply {
+    reply: string;
+    extractor: string;
+}
+
+/** Stands for the built-in strategies, in their default order, in `server.replyExtractors`. */
+export const DEFAULT_EXTRACTORS_NAME = 'defaults';
+
+/** Sent as the reply when no strategy finds one. */
+export const NO_REPLY_MESSAGE = "Sorry, I could not process that.";
+
+/** Sent as the reply when the flow replied with an empty string. */
+export const EMPTY_REPLY_MESSAGE = "Received an empty message from Bot.";
+
+function stringOrUndefined(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+/** The results of the flow's output components, across all of the run's inputs. */
+function componentOutputs(result: any): any[] {
+    if (!Array.isArray(result?.outputs)) {
+        return [];
+    }
+    return result.outputs.flatMap((run: any) => Array.isArray(run?.outputs) ? run.outputs : []);
+}
+
+function firstComponentOutput(result: any): any {
+    const firstRun = Array.isArray(result?.outputs) ? result.outputs[0] : undefined;
+    return Array.isArray(firstRun?.outputs) ? firstRun.outputs[0] : undefined;
+}
+
+/**
+ * Reads the text of one output component's result, trying where Chat Outputs, Text Outputs and older
+ * Langflow versions put it.
+ */
+export function componentOutputText(output: any): string | undefined {
+    const candidates = [
+        output?.outputs?.chat,
+        output?.outputs?.text,
+        output?.outputs?.message?.message,
+        output?.results?.message?.text,
+        output?.artifacts?.message,
+        output?.results?.text?.text,
+        output?.outputs?.text?.message,
+    ];
+    return candidates.find((candidate): candidate is string => typeof candidate === 'string');
+}
+
+/** The built-in strategies, in their default order. */
+export const BUILT_IN_REPLY_EXTRACTORS: readonly ReplyExtractor[] = [
+    { name: 'chat-message', extract: result => stringOrUndefined(firstComponentOutput(result)?.results?.message?.text) },
+    { name: 'output-message', extract: result => stringOrUndefined(firstComponentOutput(result)?.outputs?.message?.message) },
+    { name: 'output-text', extract: result => stringOrUndefined(firstComponentOutput(result)?.outputs?.text) },
+    {
+        name: 'text-output',
+        extract: result => {
+            const output = firstComponentOutput(result);
+            return stringOrUndefined(output?.results?.text?.text) ?? stringOrUndefined(output?.outputs?.text?.message);
+        },
+    },
+    {
+        name: 'any-output',
+        extract: result => {
+            for (const output of componentOutputs(result)) {
+                const text = componentOutputText(output);
+                if (text !== undefined) return text;
+            }
+            return undefined;
+        },
+    },
+];
+
+/**
+ * Reads the output of the component a profile names in `server.outputComponent`, by ID or display name.
+ */
+export function outputComponentExtractor(outputComponent: string): ReplyExtractor {
+    return {
+        name: `component:${outputComponent}`,
+        extract: (result, logger) => {
+            const outputs = componentOutputs(result);
+            const selected = outputs.find(output => output?.component_id === outputComponent)
+                ?? outputs.find(output => output?.component_display_name === outputComponent);
+            if (!selected) {
+                const available = outputs.map(output => output?.component_id).filter(Boolean).join(', ') || 'none';
+                logger.warn(`RequestHandler: Output component '${outputComponent}' is not among the flow's outputs (${available}).`);
+                return undefined;
+            }
+            const text = componentOutputText(selected);
+            if (text === undefined) {
+                logger.warn(`RequestHandler: Output component '${outputComponent}' returned no text.`);
+            }
+            return text;
+        },
+    };
+}
+
+type PathSegment = string | number | '*';
+
+const PATH_SEGMENT = /^(?:\.?([A-Za-z_$][\w$-]*)|\[(\d+|\*)\]|\[(["'])(.*?)\3\])/;
+
+/**
+ * Parses a JSON-path style selector: keys joined by dots, `[n]` for list items, `[*]` for any item
+ * and `["key"]` for keys with other characters. A leading `$` is optional.
+ * @throws {Error} If the selector cannot be parsed.
+ */
+export function parseReplyPath(path: string): PathSegment[] {
+    let rest = path.trim().replace(/^\$/, '');
+    const segments: PathSegment[] = [];
+    while (rest !== '') {
+        const match = PATH_SEGMENT.exec(rest);
+        if (!match) {
+            throw new Error(`cannot parse '${rest}'`);
+        }
+        if (match[1] !== undefined) segments.push(match[1]);
+        else if (match[2] !== undefined) segments.push(match[2] === '*' ? '*' : Number(match[2]));
+        else segments.push(match[4]);
+        rest = rest.substring(match[0].length);
+    }
+    if (segments.length === 0) {
+        throw new Error('selects the whole result');
+    }
+    return segments;
+}
+
+function selectPath(values: unknown[], segments: PathSegment[]): unknown[] {
+    return segments.reduce<unknown[]>((current, segment) => current.flatMap(value => {
+        if (segment === '*') {
+            return Array.isArray(value) ? value : [];
+        }
+        if (value === null || typeof value !== 'object') {
+            return [];
+        }
+        const next = (value as Record<string | number, unknown>)[segment];
+        return next === undefined ? [] : [next];
+    }), values);
+}
+
+/** Reads the first string the selector matches. */
+export function pathExtractor(path: string): ReplyExtractor {
+    const segments = parseReplyPath(path);
+    return {
+        name: `path:${path}`,
+        extract: result => selectPath([result], segments).find((value): value is string => typeof value === 'string'),
+    };
+}
+
+/**
+ * The strategies profiles can name: the built-in ones and those registered by the host application.
+ * Resolved chains are cached per profile, so a reload picks up changed settings.
+ */
+export class ReplyExtractorRegistry {
+    private readonly extractors = new Map<string, ReplyExtractor>();
+    private readonly chains = new WeakMap<object, ReplyExtractor[]>();
+
+    constructor(extractors: ReplyExtractor[] = []) {
+        BUILT_IN_REPLY_EXTRACTORS.forEach(extractor => this.extractors.set(extractor.name, extractor));
+        extractors.forEach(extractor => this.register(extractor));
+    }
+
+    /**
+     * Adds a strategy, or replaces the one with the same name; a replaced built-in one keeps its place in `defaults`.
+     * @throws {Error} If the name is empty or `defaults`.
+     */
+    public register(extractor: ReplyExtractor): void {
+        if (!extractor.name || extractor.name === DEFAULT_EXTRACTORS_NAME) {
+            throw new Error(`A reply extractor needs a name other than '${DEFAULT_EXTRACTORS_NAME}'.`);
+        }
+        this.extractors.set(extractor.name, extractor);
+    }
+
+    /**
+     * Builds the chain of strategies for a profile. The `server.outputComponent` is read first. Then come
+     * the `server.replyExtractors`, or the built-in strategies if neither is set. Unknown names are
+     * logged and skipped.
+     */
+    public resolve(server: Partial<Pick<ServerProfile, 'replyExtractors' | 'outputComponent'>>, logger: ServerLogger = consoleLogger): ReplyExtractor[] {
+        const cached = this.chains.get(server);
+        if (cached) {
+            return cached;
+        }
+        const chain: ReplyExtractor[] = [];
+        if (server.outputComponent) {
+            chain.push(outputComponentExtractor(server.outputComponent));
+        }
+        const specs: ReplyExtractorSpec[] = server.replyExtractors ?? (server.outputComponent ? [] : [DEFAULT_EXTRACTORS_NAME]);
+        for (const spec of specs) {
+            if (typeof spec !== 'string') {
+                chain.push(pathExtractor(spec.path));
+            } else if (spec === DEFAULT_EXTRACTORS_NAME) {
+                chain.push(...BUILT_IN_REPLY_EXTRACTORS.map(extractor => this.extractors.get(extractor.name)!));
+            } else if (this.extractors.has(spec)) {
+                chain.push(this.extractors.get(spec)!);
+            } else {
+                logger.warn(`RequestHandler: Unknown reply extractor '${spec}' is ignored. Known: ${[...this.extractors.keys()].join(', ')}.`);
+            }
+        }
+        this.chains.set(server, chain);
+        return chain;
+    }
+}
+
+/**
+ * Tries each strategy in order. A strategy that throws is logged and skipped.
+ * @returns {ExtractedReply | null} The first reply found, or null if no strategy applies.
+ */
+export function extractReply(result: any, extractors: readonly ReplyExtractor[], logger: ServerLogger = consoleLogger): ExtractedReply | null {
+    for (const extractor of extractors) {
+        let reply: string | undefined;
+        try {
+            reply = extractor.extract(result, logger);
+        } catch (error) {
+            logger.warn(`RequestHandler: Reply extractor '${extractor.name}' failed; trying the next one.`, { error });
+            continue;
+        }
+        if (reply !== undefined) {
+            logger.debug(`RequestHandler: Reply read by extractor '${extractor.name}'.`);
+            return { reply, extractor: extractor.name };
+        }
+    }
+    logger.info(`RequestHandler: No reply extractor matched the flow result (tried: ${extractors.map(extractor => extractor.name).join(', ') || 'none'}).`);
+    return null;
+}
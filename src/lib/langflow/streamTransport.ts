@@ -0,0 +1,93 @@
+/**
+ * @file streamTransport.ts
+ * @description Wire formats for streamed chat responses. Events are sent as newline-delimited JSON
+ * by default, or as Server-Sent Events when the client's `Accept` header asks for `text/event-stream`.
+ * Some corporate proxies buffer chunked responses but pass event streams through unbuffered.
+ */
+import http from 'http';
+
+/** How often an SSE comment is sent while a stream is open, so idle connections are not dropped. */
+export const SSE_HEARTBEAT_INTERVAL_MS = 15000;
+
+/** A streamed chat event, as produced by the Langflow client. */
+export interface StreamedEvent {
+    event: string;
+    data?: unknown;
+}
+
+export interface StreamTransport {
+    readonly kind: 'ndjson' | 'sse';
+    send(event: StreamedEvent): void;
+    /** Stops heartbeats and ends the response. */
+    close(): void;
+}
+
+/**
+ * Checks whether the client prefers Server-Sent Events over NDJSON.
+ * @param {http.IncomingMessage} req - The chat request.
+ * @returns {boolean} True if `text/event-stream` is listed in the Accept header with a non-zero quality.
+ */
+export function acceptsEventStream(req: http.IncomingMessage): boolean {
+    const accept = req.headers?.accept;
+    if (!accept) {
+        return false;
+    }
+    return accept.split(',').some(range => {
+        const [mediaType, ...params] = range.split(';').map(part => part.trim().toLowerCase());
+        const quality = params.find(param => param.startsWith('q='));
+        return mediaType === 'text/event-stream' && (!quality || Number(quality.slice(2)) > 0);
+    });
+}
+
+/**
+ * Formats one event as an SSE message. The event name is the stream event type, and the data
+ * is its JSON payload (JSON never contains raw newlines, so it always fits on one `data:` line).
+ */
+export function formatServerSentEvent(event: StreamedEvent): string {
+    return `event: ${event.event}\ndata: ${JSON.stringify(event.data ?? null)}\n\n`;
+}
+
+/**
+ * Sets the response headers for the negotiated format and returns a writer for the events.
+ * @param {http.IncomingMessage} req - The chat request, whose Accept header selects the format.
+ * @param {http.ServerResponse} res - The response to stream to.
+ * @param {number} [heartbeatIntervalMs] - Interval between SSE heartbeat comments.
+ * @returns {StreamTransport} The event writer.
+ */
+export function openStreamTransport(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    heartbeatIntervalMs: number = SSE_HEARTBEAT_INTERVAL_MS
+): StreamTransport {
+    if (!acceptsEventStream(req)) {
+        res.setHeader('Content-Type', 'application/x-ndjson');
+        res.setHeader('Transfer-Encoding', 'chunked');
+        return {
+            kind: 'ndjson',
+            send: event => { res.write(JSON.stringify(event) + '\n'); },
+            close: () => { res.end(); },
+        };
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('X-Accel-Buffering', 'no'); // Asks nginx not to buffer the stream.
+    res.flushHeaders?.();
+
+    const heartbeat = setInterval(() => {
+        if (!res.writableEnded) {
+            res.write(': heartbeat\n\n');
+        }
+    }, heartbeatIntervalMs);
+    heartbeat.unref?.();
+    res.once?.('close', () => clearInterval(heartbeat));
+
+    return {
+        kind: 'sse',
+        send: event => { res.write(formatServerSentEvent(event)); },
+        close: () => {
+            clearInterval(heartbeat);
+            res.end();
+        },
+    };
+}
@@ -0,0 +1,56 @@
+/**
+ * @file tweaks.ts
+ * @description Component settings ("tweaks") for a profile's flow runs. A profile's `server.tweaks`
+ * apply to every run, so one flow can serve several profiles with different models, prompts or
+ * collections. Clients may send tweaks of their own, but only for the keys listed in
+ * `server.clientTweaks`; anything else is refused, so the browser cannot rewrite arbitrary components.
+ */
+import { FlowTweaks } from '../../types';
+
+/** Names a tweak key as written in `server.clientTweaks`: `<componentId>.<field>`. */
+export function tweakKey(componentId: string, field: string): string {
+    return `${componentId}.${field}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks the `tweaks` a client sent with a chat message against the profile's allowlist.
+ * @param {unknown} tweaks - As received from the client; undefined or an empty mapping means none.
+ * @param {string[]} [allowedKeys] - The profile's `server.clientTweaks`; unset means clients may not send tweaks.
+ * @returns {string | null} The error to report, or null if the tweaks may be applied.
+ */
+export function checkClientTweaks(tweaks: unknown, allowedKeys?: string[]): string | null {
+    if (tweaks === undefined || tweaks === null) {
+        return null;
+    }
+    if (!isPlainObject(tweaks) || !Object.values(tweaks).every(isPlainObject)) {
+        return "tweaks must map component IDs to their settings.";
+    }
+    for (const [componentId, settings] of Object.entries(tweaks)) {
+        for (const field of Object.keys(settings as Record<string, unknown>)) {
+            const key = tweakKey(componentId, field);
+            if (!allowedKeys?.includes(key)) {
+                return `Tweak '${key}' may not be set by the client.`;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Merges tweaks field by field; later sources win.
+ * @param {Array<FlowTweaks | undefined>} sources - E.g. the profile's, then the client's, then the attachments'.
+ * @returns {FlowTweaks | undefined} The merged tweaks, or undefined if no source sets any.
+ */
+export function mergeTweaks(...sources: Array<FlowTweaks | undefined>): FlowTweaks | undefined {
+    const merged: FlowTweaks = {};
+    for (const source of sources) {
+        for (const [componentId, settings] of Object.entries(source ?? {})) {
+            merged[componentId] = { ...merged[componentId], ...settings };
+        }
+    }
+    return Object.keys(merged).length > 0 ? merged : undefined;
+}
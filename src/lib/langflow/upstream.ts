@@ -0,0 +1,209 @@
+/**
+ * @file upstream.ts
+ * @description Timeouts and retries for the proxy's calls to Langflow. Settings come from the
+ * top-level `upstream` section of the instance YAML, overridden per profile by `server.upstream`.
+ * A call that times out is aborted and answered with a 504 carrying the same error body everywhere.
+ */
+import http from 'http';
+import { UpstreamConfig } from '../../types';
+import { sendJsonError } from '../request-utils';
+import { consoleLogger, ServerLogger } from '../logging';
+
+/** Used for any setting neither the profile nor the top-level `upstream` section sets. */
+export const DEFAULT_UPSTREAM_POLICY: Required<UpstreamConfig> = {
+    connectTimeoutMs: 10_000,
+    responseTimeoutMs: 120_000,
+    retries: 2,
+    retryBackoffMs: 250,
+};
+
+/** The `error` of every 504 answered for a Langflow call that timed out. */
+export const UPSTREAM_TIMEOUT_ERROR = "Langflow did not respond in time.";
+
+/** Statuses worth retrying: Langflow, or a gateway in front of it, is briefly unavailable. */
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+/** Thrown when Langflow does not answer a call within its timeout. */
+export class UpstreamTimeoutError extends Error {
+    constructor(public readonly operation: string, public readonly timeoutMs: number) {
+        super(`No response from Langflow within ${timeoutMs} ms (${operation}).`);
+        this.name = 'UpstreamTimeoutError';
+    }
+}
+
+/**
+ * Merges upstream settings, later layers overriding earlier ones field by field, over the defaults.
+ * @param {...(UpstreamConfig | undefined)} layers - E.g. the top-level settings, then the profile's.
+ * @returns {Required<UpstreamConfig>} The complete settings.
+ */
+export function resolveUpstreamPolicy(...layers: Array<UpstreamConfig | undefined>): Required<UpstreamConfig> {
+    const policy = { ...DEFAULT_UPSTREAM_POLICY };
+    for (const layer of layers) {
+        for (const key of Object.keys(DEFAULT_UPSTREAM_POLICY) as Array<keyof UpstreamConfig>) {
+            if (layer?.[key] !== undefined) {
+                policy[key] = layer[key]!;
+            }
+        }
+    }
+    return policy;
+}
+
+/**
+ * Combines the top-level and profile settings a request is served with.
+ * @returns {UpstreamConfig | undefined} The merged settings, or undefined if neither is configured (defaults apply).
+ */
+export function combineUpstreamConfig(...layers: Array<UpstreamConfig | undefined>): UpstreamConfig | undefined {
+    const configured = layers.filter((layer): layer is UpstreamConfig => !!layer);
+    return configured.length === 0 ? undefined : resolveUpstreamPolicy(...configured);
+}
+
+/**
+ * Runs a Langflow call with an abort signal that fires when `timeoutMs` passes or `parentSignal` aborts.
+ * The signal keeps following `parentSignal` after the call resolves, so a stream it opened can still be cancelled.
+ * @param {(signal: AbortSignal) => Promise<T>} call - The call; it should pass the signal to Langflow.
+ * @param {number | undefined} timeoutMs - Time allowed for the call to resolve; undefined means no limit.
+ * @param {string} operation - Describes the call in the timeout error, e.g. 'flow run'.
+ * @param {AbortSignal} [parentSignal] - Aborts the call early, e.g. when the client disconnects.
+ * @throws {UpstreamTimeoutError} If the call does not resolve in time.
+ */
+export function callWithTimeout<T>(
+    call: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number | undefined,
+    operation: string,
+    parentSignal?: AbortSignal
+): Promise<T> {
+    const controller = new AbortController();
+    if (parentSignal?.aborted) {
+        controller.abort(parentSignal.reason);
+    } else {
+        parentSignal?.addEventListener('abort', () => controller.abort(parentSignal.reason), { once: true });
+    }
+    if (timeoutMs === undefined) {
+        return call(controller.signal);
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+            const error = new UpstreamTimeoutError(operation, timeoutMs);
+            reject(error); // Before aborting, so the race settles with the timeout rather than the call's abort error.
+            controller.abort(error);
+        }, timeoutMs);
+        timer.unref?.();
+    });
+    const pending = Promise.resolve(call(controller.signal));
+    pending.catch(() => undefined); // The call may settle after the timeout has already been reported.
+    return Promise.race([pending, timedOut]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Fails with an `UpstreamTimeoutError` when no item arrives from a Langflow stream for `idleTimeoutMs`.
+ * @param {AsyncIterable<T>} stream - The stream, e.g. a flow's events.
+ * @param {number} idleTimeoutMs - Time allowed between two items, and until the first.
+ * @param {string} operation - Describes the stream in the timeout error.
+ * @param {(error: UpstreamTimeoutError) => void} onTimeout - Called before the error is thrown; should abort the stream's request.
+ */
+export async function* withIdleTimeout<T>(
+    stream: AsyncIterable<T>,
+    idleTimeoutMs: number,
+    operation: string,
+    onTimeout: (error: UpstreamTimeoutError) => void
+): AsyncGenerator<T> {
+    const iterator = stream[Symbol.asyncIterator]();
+    let done = false;
+    try {
+        while (!done) {
+            let next: IteratorResult<T>;
+            try {
+                next = await callWithTimeout(() => iterator.next(), idleTimeoutMs, operation);
+            } catch (error) {
+                if (error instanceof UpstreamTimeoutError) onTimeout(error);
+                throw error;
+            }
+            done = next.done === true;
+            if (!done) yield next.value;
+        }
+    } finally {
+        // Not awaited: after a timeout the pending read only settles once the request has been aborted.
+        if (!done) iterator.return?.()?.catch(() => undefined);
+    }
+}
+
+/** Fires `responseTimeoutMs` after a fetch attempt started, failing a body that is still arriving. */
+interface ResponseDeadline {
+    signal: AbortSignal;
+    clear(): void;
+}
+
+function startResponseDeadline(timeoutMs: number, operation: string): ResponseDeadline {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new UpstreamTimeoutError(operation, timeoutMs)), timeoutMs);
+    timer.unref?.();
+    return { signal: controller.signal, clear: () => clearTimeout(timer) };
+}
+
+/**
+ * Returns the response with a body that fails with the deadline's `UpstreamTimeoutError` if it is still being
+ * read when the deadline passes, so `json()`, `text()` and `arrayBuffer()` cannot wait forever. Failing the body
+ * also cancels the underlying request.
+ */
+function withBodyDeadline(response: Response, deadline: ResponseDeadline): Response {
+    if (!response.body) {
+        deadline.clear();
+        return response;
+    }
+    let body!: TransformStreamDefaultController<Uint8Array>;
+    const timedBody = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        start: controller => { body = controller; },
+        flush: () => deadline.clear(),
+    }));
+    deadline.signal.addEventListener('abort', () => body.error(deadline.signal.reason), { once: true });
+    return new Response(timedBody, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * Fetches from Langflow, waiting at most `connectTimeoutMs` for the response headers. The body must then
+ * arrive within `responseTimeoutMs` of the request, or reading it fails with an `UpstreamTimeoutError`.
+ * GETs are retried after network errors, timeouts and 502/503/504 responses, with exponential backoff.
+ * @param {string} url - The Langflow URL.
+ * @param {RequestInit} init - The fetch options; the signal is supplied here.
+ * @param {UpstreamConfig} policy - The timeouts and retries; unset fields use the defaults.
+ * @param {string} operation - Describes the request in logs and timeout errors.
+ * @param {ServerLogger} [logger] - Where retries are logged; defaults to the console.
+ * @returns {Promise<Response>} The last response, which may still be an error status.
+ * @throws The last error if every attempt failed.
+ */
+export async function fetchWithRetries(url: string, init: RequestInit, policy: UpstreamConfig, operation: string, logger: ServerLogger = consoleLogger): Promise<Response> {
+    const { connectTimeoutMs, responseTimeoutMs, retries, retryBackoffMs } = resolveUpstreamPolicy(policy);
+    const attempts = (init.method || 'GET').toUpperCase() === 'GET' ? retries + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+        let failure: string;
+        const deadline = startResponseDeadline(responseTimeoutMs, operation);
+        try {
+            const response = await callWithTimeout(signal => fetch(url, { ...init, signal }), connectTimeoutMs, operation);
+            if (!RETRYABLE_STATUSES.has(response.status) || attempt >= attempts) {
+                return withBodyDeadline(response, deadline);
+            }
+            deadline.clear();
+            failure = `status ${response.status}`;
+        } catch (error: any) {
+            deadline.clear();
+            if (attempt >= attempts) {
+                throw error;
+            }
+            failure = error?.message || String(error);
+        }
+        const delayMs = retryBackoffMs * 2 ** (attempt - 1);
+        logger.warn(`Upstream: ${operation} failed (${failure}); retrying in ${delayMs} ms (attempt ${attempt + 1} of ${attempts}).`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+}
+
+/**
+ * Answers a request whose Langflow call timed out with a 504.
+ * @param {http.ServerResponse} res - The response to the client.
+ * @param {UpstreamTimeoutError} error - The timeout, whose message becomes the `detail`.
+ */
+export function sendUpstreamTimeout(res: http.ServerResponse, error: UpstreamTimeoutError): void {
+    sendJsonError(res, 504, UPSTREAM_TIMEOUT_ERROR, error.message);
+}
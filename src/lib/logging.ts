@@ -0,0 +1,136 @@
+/**
+ * @file logging.ts
+ * @description Server-side logging. The proxy logs through a `ServerLogger`, which can be injected on
+ * `LangflowProxyConfig.logger`. Each entry is a message plus fields: entries logged while serving a
+ * request carry its correlation id (`requestId`) and `route`, and chat entries also carry the
+ * `profileId` and `sessionId`. The default `consoleLogger` writes plain lines as the proxy always has;
+ * `JsonLogger` writes one JSON object per line, for log collectors.
+ */
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { LogLevel, LOG_LEVELS } from '../utils/logger';
+
+/** Carries the correlation id: read from the request if present, and always echoed in the response. */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/** Incoming ids are only reused when they are short and free of characters that could forge log lines. */
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export interface LogFields {
+    /** The correlation id of the request being served. */
+    requestId?: string;
+    /** The route being served, as named in the metrics. */
+    route?: string;
+    profileId?: string;
+    sessionId?: string;
+    /** An error reported with the entry. */
+    error?: unknown;
+    /** A value dumped with the entry, e.g. an unexpected Langflow response. */
+    data?: unknown;
+    [field: string]: unknown;
+}
+
+export interface ServerLogger {
+    error(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    debug(message: string, fields?: LogFields): void;
+}
+
+/** Only an entry's `error`, or else its `data`, is printed after the message; the other fields are left out. */
+function consoleArgs(message: string, fields?: LogFields): unknown[] {
+    const extra = fields?.error !== undefined ? fields.error : fields?.data;
+    return extra === undefined ? [message] : [message, extra];
+}
+
+/** The default logger: writes each entry to the console method of its level. */
+export const consoleLogger: ServerLogger = {
+    error: (message, fields) => console.error(...consoleArgs(message, fields)),
+    warn: (message, fields) => console.warn(...consoleArgs(message, fields)),
+    info: (message, fields) => console.log(...consoleArgs(message, fields)),
+    debug: (message, fields) => console.debug(...consoleArgs(message, fields)),
+};
+
+export interface JsonLoggerOptions {
+    /** The least severe level written. Defaults to 'info'. */
+    level?: LogLevel;
+    /** Writes one line, without its newline. Defaults to writing to stdout. */
+    write?: (line: string) => void;
+}
+
+function serializeField(value: unknown): unknown {
+    return value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+}
+
+/**
+ * Writes each entry as a JSON line: `{"time", "level", "msg", ...fields}`. Errors are written with their
+ * name, message and stack.
+ */
+export class JsonLogger implements ServerLogger {
+    private readonly level: LogLevel;
+    private readonly write: (line: string) => void;
+
+    constructor(options: JsonLoggerOptions = {}) {
+        this.level = options.level ?? 'info';
+        this.write = options.write ?? (line => process.stdout.write(line + '\n'));
+    }
+
+    public error(message: string, fields?: LogFields): void {
+        this.log('error', message, fields);
+    }
+
+    public warn(message: string, fields?: LogFields): void {
+        this.log('warn', message, fields);
+    }
+
+    public info(message: string, fields?: LogFields): void {
+        this.log('info', message, fields);
+    }
+
+    public debug(message: string, fields?: LogFields): void {
+        this.log('debug', message, fields);
+    }
+
+    private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+        if (LOG_LEVELS[level] > LOG_LEVELS[this.level]) {
+            return;
+        }
+        const entry: Record<string, unknown> = { time: new Date().toISOString(), level, msg: message };
+        for (const [name, value] of Object.entries(fields)) {
+            if (value !== undefined) {
+                entry[name] = serializeField(value);
+            }
+        }
+        let line: string;
+        try {
+            line = JSON.stringify(entry);
+        } catch {
+            // E.g. a circular value in `data`; the entry is still worth writing.
+            line = JSON.stringify({ time: entry.time, level, msg: message, requestId: fields.requestId, logError: 'Fields could not be serialized.' });
+        }
+        this.write(line);
+    }
+}
+
+/**
+ * Returns a logger that adds `fields` to every entry, e.g. the correlation id of a request.
+ * Fields passed with an entry take precedence.
+ */
+export function withLogFields(logger: ServerLogger, fields: LogFields): ServerLogger {
+    return {
+        error: (message, entryFields) => logger.error(message, { ...fields, ...entryFields }),
+        warn: (message, entryFields) => logger.warn(message, { ...fields, ...entryFields }),
+        info: (message, entryFields) => logger.info(message, { ...fields, ...entryFields }),
+        debug: (message, entryFields) => logger.debug(message, { ...fields, ...entryFields }),
+    };
+}
+
+/**
+ * Reads the correlation id of a request from its `X-Request-Id` header, or generates one if the
+ * header is missing or malformed.
+ */
+export function resolveRequestId(req: http.IncomingMessage): string {
+    const header = req.headers?.[REQUEST_ID_HEADER.toLowerCase()];
+    const value = Array.isArray(header) ? header[0] : header;
+    return value && VALID_REQUEST_ID.test(value) ? value : randomUUID();
+}
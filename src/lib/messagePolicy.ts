@@ -0,0 +1,52 @@
+/**
+ * @file messagePolicy.ts
+ * @description Per-profile limits on what clients may send to a flow: the size of the request
+ * body, the length of the message and patterns that must not appear in it. Configured with
+ * `server.messagePolicy` in the instance YAML.
+ */
+import { MessagePolicy } from '../types';
+
+export type MessagePolicyDecision =
+    | { allowed: true }
+    | { allowed: false; statusCode: 400; error: string; detail: string };
+
+const compiledPatterns = new WeakMap<MessagePolicy, RegExp[]>();
+
+function getBlockedPatterns(policy: MessagePolicy): RegExp[] {
+    let patterns = compiledPatterns.get(policy);
+    if (!patterns) {
+        patterns = (policy.blockedPatterns || []).map(pattern => new RegExp(pattern, 'i'));
+        compiledPatterns.set(policy, patterns);
+    }
+    return patterns;
+}
+
+/**
+ * Applies a profile's message policy to an incoming chat message.
+ * Blocked patterns match case-insensitively; the matching pattern is not revealed to the client.
+ * @param {MessagePolicy | undefined} policy - The profile's policy, if any.
+ * @param {string} message - The user message.
+ * @returns {MessagePolicyDecision} The decision, with the error to send when the message is rejected.
+ */
+export function checkMessagePolicy(policy: MessagePolicy | undefined, message: string): MessagePolicyDecision {
+    if (!policy) {
+        return { allowed: true };
+    }
+    if (policy.maxMessageLength !== undefined && message.length > policy.maxMessageLength) {
+        return {
+            allowed: false,
+            statusCode: 400,
+            error: "Message is too long.",
+            detail: `Messages are limited to ${policy.maxMessageLength} characters (received ${message.length}).`,
+        };
+    }
+    if (getBlockedPatterns(policy).some(pattern => pattern.test(message))) {
+        return {
+            allowed: false,
+            statusCode: 400,
+            error: "Message was rejected.",
+            detail: "It contains content that is not allowed by this chatbot.",
+        };
+    }
+    return { allowed: true };
+}
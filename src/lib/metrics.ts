@@ -0,0 +1,229 @@
+/**
+ * @file metrics.ts
+ * @description Counters and histograms for the proxy's traffic, rendered in the Prometheus text format for
+ * the host app to serve, or at `<proxyApiBasePath>/metrics` when that route is enabled. Kept in memory per process and implemented here, so no metrics library
+ * is needed at runtime. Route labels come from a fixed set and profile labels only ever carry loaded
+ * profile IDs, so unknown paths cannot grow the number of series.
+ */
+import http from 'http';
+import {
+    PROFILE_CHAT_ENDPOINT_PREFIX,
+    PROFILE_CONFIG_ENDPOINT_PREFIX,
+    PROXY_CHAT_SOCKET_SUFFIX,
+    PROXY_FLOWS_SUFFIX,
+    PROXY_LIVENESS_SUFFIX,
+    PROXY_METRICS_SUFFIX,
+    PROXY_PROFILES_SUFFIX,
+    PROXY_READINESS_SUFFIX,
+} from '../config/apiPaths';
+import { UpstreamTimeoutError } from './langflow/upstream';
+
+/** Upper bounds, in seconds, of the latency histogram buckets. */
+export const DEFAULT_LATENCY_BUCKETS_SECONDS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+/** Served as the `Content-Type` of the metrics route. */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type ChatMode = 'stream' | 'non_stream';
+
+/** How a chat message that reached Langflow ended. */
+export type ChatOutcome = 'completed' | 'error' | 'timeout' | 'cancelled';
+
+type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+    return pairs.length === 0 ? '' : `{${pairs.join(',')}}`;
+}
+
+/** A counter or gauge: one value per label set. */
+class Series {
+    private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(private readonly name: string, private readonly help: string, private readonly type: 'counter' | 'gauge') {}
+
+    public add(labels: Labels, amount = 1): void {
+        const key = formatLabels(labels);
+        const entry = this.values.get(key) ?? { labels, value: 0 };
+        entry.value += amount;
+        this.values.set(key, entry);
+    }
+
+    public render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+        for (const { labels, value } of this.values.values()) {
+            lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+        }
+        return lines;
+    }
+}
+
+class Histogram {
+    private readonly values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+    constructor(private readonly name: string, private readonly help: string, private readonly bounds: number[]) {}
+
+    public observe(labels: Labels, value: number): void {
+        const key = formatLabels(labels);
+        const entry = this.values.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+        this.bounds.forEach((bound, index) => {
+            if (value <= bound) entry.buckets[index]++;
+        });
+        entry.sum += value;
+        entry.count++;
+        this.values.set(key, entry);
+    }
+
+    public render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const { labels, buckets, sum, count } of this.values.values()) {
+            this.bounds.forEach((bound, index) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+    }
+}
+
+/** The routes without a profile ID, named after their path. */
+const STATIC_ROUTES = new Set([
+    PROXY_PROFILES_SUFFIX,
+    PROXY_FLOWS_SUFFIX,
+    PROXY_LIVENESS_SUFFIX,
+    PROXY_READINESS_SUFFIX,
+    PROXY_METRICS_SUFFIX,
+    PROXY_CHAT_SOCKET_SUFFIX,
+]);
+
+/**
+ * Names the route a request path (relative to the proxy base path) belongs to, for the `route` label.
+ * Paths that are not a proxy route all count as 'other'.
+ * @returns The route, and the profile ID the path names, if any.
+ */
+export function classifyRoute(pathname: string): { route: string; profileId?: string } {
+    const configPrefix = PROFILE_CONFIG_ENDPOINT_PREFIX + '/';
+    const chatPrefix = PROFILE_CHAT_ENDPOINT_PREFIX + '/';
+    if (pathname.startsWith(configPrefix)) {
+        return { route: 'config', profileId: pathname.substring(configPrefix.length) };
+    }
+    if (pathname.startsWith(chatPrefix)) {
+        const [profileId, subPath] = pathname.substring(chatPrefix.length).split('/');
+        return { route: subPath === 'history' || subPath === 'files' ? subPath : 'chat', profileId };
+    }
+    return STATIC_ROUTES.has(pathname) ? { route: pathname.substring(1) } : { route: 'other' };
+}
+
+/**
+ * Names a failed Langflow call for the `status` label: its HTTP status, 'timeout', or 'network'
+ * when no response arrived.
+ * @param {unknown} error - The error the call failed with, or the status Langflow answered with.
+ */
+export function upstreamErrorLabel(error: unknown): string {
+    if (typeof error === 'number') {
+        return String(error);
+    }
+    if (error instanceof UpstreamTimeoutError) {
+        return 'timeout';
+    }
+    const status = (error as any)?.cause?.status ?? (error as any)?.status;
+    return typeof status === 'number' ? String(status) : 'network';
+}
+
+/** Times one chat message from the moment it is sent to Langflow. */
+export interface ChatObservation {
+    /** Marks the first streamed token; later calls are ignored. */
+    firstToken(): void;
+    /** Records how the message ended; later calls are ignored. */
+    finish(outcome: ChatOutcome): void;
+}
+
+export class ProxyMetrics {
+    private readonly httpRequests = new Series('langflow_chatbot_http_requests_total', 'HTTP requests answered by the proxy, by route, profile, method and status.', 'counter');
+    private readonly chatRequests = new Series('langflow_chatbot_chat_requests_total', 'Chat messages sent to Langflow, by profile, mode and outcome.', 'counter');
+    private readonly activeStreams = new Series('langflow_chatbot_active_streams', 'Streaming replies currently being relayed, by profile.', 'gauge');
+    private readonly upstreamErrors = new Series('langflow_chatbot_upstream_errors_total', 'Failed Langflow calls, by HTTP status, or timeout or network when no response arrived.', 'counter');
+    private readonly timeToFirstToken: Histogram;
+    private readonly responseDuration: Histogram;
+
+    constructor(bucketsSeconds: number[] = DEFAULT_LATENCY_BUCKETS_SECONDS) {
+        const bounds = [...bucketsSeconds].sort((a, b) => a - b);
+        this.timeToFirstToken = new Histogram('langflow_chatbot_time_to_first_token_seconds', 'Time from sending a streamed message to Langflow until its first token.', bounds);
+        this.responseDuration = new Histogram('langflow_chatbot_response_duration_seconds', 'Time from sending a message to Langflow until its reply was complete.', bounds);
+    }
+
+    /**
+     * Counts an answered HTTP request.
+     * @param {string} route - From `classifyRoute`.
+     * @param {string} profileId - The loaded profile the request targeted, or '' if none.
+     */
+    public recordRequest(route: string, profileId: string, method: string, statusCode: number): void {
+        this.httpRequests.add({ route, profile: profileId, method, status: String(statusCode) });
+    }
+
+    /** Counts a failed Langflow call; see `upstreamErrorLabel`. */
+    public recordUpstreamError(error: unknown): void {
+        this.upstreamErrors.add({ status: upstreamErrorLabel(error) });
+    }
+
+    /**
+     * Starts timing a chat message that was admitted and is about to be sent to Langflow.
+     * Streaming messages count as active streams until they finish.
+     */
+    public startChat(profileId: string, mode: ChatMode): ChatObservation {
+        const startedAt = Date.now();
+        let firstTokenSeen = false;
+        let finished = false;
+        if (mode === 'stream') {
+            this.activeStreams.add({ profile: profileId });
+        }
+        return {
+            firstToken: () => {
+                if (firstTokenSeen || finished) return;
+                firstTokenSeen = true;
+                this.timeToFirstToken.observe({ profile: profileId }, (Date.now() - startedAt) / 1000);
+            },
+            finish: (outcome: ChatOutcome) => {
+                if (finished) return;
+                finished = true;
+                if (mode === 'stream') {
+                    this.activeStreams.add({ profile: profileId }, -1);
+                }
+                this.chatRequests.add({ profile: profileId, mode, outcome });
+                if (outcome === 'completed') {
+                    this.responseDuration.observe({ profile: profileId, mode }, (Date.now() - startedAt) / 1000);
+                }
+            },
+        };
+    }
+
+    /** Renders every metric in the Prometheus text exposition format. */
+    public render(): string {
+        return [
+            ...this.httpRequests.render(),
+            ...this.chatRequests.render(),
+            ...this.activeStreams.render(),
+            ...this.timeToFirstToken.render(),
+            ...this.responseDuration.render(),
+            ...this.upstreamErrors.render(),
+        ].join('\n') + '\n';
+    }
+}
+
+/**
+ * Answers a scrape of the metrics route.
+ * @param {http.ServerResponse} res - The response to the scraper.
+ * @param {ProxyMetrics} metrics - The metrics to render.
+ */
+export function handleMetricsRequest(res: http.ServerResponse, metrics: ProxyMetrics): void {
+    res.statusCode = 200;
+    res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(metrics.render());
+}
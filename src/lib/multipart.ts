@@ -0,0 +1,109 @@
+/**
+ * @file multipart.ts
+ * @description A minimal `multipart/form-data` parser for the attachment upload route. The body is
+ * read into memory with a size limit and split on its boundary; nested multipart bodies and
+ * `Content-Transfer-Encoding` are not supported, as browsers do not send them.
+ */
+import http from 'http';
+import { readRequestBody } from './request-utils';
+
+/** One field of a multipart body. File fields carry a `filename`. */
+export interface MultipartPart {
+    name: string;
+    filename?: string;
+    /** The part's `Content-Type`, or 'application/octet-stream' when it has none. */
+    contentType: string;
+    data: Buffer;
+}
+
+const CRLF = '\r\n';
+const HEADER_END = CRLF + CRLF;
+
+/**
+ * Reads the boundary from a `multipart/form-data` Content-Type header.
+ * @returns The boundary, or null if the header is not a multipart/form-data type with a boundary.
+ */
+export function getMultipartBoundary(contentType: string | undefined): string | null {
+    if (!contentType || !/^multipart\/form-data\s*(;|$)/i.test(contentType)) {
+        return null;
+    }
+    const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+    return match ? (match[1] ?? match[2]) : null;
+}
+
+/** Reads a parameter such as `name="file"` from a Content-Disposition header value. */
+function dispositionParameter(disposition: string, parameter: string): string | undefined {
+    const match = new RegExp(`;\\s*${parameter}="((?:[^"\\\\]|\\\\.)*)"`, 'i').exec(disposition)
+        ?? new RegExp(`;\\s*${parameter}=([^;\\s]+)`, 'i').exec(disposition);
+    return match ? match[1].replace(/\\(.)/g, '$1') : undefined;
+}
+
+function invalidBody(reason: string): Error {
+    return new Error(`Invalid multipart body: ${reason}`);
+}
+
+/**
+ * Splits a buffered multipart body into its parts.
+ * @param {Buffer} body - The complete request body.
+ * @param {string} boundary - From `getMultipartBoundary`.
+ * @throws An 'Invalid multipart body' error if the body is malformed.
+ */
+export function parseMultipartBuffer(body: Buffer, boundary: string): MultipartPart[] {
+    const delimiter = Buffer.from(`--${boundary}`);
+    const nextDelimiter = Buffer.from(`${CRLF}--${boundary}`);
+    let position = body.indexOf(delimiter);
+    if (position < 0) {
+        throw invalidBody('boundary not found.');
+    }
+
+    const parts: MultipartPart[] = [];
+    for (;;) {
+        position += delimiter.length;
+        if (body.toString('latin1', position, position + 2) === '--') {
+            return parts;
+        }
+        if (body.toString('latin1', position, position + 2) !== CRLF) {
+            throw invalidBody('malformed boundary line.');
+        }
+        position += CRLF.length;
+
+        const end = body.indexOf(nextDelimiter, position);
+        if (end < 0) {
+            throw invalidBody('closing boundary not found.');
+        }
+        const headerEnd = body.indexOf(HEADER_END, position);
+        if (headerEnd < 0 || headerEnd > end) {
+            throw invalidBody('part headers not terminated.');
+        }
+
+        const headers = new Map<string, string>();
+        for (const line of body.toString('utf-8', position, headerEnd).split(CRLF)) {
+            const colon = line.indexOf(':');
+            if (colon > 0) {
+                headers.set(line.substring(0, colon).trim().toLowerCase(), line.substring(colon + 1).trim());
+            }
+        }
+        const disposition = headers.get('content-disposition');
+        const name = disposition !== undefined ? dispositionParameter(disposition, 'name') : undefined;
+        if (!disposition || !/^form-data\s*(;|$)/i.test(disposition) || name === undefined) {
+            throw invalidBody('part without a form-data Content-Disposition name.');
+        }
+        parts.push({
+            name,
+            filename: dispositionParameter(disposition, 'filename'),
+            contentType: headers.get('content-type') || 'application/octet-stream',
+            data: body.subarray(headerEnd + HEADER_END.length, end),
+        });
+        position = end + CRLF.length;
+    }
+}
+
+/**
+ * Reads and parses a `multipart/form-data` request body.
+ * @param {http.IncomingMessage} req - The request.
+ * @param {string} boundary - From `getMultipartBoundary`.
+ * @param {number} maxBodyBytes - Rejects with a 'Request body too large' error once the body exceeds it.
+ */
+export async function parseMultipartBody(req: http.IncomingMessage, boundary: string, maxBodyBytes: number): Promise<MultipartPart[]> {
+    return parseMultipartBuffer(await readRequestBody(req, maxBodyBytes), boundary);
+}
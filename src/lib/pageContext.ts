@@ -0,0 +1,123 @@
+/**
+ * @file pageContext.ts
+ * @description Context from the page that hosts the widget, such as the product shown or the visitor's
+ * locale and plan, sent by the client with each message. A profile's `server.context` declares the
+ * fields it accepts and how they reach the flow: as tweaks of its components, or as a prefix on the
+ * message. Context that does not match the declared fields is refused.
+ */
+import { ContextPolicy, FlowTweaks, PageContext } from '../types';
+
+/** Used for string fields without a `maxLength`, so context cannot smuggle in whole prompts. */
+export const DEFAULT_MAX_CONTEXT_STRING_LENGTH = 256;
+
+const compiledPatterns = new WeakMap<ContextPolicy, Map<string, RegExp>>();
+
+function getFieldPattern(policy: ContextPolicy, name: string, pattern: string): RegExp {
+    let patterns = compiledPatterns.get(policy);
+    if (!patterns) {
+        patterns = new Map();
+        compiledPatterns.set(policy, patterns);
+    }
+    let compiled = patterns.get(name);
+    if (!compiled) {
+        compiled = new RegExp(`^(?:${pattern})$`);
+        patterns.set(name, compiled);
+    }
+    return compiled;
+}
+
+function isEmpty(context: unknown): boolean {
+    return context === undefined || context === null
+        || (typeof context === 'object' && !Array.isArray(context) && Object.keys(context).length === 0);
+}
+
+/**
+ * Checks the `context` a client sent with a chat message against the profile's declared fields.
+ * @param {unknown} context - As received from the client; undefined means none.
+ * @param {ContextPolicy} [policy] - The profile's `server.context`; unset means context is refused.
+ * @returns {string | null} The error to report, or null if the context may be applied.
+ */
+export function checkPageContext(context: unknown, policy?: ContextPolicy): string | null {
+    if (!policy) {
+        return isEmpty(context) ? null : "This chatbot profile does not accept context.";
+    }
+    if (context !== undefined && context !== null && (typeof context !== 'object' || Array.isArray(context))) {
+        return "context must map field names to values.";
+    }
+    const values = (context ?? {}) as Record<string, unknown>;
+    for (const name of Object.keys(values)) {
+        if (!Object.prototype.hasOwnProperty.call(policy.fields, name)) {
+            return `Context field '${name}' is not accepted.`;
+        }
+    }
+    for (const [name, field] of Object.entries(policy.fields)) {
+        const value = values[name];
+        if (value === undefined || value === null) {
+            if (field.required) {
+                return `Context field '${name}' is required.`;
+            }
+            continue;
+        }
+        if (typeof value !== field.type || (typeof value === 'number' && !Number.isFinite(value))) {
+            return `Context field '${name}' must be a ${field.type}.`;
+        }
+        if (typeof value !== 'string') {
+            continue;
+        }
+        const maxLength = field.maxLength ?? DEFAULT_MAX_CONTEXT_STRING_LENGTH;
+        if (value.length > maxLength) {
+            return `Context field '${name}' is limited to ${maxLength} characters.`;
+        }
+        if (field.enum && !field.enum.includes(value)) {
+            return `Context field '${name}' must be one of: ${field.enum.join(', ')}.`;
+        }
+        if (field.pattern !== undefined && !getFieldPattern(policy, name, field.pattern).test(value)) {
+            return `Context field '${name}' does not have the expected format.`;
+        }
+    }
+    return null;
+}
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const SINGLE_PLACEHOLDER = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+
+/**
+ * Fills a template's `{{name}}` placeholders with context values; missing values become ''.
+ */
+export function renderContextTemplate(template: string, context: PageContext): string {
+    return template.replace(PLACEHOLDER, (_match, name: string) => {
+        const value = context[name];
+        return value === undefined || value === null ? '' : String(value);
+    });
+}
+
+/**
+ * Maps checked context onto what the flow receives.
+ * @param {ContextPolicy | undefined} policy - The profile's `server.context`.
+ * @param {unknown} context - The client's context, checked by `checkPageContext`.
+ * @param {string} message - The user's message.
+ * @returns The message to send to the flow, with the prefix if one is configured, and the context's tweaks.
+ *          A tweak whose template is a single placeholder is left out when its value is missing,
+ *          so the flow's own setting applies.
+ */
+export function applyPageContext(policy: ContextPolicy | undefined, context: unknown, message: string): { message: string; tweaks?: FlowTweaks } {
+    if (!policy) {
+        return { message };
+    }
+    const values = (context ?? {}) as PageContext;
+    let tweaks: FlowTweaks | undefined;
+    for (const [key, template] of Object.entries(policy.tweaks ?? {})) {
+        const separator = key.indexOf('.');
+        const componentId = key.substring(0, separator);
+        const field = key.substring(separator + 1);
+        const single = SINGLE_PLACEHOLDER.exec(template);
+        const value = single ? values[single[1]] : renderContextTemplate(template, values);
+        if (value === undefined || value === null) {
+            continue;
+        }
+        tweaks = tweaks ?? {};
+        tweaks[componentId] = { ...tweaks[componentId], [field]: value };
+    }
+    const prefix = policy.messagePrefix !== undefined ? renderContextTemplate(policy.messagePrefix, values) : '';
+    return { message: prefix + message, tweaks };
+}
@@ -0,0 +1,152 @@
+/**
+ * @file rateLimiter.ts
+ * @description Token-bucket rate limiting for chat messages sent through the proxy.
+ * Each client gets a bucket per profile (from `server.rateLimit`) and, optionally, one shared across
+ * all profiles (from the top-level `rate_limit` section of the instance YAML). A message is only
+ * accepted when every applicable bucket holds a token, and then one token is taken from each.
+ */
+import http from 'http';
+import { Principal, Profile, RateLimitConfig, RateLimitKey } from '../types';
+
+/** Outcome of a rate limit check. `retryAfterSeconds` is only set when the request is rejected. */
+export type RateLimitDecision = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+/** The caller details a client key can be derived from. */
+export interface RateLimitClient {
+    /** Express sets `ip` to the proxy-aware address when 'trust proxy' is configured. */
+    req: http.IncomingMessage & { ip?: string };
+    sessionId?: string;
+    principal?: Principal | null;
+}
+
+const RATE_LIMIT_KEYS: RateLimitKey[] = ['ip', 'session', 'principal'];
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+    capacity: number;
+    tokensPerMs: number;
+}
+
+/**
+ * Validates a rate limit configuration read from YAML.
+ * @param {unknown} config - The raw value.
+ * @returns {boolean} True if it has a positive `requestsPerMinute`, an optional positive `burst` and a known `keyBy`.
+ */
+export function isValidRateLimitConfig(config: unknown): config is RateLimitConfig {
+    if (!config || typeof config !== 'object') {
+        return false;
+    }
+    const { requestsPerMinute, burst, keyBy } = config as Record<string, unknown>;
+    return typeof requestsPerMinute === 'number' && requestsPerMinute > 0
+        && (burst === undefined || (typeof burst === 'number' && burst >= 1))
+        && (keyBy === undefined || RATE_LIMIT_KEYS.includes(keyBy as RateLimitKey));
+}
+
+/**
+ * Derives the client identifier for a limit. Session IDs are chosen by the client, so a session key only
+ * separates the sessions of an authenticated principal; anonymous callers, who could rotate session IDs
+ * to get fresh buckets, are keyed by their IP. Principal keys likewise fall back to the IP for
+ * anonymous callers, and session keys for requests without a session ID.
+ */
+function clientKey(keyBy: RateLimitKey, client: RateLimitClient): string {
+    if (keyBy === 'principal' && client.principal) {
+        return `principal:${client.principal.id}`;
+    }
+    if (keyBy === 'session' && client.principal && client.sessionId) {
+        return `session:${client.principal.id}:${client.sessionId}`;
+    }
+    const ip = client.req.ip || client.req.socket?.remoteAddress || 'unknown';
+    return `ip:${ip}`;
+}
+
+/**
+ * Holds the token buckets for all clients. Buckets refill continuously at `requestsPerMinute / 60`
+ * tokens per second up to `burst` (which defaults to `requestsPerMinute`).
+ */
+export class RateLimiter {
+    private static readonly SWEEP_INTERVAL_CHECKS = 1000;
+    private buckets: Map<string, Bucket> = new Map();
+    private checksSinceSweep = 0;
+
+    /**
+     * @param {RateLimitConfig} [globalLimit] - Limit applied to each client across all profiles.
+     * @param {() => number} [now] - Clock in milliseconds; injectable for tests.
+     */
+    constructor(private globalLimit?: RateLimitConfig, private now: () => number = Date.now) {}
+
+    /**
+     * Counts one chat message against the global and profile limits.
+     * @param {Profile} profile - The profile being used; its `server.rateLimit` applies if set.
+     * @param {RateLimitClient} client - The request and caller identity.
+     * @returns {RateLimitDecision} Whether the message may proceed, and if not, when to retry.
+     */
+    public consume(profile: Profile, client: RateLimitClient): RateLimitDecision {
+        return this.evaluate(profile, client, true);
+    }
+
+    /**
+     * Tells whether `consume` would accept a message, without spending a token, so a request can still be
+     * refused for another reason without draining the caller's buckets.
+     */
+    public check(profile: Profile, client: RateLimitClient): RateLimitDecision {
+        return this.evaluate(profile, client, false);
+    }
+
+    private evaluate(profile: Profile, client: RateLimitClient, spend: boolean): RateLimitDecision {
+        const limits: Array<{ key: string; limit: RateLimitConfig }> = [];
+        if (this.globalLimit) {
+            limits.push({ key: `*|${clientKey(this.globalLimit.keyBy || 'ip', client)}`, limit: this.globalLimit });
+        }
+        const profileLimit = profile.server.rateLimit;
+        if (profileLimit) {
+            limits.push({ key: `${profile.profileId}|${clientKey(profileLimit.keyBy || 'ip', client)}`, limit: profileLimit });
+        }
+        if (limits.length === 0) {
+            return { allowed: true };
+        }
+
+        const now = this.now();
+        if (++this.checksSinceSweep >= RateLimiter.SWEEP_INTERVAL_CHECKS) {
+            this.sweepFullBuckets(now);
+        }
+
+        // Refill every bucket first so a rejection by one limit does not spend a token from another.
+        const buckets = limits.map(({ key, limit }) => ({ bucket: this.refill(key, limit, now), limit }));
+        const empty = buckets.filter(({ bucket }) => bucket.tokens < 1);
+        if (empty.length > 0) {
+            const waitSeconds = Math.max(...empty.map(({ bucket, limit }) => (1 - bucket.tokens) * 60 / limit.requestsPerMinute));
+            return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil(waitSeconds)) };
+        }
+        if (spend) {
+            buckets.forEach(({ bucket }) => { bucket.tokens -= 1; });
+        }
+        return { allowed: true };
+    }
+
+    private refill(key: string, limit: RateLimitConfig, now: number): Bucket {
+        const capacity = Math.max(1, limit.burst ?? limit.requestsPerMinute);
+        const tokensPerMs = limit.requestsPerMinute / 60_000;
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = { tokens: capacity, updatedAt: now, capacity, tokensPerMs };
+            this.buckets.set(key, bucket);
+            return bucket;
+        }
+        bucket.tokens = Math.min(capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) * tokensPerMs);
+        bucket.capacity = capacity;
+        bucket.tokensPerMs = tokensPerMs;
+        bucket.updatedAt = now;
+        return bucket;
+    }
+
+    /** Drops buckets that would have refilled completely; a new bucket starts full anyway. */
+    private sweepFullBuckets(now: number): void {
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.tokens + (now - bucket.updatedAt) * bucket.tokensPerMs >= bucket.capacity) {
+                this.buckets.delete(key);
+            }
+        }
+        this.checksSinceSweep = 0;
+    }
+}
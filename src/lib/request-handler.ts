@@ -1,10 +1,11 @@
 import http from 'http';
 import { URL } from 'url';
 import { LangflowClient } from '@datastax/langflow-client';
-import { Profile } from '../types';
+import { Profile, Principal, UpstreamConfig } from '../types';
 import {
     PROFILE_CONFIG_ENDPOINT_PREFIX,
     PROFILE_CHAT_ENDPOINT_PREFIX,
+    PROFILE_FILES_ENDPOINT_SUFFIX,
     PROXY_FLOWS_SUFFIX,
     PROXY_PROFILES_SUFFIX,
     LANGFLOW_API_BASE_PATH_V1
@@ -14,7 +15,123 @@ import { sendJsonError, proxyLangflowApiRequest, parseJsonBody } from './request
 import { handleGetChatbotConfigRequest, handleListChatbotProfilesRequest } from './configHandlers';
 import { handleGetFlowsRequest } from './langflow/flowsHandlers';
 import { handleGetChatHistoryRequest } from './langflow/historyHandlers';
-import { handleChatMessageRequest } from './langflow/chatHandlers';
+import { ChatRequestOptions, handleChatMessageRequest } from './langflow/chatHandlers';
+import { createAttachmentContext, handleFileDownloadRequest, handleFileUploadRequest, LangflowConnection } from './langflow/fileHandlers';
+import { ConversationStore } from './conversation/ConversationStore';
+import { AuthenticateFn, resolvePrincipal, checkProfileAccess } from './auth/authentication';
+import { SessionOwnershipGuard } from './auth/sessionOwnership';
+import { FileOwnershipGuard } from './auth/fileOwnership';
+import { RateLimiter } from './rateLimiter';
+import { combineUpstreamConfig } from './langflow/upstream';
+import { CircuitBreaker } from './langflow/circuitBreaker';
+import { ProxyMetrics } from './metrics';
+import { ReplyExtractorRegistry } from './langflow/replyExtractors';
+import { consoleLogger, ServerLogger, withLogFields } from './logging';
+
+/**
+ * Optional service-level collaborators passed through to individual route handlers.
+ */
+export interface RequestHandlerOptions {
+    conversationStore?: ConversationStore;
+    authenticate?: AuthenticateFn;
+    sessionOwnership?: SessionOwnershipGuard;
+    /** Binds uploaded attachments to their uploader; downloads and messages naming other callers' files are refused. */
+    fileOwnership?: FileOwnershipGuard;
+    rateLimiter?: RateLimiter;
+    /** Retries resolving the flow of a profile with status 'unresolved'; resolves to true once it is usable. */
+    resolveProfileFlow?: (profile: Profile) => Promise<boolean>;
+    /** The top-level Langflow timeouts and retries, which each profile's `server.upstream` overrides. */
+    upstream?: UpstreamConfig;
+    /** Refuses Langflow calls while Langflow keeps failing; shared by every route and the WebSocket channel. */
+    circuitBreaker?: CircuitBreaker;
+    /** Counts chat timings and outcomes and failed Langflow calls. */
+    metrics?: ProxyMetrics;
+    /** The request's logger, carrying its correlation id and route. Defaults to the console. */
+    logger?: ServerLogger;
+    /** The reply extractors profiles can name; the built-in ones when unset. */
+    replyExtractors?: ReplyExtractorRegistry;
+}
+
+/**
+ * Enforces a profile's access rule, sending a 401/403 error when the principal is denied.
+ * @returns True if the request may proceed.
+ */
+function authorizeProfileRequest(res: http.ServerResponse, profile: Profile, principal: Principal | null, logger: ServerLogger): boolean {
+    const decision = checkProfileAccess(profile, principal);
+    if (decision.allowed) {
+        return true;
+    }
+    logger.warn(`RequestHandler: Denied access to profile '${profile.profileId}' for ${principal ? `principal '${principal.id}'` : 'anonymous caller'} (${decision.statusCode}).`, { profileId: profile.profileId });
+    sendJsonError(res, decision.statusCode, decision.error);
+    return false;
+}
+
+/**
+ * Checks whether a profile's flow can be used. Profiles loaded with the 'lazy' flow resolution
+ * policy get another resolution attempt first.
+ * @returns True if the profile is available.
+ */
+export async function isProfileAvailable(profile: Profile, options: RequestHandlerOptions): Promise<boolean> {
+    const status = profile.server.status;
+    if (!status || status === 'available') {
+        return true;
+    }
+    return status === 'unresolved' && !!options.resolveProfileFlow && await options.resolveProfileFlow(profile);
+}
+
+/**
+ * Builds the collaborators of a chat message to a profile. Used by both the HTTP chat route and the
+ * WebSocket channel, so an option added here applies to both transports.
+ * @param {Profile} profile - The profile the message is for.
+ * @param {Principal | null} principal - The caller, or null if anonymous.
+ * @param {RequestHandlerOptions} options - The proxy's collaborators.
+ * @param {LangflowConnection} langflowConnection - Where Langflow's REST API is, for attachments.
+ * @param {ServerLogger} [logger] - The request's logger; defaults to `options.logger`.
+ */
+export function buildChatRequestOptions(
+    profile: Profile,
+    principal: Principal | null,
+    options: RequestHandlerOptions,
+    langflowConnection: LangflowConnection,
+    logger: ServerLogger | undefined = options.logger
+): ChatRequestOptions {
+    const upstream = combineUpstreamConfig(options.upstream, profile.server.upstream);
+    return {
+        profileId: profile.profileId,
+        conversationStore: options.conversationStore,
+        principal,
+        sessionOwnership: options.sessionOwnership,
+        rateLimit: options.rateLimiter ? { limiter: options.rateLimiter, profile } : undefined,
+        messagePolicy: profile.server.messagePolicy,
+        upstream,
+        circuitBreaker: options.circuitBreaker,
+        metrics: options.metrics,
+        logger,
+        attachments: createAttachmentContext(profile, langflowConnection, upstream, logger ?? consoleLogger),
+        fileOwnership: options.fileOwnership,
+        tweaks: profile.server.tweaks,
+        clientTweaks: profile.server.clientTweaks,
+        context: profile.server.context,
+        inputType: profile.server.inputType,
+        outputType: profile.server.outputType,
+        outputComponent: profile.server.outputComponent,
+        replyExtractors: options.replyExtractors?.resolve(profile.server, logger),
+        debugReplyExtractors: profile.server.debugReplyExtractors,
+    };
+}
+
+/**
+ * Refuses requests to profiles whose flow could not be resolved, sending a 503 error.
+ * @returns True if the request may proceed.
+ */
+async function ensureProfileAvailable(res: http.ServerResponse, profile: Profile, options: RequestHandlerOptions): Promise<boolean> {
+    if (await isProfileAvailable(profile, options)) {
+        return true;
+    }
+    (options.logger ?? consoleLogger).warn(`RequestHandler: Refused request to profile '${profile.profileId}' because its flow '${profile.server.flowId}' could not be resolved.`, { profileId: profile.profileId });
+    sendJsonError(res, 503, `Chatbot profile '${profile.profileId}' is currently unavailable.`, "Its flow could not be found in Langflow.");
+    return false;
+}
 
 // This function will be called by LangflowProxyService, passing necessary dependencies
 export async function handleRequest(
@@ -29,11 +146,13 @@ export async function handleRequest(
         res: http.ServerResponse,
         path: string,
         method: 'GET',
-        queryParams?: URLSearchParams
+        queryParams?: URLSearchParams,
+        upstream?: UpstreamConfig
     ) => Promise<Response | null>,
     proxyApiBasePath: string,
     preParsedBody: any | undefined,
-    isBodyPreParsed: boolean
+    isBodyPreParsed: boolean,
+    options: RequestHandlerOptions = {}
 ): Promise<void> {
     const { method, url: rawUrl } = req;
     if (!rawUrl) {
@@ -44,6 +163,15 @@ export async function handleRequest(
     const base = `http://${req.headers.host || 'localhost'}`;
     const parsedUrl = new URL(rawUrl, base);
     const pathname = parsedUrl.pathname;
+    const logger = options.logger ?? consoleLogger;
+
+    let principal: Principal | null = null;
+    try {
+        principal = await resolvePrincipal(req, options.authenticate);
+    } catch (error: any) {
+        // A failed authentication attempt is treated as anonymous; protected profiles will then answer 401.
+        logger.warn(`RequestHandler: authenticate hook rejected the request: ${error?.message || error}`);
+    }
 
     // Path prefixes are now direct matches as base path is stripped by caller
     const configRequestPathPrefix = PROFILE_CONFIG_ENDPOINT_PREFIX + '/';
@@ -51,7 +179,11 @@ export async function handleRequest(
 
     if (method === 'GET' && pathname.startsWith(configRequestPathPrefix)) {
         const profileId = pathname.substring(configRequestPathPrefix.length);
-        await handleGetChatbotConfigRequest(profileId, res, chatbotConfigurations, proxyApiBasePath);
+        const profile = chatbotConfigurations.get(profileId);
+        if (profile && (!authorizeProfileRequest(res, profile, principal, logger) || !(await ensureProfileAvailable(res, profile, options)))) {
+            return;
+        }
+        await handleGetChatbotConfigRequest(profileId, res, chatbotConfigurations, proxyApiBasePath, withLogFields(logger, { profileId }));
     } else if (pathname.startsWith(chatRequestPathPrefix)) {
         const remainingPath = pathname.substring(chatRequestPathPrefix.length);
         const parts = remainingPath.split('/').filter(p => p.length > 0);
@@ -67,7 +199,13 @@ export async function handleRequest(
             sendJsonError(res, 404, `Chatbot profile with profileId '${profileId}' not found.`);
             return;
         }
+        if (!authorizeProfileRequest(res, profile, principal, logger) || !(await ensureProfileAvailable(res, profile, options))) {
+            return;
+        }
         const flowIdToUse = profile.server.flowId;
+        const profileUpstream = combineUpstreamConfig(options.upstream, profile.server.upstream);
+        const langflowConnection = { endpointUrl: langflowEndpointUrl, apiKey: langflowApiKey };
+        const isFilesPath = parts[1] === PROFILE_FILES_ENDPOINT_SUFFIX.substring(1);
 
         if (method === 'POST' && parts.length === 1) {
             const serverAllowsStream = profile.server.enableStream !== false; // Access enableStream from profile.server, default to true
@@ -78,18 +216,50 @@ export async function handleRequest(
                 serverAllowsStream, 
                 langflowClient,
                 preParsedBody,
-                isBodyPreParsed
+                isBodyPreParsed,
+                buildChatRequestOptions(profile, principal, options, langflowConnection)
             );
+        } else if (method === 'POST' && parts.length === 2 && isFilesPath) {
+            await handleFileUploadRequest(req, res, profile, langflowConnection, {
+                upstream: profileUpstream,
+                circuitBreaker: options.circuitBreaker,
+                metrics: options.metrics,
+                rateLimit: options.rateLimiter ? { limiter: options.rateLimiter, profile } : undefined,
+                logger: options.logger,
+                fileOwnership: options.fileOwnership,
+                principal,
+                sessionId: parsedUrl.searchParams.get('session_id'),
+            });
+        } else if (method === 'GET' && parts.length > 2 && isFilesPath) {
+            await handleFileDownloadRequest(res, profile, parts.slice(2), (res, path, method) =>
+                makeDirectLangflowApiRequest(res, path, method, undefined, profileUpstream), {
+                logger: options.logger,
+                fileOwnership: options.fileOwnership,
+                principal,
+                sessionId: parsedUrl.searchParams.get('session_id'),
+            });
         } else if (method === 'GET' && parts.length === 2 && parts[1] === 'history') {
             const sessionId = parsedUrl.searchParams.get('session_id');
-            await handleGetChatHistoryRequest(res, flowIdToUse, sessionId, makeDirectLangflowApiRequest);
+            if (sessionId && options.sessionOwnership && !(await options.sessionOwnership.canAccess(profileId, sessionId, principal))) {
+                logger.warn(`RequestHandler: Refused history of session '${sessionId}' of profile '${profileId}' to a caller who does not own it.`, { profileId, sessionId });
+                sendJsonError(res, 403, "This session belongs to another user.");
+                return;
+            }
+            const conversation = options.conversationStore ? { store: options.conversationStore, profileId } : undefined;
+            const makeProfileApiRequest: typeof makeDirectLangflowApiRequest = profile.server.upstream
+                ? (res, path, method, queryParams) => makeDirectLangflowApiRequest(res, path, method, queryParams, profileUpstream)
+                : makeDirectLangflowApiRequest;
+            await handleGetChatHistoryRequest(res, flowIdToUse, sessionId, makeProfileApiRequest, conversation, withLogFields(logger, { profileId }));
         } else {
             sendJsonError(res, 404, "Chat endpoint not found or method not supported for the path.");
         }
     } else if (method === 'GET' && pathname === PROXY_FLOWS_SUFFIX) {
-        await handleGetFlowsRequest(req, res, makeDirectLangflowApiRequest);
+        await handleGetFlowsRequest(req, res, makeDirectLangflowApiRequest, logger);
     } else if (method === 'GET' && pathname === PROXY_PROFILES_SUFFIX) {
-        await handleListChatbotProfilesRequest(req, res, chatbotConfigurations);
+        const accessibleProfiles = new Map(
+            Array.from(chatbotConfigurations).filter(([, profile]) => checkProfileAccess(profile, principal).allowed)
+        );
+        await handleListChatbotProfilesRequest(req, res, accessibleProfiles, logger);
     } else {
         sendJsonError(res, 404, "Endpoint not found or method not supported.");
     }
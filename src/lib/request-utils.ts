@@ -1,23 +1,61 @@
 import http from 'http';
+import { consoleLogger, ServerLogger } from './logging';
+import { sendUpstreamTimeout, UpstreamTimeoutError } from './langflow/upstream';
 
-// Helper function to parse JSON body from IncomingMessage
-export async function parseJsonBody(req: http.IncomingMessage): Promise<any> {
+// Upper bound on request bodies read by parseJsonBody when the profile does not set server.messagePolicy.maxBodyBytes.
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+// Reads a request body into memory.
+// Rejects with a 'Request body too large' error as soon as more than maxBodyBytes have arrived,
+// so an oversized body is never buffered in full.
+export async function readRequestBody(req: http.IncomingMessage, maxBodyBytes: number = DEFAULT_MAX_BODY_BYTES): Promise<Buffer> {
     return new Promise((resolve, reject) => {
-        let body = '';
+        const tooLarge = () => new Error(`Request body too large: the limit is ${maxBodyBytes} bytes.`);
+        const declaredLength = Number(req.headers?.['content-length']);
+        if (Number.isFinite(declaredLength) && declaredLength > maxBodyBytes) {
+            req.resume(); // Discard the body so the connection can still deliver the error response.
+            reject(tooLarge());
+            return;
+        }
+
+        const chunks: Buffer[] = [];
+        let receivedBytes = 0;
+        let settled = false;
         req.on('data', chunk => {
-            body += chunk.toString();
+            if (settled) {
+                return;
+            }
+            const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+            receivedBytes += buffer.length;
+            if (receivedBytes > maxBodyBytes) {
+                settled = true;
+                chunks.length = 0;
+                reject(tooLarge());
+                return;
+            }
+            chunks.push(buffer);
         });
         req.on('end', () => {
-            try {
-                resolve(JSON.parse(body));
-            } catch (e) {
-                reject(new Error('Invalid JSON body'));
+            if (settled) {
+                return;
             }
+            settled = true;
+            resolve(Buffer.concat(chunks));
         });
         req.on('error', reject);
     });
 }
 
+// Helper function to parse JSON body from IncomingMessage, read with the same limit as readRequestBody.
+export async function parseJsonBody(req: http.IncomingMessage, maxBodyBytes: number = DEFAULT_MAX_BODY_BYTES): Promise<any> {
+    const body = await readRequestBody(req, maxBodyBytes);
+    try {
+        return JSON.parse(body.toString('utf-8'));
+    } catch (e) {
+        throw new Error('Invalid JSON body');
+    }
+}
+
 export function sendJsonError(
     res: http.ServerResponse,
     statusCode: number,
@@ -35,7 +73,8 @@ export function sendJsonError(
 
 export async function proxyLangflowApiRequest(
     res: http.ServerResponse, // The response object to write to
-    langflowApiCall: () => Promise<Response | null> // Function that makes the actual API call
+    langflowApiCall: () => Promise<Response | null>, // Function that makes the actual API call
+    logger: ServerLogger = consoleLogger // The request's logger
 ): Promise<any | null> { // Returns parsed JSON data or null if response was fully handled
     try {
         const langflowApiResponse = await langflowApiCall();
@@ -43,7 +82,9 @@ export async function proxyLangflowApiRequest(
             return null;
         }
 
-        console.log(`RequestHandler (proxyUtil): Response status from Langflow server: ${langflowApiResponse.status} ${langflowApiResponse.statusText}`);
+        logger.info(`RequestHandler (proxyUtil): Response status from Langflow server: ${langflowApiResponse.status} ${langflowApiResponse.statusText}`);
+        // Read before anything is relayed, so a body that times out can still be answered with a clean 504.
+        const responseBodyText = await langflowApiResponse.text();
         
         // Relay specific headers, except those that might interfere with proxying
         langflowApiResponse.headers.forEach((value, name) => {
@@ -59,15 +100,13 @@ export async function proxyLangflowApiRequest(
         const contentType = langflowApiResponse.headers.get('Content-Type') || 'application/json';
         res.setHeader('Content-Type', contentType);
 
-        const responseBodyText = await langflowApiResponse.text();
-
         if (contentType.includes('application/json')) {
             try {
                 const jsonData = JSON.parse(responseBodyText);
                 res.end(JSON.stringify(jsonData)); // Send parsed and re-serialized JSON
                 return jsonData; // Return parsed data for potential further use by caller
             } catch (jsonError: any) {
-                console.error(`RequestHandler (proxyUtil): Failed to parse JSON response from Langflow. Status: ${langflowApiResponse.status}. Error: ${jsonError.message}. Body: ${responseBodyText.substring(0,1000)}`);
+                logger.error(`RequestHandler (proxyUtil): Failed to parse JSON response from Langflow. Status: ${langflowApiResponse.status}. Error: ${jsonError.message}. Body: ${responseBodyText.substring(0,1000)}`);
                 // If headers are already sent, we can't change status. Try to send error in body if possible.
                 if (!res.headersSent) {
                     sendJsonError(res, 502, "Proxy received an invalid JSON response from Langflow server.", jsonError.message);
@@ -84,7 +123,12 @@ export async function proxyLangflowApiRequest(
         }
 
     } catch (error: any) {
-        console.error(`RequestHandler (proxyUtil): Error in API request to Langflow:`, error);
+        if (error instanceof UpstreamTimeoutError) {
+            logger.warn(`RequestHandler (proxyUtil): ${error.message}`);
+            sendUpstreamTimeout(res, error);
+            return null;
+        }
+        logger.error(`RequestHandler (proxyUtil): Error in API request to Langflow:`, { error });
         if (!res.headersSent) {
             sendJsonError(res, 500, "Failed to make request to Langflow via proxy.", error.message);
         }
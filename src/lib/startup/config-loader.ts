@@ -8,8 +8,13 @@
  */
 import fs from 'fs';
 import path from 'path';
-import yaml from 'js-yaml';
-import { ChatbotProfile, ServerProfile, Profile } from '../../types'; // Updated import path
+import { ChatbotProfile, ServerProfile, Profile, RateLimitConfig, UpstreamConfig } from '../../types'; // Updated import path
+import {
+    ConfigValidationResult,
+    formatConfigIssue,
+    parseYamlWithLines,
+    validateInstanceConfigDocument,
+} from './config-schema';
 import {
     DEFAULT_ENABLE_STREAM,
     DEFAULT_USE_FLOATING,
@@ -40,6 +45,18 @@ interface BaseConfigFile { // This interface might become redundant or be simpli
 
 interface InstanceConfigFile {
     profiles: Array<Partial<Profile>>;
+    rate_limit?: RateLimitConfig;
+    upstream?: UpstreamConfig;
+}
+
+function readInstanceConfigFile(instanceConfigPath: string): { absolutePath: string; parsedConfig: InstanceConfigFile; lines: Map<string, number> } {
+    const absolutePath = path.resolve(instanceConfigPath);
+    if (!fs.existsSync(absolutePath)) {
+        throw new Error(`Instance configuration file (YAML) not found at ${absolutePath}.`);
+    }
+    const fileContents = fs.readFileSync(absolutePath, 'utf-8');
+    const { value, lines } = parseYamlWithLines(fileContents);
+    return { absolutePath, parsedConfig: value as InstanceConfigFile, lines };
 }
 
 export function loadBaseConfig(): { 
@@ -95,33 +112,88 @@ export function loadBaseConfig(): {
     };
 }
 
-export function loadInstanceConfig(instanceConfigPath: string): Array<Profile> {
-    const absolutePath = path.resolve(instanceConfigPath);
-    console.log(`ConfigLoader: Loading instance-specific chatbot profiles from: ${absolutePath}`);
-    if (!fs.existsSync(absolutePath)) {
-        throw new Error(`Instance configuration file (YAML) not found at ${absolutePath}.`);
-    }
-    const fileContents = fs.readFileSync(absolutePath, 'utf-8');
-    const parsedConfig = yaml.load(fileContents) as InstanceConfigFile;
+/** The instance YAML file, read and validated as one document. */
+export interface InstanceConfig {
+    profiles: Profile[];
+    /** The top-level `rate_limit` section: the limit applied to each client across all profiles. */
+    rateLimit?: RateLimitConfig;
+    /** The top-level `upstream` section: the settings each profile's `server.upstream` overrides. */
+    upstream?: UpstreamConfig;
+}
+
+/**
+ * Reads the instance YAML file once and validates it as a whole, so the profiles, rate limit and upstream
+ * settings always come from the same version of the file, even if it is written while being loaded.
+ * @param {string} instanceConfigPath - Path to the instance YAML file.
+ * @returns {InstanceConfig} The profiles and top-level sections.
+ * @throws If the file is missing, is not valid YAML, or does not match the schema.
+ */
+export function loadInstanceDocument(instanceConfigPath: string): InstanceConfig {
+    console.log(`ConfigLoader: Loading instance-specific chatbot profiles from: ${path.resolve(instanceConfigPath)}`);
+    const { absolutePath, parsedConfig, lines } = readInstanceConfigFile(instanceConfigPath);
 
-    if (!parsedConfig.profiles || !Array.isArray(parsedConfig.profiles)) {
-        throw new Error(`Instance YAML config missing required 'profiles' array. Path: ${absolutePath}`);
+    const validation = validateInstanceConfigDocument(parsedConfig, lines);
+    validation.warnings.forEach(warning => console.warn(`ConfigLoader: ${formatConfigIssue(warning)}. Path: ${absolutePath}`));
+    if (!validation.valid) {
+        const details = validation.errors.map(error => `  - ${formatConfigIssue(error)}`).join('\n');
+        throw new Error(`ConfigLoader: Invalid instance configuration. Path: ${absolutePath}\n${details}`);
     }
 
-    // Validate and structure each profile
-    return parsedConfig.profiles.map((p, index) => {
-        if (!p.profileId || !p.server?.flowId) {
-            throw new Error(`ConfigLoader: Profile at index ${index} is missing required 'profileId' or 'server.flowId'. Path: ${absolutePath}`);
-        }
+    // The schema has been checked, so each entry is a structurally valid profile and the top-level sections are well-formed.
+    const profiles = parsedConfig.profiles.map(p => {
+        const server = p.server!;
         const completeProfile: Profile = {
-            profileId: p.profileId,
+            profileId: p.profileId!,
             server: {
-                flowId: p.server.flowId,
-                enableStream: p.server.enableStream, // Will be undefined if not present, handled by defaults later
-                datetimeFormat: p.server.datetimeFormat, // Will be undefined if not present
+                flowId: server.flowId,
+                enableStream: server.enableStream, // Will be undefined if not present, handled by defaults later
+                datetimeFormat: server.datetimeFormat, // Will be undefined if not present
+                access: server.access, // Undefined means public
+                rateLimit: server.rateLimit, // Undefined means unlimited
+                messagePolicy: server.messagePolicy, // Undefined means only the default body size limit applies
+                upstream: server.upstream, // Undefined means the top-level upstream settings apply
+                attachments: server.attachments, // Undefined means attachments are refused
+                tweaks: server.tweaks, // Undefined means runs use the flow's own settings
+                clientTweaks: server.clientTweaks, // Undefined means clients may not send tweaks
+                context: server.context, // Undefined means clients may not send context
+                inputType: server.inputType, // Undefined means 'chat'
+                outputType: server.outputType, // Undefined means 'chat'
+                outputComponent: server.outputComponent, // Undefined means the first output with text is the reply
+                replyExtractors: server.replyExtractors, // Undefined means the built-in extractors
+                debugReplyExtractors: server.debugReplyExtractors,
             },
             chatbot: p.chatbot || {}, // Ensure chatbot object exists, even if empty
         } as Profile; // Type assertion
         return completeProfile;
     });
-} 
\ No newline at end of file
+    return { profiles, rateLimit: parsedConfig.rate_limit ?? undefined, upstream: parsedConfig.upstream ?? undefined };
+}
+
+/**
+ * Reads the chatbot profiles of the instance YAML file.
+ * @param {string} instanceConfigPath - Path to the instance YAML file.
+ * @returns {Profile[]} The profiles, as `loadInstanceDocument` reads them.
+ */
+export function loadInstanceConfig(instanceConfigPath: string): Array<Profile> {
+    return loadInstanceDocument(instanceConfigPath).profiles;
+}
+
+/**
+ * Checks an instance configuration file without loading it, e.g. in CI.
+ * Missing files and YAML syntax errors are reported as errors rather than thrown.
+ * @param {string} instanceConfigPath - Path to the instance YAML file.
+ * @returns {ConfigValidationResult} All errors and warnings found, with YAML paths and line numbers.
+ */
+export function validateConfig(instanceConfigPath: string): ConfigValidationResult {
+    const absolutePath = path.resolve(instanceConfigPath);
+    if (!fs.existsSync(absolutePath)) {
+        return { valid: false, errors: [{ path: '(file)', message: `file not found at ${absolutePath}` }], warnings: [] };
+    }
+    try {
+        const { value, lines } = parseYamlWithLines(fs.readFileSync(absolutePath, 'utf-8'));
+        return validateInstanceConfigDocument(value, lines);
+    } catch (error: any) {
+        const line = typeof error?.mark?.line === 'number' ? error.mark.line + 1 : undefined;
+        return { valid: false, errors: [{ path: '(file)', line, message: `invalid YAML: ${error.reason || error.message}` }], warnings: [] };
+    }
+}
@@ -0,0 +1,479 @@
+/**
+ * @file config-schema.ts
+ * @description Schema for the instance configuration YAML (`app-chatbots.yaml`) and a validator
+ * that reports problems with their YAML path and line number. Errors make the file unusable;
+ * warnings (such as unknown keys, which are usually typos) are reported but do not stop loading.
+ */
+import yaml from 'js-yaml';
+import { isValidAccessRule } from '../auth/authentication';
+import { parseReplyPath } from '../langflow/replyExtractors';
+
+/** A single problem found in the configuration. `line` is 1-based. */
+export interface ConfigIssue {
+    path: string;
+    line?: number;
+    message: string;
+}
+
+export interface ConfigValidationResult {
+    valid: boolean;
+    errors: ConfigIssue[];
+    warnings: ConfigIssue[];
+}
+
+type SchemaNode =
+    | { kind: 'string'; nonEmpty?: boolean; enum?: readonly string[]; check?: (value: string) => string | null }
+    | { kind: 'boolean' }
+    | { kind: 'number'; integer?: boolean; min?: number; exclusiveMin?: number }
+    | { kind: 'array'; items: SchemaNode }
+    | { kind: 'object'; properties: Record<string, SchemaNode>; required?: string[] }
+    | { kind: 'map'; values: SchemaNode; keyCheck?: (key: string) => string | null }
+    | { kind: 'custom'; check: (value: unknown) => string | null };
+
+const string = (options: { nonEmpty?: boolean; enum?: readonly string[]; check?: (value: string) => string | null } = {}): SchemaNode => ({ kind: 'string', ...options });
+const boolean: SchemaNode = { kind: 'boolean' };
+const stringList: SchemaNode = { kind: 'array', items: string() };
+const anyValue: SchemaNode = { kind: 'custom', check: () => null };
+
+function regexError(pattern: string): string | null {
+    try {
+        new RegExp(pattern, 'i');
+        return null;
+    } catch (error: any) {
+        return `is not a valid regular expression (${error.message})`;
+    }
+}
+
+function tweakKeyError(key: string): string | null {
+    return /^[^.\s]+\.[^.\s]+$/.test(key) ? null : "must name a component field as '<componentId>.<field>'";
+}
+
+function replyExtractorError(spec: unknown): string | null {
+    if (typeof spec === 'string') {
+        return spec.trim() !== '' ? null : 'must not be empty';
+    }
+    const path = (spec as { path?: unknown } | null)?.path;
+    if (typeof path !== 'string') {
+        return "must be an extractor name or { path: '<selector>' }";
+    }
+    try {
+        parseReplyPath(path);
+        return null;
+    } catch (error: any) {
+        return `has an invalid path (${error.message})`;
+    }
+}
+
+function mimeTypeError(pattern: string): string | null {
+    return /^[\w.+-]+\/(\*|[\w.+-]+)$/.test(pattern) ? null : "is not a MIME type such as 'application/pdf' or 'image/*'";
+}
+
+const contextSchema: SchemaNode = {
+    kind: 'object',
+    required: ['fields'],
+    properties: {
+        fields: {
+            kind: 'map',
+            values: {
+                kind: 'object',
+                required: ['type'],
+                properties: {
+                    type: string({ enum: ['string', 'number', 'boolean'] }),
+                    required: boolean,
+                    enum: stringList,
+                    pattern: string({ nonEmpty: true, check: regexError }),
+                    maxLength: { kind: 'number', integer: true, exclusiveMin: 0 },
+                },
+            },
+        },
+        tweaks: { kind: 'map', keyCheck: tweakKeyError, values: string() },
+        messagePrefix: string(),
+    },
+};
+
+const rateLimitSchema: SchemaNode = {
+    kind: 'object',
+    required: ['requestsPerMinute'],
+    properties: {
+        requestsPerMinute: { kind: 'number', exclusiveMin: 0 },
+        burst: { kind: 'number', min: 1 },
+        keyBy: string({ enum: ['ip', 'session', 'principal'] }),
+    },
+};
+
+const upstreamSchema: SchemaNode = {
+    kind: 'object',
+    properties: {
+        connectTimeoutMs: { kind: 'number', integer: true, exclusiveMin: 0 },
+        responseTimeoutMs: { kind: 'number', integer: true, exclusiveMin: 0 },
+        retries: { kind: 'number', integer: true, min: 0 },
+        retryBackoffMs: { kind: 'number', integer: true, min: 0 },
+    },
+};
+
+const serverSchema: SchemaNode = {
+    kind: 'object',
+    required: ['flowId'],
+    properties: {
+        flowId: string({ nonEmpty: true }),
+        enableStream: boolean,
+        datetimeFormat: string(),
+        access: {
+            kind: 'custom',
+            check: value => isValidAccessRule(value) ? null : "must be 'public', 'authenticated' or { roles: [...] } with at least one role",
+        },
+        rateLimit: rateLimitSchema,
+        messagePolicy: {
+            kind: 'object',
+            properties: {
+                maxMessageLength: { kind: 'number', integer: true, exclusiveMin: 0 },
+                maxBodyBytes: { kind: 'number', integer: true, exclusiveMin: 0 },
+                blockedPatterns: { kind: 'array', items: string({ nonEmpty: true, check: regexError }) },
+            },
+        },
+        upstream: upstreamSchema,
+        attachments: {
+            kind: 'object',
+            properties: {
+                maxFileBytes: { kind: 'number', integer: true, exclusiveMin: 0 },
+                maxFiles: { kind: 'number', integer: true, exclusiveMin: 0 },
+                allowedTypes: { kind: 'array', items: string({ nonEmpty: true, check: mimeTypeError }) },
+                chatInputId: string({ nonEmpty: true }),
+            },
+        },
+        tweaks: { kind: 'map', values: { kind: 'map', values: anyValue } },
+        clientTweaks: { kind: 'array', items: string({ nonEmpty: true, check: tweakKeyError }) },
+        context: contextSchema,
+        inputType: string({ enum: ['chat', 'text', 'any'] }),
+        outputType: string({ enum: ['chat', 'text', 'any', 'debug'] }),
+        outputComponent: string({ nonEmpty: true }),
+        replyExtractors: { kind: 'array', items: { kind: 'custom', check: replyExtractorError } },
+        debugReplyExtractors: boolean,
+    },
+};
+
+const chatbotSchema: SchemaNode = {
+    kind: 'object',
+    properties: {
+        labels: {
+            kind: 'object',
+            properties: {
+                widgetTitle: string(),
+                userSender: string(),
+                botSender: string(),
+                errorSender: string(),
+                systemSender: string(),
+                welcomeMessage: string(),
+            },
+        },
+        template: {
+            kind: 'object',
+            properties: {
+                messageTemplate: string(),
+                mainContainerTemplate: string(),
+                inputAreaTemplate: string(),
+                widgetHeaderTemplate: string(),
+            },
+        },
+        floatingWidget: {
+            kind: 'object',
+            properties: {
+                useFloating: boolean,
+                floatPosition: string({ enum: ['bottom-right', 'bottom-left', 'top-right', 'top-left'] }),
+            },
+        },
+        messageFormat: string({ enum: ['plaintext', 'markdown'] }),
+        sanitizer: {
+            kind: 'object',
+            properties: {
+                mode: string({ enum: ['allowlist', 'strict'] }),
+                allowedTags: stringList,
+                allowedAttributes: { kind: 'map', values: stringList },
+            },
+        },
+        proxyBasePath: string(),
+    },
+};
+
+const profileSchema: SchemaNode = {
+    kind: 'object',
+    required: ['profileId', 'server'],
+    properties: {
+        profileId: string({ nonEmpty: true }),
+        server: serverSchema,
+        chatbot: chatbotSchema,
+    },
+};
+
+/** Schema of the whole instance configuration file. */
+const instanceConfigSchema: SchemaNode = {
+    kind: 'object',
+    required: ['profiles'],
+    properties: {
+        langflow_connection: {
+            kind: 'object',
+            properties: {
+                endpoint_url: string(),
+                api_key: string(),
+            },
+        },
+        rate_limit: rateLimitSchema,
+        upstream: upstreamSchema,
+        profiles: { kind: 'array', items: profileSchema },
+    },
+};
+
+interface ParseFrame {
+    line: number;
+    kind?: string;
+    result?: unknown;
+    children: ParseFrame[];
+}
+
+function joinPath(parent: string, key: string | number): string {
+    if (typeof key === 'number') {
+        return `${parent}[${key}]`;
+    }
+    return parent ? `${parent}.${key}` : key;
+}
+
+function indexLines(frame: ParseFrame, currentPath: string, lines: Map<string, number>): void {
+    if (!lines.has(currentPath)) {
+        lines.set(currentPath, frame.line + 1);
+    }
+    if (frame.kind === 'mapping') {
+        for (let i = 0; i + 1 < frame.children.length; i += 2) {
+            const childPath = joinPath(currentPath, String(frame.children[i].result));
+            // Report entries at their key, which is where a reader looks for them.
+            lines.set(childPath, frame.children[i].line + 1);
+            indexLines(frame.children[i + 1], childPath, lines);
+        }
+    } else if (frame.kind === 'sequence') {
+        frame.children.forEach((child, index) => indexLines(child, joinPath(currentPath, index), lines));
+    }
+}
+
+/**
+ * Parses YAML and records the line on which each value starts, keyed by its path
+ * (e.g. `profiles[0].chatbot.labels.widgetTitle`).
+ * @param {string} source - The YAML text.
+ * @returns The parsed value and the path-to-line index. Throws `yaml.YAMLException` on syntax errors.
+ */
+export function parseYamlWithLines(source: string): { value: unknown; lines: Map<string, number> } {
+    const root: ParseFrame = { line: 0, children: [] };
+    const stack: ParseFrame[] = [root];
+    const value = yaml.load(source, {
+        listener(eventType, state) {
+            if (eventType === 'open') {
+                stack.push({ line: state.line, children: [] });
+            } else {
+                const frame = stack.pop()!;
+                frame.kind = state.kind;
+                frame.result = state.result;
+                stack[stack.length - 1].children.push(frame);
+            }
+        },
+    });
+    const lines = new Map<string, number>();
+    if (root.children.length > 0) {
+        indexLines(root.children[0], '', lines);
+    }
+    return { value, lines };
+}
+
+function describeValue(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'a list';
+    }
+    if (typeof value === 'object') {
+        return 'a mapping';
+    }
+    return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function editDistance(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return previous[b.length];
+}
+
+function suggestKey(key: string, known: string[]): string | undefined {
+    let best: { key: string; distance: number } | undefined;
+    for (const candidate of known) {
+        const distance = editDistance(key, candidate);
+        if (distance <= 2 && (!best || distance < best.distance)) {
+            best = { key: candidate, distance };
+        }
+    }
+    return best?.key;
+}
+
+class SchemaValidator {
+    public readonly errors: ConfigIssue[] = [];
+    public readonly warnings: ConfigIssue[] = [];
+
+    constructor(private lines: Map<string, number>) {}
+
+    private issue(path: string, message: string): ConfigIssue {
+        return { path: path || '(root)', line: this.lineFor(path), message };
+    }
+
+    /** Missing keys have no line of their own, so they are reported at the nearest enclosing value. */
+    private lineFor(path: string): number | undefined {
+        let current = path;
+        while (!this.lines.has(current)) {
+            const parent = current.replace(/(^|\.)[^.[\]]+$|\[\d+\]$/, '');
+            if (parent === current) {
+                return undefined;
+            }
+            current = parent;
+        }
+        return this.lines.get(current);
+    }
+
+    public error(path: string, message: string): void {
+        this.errors.push(this.issue(path, message));
+    }
+
+    public warn(path: string, message: string): void {
+        this.warnings.push(this.issue(path, message));
+    }
+
+    public validate(value: unknown, schema: SchemaNode, path: string): void {
+        switch (schema.kind) {
+            case 'string':
+                if (typeof value !== 'string') {
+                    this.error(path, `must be a string, got ${describeValue(value)}`);
+                } else if (schema.nonEmpty && value.trim() === '') {
+                    this.error(path, 'must not be empty');
+                } else if (schema.enum && !schema.enum.includes(value)) {
+                    this.error(path, `must be one of ${schema.enum.map(option => `'${option}'`).join(', ')}, got '${value}'`);
+                } else if (schema.check) {
+                    const problem = schema.check(value);
+                    if (problem) {
+                        this.error(path, problem);
+                    }
+                }
+                return;
+            case 'boolean':
+                if (typeof value !== 'boolean') {
+                    this.error(path, `must be true or false, got ${describeValue(value)}`);
+                }
+                return;
+            case 'number':
+                if (typeof value !== 'number' || Number.isNaN(value)) {
+                    this.error(path, `must be a number, got ${describeValue(value)}`);
+                } else if (schema.integer && !Number.isInteger(value)) {
+                    this.error(path, `must be a whole number, got ${value}`);
+                } else if (schema.exclusiveMin !== undefined && value <= schema.exclusiveMin) {
+                    this.error(path, `must be greater than ${schema.exclusiveMin}, got ${value}`);
+                } else if (schema.min !== undefined && value < schema.min) {
+                    this.error(path, `must be at least ${schema.min}, got ${value}`);
+                }
+                return;
+            case 'custom': {
+                const problem = schema.check(value);
+                if (problem) {
+                    this.error(path, problem);
+                }
+                return;
+            }
+            case 'array':
+                if (!Array.isArray(value)) {
+                    this.error(path, `must be a list, got ${describeValue(value)}`);
+                    return;
+                }
+                value.forEach((item, index) => this.validate(item, schema.items, joinPath(path, index)));
+                return;
+            case 'map':
+                if (!value || typeof value !== 'object' || Array.isArray(value)) {
+                    this.error(path, `must be a mapping, got ${describeValue(value)}`);
+                    return;
+                }
+                for (const [key, entry] of Object.entries(value)) {
+                    const keyError = schema.keyCheck?.(key);
+                    if (keyError) {
+                        this.error(joinPath(path, key), keyError);
+                        continue;
+                    }
+                    this.validate(entry, schema.values, joinPath(path, key));
+                }
+                return;
+            case 'object': {
+                if (!value || typeof value !== 'object' || Array.isArray(value)) {
+                    this.error(path, `must be a mapping, got ${describeValue(value)}`);
+                    return;
+                }
+                const record = value as Record<string, unknown>;
+                for (const key of schema.required || []) {
+                    if (record[key] === undefined || record[key] === null) {
+                        this.error(joinPath(path, key), 'is required');
+                    }
+                }
+                const knownKeys = Object.keys(schema.properties);
+                for (const [key, entry] of Object.entries(record)) {
+                    const propertySchema = schema.properties[key];
+                    const entryPath = joinPath(path, key);
+                    if (!propertySchema) {
+                        const suggestion = suggestKey(key, knownKeys);
+                        this.warn(entryPath, `unknown key '${key}' is ignored${suggestion ? ` (did you mean '${suggestion}'?)` : ''}`);
+                    } else if (entry !== undefined && entry !== null) { // Empty optional sections (`labels:`) are allowed; missing required ones were reported above.
+                        this.validate(entry, propertySchema, entryPath);
+                    }
+                }
+                return;
+            }
+        }
+    }
+}
+
+/**
+ * Validates a parsed instance configuration against the schema, and checks that profile IDs are unique.
+ * @param {unknown} config - The parsed YAML document.
+ * @param {Map<string, number>} [lines] - Path-to-line index from `parseYamlWithLines`, used to add line numbers.
+ * @returns {ConfigValidationResult} The errors and warnings found.
+ */
+export function validateInstanceConfigDocument(config: unknown, lines: Map<string, number> = new Map()): ConfigValidationResult {
+    const validator = new SchemaValidator(lines);
+    validator.validate(config, instanceConfigSchema, '');
+
+    const profiles = (config as any)?.profiles;
+    if (Array.isArray(profiles)) {
+        const firstSeen = new Map<string, number>();
+        profiles.forEach((profile, index) => {
+            const profileId = profile?.profileId;
+            if (typeof profileId !== 'string') {
+                return;
+            }
+            const previousIndex = firstSeen.get(profileId);
+            if (previousIndex === undefined) {
+                firstSeen.set(profileId, index);
+            } else {
+                const previousLine = lines.get(`profiles[${previousIndex}].profileId`);
+                validator.error(`profiles[${index}].profileId`, `duplicate profileId '${profileId}' (already defined at profiles[${previousIndex}]${previousLine ? `, line ${previousLine}` : ''})`);
+            }
+        });
+    }
+
+    return { valid: validator.errors.length === 0, errors: validator.errors, warnings: validator.warnings };
+}
+
+/**
+ * Formats an issue for logs and error messages, e.g. `profiles[0].server.enableStream (line 6): must be true or false`.
+ * @param {ConfigIssue} issue - The issue to format.
+ * @returns {string} The formatted issue.
+ */
+export function formatConfigIssue(issue: ConfigIssue): string {
+    return `${issue.path}${issue.line ? ` (line ${issue.line})` : ''}: ${issue.message}`;
+}
@@ -0,0 +1,115 @@
+/**
+ * @file config-watcher.ts
+ * @description Support for reloading the instance configuration while the proxy is running:
+ * watching the YAML file for changes, and describing how the reloaded profiles differ from
+ * the ones being served so the reload can be logged.
+ */
+import fs from 'fs';
+import path from 'path';
+import { Profile } from '../../types';
+
+/** How often the instance config file is checked for changes, in milliseconds. */
+export const DEFAULT_CONFIG_WATCH_INTERVAL_MS = 2000;
+
+/** Caps the number of changed fields listed per profile in a reload log line. */
+const MAX_LISTED_CHANGES = 10;
+
+export interface ConfigWatcher {
+    close(): void;
+}
+
+export interface ProfileDiff {
+    added: string[];
+    removed: string[];
+    /** Profiles present before and after the reload, with the dotted paths of the fields that differ. */
+    changed: Array<{ profileId: string; fields: string[] }>;
+}
+
+/**
+ * Calls `onChange` whenever the file's modification time or size changes. The file is polled
+ * rather than watched with `fs.watch`, so editors that save by replacing the file are handled too.
+ * The watcher does not keep the process alive.
+ * @param {string} filePath - The file to watch.
+ * @param {() => void} onChange - Invoked after each detected change.
+ * @param {number} [intervalMs] - Polling interval.
+ * @returns {ConfigWatcher} A handle whose `close()` stops watching.
+ */
+export function watchConfigFile(filePath: string, onChange: () => void, intervalMs: number = DEFAULT_CONFIG_WATCH_INTERVAL_MS): ConfigWatcher {
+    const absolutePath = path.resolve(filePath);
+    const listener = (current: fs.Stats, previous: fs.Stats) => {
+        if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) {
+            onChange();
+        }
+    };
+    fs.watchFile(absolutePath, { interval: intervalMs, persistent: false }, listener);
+    return {
+        close: () => fs.unwatchFile(absolutePath, listener),
+    };
+}
+
+function collectChangedPaths(previous: unknown, next: unknown, prefix: string, paths: string[]): void {
+    const isPlainObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+    if (isPlainObject(previous) && isPlainObject(next)) {
+        const keys = new Set([...Object.keys(previous as object), ...Object.keys(next as object)]);
+        for (const key of keys) {
+            collectChangedPaths((previous as any)[key], (next as any)[key], prefix ? `${prefix}.${key}` : key, paths);
+        }
+        return;
+    }
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+        paths.push(prefix);
+    }
+}
+
+/**
+ * Compares two sets of resolved profiles.
+ * @param {Map<string, Profile>} previous - The profiles currently served.
+ * @param {Map<string, Profile>} next - The profiles loaded from the changed file.
+ * @returns {ProfileDiff} Added, removed and changed profile IDs.
+ */
+export function diffProfiles(previous: Map<string, Profile>, next: Map<string, Profile>): ProfileDiff {
+    const diff: ProfileDiff = { added: [], removed: [], changed: [] };
+    for (const [profileId, profile] of next) {
+        const previousProfile = previous.get(profileId);
+        if (!previousProfile) {
+            diff.added.push(profileId);
+            continue;
+        }
+        const fields: string[] = [];
+        collectChangedPaths(previousProfile, profile, '', fields);
+        if (fields.length > 0) {
+            diff.changed.push({ profileId, fields });
+        }
+    }
+    for (const profileId of previous.keys()) {
+        if (!next.has(profileId)) {
+            diff.removed.push(profileId);
+        }
+    }
+    return diff;
+}
+
+/**
+ * Renders a profile diff as a single log line, e.g.
+ * `added: sales; removed: legacy; changed: support (chatbot.labels.widgetTitle, server.enableStream)`.
+ * @param {ProfileDiff} diff - The diff to describe.
+ * @returns {string} The description, or 'no profile changes'.
+ */
+export function formatProfileDiff(diff: ProfileDiff): string {
+    const parts: string[] = [];
+    if (diff.added.length > 0) {
+        parts.push(`added: ${diff.added.join(', ')}`);
+    }
+    if (diff.removed.length > 0) {
+        parts.push(`removed: ${diff.removed.join(', ')}`);
+    }
+    if (diff.changed.length > 0) {
+        const changed = diff.changed.map(({ profileId, fields }) => {
+            const listed = fields.slice(0, MAX_LISTED_CHANGES).join(', ');
+            const more = fields.length > MAX_LISTED_CHANGES ? `, +${fields.length - MAX_LISTED_CHANGES} more` : '';
+            return `${profileId} (${listed}${more})`;
+        });
+        parts.push(`changed: ${changed.join(', ')}`);
+    }
+    return parts.length > 0 ? parts.join('; ') : 'no profile changes';
+}
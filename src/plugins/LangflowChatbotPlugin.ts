@@ -1,10 +1,10 @@
 // LangflowChatbotPlugin.ts
-import { LangflowChatClient } from '../clients/LangflowChatClient';
+import { LangflowChatClient, StreamTransportType } from '../clients/LangflowChatClient';
 import { PROFILE_CONFIG_ENDPOINT_PREFIX } from '../config/apiPaths';
 import { ChatWidget, FloatingChatWidget } from '../components';
 import { Logger, LogLevel } from '../utils/logger';
 import { ERROR_MESSAGE_TEMPLATE } from '../config/uiConstants';
-import { ChatbotProfile as ServerChatbotUIData, ServerProfile as ServerBehaviorData } from '../types';
+import { ChatbotProfile as ServerChatbotUIData, ServerProfile as ServerBehaviorData, MessageFormat, SanitizerConfig, FlowTweaks, PageContext } from '../types';
 
 // Interface for the initial configuration passed to the plugin's init function
 export interface LangflowChatbotInitConfig {
@@ -16,6 +16,7 @@ export interface LangflowChatbotInitConfig {
   // Legacy support - will be deprecated in future versions
   useFloating?: boolean; // @deprecated Use 'mode' instead
   enableStream?: boolean; // User can still suggest this for the client
+  streamTransport?: StreamTransportType; // 'sse' for networks whose proxies buffer chunked (NDJSON) responses; 'websocket' for the proxy's socket channel
   widgetTitle?: string;
   userSender?: string;
   botSender?: string;
@@ -23,6 +24,10 @@ export interface LangflowChatbotInitConfig {
   mainContainerTemplate?: string;
   inputAreaTemplate?: string;
   floatPosition?: 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
+  messageFormat?: MessageFormat; // How bot messages are rendered: 'plaintext' or 'markdown'
+  sanitizer?: SanitizerConfig; // Allowlist or strict escaping applied to message content
+  tweaks?: FlowTweaks; // Component settings sent with every message; each key must be in the profile's server.clientTweaks
+  context?: PageContext | (() => PageContext); // Host-page values sent with every message; a function is called per message
   onSessionIdChanged?: (sessionId: string) => void;
   logLevel?: LogLevel;
   datetimeFormat?: string; // User can still suggest this for the client
@@ -163,7 +168,8 @@ export class LangflowChatbotInstance {
       this.chatClient = new LangflowChatClient(
         this.initialConfig.profileId, 
         effectiveProxyBasePathForClient,
-        this.logger
+        this.logger,
+        { streamTransport: this.initialConfig.streamTransport, tweaks: this.initialConfig.tweaks, context: this.initialConfig.context }
       );
       
       // Ensure serverProfile parts are at least empty objects before merging
@@ -191,6 +197,8 @@ export class LangflowChatbotInstance {
           useFloating: this._determineFloatingMode(this.initialConfig, safeServerFloatingWidget),
           floatPosition: safeServerFloatingWidget.floatPosition || this.initialConfig.floatPosition || 'bottom-right',
         },
+        messageFormat: this.serverProfile.messageFormat || this.initialConfig.messageFormat, // ChatWidget defaults to plaintext
+        sanitizer: this.serverProfile.sanitizer || this.initialConfig.sanitizer,
       };
 
       // Separate handling for non-UI, client-specific settings from initialConfig
@@ -224,6 +232,9 @@ export class LangflowChatbotInstance {
               },
               template: mergedUiConfig.template,
               datetimeFormat: effectiveDatetimeFormat, // Pass effective datetimeFormat
+              messageFormat: mergedUiConfig.messageFormat,
+              sanitizer: mergedUiConfig.sanitizer,
+              attachments: this.serverProfile.attachments,
             },
             position: mergedUiConfig.floatingWidget.floatPosition,
             initialSessionId: this.initialConfig.sessionId,
@@ -251,6 +262,9 @@ export class LangflowChatbotInstance {
             labels: mergedUiConfig.labels,
             template: mergedUiConfig.template,
             datetimeFormat: effectiveDatetimeFormat, // Pass effective datetimeFormat
+            messageFormat: mergedUiConfig.messageFormat,
+            sanitizer: mergedUiConfig.sanitizer,
+            attachments: this.serverProfile.attachments,
           },
           this.logger || new Logger('info', 'LangflowChatbot'),
           this.initialConfig.sessionId,
@@ -288,6 +302,7 @@ export class LangflowChatbotInstance {
       if (chatContainer) chatContainer.innerHTML = '';
     }
     
+    this.chatClient?.close();
     this.chatClient = null;
     this.isInitialized = false;
     this.listeners = {}; // Clear listeners on destroy
@@ -1,3 +1,10 @@
+import { ConversationStore } from '../lib/conversation/ConversationStore';
+import { AuthenticateFn } from '../lib/auth/authentication';
+import { SessionOwnershipConfig } from '../lib/auth/sessionOwnership';
+import { CircuitBreakerConfig } from '../lib/langflow/circuitBreaker';
+import { ServerLogger } from '../lib/logging';
+import { ReplyExtractor } from '../lib/langflow/replyExtractors';
+
 export interface Profile {
     profileId: string;
     server: ServerProfile;
@@ -8,13 +15,174 @@ export interface ServerProfile {
     flowId: string;
     enableStream?: boolean;
     datetimeFormat?: string;
+    access?: AccessRule;
+    rateLimit?: RateLimitConfig;
+    messagePolicy?: MessagePolicy;
+    /** Timeouts and retries for this profile's Langflow calls; overrides the top-level `upstream` section field by field. */
+    upstream?: UpstreamConfig;
+    /** Lets users attach files to their messages; attachments are refused when unset. */
+    attachments?: AttachmentPolicy;
+    /** Component settings merged into every run of the flow. */
+    tweaks?: FlowTweaks;
+    /** Tweak keys, as `<componentId>.<field>`, that the browser may set; tweaks from clients are refused when unset. */
+    clientTweaks?: string[];
+    /** The host-page context the profile accepts and how it reaches the flow; context from clients is refused when unset. */
+    context?: ContextPolicy;
+    /** How Langflow treats the message; defaults to 'chat'. Use 'text' for flows that start with a Text Input. */
+    inputType?: FlowInputType;
+    /** Which output components Langflow returns results for; defaults to 'chat'. Use 'text' for flows that end in a Text Output. */
+    outputType?: FlowOutputType;
+    /** The ID or display name of the output component whose result is the reply; unset means the first output with text. */
+    outputComponent?: string;
+    /**
+     * The strategies that read the reply from a run result, tried in order: built-in or registered names,
+     * `defaults` for the built-in order, and `{ path }` selectors. Unset means the built-in order.
+     */
+    replyExtractors?: ReplyExtractorSpec[];
+    /** Adds the name of the extractor that read each reply to the response, as `replyExtractor`. */
+    debugReplyExtractors?: boolean;
+    /** Set by the proxy when the profile is loaded; not read from the instance YAML. Undefined means available. */
+    status?: ProfileStatus;
+}
+
+/** Names a reply extractor, or selects the reply with a JSON-path style `path` such as `outputs[0].outputs[*].results.text.text`. */
+export type ReplyExtractorSpec = string | { path: string };
+
+/** Langflow's `input_type` for a run. */
+export type FlowInputType = 'chat' | 'text' | 'any';
+
+/** Langflow's `output_type` for a run. */
+export type FlowOutputType = 'chat' | 'text' | 'any' | 'debug';
+
+/**
+ * Whether a profile can be used: its flow identifier resolved ('available'), could not be resolved
+ * ('unavailable'), or will be resolved again when the profile is next used ('unresolved').
+ */
+export type ProfileStatus = "available" | "unavailable" | "unresolved";
+
+/**
+ * What the proxy does with profiles whose flow identifier cannot be resolved to a Langflow flow:
+ * refuse to start ('strict'), serve 503 for them ('disable'), or retry resolution on first use ('lazy').
+ */
+export type FlowResolutionPolicy = "strict" | "disable" | "lazy";
+
+/**
+ * Limits on what clients may send to a profile's flow. `blockedPatterns` are regular expressions,
+ * matched case-insensitively against the message.
+ */
+export interface MessagePolicy {
+    maxMessageLength?: number;
+    maxBodyBytes?: number;
+    blockedPatterns?: string[];
+}
+
+/**
+ * Component settings for a flow run, keyed by component ID and then by field,
+ * e.g. `{ "OpenAIModel-a1B2c": { "temperature": 0.2 } }`.
+ */
+export type FlowTweaks = Record<string, Record<string, unknown>>;
+
+/** Values describing the page that hosts the widget, e.g. `{ productId: 'SKU-1', locale: 'de' }`. */
+export type PageContext = Record<string, string | number | boolean>;
+
+/**
+ * The host-page context a profile accepts. `fields` declares each accepted key; context with other
+ * keys, or values that do not match, is refused. The values reach the flow through `tweaks`, which
+ * maps `<componentId>.<field>` to a template such as `"{{productId}}"`, and through `messagePrefix`,
+ * a template put in front of each message. A template that is just one `{{name}}` passes the value
+ * with its type; otherwise values are inserted as text, and missing ones as ''.
+ */
+export interface ContextPolicy {
+    fields: Record<string, ContextField>;
+    tweaks?: Record<string, string>;
+    messagePrefix?: string;
+}
+
+/**
+ * One accepted context key. `enum`, `pattern` and `maxLength` apply to strings; `pattern` is a
+ * regular expression the whole value must match. Strings are limited to 256 characters when
+ * `maxLength` is unset.
+ */
+export interface ContextField {
+    type: 'string' | 'number' | 'boolean';
+    required?: boolean;
+    enum?: string[];
+    pattern?: string;
+    maxLength?: number;
+}
+
+/**
+ * Files users may attach to messages. Attachments are uploaded to Langflow for the profile's flow and
+ * handed to the flow's Chat Input component. `allowedTypes` lists MIME types, where `image/*` matches
+ * any image; any type is accepted when it is unset. The proxy checks PNG, JPEG, GIF, WebP and PDF files
+ * by their content; other types are taken as the client declares them. `chatInputId` names the Chat
+ * Input component (e.g. 'ChatInput-x7Yz1'); when unset, it is looked up in the flow for each message
+ * with attachments.
+ */
+export interface AttachmentPolicy {
+    maxFileBytes?: number;
+    maxFiles?: number;
+    allowedTypes?: string[];
+    chatInputId?: string;
+}
+
+/** What identifies a client for rate limiting. Session and principal keys fall back to the IP. */
+export type RateLimitKey = "ip" | "session" | "principal";
+
+/**
+ * A token-bucket limit on chat messages. Clients may send `burst` messages at once
+ * (defaults to `requestsPerMinute`), refilled at `requestsPerMinute`.
+ */
+export interface RateLimitConfig {
+    requestsPerMinute: number;
+    burst?: number;
+    keyBy?: RateLimitKey;
+}
+
+/**
+ * How long the proxy waits for Langflow, in milliseconds, and how often it retries.
+ * `connectTimeoutMs` bounds the wait until Langflow starts answering (response headers, or the
+ * opening of a stream); `responseTimeoutMs` bounds a complete non-streaming run, the reading of a
+ * response body, and each silence between two events of a stream. Only idempotent
+ * GETs (chat history, the flow list) are retried, after `retryBackoffMs` and then twice as long each time.
+ */
+export interface UpstreamConfig {
+    connectTimeoutMs?: number;
+    responseTimeoutMs?: number;
+    retries?: number;
+    retryBackoffMs?: number;
+}
+
+/**
+ * Who may use a profile: anyone ('public', the default), any authenticated caller,
+ * or callers holding at least one of the listed roles.
+ */
+export type AccessRule = "public" | "authenticated" | { roles: string[] };
+
+/** The caller identity resolved by the `authenticate` hook. */
+export interface Principal {
+    id: string;
+    roles?: string[];
+    [key: string]: unknown;
 }
 
 export interface ChatbotProfile {
     labels?: Labels;
     template?: Template;
     floatingWidget?: FloatingWidget;
+    messageFormat?: MessageFormat;
+    sanitizer?: SanitizerConfig;
     proxyBasePath?: string;
+    /** Set by the proxy from `server.attachments`, without `chatInputId`; not read from the instance YAML. */
+    attachments?: AttachmentPolicy;
+}
+
+export type MessageFormat = "plaintext" | "markdown";
+
+export interface SanitizerConfig {
+    mode?: "allowlist" | "strict";
+    allowedTags?: string[];
+    allowedAttributes?: { [tagName: string]: string[] };
 }
 
 export interface Labels {
@@ -48,4 +216,51 @@ export interface SenderConfig {
 export interface LangflowProxyConfig {
     instanceConfigPath: string;
     proxyApiBasePath: string;
+    /** Optional store that records conversations and serves chat history instead of Langflow. */
+    conversationStore?: ConversationStore;
+    /** Optional hook resolving the caller of each request; required for profiles with a non-public `access` rule. */
+    authenticate?: AuthenticateFn;
+    /**
+     * Session ownership tracking, enabled by default when `authenticate` is set. Sessions are bound to the
+     * principal that started them and refused to everyone else. Set to `false` to disable.
+     */
+    sessionOwnership?: SessionOwnershipConfig | false;
+    /**
+     * Origins, besides the proxy's own host, whose pages may open the WebSocket chat channel,
+     * e.g. `['https://app.example.com']`. Upgrade requests from any other origin are refused with 403.
+     */
+    allowedOrigins?: string[];
+    /**
+     * Watch `instanceConfigPath` and reload profiles when it changes. An invalid file is logged and ignored.
+     * Pass `{ intervalMs }` to change how often the file is checked (default 2000 ms).
+     */
+    watchInstanceConfig?: boolean | { intervalMs?: number };
+    /** How to treat profiles whose flow identifier cannot be resolved. Defaults to 'disable'. */
+    flowResolution?: FlowResolutionPolicy;
+    /**
+     * Periodically re-fetch the flow list from Langflow and re-resolve the flow of every profile, so flows
+     * created or renamed after startup are picked up. Pass `{ intervalMs }` to change the interval (default 60000 ms).
+     */
+    flowRefresh?: boolean | { intervalMs?: number };
+    /**
+     * Refuse requests with a 503 while Langflow keeps failing, instead of letting each one wait for its own
+     * timeout. Enabled by default (5 consecutive failures open the circuit for 30000 ms); set to `false` to disable.
+     */
+    circuitBreaker?: CircuitBreakerConfig | false;
+    /**
+     * Count requests, chat latencies, active streams and Langflow errors, rendered in the Prometheus text format
+     * by `getMetricsText()`. Enabled by default; set to `false` to disable. The unauthenticated route
+     * `<proxyApiBasePath>/metrics` is only served with `{ route: true }`.
+     */
+    metrics?: boolean | { route?: boolean };
+    /**
+     * Where the server side logs. Defaults to plain console lines; pass a `JsonLogger`, or an adapter to your
+     * own logger, for structured entries carrying the request's correlation id, route, profileId and sessionId.
+     */
+    logger?: ServerLogger;
+    /**
+     * Reply extractors of your own, for flows whose results put the reply where the built-in ones do not look.
+     * Profiles use them by listing their names in `server.replyExtractors`.
+     */
+    replyExtractors?: ReplyExtractor[];
 } 
\ No newline at end of file
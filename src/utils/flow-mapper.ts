@@ -7,30 +7,53 @@
  * correctly point to the intended Langflow flows. This process typically runs once
  * at startup to prepare the configurations for runtime use.
  */
-import { Profile } from '../types';
+import { Profile, UpstreamConfig } from '../types';
+import { fetchWithRetries } from '../lib/langflow/upstream';
+import { consoleLogger, ServerLogger } from '../lib/logging';
 import {
     LANGFLOW_API_BASE_PATH_V1,
     LANGFLOW_FLOWS_ENDPOINT_SUFFIX
 } from '../config/apiPaths';
 
+/** How often the proxy re-fetches the flow list when periodic flow refresh is enabled, in milliseconds. */
+export const DEFAULT_FLOW_REFRESH_INTERVAL_MS = 60_000;
+
 export class FlowMapper {
     private langflowEndpointUrl: string;
     private langflowApiKey: string | undefined;
     private flowNameToIdMap: Map<string, string>;
     private isInitialized: boolean = false;
+    /** Why the last fetch of the flow list failed; cleared by the next successful fetch. */
+    private lastError?: string;
+    private getUpstreamConfig: () => UpstreamConfig | undefined;
+    private logger: ServerLogger;
 
-    constructor(langflowEndpointUrl: string, langflowApiKey?: string) {
+    /**
+     * @param {string} langflowEndpointUrl - The Langflow base URL.
+     * @param {string} [langflowApiKey] - Sent as a bearer token, if set.
+     * @param {() => UpstreamConfig | undefined} [getUpstreamConfig] - The timeouts and retries for fetching the flow list;
+     *   read on each fetch, so reloaded settings apply. Defaults are used when it returns undefined.
+     * @param {ServerLogger} [logger] - Where to log; defaults to the console.
+     */
+    constructor(
+        langflowEndpointUrl: string,
+        langflowApiKey?: string,
+        getUpstreamConfig: () => UpstreamConfig | undefined = () => undefined,
+        logger: ServerLogger = consoleLogger
+    ) {
         this.langflowEndpointUrl = langflowEndpointUrl;
         this.langflowApiKey = langflowApiKey;
+        this.getUpstreamConfig = getUpstreamConfig;
+        this.logger = logger;
         this.flowNameToIdMap = new Map<string, string>();
     }
 
     public async initialize(): Promise<void> {
         if (this.isInitialized) {
-            console.log("FlowMapper: Already initialized.");
+            this.logger.info("FlowMapper: Already initialized.");
             return;
         }
-        console.log("FlowMapper: Initializing - fetching all flows from Langflow...");
+        this.logger.info("FlowMapper: Initializing - fetching all flows from Langflow...");
         const targetPath = `${LANGFLOW_API_BASE_PATH_V1}${LANGFLOW_FLOWS_ENDPOINT_SUFFIX}`;
         const queryParams = new URLSearchParams();
         queryParams.append('remove_example_flows', 'true');
@@ -45,8 +68,8 @@ export class FlowMapper {
                 headers['Authorization'] = `Bearer ${this.langflowApiKey}`;
             }
 
-            console.log(`FlowMapper: Fetching flows from: ${fetchUrl.toString()}`);
-            const langflowApiResponse = await fetch(fetchUrl.toString(), { method: 'GET', headers });
+            this.logger.info(`FlowMapper: Fetching flows from: ${fetchUrl.toString()}`);
+            const langflowApiResponse = await fetchWithRetries(fetchUrl.toString(), { method: 'GET', headers }, this.getUpstreamConfig() || {}, 'flow list request', this.logger);
 
             if (!langflowApiResponse.ok) {
                 const errorBody = await langflowApiResponse.text();
@@ -63,10 +86,11 @@ export class FlowMapper {
             } else if (responseJson && Array.isArray(responseJson.flows)) {
                 actualFlowsArray = responseJson.flows;
             } else {
-                console.error("FlowMapper: Unexpected response structure for flows list. Expected an array, or {records: [...]}, or {flows: [...]}. Response:", responseJson);
+                this.logger.error("FlowMapper: Unexpected response structure for flows list. Expected an array, or {records: [...]}, or {flows: [...]}. Response:", { data: responseJson });
                 throw new Error("FlowMapper: Unexpected response structure for flows list from Langflow.");
             }
             
+            const previousMappings = new Map(this.flowNameToIdMap);
             this.flowNameToIdMap.clear(); // Clear any previous mappings
             for (const flow of actualFlowsArray) {
                 if (flow && typeof flow.id === 'string') {
@@ -76,37 +100,85 @@ export class FlowMapper {
                         // Fallback to name if endpoint_name is not suitable or missing
                         if (!this.flowNameToIdMap.has(flow.name)) { // Avoid overwriting if endpoint_name was already used for a different flow that happened to have this name
                            this.flowNameToIdMap.set(flow.name, flow.id);
-                           console.debug(`FlowMapper: Flow '${flow.name}' (ID: ${flow.id}) mapped by its 'name' as 'endpoint_name' was not suitable. Ensure names are unique if used for mapping.`);
+                           this.logger.debug(`FlowMapper: Flow '${flow.name}' (ID: ${flow.id}) mapped by its 'name' as 'endpoint_name' was not suitable. Ensure names are unique if used for mapping.`);
                         } else {
-                           console.debug(`FlowMapper: Flow '${flow.name}' (ID: ${flow.id}) could not be mapped by name as the name is already in use by another flow's endpoint_name or name. Ensure unique names/endpoint_names.`);
+                           this.logger.debug(`FlowMapper: Flow '${flow.name}' (ID: ${flow.id}) could not be mapped by name as the name is already in use by another flow's endpoint_name or name. Ensure unique names/endpoint_names.`);
                         }
                     } else {
-                         console.debug("FlowMapper: Skipping a flow entry from Langflow due to missing or invalid id, or unusable name/endpoint_name:", flow);
+                         this.logger.debug("FlowMapper: Skipping a flow entry from Langflow due to missing or invalid id, or unusable name/endpoint_name:", { data: flow });
                     }
                 } else {
-                    console.debug("FlowMapper: Skipping a flow entry from Langflow due to missing or invalid id:", flow);
+                    this.logger.debug("FlowMapper: Skipping a flow entry from Langflow due to missing or invalid id:", { data: flow });
                 }
             }
             
+            if (previousMappings.size > 0) {
+                this.logRemappings(previousMappings);
+            }
             this.isInitialized = true;
-            console.log(`FlowMapper: Initialization complete. Processed ${actualFlowsArray.length} flow entries, successfully mapped ${this.flowNameToIdMap.size} flows by name/endpoint_name.`);
+            this.lastError = undefined;
+            this.logger.info(`FlowMapper: Initialization complete. Processed ${actualFlowsArray.length} flow entries, successfully mapped ${this.flowNameToIdMap.size} flows by name/endpoint_name.`);
 
         } catch (error: any) {
-            console.error(`FlowMapper: CRITICAL - Error during flow map initialization: ${error.message}`);
+            this.logger.error(`FlowMapper: CRITICAL - Error during flow map initialization: ${error.message}`);
             this.isInitialized = false; // Ensure it's marked as not initialized on error
+            this.lastError = error.message;
             throw error; // Re-throw to indicate failure to the caller
         }
     }
 
+    /**
+     * Logs how the name-to-ID map changed compared to the previous fetch.
+     */
+    private logRemappings(previousMappings: Map<string, string>): void {
+        for (const [name, id] of this.flowNameToIdMap) {
+            const previousId = previousMappings.get(name);
+            if (previousId === undefined) {
+                this.logger.info(`FlowMapper: New flow name '${name}' maps to ID ${id}.`);
+            } else if (previousId !== id) {
+                this.logger.info(`FlowMapper: Flow name '${name}' now maps to ID ${id} (was ${previousId}).`);
+            }
+        }
+        for (const name of previousMappings.keys()) {
+            if (!this.flowNameToIdMap.has(name)) {
+                this.logger.info(`FlowMapper: Flow name '${name}' is no longer present in Langflow.`);
+            }
+        }
+    }
+
+    /**
+     * Re-fetches the flow list from Langflow, e.g. after the instance config was reloaded.
+     * If the fetch fails, the previous mappings are kept and the error is re-thrown.
+     */
+    public async refresh(): Promise<void> {
+        const wasInitialized = this.isInitialized;
+        this.isInitialized = false;
+        try {
+            await this.initialize();
+        } catch (error) {
+            this.isInitialized = wasInitialized;
+            throw error;
+        }
+    }
+
+    /**
+     * Reports whether a flow list is available, e.g. for readiness checks.
+     * @returns {{ initialized: boolean; flows: number; lastError?: string }} Whether a fetch has succeeded,
+     *   how many flow names are mapped, and why the most recent fetch failed, if it did.
+     */
+    public getStatus(): { initialized: boolean; flows: number; lastError?: string } {
+        return { initialized: this.isInitialized, flows: this.flowNameToIdMap.size, lastError: this.lastError };
+    }
+
     public getTrueFlowId(identifier: string): string | undefined {
         if (!this.isInitialized) {
-            console.warn("FlowMapper: getTrueFlowId called before successful initialization. Results may be incorrect.");
+            this.logger.warn("FlowMapper: getTrueFlowId called before successful initialization. Results may be incorrect.");
             // Optionally, you could throw an error here or attempt a lazy initialization.
             // For now, it will proceed with an empty or outdated map if not initialized.
         }
 
         if (!identifier || typeof identifier !== 'string') {
-            console.warn(`FlowMapper: Invalid identifier provided to getTrueFlowId: ${identifier}`);
+            this.logger.warn(`FlowMapper: Invalid identifier provided to getTrueFlowId: ${identifier}`);
             return undefined;
         }
 
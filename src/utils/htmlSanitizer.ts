@@ -0,0 +1,163 @@
+import { SanitizerConfig } from '../types';
+
+/**
+ * Tags allowed through by default. Covers everything the bundled message parsers emit
+ * plus common inline formatting an LLM may produce.
+ */
+export const DEFAULT_ALLOWED_TAGS: string[] = [
+    'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'strong', 'b', 'em', 'i', 'u', 's', 'del', 'sub', 'sup', 'small', 'mark',
+    'code', 'pre', 'blockquote', 'ul', 'ol', 'li',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td',
+    'a', 'span', 'div',
+];
+
+/**
+ * Attributes allowed per tag by default. The `*` entry applies to every allowed tag.
+ */
+export const DEFAULT_ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+    '*': ['class'],
+    a: ['href', 'title', 'target', 'rel'],
+    img: ['src', 'alt', 'title'],
+    ol: ['start'],
+    th: ['style', 'colspan', 'rowspan'],
+    td: ['style', 'colspan', 'rowspan'],
+};
+
+// Elements whose content is never meaningful as message text; they are removed together with their children.
+const DROP_WITH_CONTENT_TAGS = new Set([
+    'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'noscript',
+    'template', 'textarea', 'select', 'svg', 'math', 'head', 'title', 'link', 'meta', 'base',
+]);
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+const SAFE_URL_SCHEME_REGEX = /^(https?|mailto|tel):/i;
+const URL_SCHEME_REGEX = /^[a-z][a-z0-9+.-]*:/i;
+const UNSAFE_STYLE_REGEX = /url\s*\(|expression\s*\(|javascript:|@import|behavior\s*:/i;
+
+/**
+ * Escapes the HTML special characters in a string so it renders as literal text.
+ * @param {string} text - The text to escape.
+ * @returns {string} The escaped text.
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Checks whether a URL attribute value is safe to keep (http(s), mailto, tel, or relative).
+ * @param {string} value - The raw attribute value.
+ * @returns {boolean} True if the URL may be kept.
+ */
+function isSafeUrl(value: string): boolean {
+    // Browsers ignore control characters and whitespace inside schemes ("java\tscript:"), so compare without them.
+    const normalized = value.replace(/[\u0000-\u0020\u007f]/g, '');
+    if (!URL_SCHEME_REGEX.test(normalized)) {
+        return true;
+    }
+    return SAFE_URL_SCHEME_REGEX.test(normalized);
+}
+
+/**
+ * Sanitizes HTML before it is written to the DOM.
+ *
+ * In `allowlist` mode (the default) the markup is parsed into an inert template, and anything outside
+ * the configured tags and attributes is removed: disallowed elements are unwrapped (their text is kept),
+ * dangerous containers such as `<script>` are dropped entirely, event handler attributes are always
+ * stripped and URLs are limited to safe schemes. In `strict` mode every character is escaped, so the
+ * content is shown as literal text.
+ */
+export class HtmlSanitizer {
+    private readonly mode: 'allowlist' | 'strict';
+    private readonly allowedTags: Set<string>;
+    private readonly allowedAttributes: Map<string, Set<string>>;
+
+    /**
+     * Constructs an HtmlSanitizer instance.
+     * @param {SanitizerConfig} [config] - Optional sanitizer configuration. `allowedTags` and
+     *                                     `allowedAttributes` replace the defaults when provided.
+     */
+    constructor(config: SanitizerConfig = {}) {
+        this.mode = config.mode === 'strict' ? 'strict' : 'allowlist';
+        this.allowedTags = new Set((config.allowedTags ?? DEFAULT_ALLOWED_TAGS).map(tag => tag.toLowerCase()));
+        this.allowedAttributes = new Map();
+        const attributes = config.allowedAttributes ?? DEFAULT_ALLOWED_ATTRIBUTES;
+        for (const [tag, names] of Object.entries(attributes)) {
+            this.allowedAttributes.set(tag.toLowerCase(), new Set(names.map(name => name.toLowerCase())));
+        }
+    }
+
+    /**
+     * Sanitizes an HTML string according to the configured mode.
+     * @param {string} html - The HTML (or plain text) to sanitize.
+     * @returns {string} Markup that is safe to assign to `innerHTML`.
+     */
+    public sanitize(html: string): string {
+        if (!html) {
+            return '';
+        }
+        if (this.mode === 'strict') {
+            return escapeHtml(html);
+        }
+        // Template content is inert: scripts do not run and resources (e.g. <img onerror>) are not loaded while parsing.
+        const template = document.createElement('template');
+        template.innerHTML = html;
+        this.sanitizeChildren(template.content);
+        return template.innerHTML;
+    }
+
+    private sanitizeChildren(parent: Node): void {
+        for (const child of Array.from(parent.childNodes)) {
+            if (child.nodeType === Node.TEXT_NODE) {
+                continue;
+            }
+            if (child.nodeType !== Node.ELEMENT_NODE) {
+                parent.removeChild(child);
+                continue;
+            }
+
+            const element = child as Element;
+            const tagName = element.localName.toLowerCase();
+
+            if (!this.allowedTags.has(tagName)) {
+                if (DROP_WITH_CONTENT_TAGS.has(tagName)) {
+                    parent.removeChild(element);
+                } else {
+                    this.sanitizeChildren(element);
+                    while (element.firstChild) {
+                        parent.insertBefore(element.firstChild, element);
+                    }
+                    parent.removeChild(element);
+                }
+                continue;
+            }
+
+            this.sanitizeAttributes(element, tagName);
+            this.sanitizeChildren(element);
+        }
+    }
+
+    private sanitizeAttributes(element: Element, tagName: string): void {
+        const globalAllowed = this.allowedAttributes.get('*');
+        const tagAllowed = this.allowedAttributes.get(tagName);
+
+        for (const attribute of Array.from(element.attributes)) {
+            const name = attribute.name.toLowerCase();
+            const isAllowed = (globalAllowed?.has(name) || tagAllowed?.has(name)) && !name.startsWith('on');
+            if (!isAllowed
+                || (URL_ATTRIBUTES.has(name) && !isSafeUrl(attribute.value))
+                || (name === 'style' && UNSAFE_STYLE_REGEX.test(attribute.value))) {
+                element.removeAttribute(attribute.name);
+            }
+        }
+
+        if (tagName === 'a' && element.getAttribute('target') === '_blank') {
+            element.setAttribute('rel', 'noopener noreferrer');
+        }
+    }
+}
@@ -1,7 +1,7 @@
 // logger.ts
 export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
 
-const LOG_LEVELS: Record<LogLevel, number> = {
+export const LOG_LEVELS: Record<LogLevel, number> = {
   error: 0,
   warn: 1,
   info: 2,
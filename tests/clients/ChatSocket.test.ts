@@ -0,0 +1,183 @@
+/** @jest-environment jsdom */
+
+import { ChatSocket, ChatSocketFrame } from '../../src/clients/ChatSocket';
+import { Logger } from '../../src/utils/logger';
+
+class FakeWebSocket {
+    static OPEN = 1;
+    static instances: FakeWebSocket[] = [];
+    readyState = 0;
+    sent: any[] = [];
+    onopen: (() => void) | null = null;
+    onmessage: ((message: { data: string }) => void) | null = null;
+    onclose: (() => void) | null = null;
+
+    constructor(public url: string) {
+        FakeWebSocket.instances.push(this);
+    }
+
+    send(data: string): void {
+        this.sent.push(JSON.parse(data));
+    }
+
+    close(): void {
+        this.drop();
+    }
+
+    accept(): void {
+        this.readyState = FakeWebSocket.OPEN;
+        this.onopen?.();
+    }
+
+    drop(): void {
+        this.readyState = 3;
+        this.onclose?.();
+    }
+
+    deliver(frame: ChatSocketFrame): void {
+        this.onmessage?.({ data: JSON.stringify(frame) });
+    }
+}
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function collect(iterator: AsyncGenerator<ChatSocketFrame>): Promise<ChatSocketFrame[]> {
+    const frames: ChatSocketFrame[] = [];
+    for await (const frame of iterator) {
+        frames.push(frame);
+    }
+    return frames;
+}
+
+describe('ChatSocket', () => {
+    const originalWebSocket = (global as any).WebSocket;
+    let chatSocket: ChatSocket;
+
+    beforeEach(() => {
+        FakeWebSocket.instances = [];
+        (global as any).WebSocket = FakeWebSocket;
+        chatSocket = new ChatSocket('ws://localhost/api/langflow/ws', logger, { reconnectDelayMs: 100, maxReconnectDelayMs: 250 });
+    });
+
+    afterEach(() => {
+        chatSocket.close();
+        (global as any).WebSocket = originalWebSocket;
+        jest.useRealTimers();
+    });
+
+    it('should multiplex concurrent requests over one socket', async () => {
+        const first = collect(chatSocket.request({ profileId: 'support', message: 'one', sessionId: 's1' }));
+        const second = collect(chatSocket.request({ profileId: 'support', message: 'two', sessionId: 's2' }));
+        const socket = FakeWebSocket.instances[0];
+        socket.accept();
+        await flush();
+
+        expect(FakeWebSocket.instances).toHaveLength(1);
+        expect(socket.sent).toEqual([
+            { type: 'chat', requestId: '1', profileId: 'support', message: 'one', sessionId: 's1' },
+            { type: 'chat', requestId: '2', profileId: 'support', message: 'two', sessionId: 's2' },
+        ]);
+
+        socket.deliver({ requestId: '2', event: 'token', data: { chunk: 'B' } });
+        socket.deliver({ requestId: '1', event: 'token', data: { chunk: 'A' } });
+        socket.deliver({ requestId: '2', event: 'end', data: {} });
+        socket.deliver({ requestId: '1', event: 'end', data: {} });
+
+        await expect(first).resolves.toEqual([
+            { requestId: '1', event: 'token', data: { chunk: 'A' } },
+            { requestId: '1', event: 'end', data: {} },
+        ]);
+        await expect(second).resolves.toEqual([
+            { requestId: '2', event: 'token', data: { chunk: 'B' } },
+            { requestId: '2', event: 'end', data: {} },
+        ]);
+    });
+
+    it('should send a cancel frame when the caller stops early', async () => {
+        const iterator = chatSocket.request({ profileId: 'support', message: 'hello' });
+        const firstFrame = iterator.next();
+        const socket = FakeWebSocket.instances[0];
+        socket.accept();
+        await flush();
+        socket.deliver({ requestId: '1', event: 'token', data: { chunk: 'A' } });
+        await firstFrame;
+
+        await iterator.return();
+
+        expect(socket.sent[1]).toEqual({ type: 'cancel', requestId: '1' });
+    });
+
+    it('should send a cancel frame and end the iteration when the signal is aborted', async () => {
+        const controller = new AbortController();
+        const frames = collect(chatSocket.request({ profileId: 'support', message: 'hello' }, controller.signal));
+        const socket = FakeWebSocket.instances[0];
+        socket.accept();
+        await flush();
+        socket.deliver({ requestId: '1', event: 'token', data: { chunk: 'A' } });
+        await flush();
+
+        controller.abort();
+
+        await expect(frames).resolves.toEqual([{ requestId: '1', event: 'token', data: { chunk: 'A' } }]);
+        expect(socket.sent[1]).toEqual({ type: 'cancel', requestId: '1' });
+    });
+
+    it('should not cancel a request that has finished', async () => {
+        const frames = collect(chatSocket.request({ profileId: 'support', message: 'hello' }));
+        const socket = FakeWebSocket.instances[0];
+        socket.accept();
+        await flush();
+        socket.deliver({ requestId: '1', event: 'end', data: {} });
+        await frames;
+
+        expect(socket.sent).toHaveLength(1);
+    });
+
+    it('should report a socket that cannot be opened as an error event', async () => {
+        const frames = collect(chatSocket.request({ profileId: 'support', message: 'hello' }));
+        FakeWebSocket.instances[0].drop();
+
+        await expect(frames).resolves.toEqual([{ event: 'error', data: { message: "Could not connect to the chat server." } }]);
+    });
+
+    it('should fail requests in flight when the connection drops, then reconnect with backoff', async () => {
+        const frames = collect(chatSocket.request({ profileId: 'support', message: 'hello' }));
+        FakeWebSocket.instances[0].accept();
+        await flush();
+
+        jest.useFakeTimers();
+        FakeWebSocket.instances[0].drop();
+        await expect(frames).resolves.toEqual([{ event: 'error', data: { message: "Connection to the chat server was lost." } }]);
+
+        jest.advanceTimersByTime(100);
+        expect(FakeWebSocket.instances).toHaveLength(2);
+        FakeWebSocket.instances[1].drop(); // First attempt fails; the next waits twice as long.
+        jest.advanceTimersByTime(199);
+        expect(FakeWebSocket.instances).toHaveLength(2);
+        jest.advanceTimersByTime(1);
+        expect(FakeWebSocket.instances).toHaveLength(3);
+
+        FakeWebSocket.instances[2].accept();
+        await Promise.resolve();
+        const next = collect(chatSocket.request({ profileId: 'support', message: 'again' }));
+        await Promise.resolve();
+        await Promise.resolve();
+        expect(FakeWebSocket.instances).toHaveLength(3);
+        expect(FakeWebSocket.instances[2].sent[0]).toEqual(expect.objectContaining({ type: 'chat', message: 'again' }));
+        FakeWebSocket.instances[2].deliver({ requestId: '2', event: 'end', data: {} });
+        await expect(next).resolves.toHaveLength(1);
+    });
+
+    it('should stop reconnecting once closed', () => {
+        jest.useFakeTimers();
+        const frames = collect(chatSocket.request({ profileId: 'support', message: 'hello' }));
+        FakeWebSocket.instances[0].accept();
+
+        chatSocket.close();
+        jest.advanceTimersByTime(1000);
+
+        expect(FakeWebSocket.instances).toHaveLength(1);
+        return expect(frames).resolves.toEqual([{ event: 'error', data: { message: "The chat connection was closed." } }]);
+    });
+});
@@ -4,6 +4,7 @@ import { TextDecoder, TextEncoder } from 'util';
 import { LangflowChatClient, BotResponse, StreamEvent, ChatMessageData } from '../../src/clients/LangflowChatClient';
 import { Logger } from '../../src/utils/logger';
 import { PROFILE_CHAT_ENDPOINT_PREFIX } from '../../src/config/apiPaths';
+import { ChatSocket } from '../../src/clients/ChatSocket';
 
 // Polyfill TextDecoder/TextEncoder if not present in JSDOM
 if (typeof global.TextDecoder === 'undefined') {
@@ -16,6 +17,9 @@ if (typeof global.TextEncoder === 'undefined') {
 // Mock global fetch
 global.fetch = jest.fn();
 
+jest.mock('../../src/clients/ChatSocket');
+const MockedChatSocket = ChatSocket as jest.MockedClass<typeof ChatSocket>;
+
 // Mock crypto.randomUUID
 const mockUUID = '123e4567-e89b-12d3-a456-426614174000';
 if (!(global as any).crypto) {
@@ -201,6 +205,7 @@ describe('LangflowChatClient', () => {
 
             expect(response.error).toBe("API request failed with status 503");
             expect(response.detail).toBeUndefined();
+            expect(response.code).toBe(503);
             expect(response.sessionId).toBe(mockUUID);
             expect(mockLoggerInstance.error).toHaveBeenCalledWith("API Error:", 503, { error: "API request failed with status 503" });
         });
@@ -229,6 +234,97 @@ describe('LangflowChatClient', () => {
             const response = await client.sendMessage(message);
             expect(response.sessionId).toBe(mockUUID);
         });
+
+        it('should send the paths of attached files', async () => {
+            (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => mockBotResponse });
+
+            await client.sendMessage(message, 's1', ['flow-1/a.png']);
+
+            expect(JSON.parse((fetch as jest.Mock).mock.calls[0][1].body)).toEqual({ message, sessionId: 's1', stream: false, files: ['flow-1/a.png'] });
+        });
+    });
+
+    describe('tweaks', () => {
+        const tweaks = { 'OpenAIModel-a1': { temperature: 0.9 } };
+
+        it('should send the configured tweaks with every message', async () => {
+            const tweakingClient = new LangflowChatClient(profileId, mockBaseApiUrl, undefined, { tweaks });
+            (fetch as jest.Mock).mockResolvedValue({ ok: true, json: async () => ({ reply: 'Hi', sessionId: 's1' }) });
+
+            await tweakingClient.sendMessage('Hello', 's1');
+            await tweakingClient.sendMessage('Again', 's1');
+
+            expect((fetch as jest.Mock).mock.calls.map(call => JSON.parse(call[1].body).tweaks)).toEqual([tweaks, tweaks]);
+        });
+
+        it('should not send tweaks when none are configured', async () => {
+            (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => ({ reply: 'Hi', sessionId: 's1' }) });
+
+            await client.sendMessage('Hello', 's1');
+
+            expect(JSON.parse((fetch as jest.Mock).mock.calls[0][1].body)).not.toHaveProperty('tweaks');
+        });
+    });
+
+    describe('context', () => {
+        it('should call a context function for each message', async () => {
+            let productId = 'SKU-1';
+            const contextClient = new LangflowChatClient(profileId, mockBaseApiUrl, undefined, { context: () => ({ productId }) });
+            (fetch as jest.Mock).mockResolvedValue({ ok: true, json: async () => ({ reply: 'Hi', sessionId: 's1' }) });
+
+            await contextClient.sendMessage('Hello', 's1');
+            productId = 'SKU-2';
+            await contextClient.sendMessage('Again', 's1');
+
+            expect((fetch as jest.Mock).mock.calls.map(call => JSON.parse(call[1].body).context)).toEqual([{ productId: 'SKU-1' }, { productId: 'SKU-2' }]);
+        });
+
+        it('should send the message without context when the context function throws', async () => {
+            const contextClient = new LangflowChatClient(profileId, mockBaseApiUrl, undefined, { context: () => { throw new Error('not ready'); } });
+            (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => ({ reply: 'Hi', sessionId: 's1' }) });
+
+            await contextClient.sendMessage('Hello', 's1');
+
+            expect(JSON.parse((fetch as jest.Mock).mock.calls[0][1].body)).not.toHaveProperty('context');
+            expect(mockLoggerInstance.error).toHaveBeenCalledWith(expect.stringContaining('page context function failed'), expect.any(Error));
+        });
+    });
+
+    describe('uploadFiles', () => {
+        it('should post the files as multipart form data to the files endpoint', async () => {
+            const uploaded = { files: [{ name: 'a.png', path: 'flow-1/2024_a.png', type: 'image/png', size: 3 }] };
+            (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => uploaded });
+            const file = new File(['abc'], 'a.png', { type: 'image/png' });
+
+            const response = await client.uploadFiles([file]);
+
+            expect(response).toEqual(uploaded);
+            const [url, init] = (fetch as jest.Mock).mock.calls[0];
+            expect(url).toBe(`${mockBaseApiUrl}${PROFILE_CHAT_ENDPOINT_PREFIX}/${profileId}/files`);
+            expect(init.method).toBe('POST');
+            expect((init.body as FormData).getAll('file')).toHaveLength(1);
+        });
+
+        it('should return the error and status of a refused upload', async () => {
+            (fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 413, statusText: 'Payload Too Large', json: async () => ({ error: "File 'a.png' is too large.", detail: 'The limit is 2 bytes.' }) });
+
+            const response = await client.uploadFiles([new File(['abc'], 'a.png')]);
+
+            expect(response).toEqual({ error: "File 'a.png' is too large.", detail: 'The limit is 2 bytes.', code: 413 });
+        });
+
+        it('should name the session the files are for', async () => {
+            (fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => ({ files: [] }) });
+
+            await client.uploadFiles([new File(['abc'], 'a.png')], 'session 1');
+
+            expect((fetch as jest.Mock).mock.calls[0][0]).toBe(`${mockBaseApiUrl}${PROFILE_CHAT_ENDPOINT_PREFIX}/${profileId}/files?session_id=session%201`);
+        });
+
+        it('should build encoded URLs for attachment paths', () => {
+            expect(client.getFileUrl('flow-1/2024_a b#.png')).toBe(`${mockBaseApiUrl}${PROFILE_CHAT_ENDPOINT_PREFIX}/${profileId}/files/flow-1/2024_a%20b%23.png`);
+            expect(client.getFileUrl('flow-1/a.png', 'session 1')).toBe(`${mockBaseApiUrl}${PROFILE_CHAT_ENDPOINT_PREFIX}/${profileId}/files/flow-1/a.png?session_id=session%201`);
+        });
     });
 
     describe('streamMessage', () => {
@@ -456,6 +552,24 @@ describe('LangflowChatClient', () => {
             expect(mockLoggerInstance.error).toHaveBeenCalledWith("General stream error:", networkError);
         });
 
+        it('should end without an error event when the caller aborts the stream', async () => {
+            const controller = new AbortController();
+            (fetch as jest.Mock).mockImplementationOnce(async (_url: string, init: RequestInit) => {
+                controller.abort();
+                expect(init.signal).toBe(controller.signal);
+                throw new DOMException('The operation was aborted.', 'AbortError');
+            });
+
+            const collectedEvents: StreamEvent[] = [];
+            for await (const event of client.streamMessage(message, 'session-to-stop', controller.signal)) {
+                collectedEvents.push(event);
+            }
+
+            expect(collectedEvents).toEqual([{ event: 'stream_started', data: { sessionId: 'session-to-stop' } }]);
+            expect(mockLoggerInstance.error).not.toHaveBeenCalled();
+            expect(mockLoggerInstance.info).toHaveBeenCalledWith("Stream stopped by the user.");
+        });
+
         it('should correctly process multiple JSON objects in a single chunk', async () => {
             const event1 = { event: 'token', data: { chunk: 'chunk1' } };
             const event2 = { event: 'add_message', data: { message: 'message1' } };
@@ -784,6 +898,153 @@ describe('LangflowChatClient', () => {
         });
     });
 
+    describe('streamMessage over Server-Sent Events', () => {
+        const message = "Stream this message";
+        const sessionId = 'sse-session-id';
+        const streamEvents: StreamEvent[] = [
+            { event: 'token', data: { chunk: 'Hello' } },
+            { event: 'token', data: { chunk: ' World' } },
+            { event: 'end', data: { flowResponse: { reply: 'Hello World' } } }
+        ];
+
+        const mockChunkedStream = (chunks: string[]) => {
+            let index = 0;
+            return {
+                getReader: () => ({
+                    read: jest.fn(async () => index < chunks.length
+                        ? { done: false, value: new TextEncoder().encode(chunks[index++]) }
+                        : { done: true, value: undefined })
+                })
+            };
+        };
+
+        const collect = async (sseClient: LangflowChatClient) => {
+            const events: StreamEvent[] = [];
+            for await (const event of sseClient.streamMessage(message, sessionId)) {
+                events.push(event);
+            }
+            return events;
+        };
+
+        it('should request text/event-stream when configured for SSE', async () => {
+            const sseClient = new LangflowChatClient(profileId, mockBaseApiUrl, undefined, { streamTransport: 'sse' });
+            (fetch as jest.Mock).mockResolvedValueOnce({
+                ok: true,
+                body: mockChunkedStream([]),
+                headers: new Headers({ 'Content-Type': 'text/event-stream; charset=utf-8' }),
+            });
+
+            await collect(sseClient);
+
+            expect(fetch).toHaveBeenCalledWith(
+                sseClient['chatEndpoint'],
+                expect.objectContaining({
+                    headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+                })
+            );
+        });
+
+        it('should yield the same events as the NDJSON transport', async () => {
+            (fetch as jest.Mock).mockResolvedValueOnce({
+                ok: true,
+                body: mockChunkedStream([streamEvents.map(event => JSON.stringify(event)).join('\n') + '\n']),
+                headers: new Headers({ 'Content-Type': 'application/x-ndjson' }),
+            });
+            const ndjsonEvents = await collect(client);
+
+            const sse = streamEvents.map(event => `event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`).join('');
+            (fetch as jest.Mock).mockResolvedValueOnce({
+                ok: true,
+                // Split mid-field, with CRLF line endings and a heartbeat comment in between.
+                body: mockChunkedStream([
+                    ': heartbeat\r\n\r\n' + sse.slice(0, 20),
+                    sse.slice(20, 45).replace(/\n/g, '\r\n'),
+                    sse.slice(45),
+                ]),
+                headers: new Headers({ 'Content-Type': 'text/event-stream; charset=utf-8' }),
+            });
+            const sseEvents = await collect(new LangflowChatClient(profileId, mockBaseApiUrl, undefined, { streamTransport: 'sse' }));
+
+            expect(sseEvents).toEqual(ndjsonEvents);
+            expect(sseEvents.map(event => event.event)).toEqual(['stream_started', 'token', 'token', 'end']);
+            expect((sseEvents[3].data as any).flowResponse.sessionId).toBe(sessionId);
+        });
+
+        it('should dispatch a final event that is not followed by a blank line', async () => {
+            (fetch as jest.Mock).mockResolvedValueOnce({
+                ok: true,
+                body: mockChunkedStream(['event: token\ndata: {"chunk":"last"}']),
+                headers: new Headers({ 'Content-Type': 'text/event-stream' }),
+            });
+
+            const events = await collect(client);
+
+            expect(events[1]).toEqual({ event: 'token', data: { chunk: 'last' } });
+        });
+
+        it('should yield an error event for data that is not JSON and continue', async () => {
+            (fetch as jest.Mock).mockResolvedValueOnce({
+                ok: true,
+                body: mockChunkedStream(['event: token\ndata: not json\n\nevent: token\ndata: {"chunk":"ok"}\n\n']),
+                headers: new Headers({ 'Content-Type': 'text/event-stream' }),
+            });
+
+            const events = await collect(client);
+
+            expect(events[1].event).toBe('error');
+            expect((events[1].data as any).message).toBe('Failed to parse SSE data');
+            expect(events[2]).toEqual({ event: 'token', data: { chunk: 'ok' } });
+        });
+    });
+
+    describe('streamMessage over the WebSocket chat channel', () => {
+        it('should send messages over one shared socket and yield its events', async () => {
+            async function* frames() {
+                yield { requestId: '1', event: 'token', data: { chunk: 'Hi' } };
+                yield { requestId: '1', event: 'end', data: { flowResponse: { reply: 'Hi' } } };
+            }
+            MockedChatSocket.prototype.request.mockImplementation(() => frames());
+            const socketClient = new LangflowChatClient(profileId, '/api/langflow', undefined, { streamTransport: 'websocket' });
+
+            const events: StreamEvent[] = [];
+            for await (const event of socketClient.streamMessage('hello', 'ws-session')) {
+                events.push(event);
+            }
+            for await (const event of socketClient.streamMessage('again', 'ws-session')) {
+                events.push(event);
+            }
+
+            expect(fetch).not.toHaveBeenCalled();
+            expect(MockedChatSocket).toHaveBeenCalledTimes(1);
+            expect(MockedChatSocket).toHaveBeenCalledWith('ws://localhost/api/langflow/ws', mockLoggerInstance);
+            expect(MockedChatSocket.prototype.request).toHaveBeenCalledWith({ profileId, message: 'hello', sessionId: 'ws-session' }, undefined);
+            expect(events.slice(0, 3)).toEqual([
+                { event: 'stream_started', data: { sessionId: 'ws-session' } },
+                { event: 'token', data: { chunk: 'Hi' } },
+                { event: 'end', data: { flowResponse: { reply: 'Hi', sessionId: 'ws-session' } } },
+            ]);
+
+            socketClient.close();
+            expect(MockedChatSocket.prototype.close).toHaveBeenCalled();
+        });
+
+        it('should yield error frames as error events carrying the session ID', async () => {
+            async function* frames() {
+                yield { requestId: '1', event: 'error', data: { message: 'Too many requests.', code: 429 } };
+            }
+            MockedChatSocket.prototype.request.mockImplementation(() => frames());
+            const socketClient = new LangflowChatClient(profileId, mockBaseApiUrl, undefined, { streamTransport: 'websocket' });
+
+            const events: StreamEvent[] = [];
+            for await (const event of socketClient.streamMessage('hello', 'ws-session')) {
+                events.push(event);
+            }
+
+            expect(MockedChatSocket).toHaveBeenCalledWith('ws://test-chat-client.com/api/ws', mockLoggerInstance);
+            expect(events[1]).toEqual({ event: 'error', data: { message: 'Too many requests.', code: 429, sessionId: 'ws-session' } });
+        });
+    });
+
     describe('getMessageHistory', () => {
         const sessionId = "hist-session-123";
         const mockHistoryResponse: ChatMessageData[] = [
@@ -236,6 +236,32 @@ describe('ChatDisplayManager', () => {
             scrollSpy = jest.spyOn(chatDisplayManager, 'scrollChatToBottom').mockImplementation(() => {}); 
         });
 
+        it('should sanitize message content before inserting it', () => {
+            const messageElement = chatDisplayManager.addMessageToDisplay('Bot', '<b>ok</b><img src=x onerror="alert(1)"><script>alert(2)</script>');
+            expect(messageElement?.innerHTML).toContain('<b>ok</b>');
+            expect(messageElement?.querySelector('img')).toBeNull();
+            expect(messageElement?.querySelector('script')).toBeNull();
+        });
+
+        it('should not interpret $ replacement patterns in message content', () => {
+            const messageElement = chatDisplayManager.addMessageToDisplay('User', "Costs $& and $'");
+            expect(messageElement?.innerHTML).toContain("Costs $&amp; and $'");
+        });
+
+        it('should leave the widget-owned thinking indicator markup untouched', () => {
+            chatDisplayManager = new ChatDisplayManager(widgetElement, { ...config, sanitizer: { mode: 'strict' } }, mockLogger);
+            jest.spyOn(chatDisplayManager, 'scrollChatToBottom').mockImplementation(() => {});
+            const messageElement = chatDisplayManager.addMessageToDisplay('Bot', '<div class="thinking-bubble"></div>', true);
+            expect(messageElement?.querySelector('.thinking-bubble')).not.toBeNull();
+        });
+
+        it('should escape all markup in strict mode', () => {
+            chatDisplayManager = new ChatDisplayManager(widgetElement, { ...config, sanitizer: { mode: 'strict' } }, mockLogger);
+            jest.spyOn(chatDisplayManager, 'scrollChatToBottom').mockImplementation(() => {});
+            const messageElement = chatDisplayManager.addMessageToDisplay('User', '<b>hi</b>');
+            expect(messageElement?.querySelector('b')).toBeNull();
+            expect(messageElement?.textContent).toContain('<b>hi</b>');
+        });
     });
 
     describe('updateBotMessageContent', () => {
@@ -317,6 +343,12 @@ describe('ChatDisplayManager', () => {
             expect(botMessageElement.innerHTML).toBe('Updated Sender Area');
             expect(scrollSpy).toHaveBeenCalled();
         });
+
+        it('should sanitize updated content', () => {
+            botMessageElement.innerHTML = '<span class="message-text-content"></span>';
+            chatDisplayManager.updateBotMessageContent(botMessageElement, '<a href="javascript:alert(1)" onclick="x()">link</a>');
+            expect(botMessageElement.querySelector('.message-text-content')?.innerHTML).toBe('<a>link</a>');
+        });
     });
 
     describe('scrollChatToBottom', () => {
@@ -399,6 +431,31 @@ describe('ChatDisplayManager', () => {
         });
     });
 
+    describe('addAttachmentsToMessage', () => {
+        it('should show images as thumbnails and other files as download links', () => {
+            chatDisplayManager = new ChatDisplayManager(widgetElement, { ...config, fileUrl: path => `/files/${path}` }, mockLogger);
+            const messageElement = chatDisplayManager.addMessageToDisplay('User', 'See attached')!;
+
+            chatDisplayManager.addAttachmentsToMessage(messageElement, ['flow-1/2024-01-01_10-00-00_photo.png', 'flow-1/report.pdf']);
+
+            const image = messageElement.querySelector<HTMLImageElement>('.message-attachments .message-attachment-image img')!;
+            expect(image.getAttribute('src')).toBe('/files/flow-1/2024-01-01_10-00-00_photo.png');
+            expect(image.alt).toBe('photo.png');
+            const file = messageElement.querySelector<HTMLAnchorElement>('.message-attachment-file')!;
+            expect(file.getAttribute('href')).toBe('/files/flow-1/report.pdf');
+            expect(file.textContent).toBe('report.pdf');
+        });
+
+        it('should render file names as text', () => {
+            const messageElement = chatDisplayManager.addMessageToDisplay('User', 'See attached')!;
+
+            chatDisplayManager.addAttachmentsToMessage(messageElement, ['flow-1/<img src=x onerror=alert(1)>.txt']);
+
+            expect(messageElement.querySelector('.message-attachment-file')!.textContent).toBe('<img src=x onerror=alert(1)>.txt');
+            expect(messageElement.querySelector('.message-attachments img')).toBeNull();
+        });
+    });
+
     describe('removeMessageElement', () => {
         it('should remove the specified message element from the DOM', () => {
             const messageElement = chatDisplayManager.addMessageToDisplay('User', 'To be removed');
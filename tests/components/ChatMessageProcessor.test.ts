@@ -6,6 +6,7 @@ import { Logger } from '../../src/utils/logger';
 import { SenderConfig } from '../../src/types';
 import { THINKING_BUBBLE_HTML } from '../../src/config/uiConstants';
 import { PlaintextMessageParser } from '../../src/components/messageParsers/PlaintextMessageParser';
+import { MarkdownMessageParser } from '../../src/components/messageParsers/MarkdownMessageParser';
 
 // Mocks
 const mockChatClient = {
@@ -49,6 +50,8 @@ const mockUiCallbacks: jest.Mocked<MessageProcessorUICallbacks> = {
     scrollChatToBottom: jest.fn(),
     updateSessionId: jest.fn(),
     setInputDisabled: jest.fn(),
+    setStopAvailable: jest.fn(),
+    setServiceUnavailable: jest.fn(),
 };
 
 // Add a more realistic mock for updateMessageContent
@@ -187,7 +190,7 @@ describe('ChatMessageProcessor', () => {
                 const thinkingElement = mockUiCallbacks.addMessage.mock.results[0].value;
                 expect(mockUiCallbacks.setBotMessageElement).toHaveBeenNthCalledWith(2, thinkingElement);
                 
-                expect(mockChatClient.sendMessage).toHaveBeenCalledWith(userMessage, "old-session-id");
+                expect(mockChatClient.sendMessage).toHaveBeenCalledWith(userMessage, "old-session-id", undefined);
 
                 expect(mockUiCallbacks.updateSessionId).toHaveBeenCalledWith(sessionId);
                 expect(mockUiCallbacks.getBotMessageElement).toHaveBeenCalledTimes(1);
@@ -201,6 +204,14 @@ describe('ChatMessageProcessor', () => {
                 expect(mockUiCallbacks.setInputDisabled).toHaveBeenNthCalledWith(2, false);
             });
 
+            it('should send the paths of attached files with the message', async () => {
+                mockChatClient.sendMessage.mockResolvedValueOnce({ reply: 'Nice picture', sessionId: 's1' });
+
+                await processor.process(userMessage, ['flow-1/a.png']);
+
+                expect(mockChatClient.sendMessage).toHaveBeenCalledWith(userMessage, undefined, ['flow-1/a.png']);
+            });
+
             it('should handle API error from sendMessage and update UI', async () => {
                 const errorMessage = "API Error";
                 const errorDetail = "Something went wrong";
@@ -209,7 +220,7 @@ describe('ChatMessageProcessor', () => {
                 
                 await processor.process(userMessage);
 
-                expect(mockChatClient.sendMessage).toHaveBeenCalledWith(userMessage, undefined);
+                expect(mockChatClient.sendMessage).toHaveBeenCalledWith(userMessage, undefined, undefined);
                 expect(mockUiCallbacks.updateSessionId).toHaveBeenCalledWith("session-err");
                 
                 const currentBotMsgElement = mockUiCallbacks.getBotMessageElement.mock.results[0].value;
@@ -221,6 +232,29 @@ describe('ChatMessageProcessor', () => {
                 expect(currentBotMsgElement?.classList.contains('error-message')).toBe(true);
             });
 
+            it('should report the service as unavailable on a 503 and clear the report on the next reply', async () => {
+                mockChatClient.sendMessage
+                    .mockResolvedValueOnce({ error: "The chatbot service is temporarily unavailable.", detail: "Please try again in a few moments.", code: 503 })
+                    .mockResolvedValueOnce({ reply: "Back again", sessionId: "session-back" });
+
+                await processor.process(userMessage);
+                expect(mockUiCallbacks.setServiceUnavailable).toHaveBeenCalledWith(true);
+                const errorElement = mockUiCallbacks.getBotMessageElement.mock.results[0].value;
+                expect(mockUiCallbacks.updateMessageContent).toHaveBeenCalledWith(errorElement, "The chatbot service is temporarily unavailable. Please try again in a few moments.");
+
+                await processor.process(userMessage);
+                expect(mockUiCallbacks.setServiceUnavailable).toHaveBeenLastCalledWith(false);
+            });
+
+            it('should join a sentence-style error and its detail without a colon', async () => {
+                mockChatClient.sendMessage.mockResolvedValueOnce({ error: "Message is too long.", detail: "Messages are limited to 10 characters (received 11).", sessionId: "session-err" });
+
+                await processor.process(userMessage);
+
+                const currentBotMsgElement = mockUiCallbacks.getBotMessageElement.mock.results[0].value;
+                expect(mockUiCallbacks.updateMessageContent).toHaveBeenCalledWith(currentBotMsgElement, "Message is too long. Messages are limited to 10 characters (received 11).");
+            });
+
             it('should handle sendMessage throwing an exception', async () => {
                 const exceptionMessage = "Network Failure";
                 mockChatClient.sendMessage.mockRejectedValueOnce(new Error(exceptionMessage));
@@ -229,7 +263,7 @@ describe('ChatMessageProcessor', () => {
                 // Let displayInitialThinkingIndicator set up the bot message element
                 await processor.process(userMessage);
 
-                expect(mockChatClient.sendMessage).toHaveBeenCalledWith(userMessage, undefined);
+                expect(mockChatClient.sendMessage).toHaveBeenCalledWith(userMessage, undefined, undefined);
                 
                 const currentBotMsgElement = mockUiCallbacks.getBotMessageElement.mock.results[0].value; // This should be the thinking bubble that was updated
                 expect(mockUiCallbacks.updateMessageContent).toHaveBeenCalledWith(currentBotMsgElement, `Error sending message: ${exceptionMessage}`);
@@ -267,7 +301,7 @@ describe('ChatMessageProcessor', () => {
 
                 await processor.process(userMessage);
 
-                expect(mockChatClient.sendMessage).toHaveBeenCalledWith(userMessage, undefined);
+                expect(mockChatClient.sendMessage).toHaveBeenCalledWith(userMessage, undefined, undefined);
                 // updateMessageContent should NOT have been called to update an existing bubble to error
                 expect(mockUiCallbacks.updateMessageContent).not.toHaveBeenCalled(); 
                 expect(mockUiCallbacks.addMessage).toHaveBeenCalledTimes(2); 
@@ -372,16 +406,17 @@ describe('ChatMessageProcessor', () => {
 
                 await processor.process(userMessage);
 
-                expect(mockChatClient.streamMessage).toHaveBeenCalledWith(userMessage, undefined);
+                expect(mockChatClient.streamMessage).toHaveBeenCalledWith(userMessage, undefined, expect.any(AbortSignal), undefined);
                 expect(mockUiCallbacks.updateSessionId).toHaveBeenCalledWith(streamSessionId);
                 
-                // Expect updateMessageContent to be called once to clear the thinking indicator
-                expect(mockUiCallbacks.updateMessageContent).toHaveBeenCalledTimes(1);
+                // First call clears the thinking indicator, then each token re-renders the accumulated content
+                expect(mockUiCallbacks.updateMessageContent).toHaveBeenCalledTimes(3);
                 const firstCallArgElement = mockUiCallbacks.updateMessageContent.mock.calls[0][0] as HTMLElement;
                 expect(firstCallArgElement).toBeInstanceOf(HTMLElement);
                 expect(mockUiCallbacks.updateMessageContent.mock.calls[0][1]).toBe(""); // Called with empty string to clear
+                expect(mockUiCallbacks.updateMessageContent.mock.calls[1][1]).toBe(token1);
+                expect(mockUiCallbacks.updateMessageContent.mock.calls[2][1]).toBe(token1 + token2);
                 
-                // Verify the content was set by direct innerHTML manipulation in handleStreamTokenEvent
                 const textContentSpan = firstCallArgElement.querySelector('.message-text-content');
                 expect(textContentSpan).not.toBeNull();
                 expect(textContentSpan?.innerHTML).toBe(token1 + token2);
@@ -389,10 +424,41 @@ describe('ChatMessageProcessor', () => {
                 // scrollChatToBottom should be called for each token
                 expect(mockUiCallbacks.scrollChatToBottom).toHaveBeenCalledTimes(2);
                 
-                // Remove expectations for a second call to updateMessageContent with the full token string,
-                // as tokens update innerHTML directly.
+                mockUiCallbacks.setBotMessageElement = originalSetBotMock;
+            });
+
+            it('should replace rather than append content for parsers that render accumulated content', async () => {
+                processor = new ChatMessageProcessor(
+                    mockChatClient as any,
+                    senderConfig,
+                    mockLogger,
+                    mockUiCallbacks,
+                    new MarkdownMessageParser(),
+                    mockGetEnableStream,
+                    mockGetCurrentSessionId
+                );
+                const textSpanSnapshots: string[] = [];
+                mockUiCallbacks.scrollChatToBottom.mockImplementation(() => {
+                    const span = mockBotMessageElement?.querySelector('.message-text-content');
+                    if (span) textSpanSnapshots.push(span.innerHTML);
+                });
+
+                mockChatClient.streamMessage.mockReturnValueOnce(mockStreamGenerator([
+                    { event: 'token', data: { chunk: 'Say **he' } },
+                    { event: 'token', data: { chunk: 'llo**' } },
+                    { event: 'end', data: { flowResponse: {} } },
+                ]));
 
-                mockUiCallbacks.setBotMessageElement = originalSetBotMock; 
+                await processor.process(userMessage);
+
+                expect(textSpanSnapshots).toEqual([
+                    '<p>Say <strong>he</strong></p>',
+                    '<p>Say <strong>hello</strong></p>',
+                ]);
+                // The end event swaps in the definitive (non-streaming) rendering.
+                const lastUpdate = mockUiCallbacks.updateMessageContent.mock.calls[mockUiCallbacks.updateMessageContent.mock.calls.length - 1];
+                expect(lastUpdate[1]).toBe('<p>Say <strong>hello</strong></p>');
+                mockUiCallbacks.scrollChatToBottom.mockReset();
             });
 
             it('should handle stream error event and update UI', async () => {
@@ -408,14 +474,15 @@ describe('ChatMessageProcessor', () => {
                 const currentBotElement = mockUiCallbacks.getBotMessageElement.mock.results[0].value;
                 
                 expect(mockUiCallbacks.updateMessageContent).toHaveBeenNthCalledWith(1, currentBotElement, ""); 
-                expect(mockUiCallbacks.updateMessageContent).toHaveBeenNthCalledWith(2, currentBotElement, `${streamErrorMsg}: ${streamErrorDetail}`);
+                expect(mockUiCallbacks.updateMessageContent).toHaveBeenNthCalledWith(2, currentBotElement, "Partial...");
+                expect(mockUiCallbacks.updateMessageContent).toHaveBeenNthCalledWith(3, currentBotElement, `${streamErrorMsg}: ${streamErrorDetail}`);
                 
                 if (currentBotElement) {
                      currentBotElement.classList.remove('thinking', 'bot-message');
                      currentBotElement.classList.add('error-message');
                 }
                 expect(currentBotElement?.classList.contains('error-message')).toBe(true);
-                expect(mockUiCallbacks.updateMessageContent).toHaveBeenCalledTimes(2);
+                expect(mockUiCallbacks.updateMessageContent).toHaveBeenCalledTimes(3);
             });
 
             it('should handle stream ending with no streamed tokens but with a reply in end event', async () => {
@@ -714,6 +781,56 @@ describe('ChatMessageProcessor', () => {
                 mockUiCallbacks.getBotMessageElement = originalGetBotElement;
             });
 
+            it('should report the service as unavailable when the stream fails with a 503', async () => {
+                mockChatClient.streamMessage.mockReturnValueOnce(mockStreamGenerator([
+                    { event: 'stream_started', data: { sessionId: 's-unavailable' } },
+                    { event: 'error', data: { message: "The chatbot service is temporarily unavailable.", code: 503 } },
+                ]));
+
+                await processor.process(userMessage);
+
+                expect(mockUiCallbacks.setServiceUnavailable).toHaveBeenCalledWith(true);
+            });
+
+            it('should keep the partial reply and mark it as stopped when stopped mid-stream', async () => {
+                let streamSignal: AbortSignal | undefined;
+                mockChatClient.streamMessage.mockImplementationOnce(async function* (_message: string, _sessionId: string | undefined, signal: AbortSignal) {
+                    streamSignal = signal;
+                    yield { event: 'token', data: { chunk: 'Partial' } };
+                    processor.stop();
+                    yield { event: 'token', data: { chunk: ' never shown' } };
+                });
+
+                await processor.process(userMessage);
+
+                const botElement = mockUiCallbacks.updateMessageContent.mock.calls[0][0] as HTMLElement;
+                expect(streamSignal?.aborted).toBe(true);
+                expect(botElement.querySelector('.message-text-content')?.innerHTML).toBe('Partial');
+                expect(botElement.classList.contains('stopped')).toBe(true);
+                expect((mockUiCallbacks.setStopAvailable as jest.Mock).mock.calls).toEqual([[true], [false]]);
+                expect(mockUiCallbacks.setInputDisabled).toHaveBeenLastCalledWith(false);
+            });
+
+            it('should clear the thinking indicator when stopped before any content arrives', async () => {
+                mockChatClient.streamMessage.mockImplementationOnce(async function* () {
+                    yield { event: 'stream_started', data: { sessionId: 's-stop' } };
+                    processor.stop();
+                    yield { event: 'token', data: { chunk: 'never shown' } };
+                });
+
+                await processor.process(userMessage);
+
+                const botElement = mockUiCallbacks.updateMessageContent.mock.calls[0][0] as HTMLElement;
+                expect(botElement.classList.contains('thinking')).toBe(false);
+                expect(botElement.classList.contains('stopped')).toBe(true);
+                expect(botElement.textContent).not.toContain('No content streamed');
+            });
+
+            it('should ignore stop when no reply is streaming', () => {
+                processor.stop();
+                expect(mockLogger.info).not.toHaveBeenCalledWith("ChatMessageProcessor: Stopping the streaming response.");
+            });
+
             it('should log a warning for an unknown stream event type', async () => {
                 mockChatClient.streamMessage.mockReturnValueOnce(mockStreamGenerator([
                     { event: 'stream_started', data: { sessionId: "s_unknown" } },
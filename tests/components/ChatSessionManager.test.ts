@@ -285,6 +285,20 @@ describe('ChatSessionManager', () => {
             expect(mockLogger.info).toHaveBeenCalledWith("History loaded and displayed.");
         });
 
+        it('should show the files a history message was sent with', async () => {
+            const messageElement = document.createElement('div');
+            const addAttachments = jest.fn();
+            mockDisplayCallbacks.addMessage.mockReturnValue(messageElement);
+            const manager = new ChatSessionManager(mockChatClient as any, senderConfig, { ...mockDisplayCallbacks, addAttachments }, mockLogger);
+            (manager as any)._isHistoryLoaded = false;
+
+            await manager.loadAndDisplayHistory([{ ...historyBase[0], files: ['flow-1/a.png'] }, historyBase[1]]);
+
+            expect(addAttachments).toHaveBeenCalledTimes(1);
+            expect(addAttachments).toHaveBeenCalledWith(messageElement, ['flow-1/a.png']);
+            mockDisplayCallbacks.addMessage.mockReset();
+        });
+
         it('should not load history if already loaded', async () => {
             (sessionManager as any)._isHistoryLoaded = true; // Mark as loaded
             mockDisplayCallbacks.clearMessages.mockClear(); // Crucial: clear calls from constructor
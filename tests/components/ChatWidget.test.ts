@@ -119,6 +119,7 @@ describe('ChatWidget', () => {
 
         mockMessageProcessorInstance = {
             process: jest.fn().mockResolvedValue(undefined),
+            stop: jest.fn(),
         } as any;
         MockChatMessageProcessor.mockImplementation(() => mockMessageProcessorInstance);
 
@@ -170,6 +171,7 @@ describe('ChatWidget', () => {
                     errorSender: "Error", // Default
                     systemSender: "System", // Default
                     datetimeFormat: undefined, 
+                    fileUrl: expect.any(Function),
                 },
                 mockLogger
             );
@@ -235,6 +237,7 @@ describe('ChatWidget', () => {
                     errorSender: customConfig.labels?.errorSender,
                     systemSender: customConfig.labels?.systemSender,
                     datetimeFormat: customConfig.datetimeFormat,
+                    fileUrl: expect.any(Function),
                 },
                 mockLogger
             );
@@ -515,6 +518,8 @@ describe('ChatWidget', () => {
     describe('user interaction (sending messages, input state)', () => {
         let mockChatInput: HTMLInputElement;
         let mockSendButton: HTMLButtonElement;
+        let mockStopButton: HTMLButtonElement;
+        let mockBanner: HTMLDivElement;
 
         beforeEach(() => {
             containerElement.innerHTML = ''; 
@@ -522,11 +527,19 @@ describe('ChatWidget', () => {
             mockChatInput.className = 'chat-input';
             mockSendButton = document.createElement('button');
             mockSendButton.className = 'send-button';
+            mockStopButton = document.createElement('button');
+            mockStopButton.className = 'stop-button';
+            mockStopButton.style.display = 'none';
+            mockBanner = document.createElement('div');
+            mockBanner.className = 'service-unavailable-banner';
+            mockBanner.style.display = 'none';
+            containerElement.appendChild(mockBanner);
             
             const mockInputAreaContainer = document.createElement('div');
             mockInputAreaContainer.id = 'chat-input-area-container';
             mockInputAreaContainer.appendChild(mockChatInput);
             mockInputAreaContainer.appendChild(mockSendButton);
+            mockInputAreaContainer.appendChild(mockStopButton);
 
             containerElement.appendChild(mockInputAreaContainer);
             const messagesDiv = document.createElement('div');
@@ -539,6 +552,8 @@ describe('ChatWidget', () => {
             containerElement.querySelector = jest.fn().mockImplementation(selector => {
                 if (selector === '.chat-input') return mockChatInput;
                 if (selector === '.send-button') return mockSendButton;
+                if (selector === '.stop-button') return mockStopButton;
+                if (selector === '.service-unavailable-banner') return mockBanner;
                 if (selector === '#chat-input-area-container') return mockInputAreaContainer;
                 if (selector === '.chat-messages') return messagesDiv;
                 if (selector === '.chat-widget-header') return null; // Default for this block
@@ -562,7 +577,7 @@ describe('ChatWidget', () => {
             );
             expect(mockChatInput.value).toBe('');
             // Use await with toHaveBeenCalledWith for async calls to messageProcessor.process
-            await expect(mockMessageProcessorInstance.process).toHaveBeenCalledWith(testMessage);
+            await expect(mockMessageProcessorInstance.process).toHaveBeenCalledWith(testMessage, undefined);
         });
 
         it('should process message on Enter key press with valid input', async () => {
@@ -580,7 +595,7 @@ describe('ChatWidget', () => {
                 expect.any(String)
             );
             expect(mockChatInput.value).toBe('');
-            await expect(mockMessageProcessorInstance.process).toHaveBeenCalledWith(testMessage);
+            await expect(mockMessageProcessorInstance.process).toHaveBeenCalledWith(testMessage, undefined);
         });
 
         it('should not process message if input is empty or only whitespace', () => {
@@ -611,6 +626,150 @@ describe('ChatWidget', () => {
             expect(mockSendButton.disabled).toBe(false);
             expect(mockChatInput.focus).toHaveBeenCalled();
         });
+
+        it('setStopAvailable should swap the send button for the stop button while streaming', () => {
+            new ChatWidget(containerElement, mockChatClientInstance, true, minimalConfig, mockLogger);
+            const uiCallbacks = MockChatMessageProcessor.mock.calls[0][3] as MessageProcessorUICallbacks;
+
+            uiCallbacks.setStopAvailable!(true);
+            expect(mockStopButton.style.display).toBe('');
+            expect(mockSendButton.style.display).toBe('none');
+
+            uiCallbacks.setStopAvailable!(false);
+            expect(mockStopButton.style.display).toBe('none');
+            expect(mockSendButton.style.display).toBe('');
+        });
+
+        it('setServiceUnavailable should show the banner until replies come through again', () => {
+            new ChatWidget(containerElement, mockChatClientInstance, true, minimalConfig, mockLogger);
+            const uiCallbacks = MockChatMessageProcessor.mock.calls[0][3] as MessageProcessorUICallbacks;
+
+            uiCallbacks.setServiceUnavailable!(true);
+            expect(mockBanner.style.display).toBe('');
+
+            uiCallbacks.setServiceUnavailable!(false);
+            expect(mockBanner.style.display).toBe('none');
+        });
+
+        it('should stop the streaming reply on stop button click', () => {
+            new ChatWidget(containerElement, mockChatClientInstance, true, minimalConfig, mockLogger);
+
+            mockStopButton.click();
+
+            expect(mockMessageProcessorInstance.stop).toHaveBeenCalled();
+        });
+
+        it('should leave the stop button enabled while input is disabled', () => {
+            new ChatWidget(containerElement, mockChatClientInstance, true, minimalConfig, mockLogger);
+            const uiCallbacks = MockChatMessageProcessor.mock.calls[0][3] as MessageProcessorUICallbacks;
+
+            uiCallbacks.setInputDisabled(true);
+
+            expect(mockStopButton.disabled).toBe(false);
+        });
+    });
+
+    describe('attachments', () => {
+        const attachments = { maxFileBytes: 5, maxFiles: 2, allowedTypes: ['image/*'] };
+        const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+        const drop = (files: File[]) => {
+            const event = new Event('drop', { bubbles: true, cancelable: true });
+            Object.defineProperty(event, 'dataTransfer', { value: { files, types: ['Files'] } });
+            containerElement.dispatchEvent(event);
+        };
+        const chipNames = () => Array.from(containerElement.querySelectorAll('.attachment-chip')).map(chip => chip.firstChild?.textContent);
+
+        beforeEach(() => {
+            mockTemplateManagerInstance.getInputAreaTemplate.mockReturnValue(
+                '<div class="pending-attachments" style="display: none;"></div>' +
+                '<button class="attach-button" style="display: none;"></button>' +
+                '<input type="file" class="file-input" multiple style="display: none;" />' +
+                '<input class="chat-input"/><button class="send-button"></button>'
+            );
+            mockDisplayManagerInstance.addAttachmentsToMessage = jest.fn();
+            mockDisplayManagerInstance.addMessageToDisplay.mockReturnValue(document.createElement('div'));
+        });
+
+        it('should keep the attach button hidden unless the profile accepts attachments', () => {
+            new ChatWidget(containerElement, mockChatClientInstance, true, minimalConfig, mockLogger);
+
+            expect(containerElement.querySelector<HTMLButtonElement>('.attach-button')!.style.display).toBe('none');
+        });
+
+        it('should list dropped files that fit the policy and report the others', () => {
+            new ChatWidget(containerElement, mockChatClientInstance, true, { ...minimalConfig, attachments }, mockLogger);
+            expect(containerElement.querySelector<HTMLButtonElement>('.attach-button')!.style.display).toBe('');
+
+            drop([
+                new File(['abc'], 'a.png', { type: 'image/png' }),
+                new File(['too large'], 'b.png', { type: 'image/png' }),
+                new File(['abc'], 'c.txt', { type: 'text/plain' }),
+                new File(['abc'], 'd.png', { type: 'image/png' }),
+                new File(['abc'], 'e.png', { type: 'image/png' }),
+            ]);
+
+            expect(chipNames()).toEqual(['a.png', 'd.png']);
+            expect(mockDisplayManagerInstance.addMessageToDisplay).toHaveBeenCalledWith('Error', "'b.png' is too large to attach.", false, expect.any(String));
+            expect(mockDisplayManagerInstance.addMessageToDisplay).toHaveBeenCalledWith('Error', "Files of type 'text/plain' cannot be attached.", false, expect.any(String));
+            expect(mockDisplayManagerInstance.addMessageToDisplay).toHaveBeenCalledWith('Error', 'At most 2 files may be attached to a message.', false, expect.any(String));
+
+            containerElement.querySelector<HTMLButtonElement>('.attachment-chip-remove')!.click();
+            expect(chipNames()).toEqual(['d.png']);
+        });
+
+        it('should upload the pending files and send their paths with the message', async () => {
+            mockChatClientInstance.uploadFiles.mockResolvedValue({ files: [{ name: 'a.png', path: 'flow-1/a.png', type: 'image/png', size: 3 }] });
+            new ChatWidget(containerElement, mockChatClientInstance, true, { ...minimalConfig, attachments }, mockLogger);
+            const file = new File(['abc'], 'a.png', { type: 'image/png' });
+            drop([file]);
+            containerElement.querySelector<HTMLInputElement>('.chat-input')!.value = 'Look at this';
+
+            containerElement.querySelector<HTMLButtonElement>('.send-button')!.click();
+            await flush();
+
+            expect(mockChatClientInstance.uploadFiles).toHaveBeenCalledWith([file], 'initial-session-id');
+            const userMessageElement = mockDisplayManagerInstance.addMessageToDisplay.mock.results[0].value;
+            expect(mockDisplayManagerInstance.addAttachmentsToMessage).toHaveBeenCalledWith(userMessageElement, ['flow-1/a.png']);
+            expect(mockMessageProcessorInstance.process).toHaveBeenCalledWith('Look at this', ['flow-1/a.png']);
+            expect(chipNames()).toEqual([]);
+        });
+
+        it('should start a session before uploading the first files of a conversation', async () => {
+            const sessionState = mockSessionManagerInstance as { currentSessionId: string | null };
+            sessionState.currentSessionId = null;
+            mockSessionManagerInstance.processSessionIdUpdateFromFlow.mockImplementation((sessionId: string) => {
+                sessionState.currentSessionId = sessionId;
+            });
+            mockChatClientInstance.uploadFiles.mockResolvedValue({ files: [{ name: 'a.png', path: 'flow-1/a.png', type: 'image/png', size: 3 }] });
+            (global.crypto as any).randomUUID = jest.fn(() => 'generated-session-id');
+            const onSessionUpdate = jest.fn();
+            new ChatWidget(containerElement, mockChatClientInstance, true, { ...minimalConfig, attachments }, mockLogger, undefined, onSessionUpdate);
+            drop([new File(['abc'], 'a.png', { type: 'image/png' })]);
+            containerElement.querySelector<HTMLInputElement>('.chat-input')!.value = 'Look at this';
+
+            containerElement.querySelector<HTMLButtonElement>('.send-button')!.click();
+            await flush();
+
+            expect(mockChatClientInstance.uploadFiles).toHaveBeenCalledWith(expect.any(Array), 'generated-session-id');
+            expect(onSessionUpdate).toHaveBeenCalledWith('generated-session-id');
+        });
+
+        it('should keep the message and files when the upload fails', async () => {
+            mockChatClientInstance.uploadFiles.mockResolvedValue({ error: "File 'a.png' is too large.", code: 413 });
+            new ChatWidget(containerElement, mockChatClientInstance, true, { ...minimalConfig, attachments }, mockLogger);
+            drop([new File(['abc'], 'a.png', { type: 'image/png' })]);
+            const chatInput = containerElement.querySelector<HTMLInputElement>('.chat-input')!;
+            chatInput.value = 'Look at this';
+
+            containerElement.querySelector<HTMLButtonElement>('.send-button')!.click();
+            await flush();
+
+            expect(mockDisplayManagerInstance.addMessageToDisplay).toHaveBeenCalledWith('Error', "Could not attach the files. File 'a.png' is too large.", false, expect.any(String));
+            expect(mockMessageProcessorInstance.process).not.toHaveBeenCalled();
+            expect(chatInput.value).toBe('Look at this');
+            expect(chipNames()).toEqual(['a.png']);
+        });
     });
 
     describe('public methods', () => {
@@ -221,6 +221,12 @@ describe('FloatingChatWidget', () => {
             new FloatingChatWidget(mockChatClientInstance, true, cfg, mockLoggerInstance);
             expect(MockChatWidget.mock.calls[0][3].datetimeFormat).toBe('HH:mm:ss');
         });
+
+        it('should pass the attachment policy to the inner ChatWidget', () => {
+            const attachments = { maxFiles: 2, allowedTypes: ['image/*'] };
+            new FloatingChatWidget(mockChatClientInstance, true, { chatWidgetConfig: { attachments } }, mockLoggerInstance);
+            expect(MockChatWidget.mock.calls[0][3].attachments).toEqual(attachments);
+        });
     });
 
     describe('DOM element creation and structure', () => {
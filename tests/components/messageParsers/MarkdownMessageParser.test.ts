@@ -0,0 +1,135 @@
+import { MarkdownMessageParser } from '../../../src/components/messageParsers/MarkdownMessageParser';
+
+describe('MarkdownMessageParser', () => {
+    let parser: MarkdownMessageParser;
+
+    beforeEach(() => {
+        parser = new MarkdownMessageParser();
+    });
+
+    it('should declare that chunk output replaces the accumulated content', () => {
+        expect(parser.rendersAccumulatedContent).toBe(true);
+    });
+
+    describe('parseComplete', () => {
+        it('should wrap plain text in a paragraph and keep single line breaks', () => {
+            expect(parser.parseComplete('Hello\nworld')).toBe('<p>Hello<br>world</p>');
+        });
+
+        it('should split paragraphs on blank lines', () => {
+            expect(parser.parseComplete('First\n\nSecond')).toBe('<p>First</p><p>Second</p>');
+        });
+
+        it('should render emphasis, strong, strikethrough and inline code', () => {
+            expect(parser.parseComplete('**bold** *it* ~~gone~~ `code`'))
+                .toBe('<p><strong>bold</strong> <em>it</em> <del>gone</del> <code>code</code></p>');
+        });
+
+        it('should not interpret markdown inside inline code', () => {
+            expect(parser.parseComplete('`**not bold**`')).toBe('<p><code>**not bold**</code></p>');
+        });
+
+        it('should render headings', () => {
+            expect(parser.parseComplete('# Title\n### Sub')).toBe('<h1>Title</h1><h3>Sub</h3>');
+        });
+
+        it('should render fenced code blocks with a language class and escaped content', () => {
+            const md = '```ts\nconst a = 1 < 2;\n```';
+            expect(parser.parseComplete(md)).toBe('<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>');
+        });
+
+        it('should render unordered and ordered lists', () => {
+            expect(parser.parseComplete('- one\n- two')).toBe('<ul><li>one</li><li>two</li></ul>');
+            expect(parser.parseComplete('3. three\n4. four')).toBe('<ol start="3"><li>three</li><li>four</li></ol>');
+        });
+
+        it('should render nested lists', () => {
+            expect(parser.parseComplete('- parent\n  - child')).toBe('<ul><li>parent<ul><li>child</li></ul></li></ul>');
+        });
+
+        it('should render GFM tables with alignment', () => {
+            const md = '| Name | Qty |\n|:-----|----:|\n| Apple | 3 |';
+            expect(parser.parseComplete(md)).toBe(
+                '<table><thead><tr><th style="text-align: left">Name</th><th style="text-align: right">Qty</th></tr></thead>' +
+                '<tbody><tr><td style="text-align: left">Apple</td><td style="text-align: right">3</td></tr></tbody></table>'
+            );
+        });
+
+        it('should render blockquotes and horizontal rules', () => {
+            expect(parser.parseComplete('> quoted\n\n---')).toBe('<blockquote><p>quoted</p></blockquote><hr>');
+        });
+
+        it('should render safe links and drop unsafe link targets', () => {
+            expect(parser.parseComplete('[docs](https://example.com/a?b=1&c=2)'))
+                .toBe('<p><a href="https://example.com/a?b=1&amp;c=2" target="_blank" rel="noopener noreferrer">docs</a></p>');
+            expect(parser.parseComplete('[click](javascript:alert(1))')).not.toContain('<a');
+        });
+
+        it('should autolink bare URLs', () => {
+            expect(parser.parseComplete('See https://example.com.'))
+                .toBe('<p>See <a href="https://example.com" target="_blank" rel="noopener noreferrer">https://example.com</a>.</p>');
+        });
+
+        it('should escape raw HTML', () => {
+            expect(parser.parseComplete('<img src=x onerror=alert(1)>')).toBe('<p>&lt;img src=x onerror=alert(1)&gt;</p>');
+        });
+
+        it('should honour backslash escapes', () => {
+            expect(parser.parseComplete('\\*not italic\\*')).toBe('<p>*not italic*</p>');
+        });
+
+        it('should leave unmatched markers as literal text in complete messages', () => {
+            expect(parser.parseComplete('5 * 3 = 15')).toBe('<p>5 * 3 = 15</p>');
+            expect(parser.parseComplete('**unclosed')).toBe('<p>**unclosed</p>');
+        });
+    });
+
+    describe('parseChunk (streaming)', () => {
+        const streamAll = (chunks: string[]): string[] => {
+            const renders: string[] = [];
+            let accumulated = '';
+            for (const chunk of chunks) {
+                renders.push(parser.parseChunk(chunk, accumulated));
+                accumulated += chunk;
+            }
+            return renders;
+        };
+
+        it('should render the whole accumulated content, not just the chunk', () => {
+            expect(parser.parseChunk(' world', 'Hello')).toBe('<p>Hello world</p>');
+        });
+
+        it('should render a half-received bold run as bold', () => {
+            expect(parser.parseChunk('bol', 'This is **')).toBe('<p>This is <strong>bol</strong></p>');
+        });
+
+        it('should hide a dangling opening marker with no content yet', () => {
+            expect(parser.parseChunk('**', 'This is ')).toBe('<p>This is </p>');
+        });
+
+        it('should render an unterminated inline code span as code', () => {
+            expect(parser.parseChunk('const x', 'Use `')).toBe('<p>Use <code>const x</code></p>');
+        });
+
+        it('should render an unclosed code fence as a code block', () => {
+            expect(parser.parseChunk('let a = **1**', '```js\n'))
+                .toBe('<pre><code class="language-js">let a = **1**</code></pre>');
+        });
+
+        it('should not flash backticks while a fence is still arriving', () => {
+            expect(parser.parseChunk('`', 'Intro\n`')).toBe('<p>Intro</p>');
+        });
+
+        it('should only auto-close markers at the tail of the message', () => {
+            expect(parser.parseChunk('\n\nnext *par', '5 * 3 = 15'))
+                .toBe('<p>5 * 3 = 15</p><p>next <em>par</em></p>');
+        });
+
+        it('should converge to the complete rendering once the whole message has arrived', () => {
+            const full = 'Here is **bold** text and code:\n\n```py\nprint("hi")\n```\n\n- a\n- b';
+            const chunks = full.match(/.{1,3}/gs)!;
+            const renders = streamAll(chunks);
+            expect(renders[renders.length - 1]).toBe(parser.parseComplete(full));
+        });
+    });
+});
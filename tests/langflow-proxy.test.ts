@@ -1,9 +1,17 @@
 import { LangflowProxyService } from '../src/langflow-proxy';
 import { LangflowProxyConfig, Profile } from '../src/types';
-import { loadBaseConfig, loadInstanceConfig } from '../src/lib/startup/config-loader';
+import { loadBaseConfig, loadInstanceDocument } from '../src/lib/startup/config-loader';
+import { RateLimiter } from '../src/lib/rateLimiter';
+import { CircuitBreaker, CIRCUIT_OPEN_DETAIL, CIRCUIT_OPEN_ERROR } from '../src/lib/langflow/circuitBreaker';
+import { FileOwnershipGuard } from '../src/lib/auth/fileOwnership';
+import { watchConfigFile } from '../src/lib/startup/config-watcher';
+import { ProxyMetrics, PROMETHEUS_CONTENT_TYPE } from '../src/lib/metrics';
+import { ReplyExtractorRegistry } from '../src/lib/langflow/replyExtractors';
 import { FlowMapper } from '../src/utils/flow-mapper';
 import { handleRequest as handleRequestFromModule } from '../src/lib/request-handler';
 import http from 'http'; // Import for IncomingMessage and ServerResponse
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
 import { sendJsonError } from '../src/lib/request-utils'; // Import the mock
 
 // Mock dependencies
@@ -11,14 +19,23 @@ jest.mock('../src/lib/startup/config-loader');
 
 // Mock FlowMapper
 const mockInitializeFlowMapper = jest.fn().mockResolvedValue(undefined);
+const mockRefreshFlowMapper = jest.fn().mockResolvedValue(undefined);
 const mockGetTrueFlowId = jest.fn();
+const mockGetFlowMapperStatus = jest.fn();
 jest.mock('../src/utils/flow-mapper', () => ({
     FlowMapper: jest.fn().mockImplementation(() => ({
         initialize: mockInitializeFlowMapper,
+        refresh: mockRefreshFlowMapper,
         getTrueFlowId: mockGetTrueFlowId,
+        getStatus: mockGetFlowMapperStatus,
     })),
 }));
 
+jest.mock('../src/lib/startup/config-watcher', () => ({
+    ...jest.requireActual('../src/lib/startup/config-watcher'),
+    watchConfigFile: jest.fn(),
+}));
+
 jest.mock('../src/lib/request-handler');
 jest.mock('@datastax/langflow-client');
 jest.mock('../src/lib/request-utils', () => ({
@@ -27,7 +44,7 @@ jest.mock('../src/lib/request-utils', () => ({
 }));
 
 const mockLoadBaseConfig = loadBaseConfig as jest.Mock;
-const mockLoadInstanceConfig = loadInstanceConfig as jest.Mock;
+const mockLoadInstanceDocument = loadInstanceDocument as jest.Mock;
 const MockedFlowMapperInstance = FlowMapper as jest.MockedClass<typeof FlowMapper>; // Renamed for clarity
 
 // Get the auto-mocked version from the jest.mock call above
@@ -56,7 +73,7 @@ describe('LangflowProxyService', () => {
 
     beforeEach(() => {
         mockLoadBaseConfig.mockReset().mockReturnValue(JSON.parse(JSON.stringify(baseConfigDefaults)));
-        mockLoadInstanceConfig.mockReset().mockReturnValue([]);
+        mockLoadInstanceDocument.mockReset().mockReturnValue({ profiles: [] });
         
         // Reset FlowMapper mocks
         MockedFlowMapperInstance.mockClear(); // Use the renamed mock
@@ -145,9 +162,9 @@ describe('LangflowProxyService', () => {
             expect(() => new LangflowProxyService(config)).toThrow(errorMessage);
         });
 
-        it('should re-throw errors from loadInstanceConfig (synchronous constructor part)', () => {
+        it('should re-throw errors from loadInstanceDocument (synchronous constructor part)', () => {
             const errorMessage = 'Instance config loading failed';
-            mockLoadInstanceConfig.mockImplementation(() => {
+            mockLoadInstanceDocument.mockImplementation(() => {
                 throw new Error(errorMessage);
             });
             const config: LangflowProxyConfig = {
@@ -178,7 +195,7 @@ describe('LangflowProxyService', () => {
         });
 
         it('should warn if no chatbot profiles are loaded after async init', async () => {
-            mockLoadInstanceConfig.mockReturnValue([]); // No profiles
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [] }); // No profiles
             const config: LangflowProxyConfig = {
                 instanceConfigPath: validInstanceConfigPath,
                 proxyApiBasePath: validProxyApiBasePath,
@@ -194,8 +211,8 @@ describe('LangflowProxyService', () => {
                 profileId: 'profile1',
                 server: { flowId: 'flowName1' }, 
                 chatbot: { labels: { widgetTitle: 'Profile 1 Title' } }
-            } as Profile; // Cast to Profile, assuming loadInstanceConfig returns this structure
-            mockLoadInstanceConfig.mockReturnValue([rawProfile]);
+            } as Profile; // Cast to Profile, assuming loadInstanceDocument returns this structure
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [rawProfile] });
             const resolvedUuid = '123e4567-e89b-12d3-a456-426614174000'; // Valid UUID
             mockGetTrueFlowId.mockImplementation(id => id === 'flowName1' ? resolvedUuid : id);
 
@@ -217,10 +234,23 @@ describe('LangflowProxyService', () => {
             expect(consoleLogSpy).toHaveBeenCalledWith(`LangflowProxyService: Loaded profile: 'profile1' configured with resolved flowId '${resolvedUuid}'.`);
         });
 
+        it('should warn when a protected profile is loaded without an authenticate hook', async () => {
+            const uuidFlowId = '00000000-1111-2222-3333-444444444444';
+            const rawProfile = { profileId: 'membersOnly', server: { flowId: uuidFlowId, access: 'authenticated' } } as Profile;
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [rawProfile] });
+            mockGetTrueFlowId.mockImplementation(id => id);
+
+            const service = new LangflowProxyService({ instanceConfigPath: validInstanceConfigPath, proxyApiBasePath: validProxyApiBasePath });
+            const loadedProfile = await service.getChatbotProfile('membersOnly');
+
+            expect(loadedProfile?.server.access).toBe('authenticated');
+            expect(consoleWarnSpy).toHaveBeenCalledWith("LangflowProxyService: Profile 'membersOnly' requires authentication but no authenticate hook is configured. All requests to it will be rejected.");
+        });
+
         it('should use original flowId if it is already a UUID (after async init)', async () => {
             const uuidFlowId = '00000000-1111-2222-3333-444444444444';
             const rawProfile = { profileId: 'profileUUID', server: { flowId: uuidFlowId } } as Profile;
-            mockLoadInstanceConfig.mockReturnValue([rawProfile]);
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [rawProfile] });
             // getTrueFlowId should return the UUID itself
             mockGetTrueFlowId.mockImplementation(id => id === uuidFlowId ? uuidFlowId : undefined);
 
@@ -238,9 +268,9 @@ describe('LangflowProxyService', () => {
             expect(consoleLogSpy).toHaveBeenCalledWith(`LangflowProxyService: Loaded profile: 'profileUUID' configured with resolved flowId '${uuidFlowId}'.`);
         });
 
-        it('should log critical error if flow identifier cannot be resolved and is not a UUID (after async init)', async () => {
+        it('should mark the profile unavailable if flow identifier cannot be resolved and is not a UUID (after async init)', async () => {
             const rawProfile = { profileId: 'profileUnresolved', server: { flowId: 'unresolvableName' } } as Profile;
-            mockLoadInstanceConfig.mockReturnValue([rawProfile]);
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [rawProfile] });
             mockGetTrueFlowId.mockImplementation(id => undefined); // Simulate unresolvable
 
             const config: LangflowProxyConfig = {
@@ -251,11 +281,12 @@ describe('LangflowProxyService', () => {
             const loadedProfile = await service.getChatbotProfile('profileUnresolved'); // This will wait for init
 
             expect(loadedProfile?.server.flowId).toBe('unresolvableName'); // Remains original
+            expect(loadedProfile?.server.status).toBe('unavailable');
             // @ts-expect-error Accessing private member for test purposes
             await service.initializationPromise; // Ensure logs from init are fired
-            expect(consoleErrorSpy).toHaveBeenCalledWith("LangflowProxyService: CRITICAL - Could not resolve flow identifier 'unresolvableName' for profile 'profileUnresolved'. This profile will not function correctly as the identifier is not a valid UUID and was not found in the flow map.");
-            expect(consoleLogSpy).toHaveBeenCalledWith("LangflowProxyService: Loaded profile: 'profileUnresolved' configured with resolved flowId 'unresolvableName'.");
-            expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining("1 profiles have unresolved flow identifiers and may not function."));
+            expect(consoleErrorSpy).toHaveBeenCalledWith("LangflowProxyService: Could not resolve flow identifier 'unresolvableName' for profile 'profileUnresolved': it is not a valid UUID and was not found in the flow map. The profile is unavailable until the flow exists in Langflow and the config is reloaded.");
+            expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining("Loaded profile: 'profileUnresolved'"));
+            expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining("1 profiles have unresolved flow identifiers and are unavailable: profileUnresolved."));
         });
 
         it('should load a profile with specific values overriding defaults after resolution (after async init)', async () => {
@@ -273,7 +304,7 @@ describe('LangflowProxyService', () => {
                     floatingWidget: { useFloating: true, floatPosition: 'bottom-left' }
                 }
             };
-            mockLoadInstanceConfig.mockReturnValue([mockProfile]);
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [mockProfile] });
             mockGetTrueFlowId.mockImplementation(id => id === 'flowName2' ? resolvedUuid : id);
 
             const config: LangflowProxyConfig = {
@@ -298,8 +329,8 @@ describe('LangflowProxyService', () => {
                 { profileId: 'p1', server: { flowId: 'f1name' } }, // will resolve to validUuidForP1
                 { profileId: 'p2', server: { flowId: validUuidForP2 } }, // already validUuidForP2
                 { profileId: 'p3', server: { flowId: 'f3unresolved' } } // will not resolve
-            ] as Profile[]; // Cast to ensure type Profile is used here as mockLoadInstanceConfig returns Profile[]
-            mockLoadInstanceConfig.mockReturnValue(profiles);
+            ] as Profile[]; // Cast to ensure type Profile is used here as loadInstanceDocument returns Profile[] profiles
+            mockLoadInstanceDocument.mockReturnValue({ profiles: profiles });
             mockGetTrueFlowId.mockImplementation(id => {
                 if (id === 'f1name') return validUuidForP1;
                 if (id === validUuidForP2) return validUuidForP2; // Simulate it's already a UUID or resolved by FlowMapper
@@ -319,15 +350,264 @@ describe('LangflowProxyService', () => {
             expect(profile1?.server.flowId).toBe(validUuidForP1);
             expect(profile2?.server.flowId).toBe(validUuidForP2);
             expect(profile3?.server.flowId).toBe('f3unresolved');
+            expect([profile1, profile2, profile3].map(profile => profile?.server.status)).toEqual(['available', 'available', 'unavailable']);
 
             // @ts-expect-error Accessing private member for test purposes
             await service.initializationPromise; // Ensure all logs from init have fired
             expect(consoleLogSpy).toHaveBeenCalledWith(`LangflowProxyService: Resolved flow identifier 'f1name' to UUID '${validUuidForP1}' for profile 'p1'.`);
-            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining("Could not resolve flow identifier 'f3unresolved' for profile 'p3'."));
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining("Could not resolve flow identifier 'f3unresolved' for profile 'p3':"));
             expect(consoleLogSpy).toHaveBeenCalledWith(`LangflowProxyService: Loaded profile: 'p1' configured with resolved flowId '${validUuidForP1}'.`);
             expect(consoleLogSpy).toHaveBeenCalledWith(`LangflowProxyService: Loaded profile: 'p2' configured with resolved flowId '${validUuidForP2}'.`);
-            expect(consoleLogSpy).toHaveBeenCalledWith("LangflowProxyService: Loaded profile: 'p3' configured with resolved flowId 'f3unresolved'.");
-            expect(consoleWarnSpy).toHaveBeenCalledWith("LangflowProxyService: Finished async profile loading. 2 profiles have a valid resolved flowId. 1 profiles have unresolved flow identifiers and may not function.");
+            expect(consoleLogSpy).not.toHaveBeenCalledWith(expect.stringContaining("Loaded profile: 'p3'"));
+            expect(consoleWarnSpy).toHaveBeenCalledWith("LangflowProxyService: Finished async profile loading. 2 profiles have a valid resolved flowId. 1 profiles have unresolved flow identifiers and are unavailable: p3.");
+        });
+    });
+
+    describe('Flow resolution policy', () => {
+        const config = (flowResolution?: LangflowProxyConfig['flowResolution']): LangflowProxyConfig => ({
+            instanceConfigPath: validInstanceConfigPath,
+            proxyApiBasePath: validProxyApiBasePath,
+            flowResolution,
+        });
+        const resolvedUuid = '33333333-3333-3333-3333-333333333333';
+
+        beforeEach(() => {
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [
+                { profileId: 'ok', server: { flowId: resolvedUuid } },
+                { profileId: 'later', server: { flowId: 'not-yet-created' } },
+            ] as Profile[] });
+            mockGetTrueFlowId.mockImplementation(id => id === resolvedUuid ? id : undefined);
+            mockRefreshFlowMapper.mockClear().mockResolvedValue(undefined);
+        });
+
+        it('should reject an unknown policy', () => {
+            expect(() => new LangflowProxyService(config('ignore' as any))).toThrow(
+                "LangflowProxyService: flowResolution must be one of 'strict', 'disable', 'lazy'."
+            );
+        });
+
+        it('should fail initialization with the strict policy', async () => {
+            const service = new LangflowProxyService(config('strict'));
+            await expect(service.ready()).rejects.toThrow(
+                "LangflowProxyService: Could not resolve the flow identifiers of later ('not-yet-created'). Refusing to load the profiles because flowResolution is 'strict'."
+            );
+        });
+
+        it('should not emit an unhandled rejection when strict initialization fails and answer requests with 503', async () => {
+            const onUnhandledRejection = jest.fn();
+            process.on('unhandledRejection', onUnhandledRejection);
+            try {
+                const service = new LangflowProxyService(config('strict'));
+                await new Promise(resolve => setImmediate(resolve));
+                await new Promise(resolve => setImmediate(resolve));
+                expect(onUnhandledRejection).not.toHaveBeenCalled();
+
+                const req = { url: `${validProxyApiBasePath}/profiles`, method: 'GET', headers: {} } as http.IncomingMessage;
+                const res = { setHeader: jest.fn() } as unknown as http.ServerResponse;
+                await service.handleRequest(req, res);
+
+                expect(sendJsonError).toHaveBeenCalledWith(res, 503, 'Chatbot proxy failed to initialize.');
+                expect(actualMockHandleRequestFromModule).not.toHaveBeenCalled();
+            } finally {
+                process.off('unhandledRejection', onUnhandledRejection);
+            }
+        });
+
+        it('should keep the current profiles when a strict reload has unresolved flows', async () => {
+            mockLoadInstanceDocument.mockReturnValueOnce({ profiles: [{ profileId: 'ok', server: { flowId: resolvedUuid } }] as Profile[] });
+            const service = new LangflowProxyService(config('strict'));
+            await service.getAllFlowConfigs();
+
+            await expect(service.reloadInstanceConfig()).resolves.toBe(false);
+            expect(Array.from((await service.getAllFlowConfigs()).keys())).toEqual(['ok']);
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining("Reloading instance config failed; keeping the current configuration. LangflowProxyService: Could not resolve the flow identifiers of later"));
+        });
+
+        it('should resolve a lazy profile on first use after refreshing the flow list', async () => {
+            const service = new LangflowProxyService(config('lazy'));
+            const profile = (await service.getChatbotProfile('later'))!;
+            expect(profile.server.status).toBe('unresolved');
+
+            // @ts-expect-error Accessing private member for test purposes
+            const resolveProfileFlow = (p: Profile) => service.resolveProfileFlow(p) as Promise<boolean>;
+            await expect(resolveProfileFlow(profile)).resolves.toBe(false);
+            expect(mockRefreshFlowMapper).toHaveBeenCalledTimes(1);
+
+            // Refreshes are rate limited, so the next attempt only consults the current flow list.
+            mockGetTrueFlowId.mockImplementation(id => id === 'not-yet-created' ? resolvedUuid : id);
+            await expect(resolveProfileFlow(profile)).resolves.toBe(true);
+            expect(mockRefreshFlowMapper).toHaveBeenCalledTimes(1);
+            expect(profile.server).toEqual(expect.objectContaining({ flowId: resolvedUuid, status: 'available' }));
+            expect(consoleLogSpy).toHaveBeenCalledWith(`LangflowProxyService: Flow identifier 'not-yet-created' of profile 'later' now resolves to UUID '${resolvedUuid}' (was unresolved).`);
+        });
+
+        it('should report a failed refresh during lazy resolution', async () => {
+            mockRefreshFlowMapper.mockRejectedValueOnce(new Error('Langflow down'));
+            const service = new LangflowProxyService(config('lazy'));
+            const profile = (await service.getChatbotProfile('later'))!;
+
+            // @ts-expect-error Accessing private member for test purposes
+            await expect(service.resolveProfileFlow(profile)).resolves.toBe(false);
+            expect(consoleWarnSpy).toHaveBeenCalledWith("LangflowProxyService: Could not refresh the flow list from Langflow; keeping the current flow resolution. Langflow down");
+            expect(profile.server.status).toBe('unresolved');
+        });
+    });
+
+    describe('Periodic flow refresh', () => {
+        const config: LangflowProxyConfig = { instanceConfigPath: validInstanceConfigPath, proxyApiBasePath: validProxyApiBasePath };
+        const uuid = (n: number) => `00000000-0000-0000-0000-00000000000${n}`;
+        let flowIdsByName: Record<string, string>;
+
+        beforeEach(() => {
+            flowIdsByName = { support: uuid(1) };
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [
+                { profileId: 'support', server: { flowId: 'support' } },
+                { profileId: 'sales', server: { flowId: 'sales' } },
+            ] as Profile[] });
+            mockGetTrueFlowId.mockImplementation(id => flowIdsByName[id]);
+            mockRefreshFlowMapper.mockClear().mockResolvedValue(undefined);
+        });
+
+        it('should refresh on the configured interval and stop when closed', async () => {
+            const setIntervalSpy = jest.spyOn(global, 'setInterval');
+            const clearIntervalSpy = jest.spyOn(global, 'clearInterval');
+            const service = new LangflowProxyService({ ...config, flowRefresh: { intervalMs: 30000 } });
+            await service.getAllFlowConfigs();
+
+            expect(setIntervalSpy).toHaveBeenCalledWith(expect.any(Function), 30000);
+            expect(consoleLogSpy).toHaveBeenCalledWith('LangflowProxyService: Refreshing the flow list from Langflow every 30000 ms.');
+            const tick = setIntervalSpy.mock.calls[0][0] as () => void;
+            tick();
+            await new Promise(process.nextTick);
+            expect(mockRefreshFlowMapper).toHaveBeenCalledTimes(1);
+
+            service.close();
+            expect(clearIntervalSpy).toHaveBeenCalledWith(setIntervalSpy.mock.results[0].value);
+        });
+
+        it('should not schedule refreshes unless enabled', async () => {
+            const setIntervalSpy = jest.spyOn(global, 'setInterval');
+            const service = new LangflowProxyService(config);
+            await service.getAllFlowConfigs();
+            expect(setIntervalSpy).not.toHaveBeenCalled();
+        });
+
+        it('should follow remapped names and make newly created flows available', async () => {
+            const service = new LangflowProxyService(config);
+            const profiles = await service.getAllFlowConfigs();
+            expect(profiles.get('sales')?.server.status).toBe('unavailable');
+
+            flowIdsByName = { support: uuid(2), sales: uuid(3) };
+            await expect(service.refreshFlows()).resolves.toBe(true);
+
+            expect(profiles.get('support')?.server).toEqual(expect.objectContaining({ flowId: uuid(2), status: 'available' }));
+            expect(profiles.get('sales')?.server).toEqual(expect.objectContaining({ flowId: uuid(3), status: 'available' }));
+            expect(consoleLogSpy).toHaveBeenCalledWith(`LangflowProxyService: Flow identifier 'support' of profile 'support' now resolves to UUID '${uuid(2)}' (was '${uuid(1)}').`);
+            expect(consoleLogSpy).toHaveBeenCalledWith(`LangflowProxyService: Flow identifier 'sales' of profile 'sales' now resolves to UUID '${uuid(3)}' (was unresolved).`);
+        });
+
+        it('should keep the last known flow once a name no longer resolves, and warn once', async () => {
+            const service = new LangflowProxyService(config);
+            const profiles = await service.getAllFlowConfigs();
+
+            flowIdsByName = {};
+            await service.refreshFlows();
+            await service.refreshFlows();
+
+            expect(profiles.get('support')?.server).toEqual(expect.objectContaining({ flowId: uuid(1), status: 'available' }));
+            const staleWarnings = consoleWarnSpy.mock.calls.filter(([message]) => String(message).includes('no longer resolves'));
+            expect(staleWarnings).toEqual([[`LangflowProxyService: Flow identifier 'support' of profile 'support' no longer resolves; keeping flow '${uuid(1)}'.`]]);
+        });
+
+        it('should share one refresh between concurrent callers and keep profiles when it fails', async () => {
+            let failRefresh!: (error: Error) => void;
+            mockRefreshFlowMapper.mockImplementationOnce(() => new Promise((_, reject) => { failRefresh = reject; }));
+            const service = new LangflowProxyService(config);
+            const profiles = await service.getAllFlowConfigs();
+
+            const first = service.refreshFlows();
+            const second = service.refreshFlows();
+            await new Promise(process.nextTick);
+            failRefresh(new Error('Langflow down'));
+
+            await expect(Promise.all([first, second])).resolves.toEqual([false, false]);
+            expect(mockRefreshFlowMapper).toHaveBeenCalledTimes(1);
+            expect(profiles.get('support')?.server.flowId).toBe(uuid(1));
+        });
+    });
+
+    describe('WebSocket chat channel', () => {
+        let server: http.Server;
+        let proxy: LangflowProxyService;
+        let url: string;
+
+        beforeEach(async () => {
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [{ profileId: 'support', server: { flowId: 'flow-uuid' }, chatbot: {} }] });
+            proxy = new LangflowProxyService({ instanceConfigPath: validInstanceConfigPath, proxyApiBasePath: validProxyApiBasePath });
+            server = http.createServer();
+            proxy.attachWebSocket(server);
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterEach(async () => {
+            proxy.close();
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        const open = (path: string, origin?: string) => new Promise<WebSocket>((resolve, reject) => {
+            const socket = new WebSocket(url + path, origin ? { origin } : undefined);
+            socket.once('open', () => resolve(socket));
+            socket.once('error', reject);
+        });
+
+        it('should serve the chat channel at the proxy base path', async () => {
+            const socket = await open(`${validProxyApiBasePath}/ws`);
+            const reply = new Promise<any>(resolve => socket.once('message', data => resolve(JSON.parse(data.toString()))));
+            socket.send(JSON.stringify({ type: 'chat', requestId: 'r1', profileId: 'unknown', message: 'hello' }));
+
+            await expect(reply).resolves.toEqual({ requestId: 'r1', event: 'error', data: expect.objectContaining({ code: 404 }) });
+            expect(consoleLogSpy).toHaveBeenCalledWith(`LangflowProxyService: WebSocket chat channel listening at ${validProxyApiBasePath}/ws.`);
+            socket.close();
+        });
+
+        it('should refuse upgrades from pages of another origin with 403', async () => {
+            await expect(open(`${validProxyApiBasePath}/ws`, 'https://evil.example')).rejects.toThrow('Unexpected server response: 403');
+            expect(consoleWarnSpy).toHaveBeenCalledWith("LangflowProxyService: Refused WebSocket upgrade from origin 'https://evil.example'.");
+
+            const sameOrigin = await open(`${validProxyApiBasePath}/ws`, url.replace('ws:', 'http:'));
+            sameOrigin.close();
+        });
+
+        it('should accept upgrades from the allowed origins', async () => {
+            proxy.close();
+            proxy = new LangflowProxyService({ instanceConfigPath: validInstanceConfigPath, proxyApiBasePath: validProxyApiBasePath, allowedOrigins: ['https://app.example'] });
+            proxy.attachWebSocket(server);
+
+            const socket = await open(`${validProxyApiBasePath}/ws`, 'https://app.example');
+            socket.close();
+        });
+
+        it('should leave upgrade requests for other paths to the host app', async () => {
+            const otherListener = jest.fn((_req, socket) => socket.destroy());
+            server.on('upgrade', otherListener);
+
+            await expect(open('/other')).rejects.toThrow();
+            expect(otherListener).toHaveBeenCalledTimes(1);
+        });
+
+        it('should close open sockets and stop accepting connections on close()', async () => {
+            const socket = await open(`${validProxyApiBasePath}/ws`);
+            const closed = new Promise<number>(resolve => socket.once('close', code => resolve(code)));
+
+            proxy.close();
+
+            await expect(closed).resolves.toBe(1001);
+            expect(server.listenerCount('upgrade')).toBe(0);
+        });
+
+        it('should refuse to attach twice', () => {
+            expect(() => proxy.attachWebSocket(server)).toThrow('LangflowProxyService: The WebSocket chat channel is already attached to a server.');
         });
     });
 
@@ -342,7 +622,7 @@ describe('LangflowProxyService', () => {
         let serviceWithProfiles: LangflowProxyService;
 
         beforeEach(async () => {
-            mockLoadInstanceConfig.mockReturnValue([rawMockProfile1]);
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [rawMockProfile1] });
             mockGetTrueFlowId.mockImplementation(id => id === 'gf1name' ? resolvedMockProfile1Id : id);
             const config: LangflowProxyConfig = {
                 instanceConfigPath: validInstanceConfigPath,
@@ -386,6 +666,236 @@ describe('LangflowProxyService', () => {
         });
     });
 
+    describe('Health and readiness probes', () => {
+        const config: LangflowProxyConfig = { instanceConfigPath: validInstanceConfigPath, proxyApiBasePath: validProxyApiBasePath };
+        const probe = async (service: LangflowProxyService, path: string) => {
+            const req = { url: `${validProxyApiBasePath}${path}`, method: 'GET', headers: {} } as http.IncomingMessage;
+            const res = { statusCode: 0, setHeader: jest.fn(), end: jest.fn() } as unknown as http.ServerResponse;
+            await service.handleRequest(req, res);
+            return { statusCode: res.statusCode, body: JSON.parse((res.end as jest.Mock).mock.calls[0][0]) };
+        };
+
+        beforeEach(() => {
+            mockGetFlowMapperStatus.mockReset().mockReturnValue({ initialized: true, flows: 2 });
+            mockFetch.mockResolvedValue({ ok: true, status: 200 } as Response);
+        });
+
+        it('should answer the liveness probe without waiting for initialization', async () => {
+            mockInitializeFlowMapper.mockReturnValueOnce(new Promise(() => {}));
+            const service = new LangflowProxyService(config);
+
+            await expect(probe(service, '/healthz')).resolves.toEqual({ statusCode: 200, body: { status: 'ok' } });
+            expect(actualMockHandleRequestFromModule).not.toHaveBeenCalled();
+        });
+
+        it('should report ready with profile counts once initialized and Langflow answers the ping', async () => {
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [
+                { profileId: 'resolved', server: { flowId: 'known-flow' }, chatbot: {} },
+                { profileId: 'missing', server: { flowId: 'unknown-flow' }, chatbot: {} },
+            ] });
+            mockGetTrueFlowId.mockImplementation(id => id === 'known-flow' ? '00000000-0000-0000-0000-000000000001' : undefined);
+            const service = new LangflowProxyService(config);
+            // @ts-expect-error Accessing private member for test purposes
+            await service.initializationPromise;
+
+            const { statusCode, body } = await probe(service, '/readyz');
+
+            expect(statusCode).toBe(200);
+            expect(body).toEqual({
+                status: 'ready',
+                checks: {
+                    initialization: { ok: true, state: 'complete' },
+                    flowMapper: { ok: true, flows: 2 },
+                    profiles: { total: 2, resolved: 1, unresolved: 1 },
+                    langflow: { ok: true, latencyMs: expect.any(Number) },
+                    circuitBreaker: { state: 'closed', consecutiveFailures: 0 },
+                },
+            });
+            expect(mockFetch).toHaveBeenCalledWith(`${baseConfigDefaults.langflowConnection.endpoint_url}/health`, expect.objectContaining({ method: 'GET' }));
+        });
+
+        it('should report not ready while initialization is pending', async () => {
+            mockInitializeFlowMapper.mockReturnValueOnce(new Promise(() => {}));
+            mockGetFlowMapperStatus.mockReturnValue({ initialized: false, flows: 0 });
+            const service = new LangflowProxyService(config);
+
+            const { statusCode, body } = await probe(service, '/readyz');
+
+            expect(statusCode).toBe(503);
+            expect(body.status).toBe('not_ready');
+            expect(body.checks.initialization).toEqual({ ok: false, state: 'pending' });
+            expect(body.checks.flowMapper).toEqual({ ok: false, flows: 0 });
+        });
+
+        it('should report failed checks without their errors, logging them instead', async () => {
+            mockInitializeFlowMapper.mockRejectedValueOnce(new Error('fetch failed'));
+            mockGetFlowMapperStatus.mockReturnValue({ initialized: false, flows: 0, lastError: 'fetch failed' });
+            mockFetch.mockRejectedValue(new Error('connect ECONNREFUSED 10.0.0.7:7860'));
+            const service = new LangflowProxyService(config);
+            // @ts-expect-error Accessing private member for test purposes
+            await expect(service.initializationPromise).rejects.toThrow('fetch failed');
+
+            const { statusCode, body } = await probe(service, '/readyz');
+
+            expect(statusCode).toBe(503);
+            expect(body.checks.initialization).toEqual({ ok: false, state: 'failed' });
+            expect(body.checks.flowMapper).toEqual({ ok: false, flows: 0 });
+            expect(body.checks.langflow).toEqual({ ok: false, latencyMs: expect.any(Number) });
+            expect(JSON.stringify(body)).not.toContain('ECONNREFUSED');
+            expect(consoleWarnSpy).toHaveBeenCalledWith("LangflowProxyService: Langflow did not answer the readiness ping: connect ECONNREFUSED 10.0.0.7:7860");
+        });
+
+        it('should reuse the outcome of a recent ping', async () => {
+            const service = new LangflowProxyService(config);
+            // @ts-expect-error Accessing private member for test purposes
+            await service.initializationPromise;
+            mockFetch.mockClear();
+
+            await probe(service, '/readyz');
+            await probe(service, '/readyz');
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Metrics', () => {
+        const config: LangflowProxyConfig = { instanceConfigPath: validInstanceConfigPath, proxyApiBasePath: validProxyApiBasePath };
+        const request = async (service: LangflowProxyService, method: string, path: string) => {
+            let onClose: (() => void) | undefined;
+            const req = { url: `${validProxyApiBasePath}${path}`, method, headers: {} } as http.IncomingMessage;
+            const res = {
+                statusCode: 200,
+                setHeader: jest.fn(),
+                end: jest.fn(),
+                once: jest.fn((event: string, listener: () => void) => { if (event === 'close') onClose = listener; }),
+            } as unknown as http.ServerResponse;
+            await service.handleRequest(req, res);
+            onClose?.();
+            return res;
+        };
+
+        beforeEach(() => {
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [{ profileId: 'support', server: { flowId: 'support-flow' }, chatbot: {} }] });
+            actualMockHandleRequestFromModule.mockClear();
+        });
+
+        it('should serve the request counts in the Prometheus text format, labelling only loaded profiles', async () => {
+            const service = new LangflowProxyService({ ...config, metrics: { route: true } });
+            // @ts-expect-error Accessing private member for test purposes
+            await service.initializationPromise;
+            await request(service, 'POST', '/chat/support');
+            await request(service, 'GET', '/config/not-a-profile');
+
+            const res = await request(service, 'GET', '/metrics');
+
+            expect(res.setHeader).toHaveBeenCalledWith('Content-Type', PROMETHEUS_CONTENT_TYPE);
+            const text = (res.end as jest.Mock).mock.calls[0][0];
+            expect(text).toContain('langflow_chatbot_http_requests_total{route="chat",profile="support",method="POST",status="200"} 1');
+            expect(text).toContain('langflow_chatbot_http_requests_total{route="config",profile="",method="GET",status="200"} 1');
+            expect(actualMockHandleRequestFromModule).toHaveBeenCalledTimes(2);
+            expect(service.getMetricsText()).toContain('route="metrics"');
+        });
+
+        it('should collect metrics but leave the route to the request handler unless it is enabled', async () => {
+            const service = new LangflowProxyService(config);
+            // @ts-expect-error Accessing private member for test purposes
+            await service.initializationPromise;
+
+            const res = await request(service, 'GET', '/metrics');
+
+            expect(res.setHeader).not.toHaveBeenCalledWith('Content-Type', PROMETHEUS_CONTENT_TYPE);
+            expect(actualMockHandleRequestFromModule).toHaveBeenCalledTimes(1);
+            expect(service.getMetricsText()).toContain('langflow_chatbot_http_requests_total{route="metrics",profile="",method="GET",status="200"} 1');
+        });
+
+        it('should leave the metrics route to the request handler when metrics are disabled', async () => {
+            const service = new LangflowProxyService({ ...config, metrics: false });
+
+            await request(service, 'GET', '/metrics');
+
+            expect(actualMockHandleRequestFromModule).toHaveBeenCalledTimes(1);
+            expect(service.getMetricsText()).toBeUndefined();
+        });
+    });
+
+    describe('Instance config reload', () => {
+        const rawProfile = (profileId: string, widgetTitle: string) => ({
+            profileId,
+            server: { flowId: `${profileId}-flow` },
+            chatbot: { labels: { widgetTitle } },
+        } as Profile);
+        const config: LangflowProxyConfig = { instanceConfigPath: validInstanceConfigPath, proxyApiBasePath: validProxyApiBasePath };
+        const mockWatchConfigFile = watchConfigFile as jest.Mock;
+
+        beforeEach(() => {
+            mockRefreshFlowMapper.mockReset().mockResolvedValue(undefined);
+            mockWatchConfigFile.mockReset().mockReturnValue({ close: jest.fn() });
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [rawProfile('support', 'Support'), rawProfile('legacy', 'Legacy')] });
+        });
+
+        it('should swap in the reloaded profiles and log the differences', async () => {
+            const service = new LangflowProxyService(config);
+            const initialProfiles = await service.getAllChatbotProfiles();
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [rawProfile('support', 'Help Desk'), rawProfile('sales', 'Sales')] });
+
+            await expect(service.reloadInstanceConfig()).resolves.toBe(true);
+
+            const reloadedProfiles = await service.getAllChatbotProfiles();
+            expect(reloadedProfiles).not.toBe(initialProfiles);
+            expect(Array.from(reloadedProfiles.keys())).toEqual(['support', 'sales']);
+            expect(reloadedProfiles.get('support')?.chatbot.labels?.widgetTitle).toBe('Help Desk');
+            expect(initialProfiles.get('support')?.chatbot.labels?.widgetTitle).toBe('Support');
+            expect(mockRefreshFlowMapper).toHaveBeenCalledTimes(1);
+            expect(consoleLogSpy).toHaveBeenCalledWith(
+                'LangflowProxyService: Reloaded instance config (2 profiles): added: sales; removed: legacy; changed: support (chatbot.labels.widgetTitle).'
+            );
+        });
+
+        it('should keep the current profiles when the new file is invalid', async () => {
+            const service = new LangflowProxyService(config);
+            const initialProfiles = await service.getAllChatbotProfiles();
+            mockLoadInstanceDocument.mockImplementation(() => { throw new Error("ConfigLoader: Profile at index 0 is missing required 'profileId' or 'server.flowId'."); });
+
+            await expect(service.reloadInstanceConfig()).resolves.toBe(false);
+
+            expect(await service.getAllChatbotProfiles()).toBe(initialProfiles);
+            expect(consoleErrorSpy).toHaveBeenCalledWith(
+                "LangflowProxyService: Reloading instance config failed; keeping the current configuration. ConfigLoader: Profile at index 0 is missing required 'profileId' or 'server.flowId'."
+            );
+        });
+
+        it('should still apply the reload with the previous flow list if Langflow cannot be reached', async () => {
+            const service = new LangflowProxyService(config);
+            await service.getAllChatbotProfiles();
+            mockRefreshFlowMapper.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+            await expect(service.reloadInstanceConfig()).resolves.toBe(true);
+            expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Could not refresh the flow list from Langflow during reload'));
+        });
+
+        it('should watch the instance config file when enabled and stop on close', async () => {
+            const watcher = { close: jest.fn() };
+            mockWatchConfigFile.mockReturnValue(watcher);
+            const service = new LangflowProxyService({ ...config, watchInstanceConfig: { intervalMs: 500 } });
+            await service.getAllChatbotProfiles();
+            expect(mockWatchConfigFile).toHaveBeenCalledWith(validInstanceConfigPath, expect.any(Function), 500);
+
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [rawProfile('support', 'Support')] });
+            const onChange = mockWatchConfigFile.mock.calls[0][1];
+            onChange();
+            await service.reloadInstanceConfig();
+            expect(Array.from((await service.getAllChatbotProfiles()).keys())).toEqual(['support']);
+
+            service.close();
+            expect(watcher.close).toHaveBeenCalled();
+        });
+
+        it('should not watch the file by default', () => {
+            new LangflowProxyService(config);
+            expect(mockWatchConfigFile).not.toHaveBeenCalled();
+        });
+    });
+
     describe('handleRequest', () => {
         let service: LangflowProxyService;
         let mockReq: http.IncomingMessage;
@@ -430,7 +940,7 @@ describe('LangflowProxyService', () => {
                 proxyApiBasePath: testProxyApiBasePath,
             };
             mockLoadBaseConfig.mockReturnValue(JSON.parse(JSON.stringify(baseConfigDefaults)));
-            mockLoadInstanceConfig.mockReturnValue([]); // Start with no profiles for handleRequest general tests
+            mockLoadInstanceDocument.mockReturnValue({ profiles: [] }); // Start with no profiles for handleRequest general tests
             // Ensure FlowMapper mocks are reset (already done in outer beforeEach, but good for clarity)
             mockInitializeFlowMapper.mockClear().mockResolvedValue(undefined);
             mockGetTrueFlowId.mockClear().mockImplementation(id => id); 
@@ -565,6 +1075,73 @@ describe('LangflowProxyService', () => {
             expect(actualMockHandleRequestFromModule).not.toHaveBeenCalled();
         });
 
+        it('should pass a configured conversation store to handleRequestFromModule', async () => {
+            const conversationStore = { appendMessages: jest.fn(), getMessages: jest.fn() };
+            const serviceWithStore = new LangflowProxyService({
+                instanceConfigPath: validInstanceConfigPath,
+                proxyApiBasePath: testProxyApiBasePath,
+                conversationStore,
+            });
+            mockReq = createMockHttpReq(`${testProxyApiBasePath}${downstreamPath}`);
+
+            await serviceWithStore.handleRequest(mockReq, mockRes);
+
+            const callArgs = actualMockHandleRequestFromModule.mock.calls[0];
+            expect(callArgs[callArgs.length - 1]).toEqual({ conversationStore, resolveProfileFlow: expect.any(Function), fileOwnership: expect.any(FileOwnershipGuard), circuitBreaker: expect.any(CircuitBreaker), metrics: expect.any(ProxyMetrics), logger: expect.any(Object), replyExtractors: expect.any(ReplyExtractorRegistry) });
+        });
+
+        it('should echo an incoming X-Request-Id and tag the request\'s log entries with it and the route', async () => {
+            const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+            const serviceWithLogger = new LangflowProxyService({ instanceConfigPath: validInstanceConfigPath, proxyApiBasePath: testProxyApiBasePath, logger });
+            mockReq = createMockHttpReq(`${testProxyApiBasePath}${downstreamPath}`);
+            mockReq.headers['x-request-id'] = 'client-id-42';
+
+            await serviceWithLogger.handleRequest(mockReq, mockRes);
+
+            expect(mockRes.setHeader).toHaveBeenCalledWith('X-Request-Id', 'client-id-42');
+            const callArgs = actualMockHandleRequestFromModule.mock.calls[0];
+            callArgs[callArgs.length - 1].logger.warn('RequestHandler: Denied access.');
+            expect(logger.warn).toHaveBeenCalledWith('RequestHandler: Denied access.', { requestId: 'client-id-42', route: 'config' });
+        });
+
+        it('should generate a request id when none is sent', async () => {
+            mockReq = createMockHttpReq(`${testProxyApiBasePath}${downstreamPath}`);
+
+            await service.handleRequest(mockReq, mockRes);
+
+            expect(mockRes.setHeader).toHaveBeenCalledWith('X-Request-Id', expect.stringMatching(/^[0-9a-f-]{36}$/));
+        });
+
+        it('should create a rate limiter when a global or profile limit is configured', async () => {
+            mockLoadInstanceDocument.mockReturnValueOnce({ profiles: [], rateLimit: { requestsPerMinute: 30 } });
+            const serviceWithLimit = new LangflowProxyService({
+                instanceConfigPath: validInstanceConfigPath,
+                proxyApiBasePath: testProxyApiBasePath,
+            });
+            mockReq = createMockHttpReq(`${testProxyApiBasePath}${downstreamPath}`);
+
+            await serviceWithLimit.handleRequest(mockReq, mockRes);
+
+            const callArgs = actualMockHandleRequestFromModule.mock.calls[0];
+            expect(callArgs[callArgs.length - 1].rateLimiter).toBeInstanceOf(RateLimiter);
+            expect(consoleLogSpy).toHaveBeenCalledWith('LangflowProxyService: Rate limiting enabled (global: 30 requests/minute per ip).');
+        });
+
+        it('should not create a circuit breaker when it is disabled', async () => {
+            const serviceWithoutBreaker = new LangflowProxyService({
+                instanceConfigPath: validInstanceConfigPath,
+                proxyApiBasePath: testProxyApiBasePath,
+                circuitBreaker: false,
+            });
+            mockReq = createMockHttpReq(`${testProxyApiBasePath}${downstreamPath}`);
+
+            await serviceWithoutBreaker.handleRequest(mockReq, mockRes);
+
+            const callArgs = actualMockHandleRequestFromModule.mock.calls[0];
+            expect(callArgs[callArgs.length - 1].circuitBreaker).toBeUndefined();
+            expect(serviceWithoutBreaker.getCircuitBreakerStatus()).toBeUndefined();
+        });
+
         // Body Handling Preparation Tests
         it('should call handleRequestFromModule with isBodyPreParsed=true and preParsedBody if req.body is populated', async () => {
             const requestBody = { message: 'Hello there', sessionId: '123' };
@@ -585,7 +1162,8 @@ describe('LangflowProxyService', () => {
                 expect.any(Function), // _makeDirectLangflowApiRequest
                 testProxyApiBasePath,
                 requestBody,      
-                true              
+                true,
+                { conversationStore: undefined, resolveProfileFlow: expect.any(Function), fileOwnership: expect.any(FileOwnershipGuard), circuitBreaker: expect.any(CircuitBreaker), metrics: expect.any(ProxyMetrics), logger: expect.any(Object), replyExtractors: expect.any(ReplyExtractorRegistry) }
             );
             expect(capturedReqUrlAtCall).toBe(downstreamPath);
             expect(capturedPreParsedBodyAtCall).toBe(requestBody);
@@ -611,7 +1189,8 @@ describe('LangflowProxyService', () => {
                 expect.any(Function), // _makeDirectLangflowApiRequest
                 testProxyApiBasePath,
                 undefined,        
-                false             
+                false,
+                { conversationStore: undefined, resolveProfileFlow: expect.any(Function), fileOwnership: expect.any(FileOwnershipGuard), circuitBreaker: expect.any(CircuitBreaker), metrics: expect.any(ProxyMetrics), logger: expect.any(Object), replyExtractors: expect.any(ReplyExtractorRegistry) }
             );
             expect(capturedReqUrlAtCall).toBe(downstreamPath);
             expect(capturedPreParsedBodyAtCall).toBeUndefined();
@@ -671,6 +1250,7 @@ describe('LangflowProxyService', () => {
                 {
                     method: 'GET',
                     headers: { 'Accept': 'application/json' }, 
+                    signal: expect.any(AbortSignal),
                 }
             );
             expect(result).toBe(mockOkResponse);
@@ -725,9 +1305,40 @@ describe('LangflowProxyService', () => {
             const fetchError = new Error('Network failure');
             mockFetch.mockRejectedValueOnce(fetchError); 
             
-            const result = await service['_makeDirectLangflowApiRequest'](mockRes, defaultPath, 'GET');
+            const result = await service['_makeDirectLangflowApiRequest'](mockRes, defaultPath, 'GET', undefined, { retries: 0 });
             expect(result).toBeNull(); 
             expect(consoleErrorSpy).toHaveBeenCalledWith(`LangflowProxyService: Error during Langflow API request to ${defaultPath}:`, fetchError);
+            expect(sendJsonError).toHaveBeenCalledWith(mockRes, 502, "Failed to reach Langflow.", 'Network failure');
+        });
+
+        it('should refuse requests with a 503 once consecutive failures open the circuit', async () => {
+            const guardedService = new LangflowProxyService({
+                instanceConfigPath: validInstanceConfigPath,
+                proxyApiBasePath: validProxyApiBasePath,
+                circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 },
+            });
+            mockFetch.mockRejectedValue(new Error('Network failure'));
+
+            await guardedService['_makeDirectLangflowApiRequest'](mockRes, defaultPath, 'GET', undefined, { retries: 0 });
+            await guardedService['_makeDirectLangflowApiRequest'](mockRes, defaultPath, 'GET', undefined, { retries: 0 });
+            const result = await guardedService['_makeDirectLangflowApiRequest'](mockRes, defaultPath, 'GET', undefined, { retries: 0 });
+
+            expect(result).toBeNull();
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(mockRes.setHeader).toHaveBeenCalledWith('Retry-After', '60');
+            expect(sendJsonError).toHaveBeenCalledWith(mockRes, 503, CIRCUIT_OPEN_ERROR, CIRCUIT_OPEN_DETAIL);
+            expect(guardedService.getCircuitBreakerStatus()).toEqual({ state: 'open', consecutiveFailures: 2, retryAfterSeconds: 60 });
+        });
+
+        it('should not count Langflow client errors as failures', async () => {
+            mockFetch.mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' } as Response);
+
+            for (let i = 0; i < 6; i++) {
+                await service['_makeDirectLangflowApiRequest'](mockRes, defaultPath, 'GET');
+            }
+
+            expect(mockFetch).toHaveBeenCalledTimes(6);
+            expect(service.getCircuitBreakerStatus()).toEqual({ state: 'closed', consecutiveFailures: 0 });
         });
     });
 }); 
\ No newline at end of file
@@ -0,0 +1,84 @@
+import http from 'http';
+import { checkProfileAccess, isValidAccessRule, requiresAuthentication, resolvePrincipal } from '../../../src/lib/auth/authentication';
+import { Profile } from '../../../src/types';
+
+const profileWithAccess = (access?: Profile['server']['access']): Profile => ({
+    profileId: 'bot',
+    server: { flowId: 'flow', access },
+    chatbot: {},
+});
+
+describe('isValidAccessRule', () => {
+    it.each([
+        ['public', true],
+        ['authenticated', true],
+        [{ roles: ['admin'] }, true],
+        [{ roles: [] }, false],
+        [{ roles: ['admin', ''] }, false],
+        ['private', false],
+        [42, false],
+        [null, false],
+    ])('should classify %p as %p', (rule, expected) => {
+        expect(isValidAccessRule(rule)).toBe(expected);
+    });
+});
+
+describe('requiresAuthentication', () => {
+    it('should be false for profiles without a rule or with a public rule', () => {
+        expect(requiresAuthentication(profileWithAccess())).toBe(false);
+        expect(requiresAuthentication(profileWithAccess('public'))).toBe(false);
+    });
+
+    it('should be true for authenticated and role-based rules', () => {
+        expect(requiresAuthentication(profileWithAccess('authenticated'))).toBe(true);
+        expect(requiresAuthentication(profileWithAccess({ roles: ['a'] }))).toBe(true);
+    });
+});
+
+describe('checkProfileAccess', () => {
+    it('should allow anyone on public profiles', () => {
+        expect(checkProfileAccess(profileWithAccess(), null)).toEqual({ allowed: true });
+    });
+
+    it('should deny anonymous callers with 401 on protected profiles', () => {
+        expect(checkProfileAccess(profileWithAccess('authenticated'), null))
+            .toEqual({ allowed: false, statusCode: 401, error: "Authentication required." });
+    });
+
+    it('should allow any principal on authenticated profiles', () => {
+        expect(checkProfileAccess(profileWithAccess('authenticated'), { id: 'u1' })).toEqual({ allowed: true });
+    });
+
+    it('should require one of the listed roles on role-based profiles', () => {
+        const profile = profileWithAccess({ roles: ['staff', 'admin'] });
+        expect(checkProfileAccess(profile, { id: 'u1', roles: ['admin'] })).toEqual({ allowed: true });
+        expect(checkProfileAccess(profile, { id: 'u1', roles: ['customer'] }))
+            .toEqual({ allowed: false, statusCode: 403, error: "Access to chatbot profile 'bot' is not permitted." });
+        expect(checkProfileAccess(profile, { id: 'u1' })).toMatchObject({ allowed: false, statusCode: 403 });
+    });
+});
+
+describe('resolvePrincipal', () => {
+    const req = {} as http.IncomingMessage;
+
+    it('should return null when no hook is configured', async () => {
+        await expect(resolvePrincipal(req)).resolves.toBeNull();
+    });
+
+    it('should return the principal from a sync or async hook', async () => {
+        await expect(resolvePrincipal(req, () => ({ id: 'u1' }))).resolves.toEqual({ id: 'u1' });
+        await expect(resolvePrincipal(req, async () => ({ id: 'u2', roles: ['r'] }))).resolves.toEqual({ id: 'u2', roles: ['r'] });
+    });
+
+    it('should normalize undefined to null', async () => {
+        await expect(resolvePrincipal(req, () => undefined)).resolves.toBeNull();
+    });
+
+    it('should reject principals without an id', async () => {
+        await expect(resolvePrincipal(req, () => ({ id: '' }))).rejects.toThrow("authenticate() must return a principal with a non-empty string 'id'");
+    });
+
+    it('should propagate errors thrown by the hook', async () => {
+        await expect(resolvePrincipal(req, () => { throw new Error('bad token'); })).rejects.toThrow('bad token');
+    });
+});
@@ -0,0 +1,54 @@
+import { FileOwnershipGuard } from '../../../src/lib/auth/fileOwnership';
+import { InMemorySessionOwnershipStore } from '../../../src/lib/auth/sessionOwnership';
+
+describe('FileOwnershipGuard', () => {
+    const alice = { id: 'alice' };
+    const bob = { id: 'bob' };
+    const path = 'flow-1/2024_a.png';
+    let now: number;
+    let guard: FileOwnershipGuard;
+
+    beforeEach(() => {
+        now = 0;
+        guard = new FileOwnershipGuard({ store: new InMemorySessionOwnershipStore(() => now), ttlSeconds: 60 });
+    });
+
+    it('should refuse paths that were never uploaded through the proxy', async () => {
+        expect(await guard.canAccess('support', path, { principal: alice })).toBe(false);
+        expect(await guard.canAccess('support', path, {})).toBe(false);
+    });
+
+    it('should give a file only to the principal that uploaded it', async () => {
+        await guard.record('support', path, { principal: alice });
+
+        expect(await guard.canAccess('support', path, { principal: alice, sessionId: 's1' })).toBe(true);
+        expect(await guard.canAccess('support', path, { principal: bob })).toBe(false);
+        expect(await guard.canAccess('support', path, { principal: null })).toBe(false);
+        expect(await guard.canAccess('other', path, { principal: alice })).toBe(false);
+    });
+
+    it('should give a file uploaded for a session only within that session', async () => {
+        await guard.record('support', path, { principal: null, sessionId: 's1' });
+
+        expect(await guard.canAccess('support', path, { sessionId: 's1' })).toBe(true);
+        expect(await guard.canAccess('support', path, { sessionId: 's2' })).toBe(false);
+        expect(await guard.canAccess('support', path, {})).toBe(false);
+    });
+
+    it('should refuse to record an anonymous upload without a session, and refuse unbound records', async () => {
+        const store = new InMemorySessionOwnershipStore(() => now);
+        guard = new FileOwnershipGuard({ store, ttlSeconds: 60 });
+
+        await expect(guard.record('support', path, { principal: null })).rejects.toThrow("FileOwnershipGuard: An anonymous upload must name a session.");
+        await store.setOwner(`file::support::${path}`, JSON.stringify({}), 60_000);
+
+        expect(await guard.canAccess('support', path, {})).toBe(false);
+    });
+
+    it('should release a file once its ownership expires', async () => {
+        await guard.record('support', path, { principal: alice });
+        now = 60_000;
+
+        expect(await guard.canAccess('support', path, { principal: alice })).toBe(false);
+    });
+});
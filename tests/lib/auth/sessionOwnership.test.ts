@@ -0,0 +1,80 @@
+import { InMemorySessionOwnershipStore, SessionOwnershipGuard } from '../../../src/lib/auth/sessionOwnership';
+
+describe('InMemorySessionOwnershipStore', () => {
+    let now: number;
+    let store: InMemorySessionOwnershipStore;
+
+    beforeEach(() => {
+        now = 1_000;
+        store = new InMemorySessionOwnershipStore(() => now);
+    });
+
+    it('should return the owner until the TTL elapses', async () => {
+        await store.setOwner('k', 'alice', 500);
+        now = 1_499;
+        expect(await store.getOwner('k')).toBe('alice');
+        now = 1_500;
+        expect(await store.getOwner('k')).toBeUndefined();
+        expect(store.size).toBe(0);
+    });
+
+    it('should sweep expired records periodically on write', async () => {
+        await store.setOwner('old', 'alice', 10);
+        now = 2_000;
+        for (let i = 0; i < 499; i++) {
+            await store.setOwner(`k${i}`, 'bob', 10_000);
+        }
+        expect(store.size).toBe(499);
+    });
+});
+
+describe('SessionOwnershipGuard', () => {
+    const alice = { id: 'alice' };
+    const bob = { id: 'bob' };
+    let now: number;
+    let guard: SessionOwnershipGuard;
+
+    beforeEach(() => {
+        now = 0;
+        guard = new SessionOwnershipGuard({ store: new InMemorySessionOwnershipStore(() => now), ttlSeconds: 60 });
+    });
+
+    it('should allow anyone to access an unowned session', async () => {
+        expect(await guard.canAccess('bot', 's1', null)).toBe(true);
+        expect(await guard.canAccess('bot', 's1', alice)).toBe(true);
+    });
+
+    it('should restrict a claimed session to its owner', async () => {
+        await guard.claim('bot', 's1', alice);
+        expect(await guard.canAccess('bot', 's1', alice)).toBe(true);
+        expect(await guard.canAccess('bot', 's1', bob)).toBe(false);
+        expect(await guard.canAccess('bot', 's1', null)).toBe(false);
+    });
+
+    it('should scope ownership to the profile', async () => {
+        await guard.claim('bot', 's1', alice);
+        expect(await guard.canAccess('other-bot', 's1', bob)).toBe(true);
+    });
+
+    it('should not let another principal take over an owned session', async () => {
+        await guard.claim('bot', 's1', alice);
+        await guard.claim('bot', 's1', bob);
+        expect(await guard.canAccess('bot', 's1', alice)).toBe(true);
+        expect(await guard.canAccess('bot', 's1', bob)).toBe(false);
+    });
+
+    it('should never bind sessions to anonymous callers', async () => {
+        await guard.claim('bot', 's1', null);
+        expect(await guard.canAccess('bot', 's1', alice)).toBe(true);
+    });
+
+    it('should release the session after the TTL and refresh it on activity', async () => {
+        await guard.claim('bot', 's1', alice);
+        now = 50_000;
+        await guard.claim('bot', 's1', alice);
+        now = 100_000;
+        expect(await guard.canAccess('bot', 's1', bob)).toBe(false);
+        now = 110_000;
+        expect(await guard.canAccess('bot', 's1', bob)).toBe(true);
+    });
+});
@@ -0,0 +1,291 @@
+import http from 'http';
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+import { handleChatSocketConnection, ChatSocketContext, MAX_CONCURRENT_CHAT_SOCKET_REQUESTS } from '../../src/lib/chatSocket';
+import { Profile } from '../../src/types';
+import { CircuitBreaker } from '../../src/lib/langflow/circuitBreaker';
+import { ProxyMetrics } from '../../src/lib/metrics';
+
+const createProfile = (overrides: Partial<Profile['server']> = {}): Profile => ({
+    profileId: 'support',
+    server: { flowId: 'flow-uuid', enableStream: true, ...overrides },
+    chatbot: {},
+} as Profile);
+
+class FakeSocket extends EventEmitter {
+    readyState: number = WebSocket.OPEN;
+    sent: any[] = [];
+    send = jest.fn((data: string) => { this.sent.push(JSON.parse(data)); });
+
+    receive(frame: unknown): void {
+        this.emit('message', Buffer.from(typeof frame === 'string' ? frame : JSON.stringify(frame)));
+    }
+}
+
+/** Lets queued promise callbacks run, so frames sent in response to a message are recorded. */
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+async function* events(...items: any[]) {
+    for (const item of items) {
+        yield item;
+    }
+}
+
+describe('handleChatSocketConnection', () => {
+    let socket: FakeSocket;
+    let mockFlow: { stream: jest.Mock };
+    let profiles: Map<string, Profile>;
+    let context: ChatSocketContext;
+    const req = { headers: {}, socket: { remoteAddress: '127.0.0.1' } } as unknown as http.IncomingMessage;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        socket = new FakeSocket();
+        mockFlow = { stream: jest.fn() };
+        profiles = new Map([['support', createProfile()]]);
+        context = {
+            getProfiles: () => profiles,
+            getOptions: () => ({}),
+            langflowClient: { flow: jest.fn(() => mockFlow) } as any,
+        };
+        handleChatSocketConnection(socket as unknown as WebSocket, req, context);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should relay the flow stream tagged with the requestId', async () => {
+        mockFlow.stream.mockResolvedValueOnce(events(
+            { event: 'token', data: { chunk: 'Hi' } },
+            { event: 'end', data: { result: { session_id: 's1' } } },
+        ));
+
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello', sessionId: 's1' });
+        await settle();
+
+        expect(context.langflowClient!.flow).toHaveBeenCalledWith('flow-uuid');
+        expect(mockFlow.stream).toHaveBeenCalledWith('hello', expect.objectContaining({ input_type: 'chat', session_id: 's1', signal: expect.any(AbortSignal) }));
+        expect(socket.sent).toEqual([
+            { requestId: 'r1', event: 'token', data: { chunk: 'Hi' } },
+            { requestId: 'r1', event: 'end', data: { result: { session_id: 's1' } } },
+        ]);
+    });
+
+    it("should hand attached files to the flow's Chat Input component", async () => {
+        profiles.set('support', createProfile({ attachments: { chatInputId: 'ChatInput-1' } }));
+        mockFlow.stream.mockResolvedValueOnce(events({ event: 'end', data: { result: { session_id: 's1' } } }));
+
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello', files: ['flow-uuid/a.png'] });
+        await settle();
+
+        expect(mockFlow.stream).toHaveBeenCalledWith('hello', expect.objectContaining({ tweaks: { 'ChatInput-1': { files: ['flow-uuid/a.png'] } } }));
+    });
+
+    it('should refuse files of another flow with a 400 error event', async () => {
+        profiles.set('support', createProfile({ attachments: {} }));
+
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello', files: ['other-flow/a.png'] });
+        await settle();
+
+        expect(mockFlow.stream).not.toHaveBeenCalled();
+        expect(socket.sent).toEqual([
+            { requestId: 'r1', event: 'error', data: { code: 400, message: "Attachments must be files uploaded for this chatbot profile." } },
+        ]);
+    });
+
+    it('should serve concurrent requests on one socket', async () => {
+        let releaseFirst!: () => void;
+        const firstGate = new Promise<void>(resolve => { releaseFirst = resolve; });
+        mockFlow.stream
+            .mockImplementationOnce(async () => (async function* () {
+                await firstGate;
+                yield { event: 'end', data: { result: {} } };
+            })())
+            .mockResolvedValueOnce(events({ event: 'end', data: { result: {} } }));
+
+        socket.receive({ type: 'chat', requestId: 'slow', profileId: 'support', message: 'one' });
+        socket.receive({ type: 'chat', requestId: 'fast', profileId: 'support', message: 'two' });
+        await settle();
+        expect(socket.sent.map(frame => frame.requestId)).toEqual(['fast']);
+
+        releaseFirst();
+        await settle();
+        expect(socket.sent.map(frame => frame.requestId)).toEqual(['fast', 'slow']);
+    });
+
+    it('should refuse requests beyond the per-socket limit with a 429 error event until one finishes', async () => {
+        let releaseFirst!: () => void;
+        const firstGate = new Promise<void>(resolve => { releaseFirst = resolve; });
+        mockFlow.stream
+            .mockImplementationOnce(async () => (async function* () {
+                await firstGate;
+                yield { event: 'end', data: { result: {} } };
+            })())
+            .mockImplementation(async () => (async function* () {
+                await new Promise(() => {});
+            })());
+
+        for (let i = 0; i <= MAX_CONCURRENT_CHAT_SOCKET_REQUESTS; i++) {
+            socket.receive({ type: 'chat', requestId: `r${i}`, profileId: 'support', message: 'hello' });
+        }
+        await settle();
+
+        expect(mockFlow.stream).toHaveBeenCalledTimes(MAX_CONCURRENT_CHAT_SOCKET_REQUESTS);
+        expect(socket.sent).toEqual([
+            { requestId: `r${MAX_CONCURRENT_CHAT_SOCKET_REQUESTS}`, event: 'error', data: expect.objectContaining({ code: 429, message: "Too many requests in progress on this connection." }) },
+        ]);
+
+        releaseFirst();
+        await settle();
+        socket.receive({ type: 'chat', requestId: 'next', profileId: 'support', message: 'hello' });
+        await settle();
+
+        expect(mockFlow.stream).toHaveBeenCalledTimes(MAX_CONCURRENT_CHAT_SOCKET_REQUESTS + 1);
+    });
+
+    it('should abort the flow stream and report cancelled when a cancel frame arrives', async () => {
+        let streamSignal!: AbortSignal;
+        mockFlow.stream.mockImplementationOnce(async (_message: string, options: any) => {
+            streamSignal = options.signal;
+            return (async function* () {
+                yield { event: 'token', data: { chunk: 'partial' } };
+                await new Promise(resolve => streamSignal.addEventListener('abort', resolve));
+                yield { event: 'token', data: { chunk: 'never sent' } };
+            })();
+        });
+
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello' });
+        await settle();
+        socket.receive({ type: 'cancel', requestId: 'r1' });
+        await settle();
+
+        expect(streamSignal.aborted).toBe(true);
+        expect(socket.sent).toEqual([
+            { requestId: 'r1', event: 'token', data: { chunk: 'partial' } },
+            { requestId: 'r1', event: 'cancelled' },
+        ]);
+    });
+
+    it('should count a cancelled request and release its active stream', async () => {
+        const metrics = new ProxyMetrics();
+        context.getOptions = () => ({ metrics });
+        mockFlow.stream.mockImplementationOnce(async (_message: string, options: any) => (async function* () {
+            yield { event: 'token', data: { chunk: 'partial' } };
+            await new Promise(resolve => options.signal.addEventListener('abort', resolve));
+            yield { event: 'token', data: { chunk: 'never sent' } };
+        })());
+
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello' });
+        await settle();
+        expect(metrics.render()).toContain('langflow_chatbot_active_streams{profile="support"} 1');
+        socket.receive({ type: 'cancel', requestId: 'r1' });
+        await settle();
+
+        const text = metrics.render();
+        expect(text).toContain('langflow_chatbot_time_to_first_token_seconds_count{profile="support"} 1');
+        expect(text).toContain('langflow_chatbot_chat_requests_total{profile="support",mode="stream",outcome="cancelled"} 1');
+        expect(text).toContain('langflow_chatbot_active_streams{profile="support"} 0');
+    });
+
+    it('should tag log entries with the connection and request ids', async () => {
+        const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+        const taggedSocket = new FakeSocket();
+        context.getOptions = () => ({ logger });
+        const upgradeReq = { headers: { 'x-request-id': 'conn-1' }, socket: { remoteAddress: '127.0.0.1' } } as unknown as http.IncomingMessage;
+        handleChatSocketConnection(taggedSocket as unknown as WebSocket, upgradeReq, context);
+        mockFlow.stream.mockResolvedValueOnce(events({ event: 'end', data: { result: {} } }));
+
+        taggedSocket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello', sessionId: 's1' });
+        await settle();
+
+        expect(logger.info).toHaveBeenCalledWith(expect.stringContaining("ChatSocket: Streaming request 'r1'"), {
+            requestId: 'conn-1:r1',
+            route: 'ws',
+            profileId: 'support',
+            sessionId: 's1',
+        });
+    });
+
+    it('should abort running requests when the socket closes', async () => {
+        let streamSignal!: AbortSignal;
+        mockFlow.stream.mockImplementationOnce(async (_message: string, options: any) => {
+            streamSignal = options.signal;
+            return (async function* () {
+                await new Promise(resolve => streamSignal.addEventListener('abort', resolve));
+            })();
+        });
+
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello' });
+        await settle();
+        socket.emit('close');
+
+        expect(streamSignal.aborted).toBe(true);
+    });
+
+    it.each([
+        ['an unknown profile', { profileId: 'missing' }, 404],
+        ['a missing message', { message: undefined }, 400],
+    ])('should answer %s with an error event', async (_case, overrides, code) => {
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello', ...overrides });
+        await settle();
+
+        expect(socket.sent).toEqual([{ requestId: 'r1', event: 'error', data: expect.objectContaining({ code }) }]);
+        expect(mockFlow.stream).not.toHaveBeenCalled();
+    });
+
+    it('should refuse anonymous callers for protected profiles', async () => {
+        profiles.set('support', createProfile({ access: 'authenticated' }));
+
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello' });
+        await settle();
+
+        expect(socket.sent).toEqual([{ requestId: 'r1', event: 'error', data: expect.objectContaining({ code: 401, message: "Authentication required." }) }]);
+    });
+
+    it('should refuse requests with a 503 error event while the circuit is open', async () => {
+        const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 30000 });
+        circuitBreaker.recordFailure();
+        context.getOptions = () => ({ circuitBreaker });
+
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello' });
+        await settle();
+
+        expect(socket.sent).toEqual([{ requestId: 'r1', event: 'error', data: expect.objectContaining({ code: 503, retryAfterSeconds: 30 }) }]);
+        expect(mockFlow.stream).not.toHaveBeenCalled();
+    });
+
+    it('should refuse profiles whose streaming is disabled', async () => {
+        profiles.set('support', createProfile({ enableStream: false }));
+
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello' });
+        await settle();
+
+        expect(socket.sent[0].data).toEqual(expect.objectContaining({ code: 400, message: "Streaming is disabled for this chatbot profile." }));
+    });
+
+    it('should answer frames that cannot be attributed to a request without a requestId', async () => {
+        socket.receive('not json');
+        socket.receive({ type: 'chat' });
+        await settle();
+
+        expect(socket.sent).toEqual([
+            { event: 'error', data: expect.objectContaining({ code: 400, message: "Frames must be JSON objects." }) },
+            { event: 'error', data: expect.objectContaining({ code: 400, message: "Frames must carry a non-empty string requestId." }) },
+        ]);
+    });
+
+    it('should reject a requestId that is already in progress', async () => {
+        mockFlow.stream.mockImplementationOnce(async () => (async function* () {
+            await new Promise(() => {});
+        })());
+
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'hello' });
+        socket.receive({ type: 'chat', requestId: 'r1', profileId: 'support', message: 'again' });
+        await settle();
+
+        expect(socket.sent).toEqual([{ requestId: 'r1', event: 'error', data: expect.objectContaining({ code: 409 }) }]);
+    });
+});
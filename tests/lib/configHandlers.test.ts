@@ -61,6 +61,7 @@ describe('configHandlers', () => {
                 server: { 
                     flowId: 'uuid-flow-two', 
                     // enableStream can be omitted, defaults will apply
+                    status: 'unavailable',
                 },
                 chatbot: { 
                     labels: {}, // widgetTitle is optional, so labels.widgetTitle will be undefined
@@ -88,6 +89,15 @@ describe('configHandlers', () => {
             expect(mockConsoleLog).toHaveBeenCalledWith(`RequestHandler: Received GET request for chatbot configuration: '${targetProfileId}'`);
         });
 
+        test('should include the attachment limits with defaults, but not the Chat Input component', async () => {
+            mockConfigurations.get('profile1')!.server.attachments = { maxFiles: 2, allowedTypes: ['image/*'], chatInputId: 'ChatInput-1' };
+
+            await handleGetChatbotConfigRequest('profile1', mockRes, mockConfigurations, mockProxyApiBasePath);
+
+            const body = JSON.parse((mockRes.end as jest.Mock).mock.calls[0][0]);
+            expect(body.attachments).toEqual({ maxFileBytes: 10 * 1024 * 1024, maxFiles: 2, allowedTypes: ['image/*'] });
+        });
+
         test('should call sendJsonError with 404 if profileId does not exist', async () => {
             const targetProfileId = 'non-existent-profile';
             await handleGetChatbotConfigRequest(targetProfileId, mockRes, mockConfigurations, mockProxyApiBasePath);
@@ -99,7 +109,7 @@ describe('configHandlers', () => {
     });
 
     describe('handleListChatbotProfilesRequest', () => {
-        test('should return 200 and a list of profiles with widgetTitle (defaulting to profileId if missing)', async () => {
+        test('should return 200 and a list of profiles with widgetTitle (defaulting to profileId if missing) and status', async () => {
             const mockReq = {} as http.IncomingMessage;
             await handleListChatbotProfilesRequest(mockReq, mockRes, mockConfigurations);
 
@@ -110,10 +120,12 @@ describe('configHandlers', () => {
                 {
                     profileId: 'profile1',
                     widgetTitle: mockConfigurations.get('profile1')?.chatbot?.labels?.widgetTitle, // 'Chatbot One'
+                    status: 'available',
                 },
                 {
                     profileId: 'profile2',
                     widgetTitle: 'profile2', // Defaults to profileId as chatbot.labels.widgetTitle is undefined
+                    status: 'unavailable',
                 },
             ];
 
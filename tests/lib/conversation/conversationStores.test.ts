@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConversationMessage, ConversationStore } from '../../../src/lib/conversation/ConversationStore';
+import { InMemoryConversationStore } from '../../../src/lib/conversation/InMemoryConversationStore';
+import { JsonFileConversationStore } from '../../../src/lib/conversation/JsonFileConversationStore';
+
+const message = (overrides: Partial<ConversationMessage>): ConversationMessage => ({
+    id: 'id',
+    profileId: 'profile-a',
+    flowId: 'flow-1',
+    sessionId: 'session-1',
+    sender: 'User',
+    text: 'hello',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+const sharedBehaviour = (name: string, createStore: () => ConversationStore) => {
+    describe(`${name} (shared behaviour)`, () => {
+        it('should return an empty list for unknown conversations', async () => {
+            expect(await createStore().getMessages('profile-a', 'missing')).toEqual([]);
+        });
+
+        it('should return messages in append order, grouped by profile and session', async () => {
+            const store = createStore();
+            await store.appendMessages([message({ id: '1' }), message({ id: '2', sender: 'Machine', text: 'hi' })]);
+            await store.appendMessages([message({ id: '3', sessionId: 'session-2' }), message({ id: '4', profileId: 'profile-b' })]);
+            await store.appendMessages([message({ id: '5' })]);
+
+            expect((await store.getMessages('profile-a', 'session-1')).map(m => m.id)).toEqual(['1', '2', '5']);
+            expect((await store.getMessages('profile-a', 'session-2')).map(m => m.id)).toEqual(['3']);
+            expect((await store.getMessages('profile-b', 'session-1')).map(m => m.id)).toEqual(['4']);
+        });
+
+        it('should not expose its internal records to mutation', async () => {
+            const store = createStore();
+            await store.appendMessages([message({ id: '1' })]);
+            (await store.getMessages('profile-a', 'session-1'))[0].text = 'changed';
+            expect((await store.getMessages('profile-a', 'session-1'))[0].text).toBe('hello');
+        });
+    });
+};
+
+sharedBehaviour('InMemoryConversationStore', () => new InMemoryConversationStore());
+
+describe('JsonFileConversationStore', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'conversation-store-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    sharedBehaviour('JsonFileConversationStore', () => new JsonFileConversationStore(path.join(tmpDir, `store-${Math.random()}.json`)));
+
+    it('should persist conversations so a new instance can read them, creating missing directories', async () => {
+        const filePath = path.join(tmpDir, 'nested', 'conversations.json');
+        await new JsonFileConversationStore(filePath).appendMessages([message({ id: '1' })]);
+
+        expect(fs.existsSync(filePath)).toBe(true);
+        const reloaded = await new JsonFileConversationStore(filePath).getMessages('profile-a', 'session-1');
+        expect(reloaded).toEqual([message({ id: '1' })]);
+    });
+
+    it('should serialize concurrent appends without losing messages', async () => {
+        const filePath = path.join(tmpDir, 'conversations.json');
+        const store = new JsonFileConversationStore(filePath);
+        await Promise.all([1, 2, 3, 4, 5].map(i => store.appendMessages([message({ id: String(i) })])));
+
+        const reloaded = await new JsonFileConversationStore(filePath).getMessages('profile-a', 'session-1');
+        expect(reloaded.map(m => m.id)).toEqual(['1', '2', '3', '4', '5']);
+    });
+
+    it('should reject with a descriptive error when the file is not valid JSON', async () => {
+        const filePath = path.join(tmpDir, 'broken.json');
+        fs.writeFileSync(filePath, '{ not json');
+        await expect(new JsonFileConversationStore(filePath).getMessages('profile-a', 'session-1'))
+            .rejects.toThrow(`JsonFileConversationStore: Could not read conversation file at ${filePath}`);
+    });
+});
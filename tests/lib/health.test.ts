@@ -0,0 +1,93 @@
+import http from 'http';
+import { cachePing, handleLivenessRequest, handleReadinessRequest, pingLangflow, ReadinessReport } from '../../src/lib/health';
+
+const createMockResponse = () => ({ setHeader: jest.fn(), end: jest.fn(), statusCode: 200 } as unknown as http.ServerResponse);
+
+describe('pingLangflow', () => {
+    const originalFetch = global.fetch;
+    let mockFetch: jest.Mock;
+
+    beforeEach(() => {
+        mockFetch = jest.fn();
+        global.fetch = mockFetch;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('should GET Langflow\'s health endpoint once and report success', async () => {
+        mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+        const result = await pingLangflow('http://langflow:7860/base/', { retries: 3 });
+
+        expect(result).toEqual({ ok: true, latencyMs: expect.any(Number) });
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(mockFetch).toHaveBeenCalledWith('http://langflow:7860/health', expect.objectContaining({ method: 'GET' }));
+    });
+
+    it('should report an error status without retrying', async () => {
+        mockFetch.mockResolvedValue({ ok: false, status: 503 });
+
+        const result = await pingLangflow('http://langflow:7860');
+
+        expect(result).toEqual({ ok: false, latencyMs: expect.any(Number), error: 'Langflow answered with status 503.' });
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a network error', async () => {
+        mockFetch.mockRejectedValue(new Error('ECONNREFUSED'));
+
+        await expect(pingLangflow('http://langflow:7860')).resolves.toEqual({ ok: false, latencyMs: expect.any(Number), error: 'ECONNREFUSED' });
+    });
+});
+
+describe('cachePing', () => {
+    it('should reuse an outcome until ttlMs has passed, sharing a ping in flight', async () => {
+        let clock = 0;
+        const ping = jest.fn().mockResolvedValue({ ok: true, latencyMs: 3 });
+        const cached = cachePing(ping, 5000, () => clock);
+
+        await Promise.all([cached(), cached()]);
+        clock = 4999;
+        await expect(cached()).resolves.toEqual({ ok: true, latencyMs: 3 });
+        expect(ping).toHaveBeenCalledTimes(1);
+
+        clock = 5000;
+        await cached();
+        expect(ping).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('probe handlers', () => {
+    const report = (status: ReadinessReport['status']): ReadinessReport => ({
+        status,
+        checks: {
+            initialization: { ok: true, state: 'complete' },
+            flowMapper: { ok: true, flows: 1 },
+            profiles: { total: 1, resolved: 1, unresolved: 0 },
+            langflow: { ok: status === 'ready', latencyMs: 3 },
+        },
+    });
+
+    it('should answer the liveness probe with 200', () => {
+        const res = createMockResponse();
+
+        handleLivenessRequest(res);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.setHeader).toHaveBeenCalledWith('Cache-Control', 'no-store');
+        expect(res.end).toHaveBeenCalledWith(JSON.stringify({ status: 'ok' }));
+    });
+
+    it('should answer the readiness probe with 200 when ready and 503 otherwise', async () => {
+        const ready = createMockResponse();
+        await handleReadinessRequest(ready, async () => report('ready'));
+        expect(ready.statusCode).toBe(200);
+        expect(ready.end).toHaveBeenCalledWith(JSON.stringify(report('ready')));
+
+        const notReady = createMockResponse();
+        await handleReadinessRequest(notReady, async () => report('not_ready'));
+        expect(notReady.statusCode).toBe(503);
+    });
+});
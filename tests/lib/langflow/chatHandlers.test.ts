@@ -2,6 +2,12 @@ import http from 'http';
 import { LangflowClient } from '@datastax/langflow-client';
 import { handleChatMessageRequest } from '../../../src/lib/langflow/chatHandlers';
 import * as requestUtils from '../../../src/lib/request-utils';
+import { SessionOwnershipGuard } from '../../../src/lib/auth/sessionOwnership';
+import { FileOwnershipGuard } from '../../../src/lib/auth/fileOwnership';
+import { RateLimiter } from '../../../src/lib/rateLimiter';
+import { CircuitBreaker, CIRCUIT_OPEN_DETAIL, CIRCUIT_OPEN_ERROR } from '../../../src/lib/langflow/circuitBreaker';
+import { ProxyMetrics } from '../../../src/lib/metrics';
+import { ReplyExtractorRegistry } from '../../../src/lib/langflow/replyExtractors';
 
 // Mocks
 jest.mock('@datastax/langflow-client');
@@ -110,6 +116,7 @@ describe('handleChatMessageRequest', () => {
                 input_type: 'chat',
                 output_type: 'chat',
                 session_id: preParsed.sessionId,
+                signal: expect.any(AbortSignal),
             });
             expect(res.statusCode).toBe(200);
         });
@@ -122,12 +129,13 @@ describe('handleChatMessageRequest', () => {
             await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed);
             
             expect(mockParseJsonBody).toHaveBeenCalledTimes(1);
-            expect(mockParseJsonBody).toHaveBeenCalledWith(req);
+            expect(mockParseJsonBody).toHaveBeenCalledWith(req, undefined);
             expect(mockLangflowInstance.flow).toHaveBeenCalledWith(flowId);
             expect(mockFlow.run).toHaveBeenCalledWith(parsedBodyByFunc.message, {
                 input_type: 'chat',
                 output_type: 'chat',
                 session_id: parsedBodyByFunc.sessionId,
+                signal: expect.any(AbortSignal),
             });
             expect(res.statusCode).toBe(200);
         });
@@ -140,11 +148,12 @@ describe('handleChatMessageRequest', () => {
             await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), undefined, true);
             
             expect(mockParseJsonBody).toHaveBeenCalledTimes(1);
-            expect(mockParseJsonBody).toHaveBeenCalledWith(req);
+            expect(mockParseJsonBody).toHaveBeenCalledWith(req, undefined);
             expect(mockFlow.run).toHaveBeenCalledWith(parsedBodyByFunc.message, {
                 input_type: 'chat',
                 output_type: 'chat',
                 session_id: parsedBodyByFunc.sessionId,
+                signal: expect.any(AbortSignal),
             });
         });
     });
@@ -198,6 +207,7 @@ describe('handleChatMessageRequest', () => {
                 input_type: 'chat',
                 output_type: 'chat',
                 session_id: clientSessionId,
+                signal: expect.any(AbortSignal),
             });
             expect(res.statusCode).toBe(200);
             expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'application/json');
@@ -210,6 +220,7 @@ describe('handleChatMessageRequest', () => {
             expect(mockFlow.run).toHaveBeenCalledWith(userMessage, {
                 input_type: 'chat',
                 output_type: 'chat',
+                signal: expect.any(AbortSignal),
             });
             expect(mockFlow.run.mock.calls[0][1].session_id).toBeUndefined();
         });
@@ -443,6 +454,58 @@ describe('handleChatMessageRequest', () => {
             expect(mockSendJsonError).toHaveBeenCalledWith(res, 500, "Failed to process chat message.", error.message);
         });
 
+        it('should abort the Langflow run and send nothing when the client disconnects', async () => {
+            let onClose!: () => void;
+            (res as any).once = jest.fn((event: string, listener: () => void) => {
+                if (event === 'close') onClose = listener;
+            });
+            mockFlow.run.mockImplementationOnce((_message: string, options: any) => new Promise((_resolve, reject) => {
+                options.signal.addEventListener('abort', () => reject(new Error('This operation was aborted')));
+                onClose();
+            }));
+            const consoleSpy = jest.spyOn(console, 'log');
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed);
+
+            expect(mockSendJsonError).not.toHaveBeenCalled();
+            expect(res.end).not.toHaveBeenCalled();
+            expect(consoleSpy).toHaveBeenCalledWith(`RequestHandler: Client disconnected; cancelled the Langflow run for flow '${flowId}'.`);
+            consoleSpy.mockRestore();
+        });
+
+        it('should abort a run that exceeds the profile timeout and answer 504', async () => {
+            jest.useFakeTimers();
+            try {
+                let runSignal!: AbortSignal;
+                mockFlow.run.mockImplementationOnce((_message: string, options: any) => new Promise((_resolve, reject) => {
+                    runSignal = options.signal;
+                    runSignal.addEventListener('abort', () => reject(new Error('This operation was aborted')));
+                }));
+
+                const handled = handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { upstream: { responseTimeoutMs: 5000 } });
+                await jest.advanceTimersByTimeAsync(4999);
+                expect(mockSendJsonError).not.toHaveBeenCalled();
+                await jest.advanceTimersByTimeAsync(1);
+                await handled;
+
+                expect(runSignal.aborted).toBe(true);
+                expect(mockSendJsonError).toHaveBeenCalledWith(res, 504, "Langflow did not respond in time.", "No response from Langflow within 5000 ms (flow run).");
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('should not time out runs that finish in time', async () => {
+            jest.useFakeTimers();
+            try {
+                await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { upstream: { responseTimeoutMs: 5000 } });
+                expect(jest.getTimerCount()).toBe(0);
+                expect(res.statusCode).toBe(200);
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
         it('should handle error during flow.run and not send error if headers already sent', async () => {
             const error = new Error("Langflow run failed");
             mockFlow.run.mockRejectedValueOnce(error);
@@ -503,6 +566,77 @@ describe('handleChatMessageRequest', () => {
             expect(res.setHeader).toHaveBeenCalledWith('Transfer-Encoding', 'chunked');
         });
 
+        it('should send Server-Sent Events when the client accepts text/event-stream', async () => {
+            req.headers.accept = 'text/event-stream';
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed);
+
+            expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream; charset=utf-8');
+            expect(res.setHeader).not.toHaveBeenCalledWith('Content-Type', 'application/x-ndjson');
+            for (const event of mockStreamEvents) {
+                expect(res.write).toHaveBeenCalledWith(`event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`);
+            }
+            expect(res.end).toHaveBeenCalled();
+        });
+
+        it('should report mid-stream errors as an SSE error event', async () => {
+            req.headers.accept = 'text/event-stream';
+            async function* errorStreamGenerator() {
+                yield mockStreamEvents[0];
+                throw new Error("Mid-stream error");
+            }
+            mockFlow.stream.mockImplementationOnce(() => errorStreamGenerator());
+            Object.defineProperty(res, 'headersSent', { value: true, configurable: true });
+
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed);
+
+            expect(res.write).toHaveBeenCalledWith(`event: error\ndata: ${JSON.stringify({ message: "Error during streaming.", detail: "Mid-stream error" })}\n\n`);
+            expect(res.end).toHaveBeenCalled();
+        });
+
+        it('should answer 504 when the flow stream does not open within connectTimeoutMs', async () => {
+            jest.useFakeTimers();
+            try {
+                let streamSignal!: AbortSignal;
+                mockFlow.stream.mockImplementationOnce((_message: string, options: any) => {
+                    streamSignal = options.signal;
+                    return new Promise(() => {});
+                });
+
+                const handled = handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { upstream: { connectTimeoutMs: 2000 } });
+                await jest.advanceTimersByTimeAsync(2000);
+                await handled;
+
+                expect(streamSignal.aborted).toBe(true);
+                expect(mockSendJsonError).toHaveBeenCalledWith(res, 504, "Langflow did not respond in time.", "No response from Langflow within 2000 ms (flow stream).");
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('should abort a stream that goes quiet for responseTimeoutMs and end it with the timeout error', async () => {
+            jest.useFakeTimers();
+            try {
+                let streamSignal!: AbortSignal;
+                mockFlow.stream.mockImplementationOnce(async (_message: string, options: any) => {
+                    streamSignal = options.signal;
+                    return (async function* () {
+                        yield mockStreamEvents[1];
+                        await new Promise(() => {}); // Langflow stops sending events.
+                    })();
+                });
+
+                const handled = handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { upstream: { responseTimeoutMs: 3000 } });
+                await jest.advanceTimersByTimeAsync(3000);
+                await handled;
+
+                expect(streamSignal.aborted).toBe(true);
+                expect(res.write).toHaveBeenCalledWith(`${JSON.stringify({ event: 'error', data: { message: "Langflow did not respond in time.", detail: "No response from Langflow within 3000 ms (flow stream)." } })}\n`);
+                expect(res.end).toHaveBeenCalled();
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
         it('should call Langflow flow.stream with correct parameters', async () => {
             await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed);
             expect(mockLangflowInstance.flow).toHaveBeenCalledWith(flowId);
@@ -510,7 +644,34 @@ describe('handleChatMessageRequest', () => {
                 input_type: 'chat',
                 output_type: 'chat',
                 session_id: clientSessionId,
+                signal: expect.any(AbortSignal),
+            });
+        });
+
+        it('should abort the Langflow stream when the client disconnects', async () => {
+            let onClose!: () => void;
+            (res as any).once = jest.fn((event: string, listener: () => void) => {
+                if (event === 'close') onClose = listener;
             });
+            let streamSignal!: AbortSignal;
+            mockFlow.stream.mockImplementationOnce(async (_message: string, options: any) => {
+                streamSignal = options.signal;
+                return (async function* () {
+                    yield mockStreamEvents[1];
+                    onClose(); // The client goes away mid-reply.
+                    yield mockStreamEvents[2];
+                })();
+            });
+            const mockConversationStore = { appendMessages: jest.fn() };
+            const consoleSpy = jest.spyOn(console, 'log');
+
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { conversationStore: mockConversationStore as any });
+
+            expect(streamSignal.aborted).toBe(true);
+            expect(res.write).toHaveBeenCalledTimes(1);
+            expect(mockConversationStore.appendMessages).not.toHaveBeenCalled();
+            expect(consoleSpy).toHaveBeenCalledWith(`RequestHandler: Client disconnected; cancelled the Langflow stream for flow '${flowId}'.`);
+            consoleSpy.mockRestore();
         });
 
         it('should write each event from the stream to the response', async () => {
@@ -609,19 +770,527 @@ describe('handleChatMessageRequest', () => {
 
     });
 
-});
+    describe('Conversation recording', () => {
+        let conversationStore: { appendMessages: jest.Mock; getMessages: jest.Mock };
+        const profileId = 'test-profile';
+
+        async function* mockStreamGenerator(events: any[]) {
+            for (const event of events) {
+                yield event;
+            }
+        }
+
+        beforeEach(() => {
+            conversationStore = { appendMessages: jest.fn().mockResolvedValue(undefined), getMessages: jest.fn() };
+        });
+
+        it('should record the user message and reply of a non-streaming exchange', async () => {
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId, conversationStore });
+
+            expect(conversationStore.appendMessages).toHaveBeenCalledWith([
+                expect.objectContaining({ profileId, flowId, sessionId: mockLangflowRunResponse.sessionId, sender: 'User', text: userMessage }),
+                expect.objectContaining({ profileId, flowId, sessionId: mockLangflowRunResponse.sessionId, sender: 'Machine', text: "Hello! How can I assist you today?" }),
+            ]);
+        });
+
+        it('should record the concatenated tokens of a streamed reply using the session from the end event', async () => {
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, stream: true });
+            mockFlow.stream.mockImplementation(() => mockStreamGenerator([
+                { event: 'token', data: { chunk: 'Hi ' } },
+                { event: 'token', data: { chunk: 'there' } },
+                { event: 'end', data: { result: { session_id: 'stream-session', outputs: [] } } },
+            ]));
 
-describe('extractReplyFromLangflowResponse (direct tests if needed, though covered by handler tests)', () => {
-    // Minimal tests for direct invocation if complex logic isn't fully covered above
-    // This function is largely tested via handleChatMessageRequest tests for non-streaming cases.
-    // Adding a specific test for an edge case like completely empty or malformed langflowResponse.
-    it('should return default message for null or undefined response', () => {
-        // Accessing the exported function directly would require it to be exported from chatHandlers.ts
-        // For now, this logic is tested via the handleChatMessageRequest tests.
-        // If we export extractReplyFromLangflowResponse, we can test it directly:
-        // expect(extractReplyFromLangflowResponse(null)).toBe("Sorry, I could not process that.");
-        // expect(extractReplyFromLangflowResponse(undefined)).toBe("Sorry, I could not process that.");
-        // expect(extractReplyFromLangflowResponse({})).toBe("Sorry, I could not process that.");
-        // expect(extractReplyFromLangflowResponse({ outputs: [] })).toBe("Sorry, I could not process that.");
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId, conversationStore });
+
+            expect(res.end).toHaveBeenCalled();
+            expect(conversationStore.appendMessages).toHaveBeenCalledWith([
+                expect.objectContaining({ sessionId: 'stream-session', sender: 'User', text: userMessage }),
+                expect.objectContaining({ sessionId: 'stream-session', sender: 'Machine', text: 'Hi there' }),
+            ]);
+        });
+
+        it('should not record a stream that failed', async () => {
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, sessionId: clientSessionId, stream: true });
+            mockFlow.stream.mockRejectedValueOnce(new Error('boom'));
+
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId, conversationStore });
+
+            expect(conversationStore.appendMessages).not.toHaveBeenCalled();
+        });
+
+        it('should log and swallow conversation store failures', async () => {
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            conversationStore.appendMessages.mockRejectedValueOnce(new Error('disk full'));
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId, conversationStore });
+
+            expect(res.statusCode).toBe(200);
+            expect(mockSendJsonError).not.toHaveBeenCalled();
+            expect(consoleErrorSpy).toHaveBeenCalledWith(`RequestHandler: Failed to record exchange for profile '${profileId}', session '${mockLangflowRunResponse.sessionId}':`, expect.any(Error));
+            consoleErrorSpy.mockRestore();
+        });
+    });
+
+    describe('Attachments', () => {
+        const files = [`${flowId}/2024_a.png`];
+        const attachments = { policy: { maxFiles: 2 }, resolveChatInputId: jest.fn().mockResolvedValue('ChatInput-1') };
+
+        beforeEach(() => {
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+            jest.spyOn(console, 'error').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            (console.warn as jest.Mock).mockRestore();
+            (console.error as jest.Mock).mockRestore();
+        });
+
+        it("should hand the files to the flow's Chat Input component and record them with the user message", async () => {
+            const conversationStore = { appendMessages: jest.fn().mockResolvedValue(undefined), getMessages: jest.fn() };
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, sessionId: clientSessionId, stream: false, files });
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId: 'test-profile', conversationStore, attachments });
+
+            expect(mockFlow.run).toHaveBeenCalledWith(userMessage, expect.objectContaining({ tweaks: { 'ChatInput-1': { files } } }));
+            expect(conversationStore.appendMessages).toHaveBeenCalledWith([
+                expect.objectContaining({ sender: 'User', text: userMessage, files }),
+                expect.not.objectContaining({ files: expect.anything() }),
+            ]);
+        });
+
+        it('should respond 400 to files when the profile does not accept attachments', async () => {
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, stream: false, files });
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed);
+
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 400, "Attachments are not enabled for this chatbot profile.");
+            expect(mockFlow.run).not.toHaveBeenCalled();
+        });
+
+        it('should respond 400 to files of another flow', async () => {
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, stream: true, files: ['other-flow/a.png'] });
+
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { attachments });
+
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 400, "Attachments must be files uploaded for this chatbot profile.");
+            expect(mockFlow.stream).not.toHaveBeenCalled();
+        });
+
+        it('should respond 403 to files uploaded by another caller', async () => {
+            const fileOwnership = new FileOwnershipGuard();
+            await fileOwnership.record('test-profile', files[0], { principal: { id: 'alice' } });
+            const options = { profileId: 'test-profile', attachments, fileOwnership };
+
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, sessionId: clientSessionId, stream: false, files });
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { ...options, principal: { id: 'bob' } });
+
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 403, "Attachments must be files you uploaded.");
+            expect(mockFlow.run).not.toHaveBeenCalled();
+
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, sessionId: clientSessionId, stream: false, files });
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { ...options, principal: { id: 'alice' } });
+
+            expect(mockFlow.run).toHaveBeenCalledWith(userMessage, expect.objectContaining({ tweaks: { 'ChatInput-1': { files } } }));
+        });
+
+        it('should respond 502 when the Chat Input component cannot be found', async () => {
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, stream: false, files });
+            const failing = { policy: {}, resolveChatInputId: jest.fn().mockRejectedValue(new Error("Flow 'test-flow-id' has no Chat Input component to receive attachments.")) };
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { attachments: failing });
+
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 502, "Failed to attach the files to the message.", "Flow 'test-flow-id' has no Chat Input component to receive attachments.");
+            expect(mockFlow.run).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Tweaks', () => {
+        const tweaks = { 'OpenAIModel-a1': { model_name: 'gpt-4o-mini', temperature: 0.2 } };
+
+        beforeEach(() => {
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            (console.warn as jest.Mock).mockRestore();
+        });
+
+        it("should merge the profile's tweaks with the allowlisted tweaks of the client", async () => {
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, stream: false, tweaks: { 'OpenAIModel-a1': { temperature: 0.9 } } });
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { tweaks, clientTweaks: ['OpenAIModel-a1.temperature'] });
+
+            expect(mockFlow.run).toHaveBeenCalledWith(userMessage, expect.objectContaining({ tweaks: { 'OpenAIModel-a1': { model_name: 'gpt-4o-mini', temperature: 0.9 } } }));
+        });
+
+        it("should apply the profile's tweaks to streamed runs", async () => {
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, stream: true });
+            mockFlow.stream.mockImplementation(async function* () { yield { event: 'end', data: { result: {} } }; });
+
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { tweaks });
+
+            expect(mockFlow.stream).toHaveBeenCalledWith(userMessage, expect.objectContaining({ tweaks }));
+        });
+
+        it('should respond 400 to tweaks that are not allowlisted, in both transports', async () => {
+            for (const stream of [false, true]) {
+                mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, stream, tweaks: { 'OpenAIModel-a1': { model_name: 'gpt-4o' } } });
+                await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { tweaks, clientTweaks: ['OpenAIModel-a1.temperature'] });
+            }
+
+            expect(mockSendJsonError).toHaveBeenCalledTimes(2);
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 400, "Tweak 'OpenAIModel-a1.model_name' may not be set by the client.");
+            expect(mockFlow.run).not.toHaveBeenCalled();
+            expect(mockFlow.stream).not.toHaveBeenCalled();
+        });
     });
-}); 
\ No newline at end of file
+
+    describe('Flow input and output types', () => {
+        const textFlowResponse = {
+            sessionId: 'langflow-session',
+            outputs: [{
+                inputs: { input_value: userMessage },
+                outputs: [
+                    { component_id: 'TextOutput-summary', component_display_name: 'Summary', results: { text: { text: 'A summary.' } }, outputs: { text: { message: 'A summary.', type: 'text' } } },
+                    { component_id: 'TextOutput-answer', component_display_name: 'Answer', results: { text: { text: 'The answer.' } }, outputs: { text: { message: 'The answer.', type: 'text' } } },
+                ],
+            }],
+        };
+
+        beforeEach(() => {
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            (console.warn as jest.Mock).mockRestore();
+        });
+
+        it("should run with the profile's input and output types and reply with the selected output", async () => {
+            mockFlow.run.mockResolvedValueOnce(textFlowResponse);
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { inputType: 'text', outputType: 'text', outputComponent: 'TextOutput-answer' });
+
+            expect(mockFlow.run).toHaveBeenCalledWith(userMessage, expect.objectContaining({ input_type: 'text', output_type: 'text' }));
+            expect(res.end).toHaveBeenCalledWith(JSON.stringify({ reply: 'The answer.', sessionId: 'langflow-session' }));
+        });
+
+        it('should select the output by display name and report a missing one', async () => {
+            mockFlow.run.mockResolvedValueOnce(textFlowResponse).mockResolvedValueOnce(textFlowResponse);
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { outputComponent: 'Summary' });
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { outputComponent: 'ChatOutput-1' });
+
+            expect((res.end as jest.Mock).mock.calls.map(call => JSON.parse(call[0]).reply)).toEqual(['A summary.', "Sorry, I could not process that."]);
+            expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("Output component 'ChatOutput-1' is not among the flow's outputs (TextOutput-summary, TextOutput-answer)."));
+        });
+
+        it('should send the selected output with the end event of a stream without tokens and record it', async () => {
+            const conversationStore = { appendMessages: jest.fn().mockResolvedValue(undefined), getMessages: jest.fn() };
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, sessionId: clientSessionId, stream: true });
+            mockFlow.stream.mockImplementation(async function* () { yield { event: 'end', data: { result: textFlowResponse } }; });
+
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId: 'test-profile', conversationStore, outputType: 'text', outputComponent: 'TextOutput-answer' });
+
+            expect(mockFlow.stream).toHaveBeenCalledWith(userMessage, expect.objectContaining({ output_type: 'text' }));
+            expect(res.write).toHaveBeenCalledWith(JSON.stringify({ event: 'end', data: { result: textFlowResponse, flowResponse: { reply: 'The answer.' } } }) + '\n');
+            expect(conversationStore.appendMessages).toHaveBeenCalledWith([
+                expect.objectContaining({ sender: 'User' }),
+                expect.objectContaining({ sender: 'Machine', text: 'The answer.' }),
+            ]);
+        });
+    });
+
+    describe('Reply extractors', () => {
+        it("should read the reply with the profile's extractors and name the one that matched in debug mode", async () => {
+            const replyExtractors = new ReplyExtractorRegistry().resolve({ replyExtractors: [{ path: 'outputs[0].outputs[0].artifacts.message' }] });
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { replyExtractors, debugReplyExtractors: true });
+
+            expect(res.end).toHaveBeenCalledWith(JSON.stringify({ reply: 'Hello from artifacts!', sessionId: mockLangflowRunResponse.sessionId, replyExtractor: 'path:outputs[0].outputs[0].artifacts.message' }));
+        });
+
+        it('should report in debug mode that no extractor matched', async () => {
+            jest.spyOn(console, 'log').mockImplementation(() => {});
+            mockFlow.run.mockResolvedValueOnce({ sessionId: 'empty-session', outputs: [] });
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { debugReplyExtractors: true });
+
+            expect(res.end).toHaveBeenCalledWith(JSON.stringify({ reply: "Sorry, I could not process that.", sessionId: 'empty-session', replyExtractor: null }));
+            (console.log as jest.Mock).mockRestore();
+        });
+    });
+
+    describe('Page context', () => {
+        const context = {
+            fields: { productId: { type: 'string' as const, required: true } },
+            tweaks: { 'Prompt-1.product': '{{productId}}' },
+            messagePrefix: 'Viewing {{productId}}. ',
+        };
+
+        beforeEach(() => {
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            (console.warn as jest.Mock).mockRestore();
+        });
+
+        it('should send the context to the flow but record the message as the user wrote it', async () => {
+            const conversationStore = { appendMessages: jest.fn().mockResolvedValue(undefined), getMessages: jest.fn() };
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, stream: false, context: { productId: 'SKU-1' } });
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId: 'test-profile', conversationStore, context, tweaks: { 'Prompt-1': { template: 'T' } } });
+
+            expect(mockFlow.run).toHaveBeenCalledWith(`Viewing SKU-1. ${userMessage}`, expect.objectContaining({ tweaks: { 'Prompt-1': { template: 'T', product: 'SKU-1' } } }));
+            expect(conversationStore.appendMessages).toHaveBeenCalledWith([
+                expect.objectContaining({ sender: 'User', text: userMessage }),
+                expect.anything(),
+            ]);
+        });
+
+        it('should respond 400 to context that does not match the profile, in both transports', async () => {
+            for (const stream of [false, true]) {
+                mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, stream, context: { productId: 'SKU-1', role: 'admin' } });
+                await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { context });
+            }
+
+            expect(mockSendJsonError).toHaveBeenCalledTimes(2);
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 400, "Context field 'role' is not accepted.");
+            expect(mockFlow.run).not.toHaveBeenCalled();
+            expect(mockFlow.stream).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Message policy', () => {
+        const messagePolicy = { maxMessageLength: 10, maxBodyBytes: 2048, blockedPatterns: ['ignore (all )?previous instructions'] };
+
+        beforeEach(() => {
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            (console.warn as jest.Mock).mockRestore();
+        });
+
+        it('should pass the profile body limit to parseJsonBody', async () => {
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { messagePolicy });
+            expect(mockParseJsonBody).toHaveBeenCalledWith(req, 2048);
+        });
+
+        it('should respond 413 when the body exceeds the limit', async () => {
+            mockParseJsonBody.mockRejectedValueOnce(new Error('Request body too large: the limit is 2048 bytes.'));
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { messagePolicy });
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 413, "Message is too large.", 'Request body too large: the limit is 2048 bytes.');
+            expect(mockFlow.run).not.toHaveBeenCalled();
+        });
+
+        it('should respond 400 to messages over the length limit', async () => {
+            mockParseJsonBody.mockResolvedValueOnce({ message: 'a'.repeat(11), stream: false });
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { messagePolicy });
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 400, "Message is too long.", "Messages are limited to 10 characters (received 11).");
+            expect(mockFlow.run).not.toHaveBeenCalled();
+        });
+
+        it('should respond 400 to messages matching a blocked pattern, in both transports', async () => {
+            for (const stream of [false, true]) {
+                mockParseJsonBody.mockResolvedValueOnce({ message: 'Ignore previous INSTRUCTIONS', stream });
+                await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { messagePolicy: { blockedPatterns: messagePolicy.blockedPatterns } });
+            }
+            expect(mockSendJsonError).toHaveBeenCalledTimes(2);
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 400, "Message was rejected.", "It contains content that is not allowed by this chatbot.");
+            expect(mockFlow.run).not.toHaveBeenCalled();
+            expect(mockFlow.stream).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Rate limiting', () => {
+        const profile = { profileId: 'test-profile', server: { flowId, rateLimit: { requestsPerMinute: 1 } }, chatbot: {} };
+
+        async function* mockStreamGenerator(events: any[]) {
+            for (const event of events) {
+                yield event;
+            }
+        }
+
+        it.each([
+            ['non-streaming', false],
+            ['streaming', true],
+        ])('should reject a %s message over the limit with 429 and Retry-After', async (_label, stream) => {
+            const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            const limiter = new RateLimiter();
+            mockParseJsonBody.mockResolvedValue({ message: userMessage, sessionId: clientSessionId, stream });
+            mockFlow.stream.mockImplementation(() => mockStreamGenerator([{ event: 'end', data: { result: {} } }]));
+
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId: profile.profileId, rateLimit: { limiter, profile } });
+            expect(mockSendJsonError).not.toHaveBeenCalled();
+
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId: profile.profileId, rateLimit: { limiter, profile } });
+            expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '60');
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 429, "Too many requests. Please wait before sending another message.");
+            expect(mockFlow.run.mock.calls.length + mockFlow.stream.mock.calls.length).toBe(1);
+            consoleWarnSpy.mockRestore();
+        });
+
+        it('should not spend a token on a message refused for another reason', async () => {
+            const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            const limiter = new RateLimiter();
+            const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 });
+            circuitBreaker.recordFailure();
+            const sessionOwnership = new SessionOwnershipGuard();
+            await sessionOwnership.claim(profile.profileId, 'owned-session', { id: 'alice' });
+            const options = { profileId: profile.profileId, rateLimit: { limiter, profile }, sessionOwnership, principal: { id: 'bob' } };
+
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, sessionId: 'owned-session', stream: false });
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, options);
+            mockParseJsonBody.mockResolvedValueOnce({ message: userMessage, sessionId: clientSessionId, stream: false });
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { ...options, circuitBreaker });
+
+            expect(mockSendJsonError).toHaveBeenNthCalledWith(1, res, 403, "This session belongs to another user.");
+            expect(mockSendJsonError).toHaveBeenNthCalledWith(2, res, 503, CIRCUIT_OPEN_ERROR, CIRCUIT_OPEN_DETAIL);
+            expect(limiter.check(profile, { req, principal: { id: 'bob' } }).allowed).toBe(true);
+            consoleWarnSpy.mockRestore();
+        });
+    });
+
+    describe('Circuit breaker', () => {
+        beforeEach(() => {
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should refuse messages with 503 and Retry-After once failed runs open the circuit', async () => {
+            const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 30000 });
+            mockFlow.run.mockRejectedValueOnce(new Error('fetch failed'));
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { circuitBreaker });
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 500, "Failed to process chat message.", 'fetch failed');
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { circuitBreaker });
+
+            expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '30');
+            expect(mockSendJsonError).toHaveBeenLastCalledWith(res, 503, CIRCUIT_OPEN_ERROR, CIRCUIT_OPEN_DETAIL);
+            expect(mockFlow.run).toHaveBeenCalledTimes(1);
+        });
+
+        it('should record a stream that opens as a success', async () => {
+            const circuitBreaker = new CircuitBreaker({ failureThreshold: 2 });
+            circuitBreaker.recordFailure();
+            mockParseJsonBody.mockResolvedValue({ message: userMessage, sessionId: clientSessionId, stream: true });
+            mockFlow.stream.mockImplementationOnce(async function* () {
+                yield { event: 'end', data: { result: {} } };
+            });
+
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { circuitBreaker });
+
+            expect(circuitBreaker.getStatus()).toEqual({ state: 'closed', consecutiveFailures: 0 });
+        });
+
+        it('should not count a run the client cancelled', async () => {
+            const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 });
+            let onClose!: () => void;
+            (res as any).once = jest.fn((event: string, listener: () => void) => {
+                if (event === 'close') onClose = listener;
+            });
+            mockFlow.run.mockImplementationOnce((_message: string, options: any) => new Promise((_resolve, reject) => {
+                options.signal.addEventListener('abort', () => reject(new Error('This operation was aborted')));
+                onClose();
+            }));
+            jest.spyOn(console, 'log').mockImplementation(() => {});
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { circuitBreaker });
+
+            expect(circuitBreaker.getStatus().consecutiveFailures).toBe(0);
+        });
+    });
+
+    describe('Metrics', () => {
+        it('should count a streamed reply with its time to first token and release the active stream', async () => {
+            const metrics = new ProxyMetrics();
+            mockParseJsonBody.mockResolvedValue({ message: userMessage, sessionId: clientSessionId, stream: true });
+            mockFlow.stream.mockImplementationOnce(async function* () {
+                yield { event: 'token', data: { chunk: 'Hi' } };
+                yield { event: 'token', data: { chunk: ' there' } };
+                yield { event: 'end', data: { result: {} } };
+            });
+
+            await handleChatMessageRequest(req, res, flowId, true, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId: 'support', metrics });
+
+            const text = metrics.render();
+            expect(text).toContain('langflow_chatbot_chat_requests_total{profile="support",mode="stream",outcome="completed"} 1');
+            expect(text).toContain('langflow_chatbot_time_to_first_token_seconds_count{profile="support"} 1');
+            expect(text).toContain('langflow_chatbot_response_duration_seconds_count{profile="support",mode="stream"} 1');
+            expect(text).toContain('langflow_chatbot_active_streams{profile="support"} 0');
+        });
+
+        it('should count a failed run as an error and its upstream status', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => {});
+            const metrics = new ProxyMetrics();
+            mockFlow.run.mockRejectedValueOnce(Object.assign(new Error('Bad Gateway'), { cause: { status: 502 } }));
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId: 'support', metrics });
+
+            const text = metrics.render();
+            expect(text).toContain('langflow_chatbot_chat_requests_total{profile="support",mode="non_stream",outcome="error"} 1');
+            expect(text).toContain('langflow_chatbot_upstream_errors_total{status="502"} 1');
+            expect(text).not.toContain('langflow_chatbot_response_duration_seconds_count');
+            jest.restoreAllMocks();
+        });
+    });
+
+    describe('Logging', () => {
+        it('should log through the request\'s logger with the profile and session', async () => {
+            const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+            const runError = new Error('fetch failed');
+            mockFlow.run.mockRejectedValueOnce(runError);
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId: 'support', logger });
+
+            expect(logger.error).toHaveBeenCalledWith(
+                `RequestHandler: Error handling chat message for flow '${flowId}':`,
+                { profileId: 'support', sessionId: clientSessionId, error: runError }
+            );
+        });
+    });
+
+    describe('Session ownership', () => {
+        const profileId = 'test-profile';
+        const owner = { id: 'owner' };
+        let sessionOwnership: SessionOwnershipGuard;
+
+        beforeEach(() => {
+            sessionOwnership = new SessionOwnershipGuard();
+        });
+
+        it('should bind the session returned by Langflow to the caller', async () => {
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId, principal: owner, sessionOwnership });
+
+            expect(await sessionOwnership.canAccess(profileId, mockLangflowRunResponse.sessionId, { id: 'someone-else' })).toBe(false);
+            expect(await sessionOwnership.canAccess(profileId, mockLangflowRunResponse.sessionId, owner)).toBe(true);
+        });
+
+        it('should refuse to continue a session owned by another principal', async () => {
+            const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            await sessionOwnership.claim(profileId, clientSessionId, owner);
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId, principal: { id: 'intruder' }, sessionOwnership });
+
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 403, "This session belongs to another user.");
+            expect(mockFlow.run).not.toHaveBeenCalled();
+            consoleWarnSpy.mockRestore();
+        });
+
+        it('should let the owner continue their session', async () => {
+            await sessionOwnership.claim(profileId, clientSessionId, owner);
+
+            await handleChatMessageRequest(req, res, flowId, false, new LangflowClient({}), defaultPreParsedBody, defaultIsBodyPreParsed, { profileId, principal: owner, sessionOwnership });
+
+            expect(mockSendJsonError).not.toHaveBeenCalled();
+            expect(mockFlow.run).toHaveBeenCalled();
+        });
+    });
+
+});
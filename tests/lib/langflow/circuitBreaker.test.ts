@@ -0,0 +1,130 @@
+import http from 'http';
+import { CircuitBreaker, CIRCUIT_OPEN_DETAIL, CIRCUIT_OPEN_ERROR, isUpstreamFailure, sendCircuitOpen } from '../../../src/lib/langflow/circuitBreaker';
+
+describe('CircuitBreaker', () => {
+    let breaker: CircuitBreaker;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 10_000 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    const fail = (times: number) => {
+        for (let i = 0; i < times; i++) {
+            breaker.recordFailure();
+        }
+    };
+
+    it('should let calls through until the failure threshold is reached', () => {
+        fail(2);
+        expect(breaker.tryAcquire()).toBe(true);
+
+        fail(1);
+
+        expect(breaker.tryAcquire()).toBe(false);
+        expect(breaker.getStatus()).toEqual({ state: 'open', consecutiveFailures: 3, retryAfterSeconds: 10 });
+        expect(console.warn).toHaveBeenCalledWith("CircuitBreaker: 3 consecutive Langflow calls failed. Refusing requests for 10000 ms.");
+    });
+
+    it('should log state changes through the injected logger', () => {
+        const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+        breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 10_000 }, logger);
+
+        fail(1);
+        jest.advanceTimersByTime(10_000);
+        breaker.tryAcquire();
+        breaker.recordSuccess();
+
+        expect(logger.warn).toHaveBeenCalledWith("CircuitBreaker: 1 consecutive Langflow calls failed. Refusing requests for 10000 ms.");
+        expect(logger.info).toHaveBeenCalledWith("CircuitBreaker: Probing whether Langflow has recovered.");
+        expect(logger.info).toHaveBeenCalledWith("CircuitBreaker: Langflow is responding again. Closing the circuit.");
+        expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it('should only count consecutive failures', () => {
+        fail(2);
+        breaker.recordSuccess();
+        fail(2);
+
+        expect(breaker.tryAcquire()).toBe(true);
+        expect(breaker.getStatus().state).toBe('closed');
+    });
+
+    it('should let a single probe through once the reset timeout has passed', () => {
+        fail(3);
+        jest.advanceTimersByTime(9_999);
+        expect(breaker.tryAcquire()).toBe(false);
+
+        jest.advanceTimersByTime(1);
+
+        expect(breaker.tryAcquire()).toBe(true);
+        expect(breaker.getStatus().state).toBe('half-open');
+        expect(breaker.tryAcquire()).toBe(false);
+    });
+
+    it('should close the circuit when the probe succeeds', () => {
+        fail(3);
+        jest.advanceTimersByTime(10_000);
+        breaker.tryAcquire();
+
+        breaker.recordSuccess();
+
+        expect(breaker.getStatus()).toEqual({ state: 'closed', consecutiveFailures: 0 });
+        expect(breaker.tryAcquire()).toBe(true);
+    });
+
+    it('should open the circuit again when the probe fails', () => {
+        fail(3);
+        jest.advanceTimersByTime(10_000);
+        breaker.tryAcquire();
+
+        breaker.recordFailure();
+
+        expect(breaker.getStatus()).toEqual({ state: 'open', consecutiveFailures: 4, retryAfterSeconds: 10 });
+        expect(breaker.tryAcquire()).toBe(false);
+    });
+
+    it('should let another probe through if the previous one never reported back', () => {
+        fail(3);
+        jest.advanceTimersByTime(10_000);
+        breaker.tryAcquire();
+
+        jest.advanceTimersByTime(10_000);
+
+        expect(breaker.tryAcquire()).toBe(true);
+    });
+});
+
+describe('isUpstreamFailure', () => {
+    it('should count network errors, timeouts and server errors', () => {
+        expect(isUpstreamFailure(new Error('fetch failed'))).toBe(true);
+        expect(isUpstreamFailure(Object.assign(new Error('Bad Gateway'), { cause: { status: 502 } }))).toBe(true);
+    });
+
+    it('should not count errors Langflow answered with a client error status', () => {
+        expect(isUpstreamFailure(Object.assign(new Error('Not Found'), { cause: { status: 404 } }))).toBe(false);
+    });
+});
+
+describe('sendCircuitOpen', () => {
+    it('should answer 503 with a Retry-After header and a friendly detail', () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 30_000 });
+        breaker.recordFailure();
+        const res = { setHeader: jest.fn(), end: jest.fn(), statusCode: 200 } as unknown as http.ServerResponse;
+
+        sendCircuitOpen(res, breaker);
+
+        expect(res.statusCode).toBe(503);
+        expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '30');
+        expect(res.end).toHaveBeenCalledWith(JSON.stringify({ error: CIRCUIT_OPEN_ERROR, detail: CIRCUIT_OPEN_DETAIL }));
+        jest.restoreAllMocks();
+    });
+});
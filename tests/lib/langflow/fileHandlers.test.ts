@@ -0,0 +1,380 @@
+import http from 'http';
+import { Readable } from 'stream';
+import {
+    buildFileTweaks,
+    checkAttachedFiles,
+    clientAttachmentSettings,
+    createAttachmentContext,
+    DEFAULT_MAX_ATTACHMENTS,
+    DEFAULT_MAX_ATTACHMENT_BYTES,
+    handleFileDownloadRequest,
+    handleFileUploadRequest,
+    isAllowedType,
+} from '../../../src/lib/langflow/fileHandlers';
+import { CircuitBreaker } from '../../../src/lib/langflow/circuitBreaker';
+import { UpstreamTimeoutError } from '../../../src/lib/langflow/upstream';
+import { FileOwnershipGuard } from '../../../src/lib/auth/fileOwnership';
+import { RateLimiter } from '../../../src/lib/rateLimiter';
+import { Profile } from '../../../src/types';
+
+const flowId = 'flow-1';
+const connection = { endpointUrl: 'http://langflow.test', apiKey: 'secret' };
+const boundary = 'XyZ123';
+
+function createProfile(attachments?: Profile['server']['attachments']): Profile {
+    return { profileId: 'support', server: { flowId, attachments }, chatbot: {} };
+}
+
+function createResponse(): http.ServerResponse & { body?: any } {
+    const res: any = { statusCode: 0, setHeader: jest.fn() };
+    res.end = jest.fn((body?: any) => { res.body = body; });
+    return res;
+}
+
+function uploadRequest(files: { filename: string; type: string; content: string }[], contentType = `multipart/form-data; boundary=${boundary}`): http.IncomingMessage {
+    const body = files.map(file => `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${file.filename}"\r\nContent-Type: ${file.type}\r\n\r\n${file.content}\r\n`).join('') + `--${boundary}--\r\n`;
+    return Object.assign(Readable.from([Buffer.from(body)]), { headers: { 'content-type': contentType } }) as unknown as http.IncomingMessage;
+}
+
+const jsonBody = (res: { body?: any }) => JSON.parse(res.body);
+
+describe('fileHandlers', () => {
+    const originalFetch = global.fetch;
+    let mockFetch: jest.Mock;
+
+    beforeEach(() => {
+        mockFetch = jest.fn();
+        global.fetch = mockFetch;
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+        jest.restoreAllMocks();
+    });
+
+    describe('policy helpers', () => {
+        it('should match exact types and wildcard subtypes, ignoring parameters and case', () => {
+            expect(isAllowedType('image/PNG', ['image/*'])).toBe(true);
+            expect(isAllowedType('text/plain; charset=utf-8', ['text/plain'])).toBe(true);
+            expect(isAllowedType('text/html', ['text/plain', 'image/*'])).toBe(false);
+            expect(isAllowedType('anything/else')).toBe(true);
+        });
+
+        it('should give the widget the limits with defaults, without the Chat Input component', () => {
+            expect(clientAttachmentSettings({ allowedTypes: ['image/*'], chatInputId: 'ChatInput-1' })).toEqual({
+                maxFileBytes: DEFAULT_MAX_ATTACHMENT_BYTES,
+                maxFiles: DEFAULT_MAX_ATTACHMENTS,
+                allowedTypes: ['image/*'],
+            });
+        });
+    });
+
+    describe('checkAttachedFiles', () => {
+        const policy = { maxFiles: 2 };
+
+        it('should accept no files, with or without a policy', () => {
+            expect(checkAttachedFiles(undefined, flowId)).toBeNull();
+            expect(checkAttachedFiles([], flowId)).toBeNull();
+        });
+
+        it('should accept paths of files uploaded for the flow', () => {
+            expect(checkAttachedFiles([`${flowId}/2024-01-01_a.png`, `${flowId}/b.pdf`], flowId, policy)).toBeNull();
+        });
+
+        it.each([
+            ['attachments are not enabled', [`${flowId}/a.png`], undefined, 'not enabled'],
+            ['files is not a list of strings', [1], policy, 'must be a list'],
+            ['there are too many files', [`${flowId}/a`, `${flowId}/b`, `${flowId}/c`], policy, 'At most 2 files'],
+            ['a file belongs to another flow', ['other-flow/a.png'], policy, 'uploaded for this chatbot profile'],
+            ['a path climbs out of the flow', [`${flowId}/../other-flow/a.png`], policy, 'uploaded for this chatbot profile'],
+        ])('should refuse the files when %s', (_reason, files, filePolicy, message) => {
+            expect(checkAttachedFiles(files, flowId, filePolicy)).toContain(message);
+        });
+    });
+
+    describe('createAttachmentContext', () => {
+        it('should be undefined for profiles without attachments', () => {
+            expect(createAttachmentContext(createProfile(), connection)).toBeUndefined();
+        });
+
+        it('should use the configured Chat Input component without asking Langflow', async () => {
+            const context = createAttachmentContext(createProfile({ chatInputId: 'ChatInput-set' }), connection)!;
+
+            expect(await buildFileTweaks(context, [`${flowId}/a.png`])).toEqual({ 'ChatInput-set': { files: [`${flowId}/a.png`] } });
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it("should otherwise find the Chat Input component in the flow's definition", async () => {
+            mockFetch.mockResolvedValue(new Response(JSON.stringify({ data: { nodes: [{ id: 'Prompt-1', data: { type: 'Prompt' } }, { id: 'ChatInput-x7', data: { type: 'ChatInput' } }] } })));
+            const context = createAttachmentContext(createProfile({}), connection)!;
+
+            expect(await buildFileTweaks(context, [`${flowId}/a.png`])).toEqual({ 'ChatInput-x7': { files: [`${flowId}/a.png`] } });
+            expect(mockFetch).toHaveBeenCalledWith(`http://langflow.test/api/v1/flows/${flowId}`, expect.objectContaining({
+                method: 'GET',
+                headers: expect.objectContaining({ Authorization: 'Bearer secret' }),
+            }));
+        });
+
+        it('should fail when the flow has no Chat Input component', async () => {
+            mockFetch.mockResolvedValue(new Response(JSON.stringify({ data: { nodes: [] } })));
+            const context = createAttachmentContext(createProfile({}), connection)!;
+
+            await expect(context.resolveChatInputId()).rejects.toThrow(`Flow '${flowId}' has no Chat Input component`);
+        });
+    });
+
+    describe('handleFileUploadRequest', () => {
+        it('should upload each file to Langflow and answer the stored paths', async () => {
+            mockFetch
+                .mockResolvedValueOnce(new Response(JSON.stringify({ flowId, file_path: `${flowId}/2024_a.png` })))
+                .mockResolvedValueOnce(new Response(JSON.stringify({ flowId, file_path: `${flowId}/2024_b.txt` })));
+            const res = createResponse();
+
+            await handleFileUploadRequest(uploadRequest([
+                { filename: 'a.png', type: 'image/png', content: 'png-bytes' },
+                { filename: 'b.txt', type: 'text/plain', content: 'hello' },
+            ]), res, createProfile({}), connection);
+
+            expect(res.statusCode).toBe(200);
+            expect(jsonBody(res)).toEqual({ files: [
+                { name: 'a.png', path: `${flowId}/2024_a.png`, type: 'image/png', size: 9 },
+                { name: 'b.txt', path: `${flowId}/2024_b.txt`, type: 'text/plain', size: 5 },
+            ] });
+            expect(mockFetch).toHaveBeenCalledWith(`http://langflow.test/api/v1/files/upload/${flowId}`, expect.objectContaining({ method: 'POST', body: expect.any(FormData) }));
+            const uploaded = mockFetch.mock.calls[0][1].body.get('file') as File;
+            expect(uploaded.name).toBe('a.png');
+            expect(await uploaded.text()).toBe('png-bytes');
+        });
+
+        it('should answer 404 when the profile does not accept attachments', async () => {
+            const res = createResponse();
+
+            await handleFileUploadRequest(uploadRequest([]), res, createProfile(), connection);
+
+            expect(res.statusCode).toBe(404);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should answer 415 for a body that is not multipart', async () => {
+            const res = createResponse();
+
+            await handleFileUploadRequest(uploadRequest([], 'application/json'), res, createProfile({}), connection);
+
+            expect(res.statusCode).toBe(415);
+        });
+
+        it.each([
+            ['no file is attached', {}, [], 400],
+            ['there are too many files', { maxFiles: 1 }, [{ filename: 'a.txt', type: 'text/plain', content: 'a' }, { filename: 'b.txt', type: 'text/plain', content: 'b' }], 400],
+            ['a file is too large', { maxFileBytes: 4 }, [{ filename: 'a.txt', type: 'text/plain', content: 'hello' }], 413],
+            ['a type is not allowed', { allowedTypes: ['image/*'] }, [{ filename: 'a.html', type: 'text/html', content: '<p>' }], 415],
+        ])('should refuse the upload when %s', async (_reason, policy, files, status) => {
+            const res = createResponse();
+
+            await handleFileUploadRequest(uploadRequest(files), res, createProfile(policy), connection);
+
+            expect(res.statusCode).toBe(status);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it.each([
+            ['content that does not match its declared type', ['image/*'], { filename: 'a.png', type: 'image/png', content: '<script>alert(1)</script>' }],
+            ['a known signature of a type that is not allowed', ['text/plain'], { filename: 'a.txt', type: 'text/plain', content: 'GIF89a...' }],
+        ])('should refuse %s', async (_reason, allowedTypes, file) => {
+            const res = createResponse();
+
+            await handleFileUploadRequest(uploadRequest([file]), res, createProfile({ allowedTypes }), connection);
+
+            expect(res.statusCode).toBe(415);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should accept a file whose content matches its allowed type', async () => {
+            mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ flowId, file_path: `${flowId}/2024_a.pdf` })));
+            const res = createResponse();
+
+            await handleFileUploadRequest(uploadRequest([{ filename: 'a.pdf', type: 'application/pdf', content: '%PDF-1.7 ...' }]), res, createProfile({ allowedTypes: ['application/pdf'] }), connection);
+
+            expect(res.statusCode).toBe(200);
+        });
+
+        it('should answer 502 and count a failure when Langflow refuses a file', async () => {
+            mockFetch.mockResolvedValue(new Response('{}', { status: 500 }));
+            const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 });
+            const res = createResponse();
+
+            await handleFileUploadRequest(uploadRequest([{ filename: 'a.txt', type: 'text/plain', content: 'a' }]), res, createProfile({}), connection, { circuitBreaker });
+
+            expect(res.statusCode).toBe(502);
+            expect(circuitBreaker.getStatus().state).toBe('open');
+        });
+
+        it('should delete the files already stored when a later file fails', async () => {
+            mockFetch
+                .mockResolvedValueOnce(new Response(JSON.stringify({ flowId, file_path: `${flowId}/2024_a.txt` })))
+                .mockResolvedValueOnce(new Response('{}', { status: 400 }))
+                .mockResolvedValueOnce(new Response('{}'));
+            const res = createResponse();
+
+            await handleFileUploadRequest(uploadRequest([
+                { filename: 'a.txt', type: 'text/plain', content: 'a' },
+                { filename: 'b.txt', type: 'text/plain', content: 'b' },
+            ]), res, createProfile({}), connection);
+
+            expect(res.statusCode).toBe(502);
+            expect(mockFetch).toHaveBeenLastCalledWith(`http://langflow.test/api/v1/files/delete/${flowId}/2024_a.txt`, expect.objectContaining({ method: 'DELETE' }));
+        });
+
+        it('should answer 500 and delete the batch when the owner of a file cannot be recorded', async () => {
+            mockFetch
+                .mockResolvedValueOnce(new Response(JSON.stringify({ flowId, file_path: `${flowId}/2024_a.txt` })))
+                .mockResolvedValueOnce(new Response('{}'));
+            const store = { setOwner: jest.fn().mockRejectedValue(new Error('store down')), getOwner: jest.fn() };
+            const fileOwnership = new FileOwnershipGuard({ store });
+            const res = createResponse();
+
+            await handleFileUploadRequest(uploadRequest([
+                { filename: 'a.txt', type: 'text/plain', content: 'a' },
+                { filename: 'b.txt', type: 'text/plain', content: 'b' },
+            ]), res, createProfile({}), connection, { fileOwnership, sessionId: 'session-1' });
+
+            expect(res.statusCode).toBe(500);
+            expect(jsonBody(res).error).toBe('Failed to store the attachment.');
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(mockFetch).toHaveBeenLastCalledWith(`http://langflow.test/api/v1/files/delete/${flowId}/2024_a.txt`, expect.objectContaining({ method: 'DELETE' }));
+        });
+
+        it('should spend a rate limit token before reading the body and answer 429 once the limit is reached', async () => {
+            mockFetch.mockImplementation(async () => new Response(JSON.stringify({ flowId, file_path: `${flowId}/2024_a.txt` })));
+            const profile = createProfile({});
+            const limited = { ...profile, server: { ...profile.server, rateLimit: { requestsPerMinute: 1 } } };
+            const rateLimit = { limiter: new RateLimiter(), profile: limited };
+            const files = [{ filename: 'a.txt', type: 'text/plain', content: 'a' }];
+            const first = createResponse();
+            const second = createResponse();
+
+            await handleFileUploadRequest(uploadRequest(files), first, limited, connection, { rateLimit });
+            await handleFileUploadRequest(uploadRequest(files), second, limited, connection, { rateLimit });
+
+            expect(first.statusCode).toBe(200);
+            expect(second.statusCode).toBe(429);
+            expect(second.setHeader).toHaveBeenCalledWith('Retry-After', expect.any(String));
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should refuse an anonymous upload that names no session before reading it', async () => {
+            const fileOwnership = new FileOwnershipGuard();
+            const res = createResponse();
+
+            await handleFileUploadRequest(uploadRequest([{ filename: 'a.txt', type: 'text/plain', content: 'a' }]), res, createProfile({}), connection, { fileOwnership, principal: null });
+
+            expect(res.statusCode).toBe(400);
+            expect(jsonBody(res).error).toBe('Anonymous uploads must name a session.');
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should not call Langflow while the circuit is open', async () => {
+            const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 });
+            circuitBreaker.recordFailure();
+            const res = createResponse();
+
+            await handleFileUploadRequest(uploadRequest([{ filename: 'a.txt', type: 'text/plain', content: 'a' }]), res, createProfile({}), connection, { circuitBreaker });
+
+            expect(res.statusCode).toBe(503);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('handleFileDownloadRequest', () => {
+        it('should serve an image inline, sandboxed', async () => {
+            const makeDirect = jest.fn().mockResolvedValue(new Response('png-bytes', { headers: { 'Content-Type': 'image/png' } }));
+            const res = createResponse();
+
+            await handleFileDownloadRequest(res, createProfile({}), [flowId, '2024_a%20b.png'], makeDirect);
+
+            expect(makeDirect).toHaveBeenCalledWith(res, `/api/v1/files/download/${flowId}/2024_a%20b.png`, 'GET');
+            expect(res.statusCode).toBe(200);
+            expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'image/png');
+            expect(res.setHeader).toHaveBeenCalledWith('Content-Disposition', "inline; filename*=UTF-8''2024_a%20b.png");
+            expect(res.setHeader).toHaveBeenCalledWith('Content-Security-Policy', 'sandbox');
+            expect(res.setHeader).toHaveBeenCalledWith('X-Content-Type-Options', 'nosniff');
+            expect(res.body.toString()).toBe('png-bytes');
+        });
+
+        it('should make other files downloads', async () => {
+            const makeDirect = jest.fn().mockResolvedValue(new Response('<script>', { headers: { 'Content-Type': 'text/html' } }));
+            const res = createResponse();
+
+            await handleFileDownloadRequest(res, createProfile({}), [flowId, 'page.html'], makeDirect);
+
+            expect(res.setHeader).toHaveBeenCalledWith('Content-Disposition', "attachment; filename*=UTF-8''page.html");
+        });
+
+        it.each([
+            ['another flow', ['other-flow', 'a.png']],
+            ['an encoded path separator', [flowId, '..%2Fother-flow%2Fa.png']],
+            ['a nested path', [flowId, 'dir', 'a.png']],
+        ])('should answer 404 for a file of %s without asking Langflow', async (_reason, segments) => {
+            const makeDirect = jest.fn();
+            const res = createResponse();
+
+            await handleFileDownloadRequest(res, createProfile({}), segments, makeDirect);
+
+            expect(res.statusCode).toBe(404);
+            expect(makeDirect).not.toHaveBeenCalled();
+        });
+
+        it("should pass on Langflow's 404 and turn other failures into 502", async () => {
+            const notFound = createResponse();
+            await handleFileDownloadRequest(notFound, createProfile({}), [flowId, 'a.png'], jest.fn().mockResolvedValue(new Response('', { status: 404 })));
+            const failed = createResponse();
+            await handleFileDownloadRequest(failed, createProfile({}), [flowId, 'a.png'], jest.fn().mockResolvedValue(new Response('', { status: 500 })));
+
+            expect(notFound.statusCode).toBe(404);
+            expect(failed.statusCode).toBe(502);
+        });
+
+        it('should serve a file only to the caller that uploaded it', async () => {
+            const fileOwnership = new FileOwnershipGuard();
+            const uploader = { fileOwnership, principal: { id: 'alice' }, sessionId: 's1' };
+            mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ flowId, file_path: `${flowId}/2024_a.png` })));
+            await handleFileUploadRequest(uploadRequest([{ filename: 'a.png', type: 'image/png', content: 'png-bytes' }]), createResponse(), createProfile({}), connection, uploader);
+            const makeDirect = jest.fn().mockResolvedValue(new Response('png-bytes', { headers: { 'Content-Type': 'image/png' } }));
+
+            const owner = createResponse();
+            await handleFileDownloadRequest(owner, createProfile({}), [flowId, '2024_a.png'], makeDirect, uploader);
+            const otherUser = createResponse();
+            await handleFileDownloadRequest(otherUser, createProfile({}), [flowId, '2024_a.png'], makeDirect, { fileOwnership, principal: { id: 'bob' }, sessionId: 's1' });
+            const otherSession = createResponse();
+            await handleFileDownloadRequest(otherSession, createProfile({}), [flowId, '2024_a.png'], makeDirect, { ...uploader, sessionId: 's2' });
+
+            expect(owner.statusCode).toBe(200);
+            expect(otherUser.statusCode).toBe(404);
+            expect(otherSession.statusCode).toBe(404);
+            expect(makeDirect).toHaveBeenCalledTimes(1);
+        });
+
+        it('should answer 502 when the Langflow request fails without a response', async () => {
+            const res = createResponse();
+
+            await handleFileDownloadRequest(res, createProfile({}), [flowId, 'a.png'], jest.fn().mockResolvedValue(null));
+
+            expect(res.statusCode).toBe(502);
+            expect(jsonBody(res).error).toBe('Failed to fetch the attachment from Langflow.');
+        });
+
+        it('should answer 504 when the attachment body does not arrive in time', async () => {
+            const res = createResponse();
+            const stalled = new Response('png-bytes', { headers: { 'Content-Type': 'image/png' } });
+            jest.spyOn(stalled, 'arrayBuffer').mockRejectedValue(new UpstreamTimeoutError('GET /api/v1/files/download', 1000));
+
+            await handleFileDownloadRequest(res, createProfile({}), [flowId, 'a.png'], jest.fn().mockResolvedValue(stalled));
+
+            expect(res.statusCode).toBe(504);
+            expect(jsonBody(res)).toEqual({ error: 'Langflow did not respond in time.', detail: 'No response from Langflow within 1000 ms (GET /api/v1/files/download).' });
+        });
+    });
+});
@@ -0,0 +1,75 @@
+/**
+ * Run results as Langflow returns them for common flow shapes, trimmed to the fields the reply
+ * extractors read.
+ */
+
+/** A flow ending in a Chat Output, as returned by Langflow 1.x. */
+export const chatOutputResponse = {
+    session_id: 'session-chat',
+    outputs: [{
+        inputs: { input_value: 'hello' },
+        outputs: [{
+            results: { message: { text: 'Hello! How can I help?', sender: 'Machine', sender_name: 'AI' } },
+            artifacts: { message: 'Hello! How can I help?', sender: 'Machine', type: 'object' },
+            outputs: { message: { message: 'Hello! How can I help?', type: 'text' } },
+            component_display_name: 'Chat Output',
+            component_id: 'ChatOutput-ZyX12',
+        }],
+    }],
+};
+
+/** A flow ending in a Text Output. */
+export const textOutputResponse = {
+    session_id: 'session-text',
+    outputs: [{
+        inputs: { input_value: 'summarize this' },
+        outputs: [{
+            results: { text: { text: 'A short summary.', data: {} } },
+            artifacts: { text: { repr: 'A short summary.', type: 'text' } },
+            outputs: { text: { message: 'A short summary.', type: 'text' } },
+            component_display_name: 'Text Output',
+            component_id: 'TextOutput-aB3cD',
+        }],
+    }],
+};
+
+/** Older Langflow versions, which returned the reply as `outputs.chat` or in the artifacts. */
+export const legacyChatResponse = {
+    session_id: 'session-legacy',
+    outputs: [{
+        inputs: { input_value: 'hello' },
+        outputs: [{ outputs: { chat: 'Hello from the legacy format.' } }],
+    }],
+};
+
+export const legacyArtifactsResponse = {
+    session_id: 'session-artifacts',
+    outputs: [{
+        inputs: { input_value: 'hello' },
+        outputs: [{ artifacts: { message: 'Hello from the artifacts.' } }],
+    }],
+};
+
+/** A flow with two outputs, the first of which carries no text. */
+export const multipleOutputsResponse = {
+    session_id: 'session-multi',
+    outputs: [{
+        inputs: { input_value: 'hello' },
+        outputs: [
+            { results: { data: { rows: 3 } }, component_display_name: 'Data Output', component_id: 'DataOutput-1' },
+            { results: { message: { text: 'Found 3 rows.' } }, component_display_name: 'Answer', component_id: 'ChatOutput-2' },
+        ],
+    }],
+};
+
+/** A Chat Output that replied with an empty message. */
+export const emptyReplyResponse = {
+    session_id: 'session-empty',
+    outputs: [{ inputs: {}, outputs: [{ results: { message: { text: '' } } }] }],
+};
+
+/** A flow whose outputs have no text at all, e.g. because it ends in a Data Output only. */
+export const noTextResponse = {
+    session_id: 'session-none',
+    outputs: [{ inputs: {}, outputs: [{ results: { data: { rows: 3 } }, outputs: {}, artifacts: {} }] }],
+};
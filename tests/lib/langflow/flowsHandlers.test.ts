@@ -49,7 +49,7 @@ describe('handleGetFlowsRequest', () => {
     it('should call proxyLangflowApiRequest', async () => {
         await handleGetFlowsRequest(req, res, mockMakeDirectLangflowApiRequest);
         expect(mockProxyLangflowApiRequest).toHaveBeenCalledTimes(1);
-        expect(mockProxyLangflowApiRequest).toHaveBeenCalledWith(res, expect.any(Function));
+        expect(mockProxyLangflowApiRequest).toHaveBeenCalledWith(res, expect.any(Function), expect.any(Object));
     });
 
     it('should call makeDirectLangflowApiRequest with correct parameters', async () => {
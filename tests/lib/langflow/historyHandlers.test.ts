@@ -55,7 +55,7 @@ describe('handleGetChatHistoryRequest', () => {
         it('should call proxyLangflowApiRequest', async () => {
             await handleGetChatHistoryRequest(res, flowId, sessionId, mockMakeDirectLangflowApiRequest);
             expect(mockProxyLangflowApiRequest).toHaveBeenCalledTimes(1);
-            expect(mockProxyLangflowApiRequest).toHaveBeenCalledWith(res, expect.any(Function));
+            expect(mockProxyLangflowApiRequest).toHaveBeenCalledWith(res, expect.any(Function), expect.any(Object));
         });
 
         it('should call makeDirectLangflowApiRequest with correct parameters via proxy', async () => {
@@ -103,4 +103,42 @@ describe('handleGetChatHistoryRequest', () => {
             expect(mockMakeDirectLangflowApiRequest).not.toHaveBeenCalled();
         });
     });
-}); 
\ No newline at end of file
+
+    describe('When a conversation store is configured', () => {
+        const profileId = 'test-profile';
+        let conversationStore: { appendMessages: jest.Mock; getMessages: jest.Mock };
+
+        beforeEach(() => {
+            conversationStore = {
+                appendMessages: jest.fn(),
+                getMessages: jest.fn().mockResolvedValue([
+                    { id: 'm1', profileId, flowId, sessionId, sender: 'User', text: 'hi', timestamp: '2024-01-01T00:00:00.000Z' },
+                    { id: 'm2', profileId, flowId, sessionId, sender: 'Machine', text: 'hello', timestamp: '2024-01-01T00:00:01.000Z' },
+                ]),
+            };
+        });
+
+        it('should serve history from the store in Langflow message format without calling Langflow', async () => {
+            await handleGetChatHistoryRequest(res, flowId, sessionId, mockMakeDirectLangflowApiRequest, { store: conversationStore, profileId });
+
+            expect(conversationStore.getMessages).toHaveBeenCalledWith(profileId, sessionId);
+            expect(mockProxyLangflowApiRequest).not.toHaveBeenCalled();
+            expect(res.statusCode).toBe(200);
+            expect(JSON.parse((res.end as jest.Mock).mock.calls[0][0])).toEqual([
+                { id: 'm1', flow_id: flowId, session_id: sessionId, sender: 'User', text: 'hi', timestamp: '2024-01-01T00:00:00.000Z' },
+                { id: 'm2', flow_id: flowId, session_id: sessionId, sender: 'Machine', text: 'hello', timestamp: '2024-01-01T00:00:01.000Z' },
+            ]);
+        });
+
+        it('should respond with 500 and log through the request logger if the store fails', async () => {
+            const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+            const error = new Error('read failed');
+            conversationStore.getMessages.mockRejectedValueOnce(error);
+
+            await handleGetChatHistoryRequest(res, flowId, sessionId, mockMakeDirectLangflowApiRequest, { store: conversationStore, profileId }, logger);
+
+            expect(mockSendJsonError).toHaveBeenCalledWith(res, 500, "Failed to read chat history.", 'read failed');
+            expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('Error reading chat history from conversation store'), { sessionId, error });
+        });
+    });
+});
@@ -0,0 +1,112 @@
+import {
+    BUILT_IN_REPLY_EXTRACTORS,
+    extractReply,
+    parseReplyPath,
+    pathExtractor,
+    ReplyExtractorRegistry,
+} from '../../../src/lib/langflow/replyExtractors';
+import {
+    chatOutputResponse,
+    emptyReplyResponse,
+    legacyArtifactsResponse,
+    legacyChatResponse,
+    multipleOutputsResponse,
+    noTextResponse,
+    textOutputResponse,
+} from './fixtures/runResponses';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+describe('built-in reply extractors', () => {
+    it.each([
+        ['a Chat Output', chatOutputResponse, { reply: 'Hello! How can I help?', extractor: 'chat-message' }],
+        ['a Text Output', textOutputResponse, { reply: 'A short summary.', extractor: 'text-output' }],
+        ['the legacy outputs.chat', legacyChatResponse, { reply: 'Hello from the legacy format.', extractor: 'any-output' }],
+        ['the legacy artifacts', legacyArtifactsResponse, { reply: 'Hello from the artifacts.', extractor: 'any-output' }],
+        ['a second output when the first has no text', multipleOutputsResponse, { reply: 'Found 3 rows.', extractor: 'any-output' }],
+        ['an empty reply', emptyReplyResponse, { reply: '', extractor: 'chat-message' }],
+    ])('should read %s', (_shape, response, expected) => {
+        expect(extractReply(response, BUILT_IN_REPLY_EXTRACTORS, logger)).toEqual(expected);
+    });
+
+    it.each([
+        ['null', null],
+        ['undefined', undefined],
+        ['an empty object', {}],
+        ['no outputs', { outputs: [] }],
+        ['outputs without text', noTextResponse],
+    ])('should find no reply in %s', (_shape, response) => {
+        expect(extractReply(response, BUILT_IN_REPLY_EXTRACTORS, logger)).toBeNull();
+    });
+});
+
+describe('parseReplyPath', () => {
+    it('should parse keys, indexes, wildcards and quoted keys', () => {
+        expect(parseReplyPath('$.outputs[0].outputs[*]["component id"].text')).toEqual(['outputs', 0, 'outputs', '*', 'component id', 'text']);
+        expect(parseReplyPath('outputs[1]')).toEqual(['outputs', 1]);
+    });
+
+    it.each([['$'], [''], ['outputs[x]'], ['outputs..text']])('should reject %p', path => {
+        expect(() => parseReplyPath(path)).toThrow();
+    });
+});
+
+describe('pathExtractor', () => {
+    it('should read the first string the selector matches', () => {
+        const extractor = pathExtractor('outputs[0].outputs[*].results.message.text');
+        expect(extractor.name).toBe('path:outputs[0].outputs[*].results.message.text');
+        expect(extractor.extract(multipleOutputsResponse, logger)).toBe('Found 3 rows.');
+        expect(extractor.extract(textOutputResponse, logger)).toBeUndefined();
+    });
+});
+
+describe('ReplyExtractorRegistry', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should use the built-in extractors by default', () => {
+        expect(new ReplyExtractorRegistry().resolve({}).map(extractor => extractor.name)).toEqual(['chat-message', 'output-message', 'output-text', 'text-output', 'any-output']);
+    });
+
+    it('should read only the output component when one is set, by ID or display name', () => {
+        const registry = new ReplyExtractorRegistry();
+
+        expect(extractReply(multipleOutputsResponse, registry.resolve({ outputComponent: 'Answer' }), logger)).toEqual({ reply: 'Found 3 rows.', extractor: 'component:Answer' });
+        expect(extractReply(multipleOutputsResponse, registry.resolve({ outputComponent: 'ChatOutput-9' }), logger)).toBeNull();
+        expect(logger.warn).toHaveBeenCalledWith("RequestHandler: Output component 'ChatOutput-9' is not among the flow's outputs (DataOutput-1, ChatOutput-2).");
+    });
+
+    it('should build the chain from names, path selectors and the defaults, skipping unknown names', () => {
+        const rows = { name: 'rows', extract: (result: any) => result?.outputs?.[0]?.outputs?.[0]?.results?.data?.rows?.toString() };
+        const registry = new ReplyExtractorRegistry([rows]);
+
+        const chain = registry.resolve({ outputComponent: 'Text Output', replyExtractors: [{ path: 'outputs[0].outputs[0].artifacts.text.repr' }, 'rows', 'unknown', 'defaults'] }, logger);
+
+        expect(chain.map(extractor => extractor.name)).toEqual([
+            'component:Text Output', 'path:outputs[0].outputs[0].artifacts.text.repr', 'rows',
+            'chat-message', 'output-message', 'output-text', 'text-output', 'any-output',
+        ]);
+        expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("Unknown reply extractor 'unknown' is ignored."));
+        expect(extractReply(noTextResponse, chain, logger)).toEqual({ reply: '3', extractor: 'rows' });
+    });
+
+    it('should skip an extractor that throws', () => {
+        const broken = { name: 'broken', extract: () => { throw new SyntaxError('Unexpected token'); } };
+
+        expect(extractReply(chatOutputResponse, [broken, ...BUILT_IN_REPLY_EXTRACTORS], logger)).toEqual({ reply: 'Hello! How can I help?', extractor: 'chat-message' });
+        expect(logger.warn).toHaveBeenCalledWith("RequestHandler: Reply extractor 'broken' failed; trying the next one.", { error: expect.any(SyntaxError) });
+    });
+
+    it('should cache the chain per profile and let registered extractors replace built-in ones', () => {
+        const registry = new ReplyExtractorRegistry();
+        registry.register({ name: 'chat-message', extract: () => 'replaced' });
+        const server = { replyExtractors: ['defaults'] };
+
+        const chain = registry.resolve(server);
+
+        expect(registry.resolve(server)).toBe(chain);
+        expect(extractReply(chatOutputResponse, chain, logger)).toEqual({ reply: 'replaced', extractor: 'chat-message' });
+        expect(() => registry.register({ name: 'defaults', extract: () => undefined })).toThrow("A reply extractor needs a name other than 'defaults'.");
+    });
+});
@@ -0,0 +1,79 @@
+import http from 'http';
+import { acceptsEventStream, formatServerSentEvent, openStreamTransport } from '../../../src/lib/langflow/streamTransport';
+
+const createReq = (accept?: string) => ({ headers: accept ? { accept } : {} }) as http.IncomingMessage;
+
+const createRes = () => {
+    const res = {
+        setHeader: jest.fn(),
+        flushHeaders: jest.fn(),
+        write: jest.fn(),
+        end: jest.fn(() => { res.writableEnded = true; }),
+        writableEnded: false,
+    };
+    return res;
+};
+
+describe('acceptsEventStream', () => {
+    it.each([
+        [undefined, false],
+        ['application/x-ndjson', false],
+        ['text/event-stream', true],
+        ['application/x-ndjson, TEXT/EVENT-STREAM;q=0.5', true],
+        ['text/event-stream;q=0', false],
+        ['*/*', false],
+    ])('should treat Accept %p as %p', (accept, expected) => {
+        expect(acceptsEventStream(createReq(accept))).toBe(expected);
+    });
+});
+
+describe('formatServerSentEvent', () => {
+    it('should use the event type as the SSE event name and JSON data on one line', () => {
+        expect(formatServerSentEvent({ event: 'token', data: { chunk: 'two\nlines' } })).toBe('event: token\ndata: {"chunk":"two\\nlines"}\n\n');
+        expect(formatServerSentEvent({ event: 'end' })).toBe('event: end\ndata: null\n\n');
+    });
+});
+
+describe('openStreamTransport', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should write newline-delimited JSON by default', () => {
+        const res = createRes();
+        const transport = openStreamTransport(createReq('application/x-ndjson'), res as unknown as http.ServerResponse);
+
+        transport.send({ event: 'token', data: { chunk: 'Hi' } });
+        transport.close();
+
+        expect(transport.kind).toBe('ndjson');
+        expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'application/x-ndjson');
+        expect(res.setHeader).toHaveBeenCalledWith('Transfer-Encoding', 'chunked');
+        expect(res.write).toHaveBeenCalledWith('{"event":"token","data":{"chunk":"Hi"}}\n');
+        expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should write Server-Sent Events with heartbeat comments when the client accepts them', () => {
+        jest.useFakeTimers();
+        const res = createRes();
+        const transport = openStreamTransport(createReq('text/event-stream'), res as unknown as http.ServerResponse, 1000);
+
+        expect(transport.kind).toBe('sse');
+        expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream; charset=utf-8');
+        expect(res.setHeader).toHaveBeenCalledWith('Cache-Control', 'no-cache, no-transform');
+        expect(res.flushHeaders).toHaveBeenCalled();
+
+        transport.send({ event: 'token', data: { chunk: 'Hi' } });
+        jest.advanceTimersByTime(2500);
+        expect(res.write.mock.calls.map(([chunk]) => chunk)).toEqual([
+            'event: token\ndata: {"chunk":"Hi"}\n\n',
+            ': heartbeat\n\n',
+            ': heartbeat\n\n',
+        ]);
+
+        transport.close();
+        jest.advanceTimersByTime(5000);
+        expect(res.write).toHaveBeenCalledTimes(3);
+        expect(res.end).toHaveBeenCalled();
+    });
+});
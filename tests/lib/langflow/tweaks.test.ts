@@ -0,0 +1,49 @@
+import { checkClientTweaks, mergeTweaks } from '../../../src/lib/langflow/tweaks';
+
+describe('checkClientTweaks', () => {
+    const allowed = ['OpenAIModel-a1.temperature', 'Prompt-b2.template'];
+
+    it('should accept no tweaks, even without an allowlist', () => {
+        expect(checkClientTweaks(undefined)).toBeNull();
+        expect(checkClientTweaks({})).toBeNull();
+    });
+
+    it('should accept allowlisted fields', () => {
+        expect(checkClientTweaks({ 'OpenAIModel-a1': { temperature: 0.9 }, 'Prompt-b2': { template: 'Be brief.' } }, allowed)).toBeNull();
+    });
+
+    it.each([
+        ['a field that is not allowlisted', { 'OpenAIModel-a1': { temperature: 0.9, api_key: 'sk-...' } }, allowed, "Tweak 'OpenAIModel-a1.api_key' may not be set by the client."],
+        ['a component that is not allowlisted', { 'ChatOutput-c3': { sender_name: 'Admin' } }, allowed, "Tweak 'ChatOutput-c3.sender_name' may not be set by the client."],
+        ['any tweak when the profile has no allowlist', { 'OpenAIModel-a1': { temperature: 0.9 } }, undefined, "Tweak 'OpenAIModel-a1.temperature' may not be set by the client."],
+        ['settings that are not a mapping', { 'OpenAIModel-a1': 0.9 }, allowed, "tweaks must map component IDs to their settings."],
+        ['a list', [{ 'OpenAIModel-a1': { temperature: 0.9 } }], allowed, "tweaks must map component IDs to their settings."],
+    ])('should refuse %s', (_reason, tweaks, allowedKeys, error) => {
+        expect(checkClientTweaks(tweaks, allowedKeys)).toBe(error);
+    });
+});
+
+describe('mergeTweaks', () => {
+    it('should merge field by field, later sources winning', () => {
+        expect(mergeTweaks(
+            { 'OpenAIModel-a1': { model_name: 'gpt-4o-mini', temperature: 0.2 } },
+            { 'OpenAIModel-a1': { temperature: 0.9 } },
+            { 'ChatInput-c3': { files: ['flow-1/a.png'] } },
+        )).toEqual({
+            'OpenAIModel-a1': { model_name: 'gpt-4o-mini', temperature: 0.9 },
+            'ChatInput-c3': { files: ['flow-1/a.png'] },
+        });
+    });
+
+    it('should leave its sources unchanged', () => {
+        const profileTweaks = { 'OpenAIModel-a1': { temperature: 0.2 } };
+
+        mergeTweaks(profileTweaks, { 'OpenAIModel-a1': { temperature: 0.9 } });
+
+        expect(profileTweaks).toEqual({ 'OpenAIModel-a1': { temperature: 0.2 } });
+    });
+
+    it('should return undefined when no source sets anything', () => {
+        expect(mergeTweaks(undefined, {}, undefined)).toBeUndefined();
+    });
+});
@@ -0,0 +1,223 @@
+import {
+    DEFAULT_UPSTREAM_POLICY,
+    UpstreamTimeoutError,
+    callWithTimeout,
+    combineUpstreamConfig,
+    fetchWithRetries,
+    resolveUpstreamPolicy,
+    withIdleTimeout,
+} from '../../../src/lib/langflow/upstream';
+
+const response = (status: number) => ({ status, ok: status < 400 } as Response);
+
+describe('resolveUpstreamPolicy', () => {
+    it('should fill unset fields with the defaults, later layers overriding earlier ones', () => {
+        expect(resolveUpstreamPolicy()).toEqual(DEFAULT_UPSTREAM_POLICY);
+        expect(resolveUpstreamPolicy({ retries: 5, connectTimeoutMs: 2000 }, undefined, { retries: 0 })).toEqual({
+            ...DEFAULT_UPSTREAM_POLICY,
+            connectTimeoutMs: 2000,
+            retries: 0,
+        });
+    });
+});
+
+describe('combineUpstreamConfig', () => {
+    it('should return undefined when no layer is configured', () => {
+        expect(combineUpstreamConfig(undefined, undefined)).toBeUndefined();
+    });
+
+    it('should merge the configured layers', () => {
+        expect(combineUpstreamConfig({ retries: 1 }, { responseTimeoutMs: 500 })).toEqual({
+            ...DEFAULT_UPSTREAM_POLICY,
+            retries: 1,
+            responseTimeoutMs: 500,
+        });
+    });
+});
+
+describe('callWithTimeout', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should abort the call and reject with an UpstreamTimeoutError when it takes too long', async () => {
+        let callSignal!: AbortSignal;
+        const result = callWithTimeout(signal => {
+            callSignal = signal;
+            return new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+        }, 1000, 'flow run');
+        const assertion = expect(result).rejects.toThrow(new UpstreamTimeoutError('flow run', 1000));
+
+        await jest.advanceTimersByTimeAsync(1000);
+
+        await assertion;
+        expect(callSignal.aborted).toBe(true);
+    });
+
+    it('should resolve with the result and clear the timer when the call finishes in time', async () => {
+        await expect(callWithTimeout(async () => 'done', 1000, 'flow run')).resolves.toBe('done');
+        expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should keep following the parent signal after the call resolves', async () => {
+        const parent = new AbortController();
+        let callSignal!: AbortSignal;
+        await callWithTimeout(async signal => { callSignal = signal; }, 1000, 'flow stream', parent.signal);
+
+        parent.abort();
+
+        expect(callSignal.aborted).toBe(true);
+    });
+});
+
+describe('fetchWithRetries', () => {
+    const originalFetch = global.fetch;
+    let mockFetch: jest.Mock;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        mockFetch = jest.fn();
+        global.fetch = mockFetch;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it('should retry GETs after 503 responses and network errors with exponential backoff', async () => {
+        mockFetch
+            .mockResolvedValueOnce(response(503))
+            .mockRejectedValueOnce(new Error('ECONNRESET'))
+            .mockResolvedValueOnce(response(200));
+
+        const result = fetchWithRetries('http://langflow/api/v1/flows/', { method: 'GET' }, { retries: 2, retryBackoffMs: 100 }, 'flow list request');
+        await jest.advanceTimersByTimeAsync(0);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(100);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        await jest.advanceTimersByTimeAsync(199);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        await jest.advanceTimersByTimeAsync(1);
+
+        await expect(result).resolves.toEqual(response(200));
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+        expect(console.warn).toHaveBeenCalledWith("Upstream: flow list request failed (status 503); retrying in 100 ms (attempt 2 of 3).");
+    });
+
+    it('should log retries through the injected logger', async () => {
+        const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+        mockFetch.mockResolvedValueOnce(response(503)).mockResolvedValueOnce(response(200));
+
+        const result = fetchWithRetries('http://langflow/', {}, { retries: 1, retryBackoffMs: 10 }, 'GET /', logger);
+        await jest.advanceTimersByTimeAsync(10);
+
+        await expect(result).resolves.toEqual(response(200));
+        expect(logger.warn).toHaveBeenCalledWith("Upstream: GET / failed (status 503); retrying in 10 ms (attempt 2 of 2).");
+        expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it('should return the last response once the retries are used up', async () => {
+        mockFetch.mockResolvedValue(response(502));
+
+        const result = fetchWithRetries('http://langflow/', {}, { retries: 1, retryBackoffMs: 10 }, 'GET /');
+        await jest.advanceTimersByTimeAsync(10);
+
+        await expect(result).resolves.toEqual(response(502));
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry requests other than GET', async () => {
+        mockFetch.mockRejectedValue(new Error('ECONNRESET'));
+
+        await expect(fetchWithRetries('http://langflow/', { method: 'POST' }, { retries: 3 }, 'POST /')).rejects.toThrow('ECONNRESET');
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort an attempt that gets no response within connectTimeoutMs and throw once the retries are used up', async () => {
+        const signals: AbortSignal[] = [];
+        mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise(() => { signals.push(init.signal!); }));
+
+        const result = fetchWithRetries('http://langflow/', {}, { connectTimeoutMs: 500, retries: 1, retryBackoffMs: 10 }, 'flow list request');
+        const assertion = expect(result).rejects.toThrow("No response from Langflow within 500 ms (flow list request).");
+        await jest.advanceTimersByTimeAsync(1010);
+
+        await assertion;
+        expect(signals).toHaveLength(2);
+        expect(signals.every(signal => signal.aborted)).toBe(true);
+    });
+
+    it('should fail a body still arriving after responseTimeoutMs and cancel it', async () => {
+        let cancelled = false;
+        const stalledBody = new ReadableStream<Uint8Array>({
+            start: controller => controller.enqueue(new TextEncoder().encode('{"flows": [')),
+            cancel: () => { cancelled = true; },
+        });
+        mockFetch.mockResolvedValueOnce(new Response(stalledBody, { status: 200, headers: { 'Content-Type': 'application/json' } }));
+
+        const result = await fetchWithRetries('http://langflow/', {}, { responseTimeoutMs: 1000 }, 'flow list request');
+        expect(result.headers.get('Content-Type')).toBe('application/json');
+        const body = expect(result.json()).rejects.toThrow(new UpstreamTimeoutError('flow list request', 1000));
+        await jest.advanceTimersByTimeAsync(1000);
+
+        await body;
+        expect(cancelled).toBe(true);
+    });
+
+    it('should read a body that arrives in time', async () => {
+        mockFetch.mockResolvedValueOnce(new Response('{"ok": true}', { status: 200 }));
+
+        const result = await fetchWithRetries('http://langflow/', {}, { responseTimeoutMs: 1000 }, 'flow list request');
+
+        await expect(result.json()).resolves.toEqual({ ok: true });
+        expect(jest.getTimerCount()).toBe(0);
+    });
+});
+
+describe('withIdleTimeout', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    async function* events(...gapsMs: number[]) {
+        for (const [index, gapMs] of gapsMs.entries()) {
+            await new Promise(resolve => setTimeout(resolve, gapMs));
+            yield index;
+        }
+    }
+
+    it('should pass the items through while they keep arriving', async () => {
+        const received: number[] = [];
+        const consumed = (async () => {
+            for await (const item of withIdleTimeout(events(400, 400, 400), 500, 'flow stream', () => undefined)) received.push(item);
+        })();
+        await jest.advanceTimersByTimeAsync(1200);
+
+        await consumed;
+        expect(received).toEqual([0, 1, 2]);
+    });
+
+    it('should call onTimeout and throw when the stream goes quiet', async () => {
+        const onTimeout = jest.fn();
+        const received: number[] = [];
+        const consumed = (async () => {
+            for await (const item of withIdleTimeout(events(100, 5000), 500, 'flow stream', onTimeout)) received.push(item);
+        })();
+        const assertion = expect(consumed).rejects.toThrow(new UpstreamTimeoutError('flow stream', 500));
+        await jest.advanceTimersByTimeAsync(600);
+
+        await assertion;
+        expect(received).toEqual([0]);
+        expect(onTimeout).toHaveBeenCalledWith(expect.any(UpstreamTimeoutError));
+    });
+});
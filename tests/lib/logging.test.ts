@@ -0,0 +1,98 @@
+import http from 'http';
+import { consoleLogger, JsonLogger, resolveRequestId, ServerLogger, withLogFields } from '../../src/lib/logging';
+
+describe('JsonLogger', () => {
+    let lines: string[];
+    const entries = () => lines.map(line => JSON.parse(line));
+
+    beforeEach(() => {
+        lines = [];
+    });
+
+    it('should write one JSON line per entry with the level, message and fields', () => {
+        const logger = new JsonLogger({ write: line => lines.push(line) });
+
+        logger.warn('RequestHandler: Rate limit exceeded.', { requestId: 'req-1', route: 'chat', profileId: 'support', sessionId: undefined });
+
+        expect(lines).toHaveLength(1);
+        expect(entries()[0]).toEqual({
+            time: expect.any(String),
+            level: 'warn',
+            msg: 'RequestHandler: Rate limit exceeded.',
+            requestId: 'req-1',
+            route: 'chat',
+            profileId: 'support',
+        });
+    });
+
+    it('should skip entries below its level', () => {
+        const logger = new JsonLogger({ level: 'warn', write: line => lines.push(line) });
+
+        logger.info('not written');
+        logger.debug('not written');
+        logger.error('written');
+
+        expect(entries().map(entry => entry.msg)).toEqual(['written']);
+    });
+
+    it('should write errors with their name, message and stack', () => {
+        const logger = new JsonLogger({ write: line => lines.push(line) });
+
+        logger.error('Failed.', { error: new TypeError('boom') });
+
+        expect(entries()[0].error).toEqual({ name: 'TypeError', message: 'boom', stack: expect.stringContaining('boom') });
+    });
+
+    it('should still write the entry when a field cannot be serialized', () => {
+        const logger = new JsonLogger({ write: line => lines.push(line) });
+        const circular: any = {};
+        circular.self = circular;
+
+        logger.info('Unexpected response.', { requestId: 'req-1', data: circular });
+
+        expect(entries()[0]).toEqual({ time: expect.any(String), level: 'info', msg: 'Unexpected response.', requestId: 'req-1', logError: 'Fields could not be serialized.' });
+    });
+});
+
+describe('withLogFields', () => {
+    it('should add its fields to every entry, letting entry fields take precedence', () => {
+        const logger: ServerLogger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+
+        const child = withLogFields(withLogFields(logger, { requestId: 'req-1', route: 'chat' }), { profileId: 'support' });
+        child.info('Streaming.', { route: 'ws' });
+
+        expect(logger.info).toHaveBeenCalledWith('Streaming.', { requestId: 'req-1', route: 'ws', profileId: 'support' });
+    });
+});
+
+describe('consoleLogger', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should print the message followed by the error or dumped data only', () => {
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+        const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+        const error = new Error('boom');
+
+        consoleLogger.error('Failed:', { requestId: 'req-1', error });
+        consoleLogger.info('Loaded.', { requestId: 'req-1' });
+
+        expect(errorSpy).toHaveBeenCalledWith('Failed:', error);
+        expect(logSpy).toHaveBeenCalledWith('Loaded.');
+    });
+});
+
+describe('resolveRequestId', () => {
+    const request = (headers: http.IncomingHttpHeaders) => ({ headers } as http.IncomingMessage);
+
+    it('should reuse a well-formed X-Request-Id header', () => {
+        expect(resolveRequestId(request({ 'x-request-id': 'abc-123:def.4_5' }))).toBe('abc-123:def.4_5');
+    });
+
+    it('should generate an id when the header is missing or malformed', () => {
+        expect(resolveRequestId(request({}))).toMatch(/^[0-9a-f-]{36}$/);
+        expect(resolveRequestId(request({ 'x-request-id': 'forged\n{"level":"error"}' }))).toMatch(/^[0-9a-f-]{36}$/);
+        expect(resolveRequestId(request({ 'x-request-id': 'a'.repeat(129) }))).toMatch(/^[0-9a-f-]{36}$/);
+    });
+});
@@ -0,0 +1,24 @@
+import { checkMessagePolicy } from '../../src/lib/messagePolicy';
+
+describe('checkMessagePolicy', () => {
+    it('should allow any message without a policy', () => {
+        expect(checkMessagePolicy(undefined, 'x'.repeat(100000))).toEqual({ allowed: true });
+    });
+
+    it('should enforce the maximum message length', () => {
+        const policy = { maxMessageLength: 5 };
+        expect(checkMessagePolicy(policy, 'hello')).toEqual({ allowed: true });
+        expect(checkMessagePolicy(policy, 'hello!')).toEqual({
+            allowed: false,
+            statusCode: 400,
+            error: "Message is too long.",
+            detail: "Messages are limited to 5 characters (received 6).",
+        });
+    });
+
+    it('should reject messages matching a blocked pattern case-insensitively', () => {
+        const policy = { blockedPatterns: ['drop\\s+table'] };
+        expect(checkMessagePolicy(policy, 'please DROP  TABLE users')).toMatchObject({ allowed: false, statusCode: 400, error: "Message was rejected." });
+        expect(checkMessagePolicy(policy, 'a table of drops')).toEqual({ allowed: true });
+    });
+});
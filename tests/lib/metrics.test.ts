@@ -0,0 +1,115 @@
+import http from 'http';
+import { classifyRoute, handleMetricsRequest, PROMETHEUS_CONTENT_TYPE, ProxyMetrics, upstreamErrorLabel } from '../../src/lib/metrics';
+import { UpstreamTimeoutError } from '../../src/lib/langflow/upstream';
+
+describe('ProxyMetrics', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should render counters with their labels in the Prometheus text format', () => {
+        const metrics = new ProxyMetrics();
+        metrics.recordRequest('chat', 'support', 'POST', 200);
+        metrics.recordRequest('chat', 'support', 'POST', 200);
+        metrics.recordRequest('config', '', 'GET', 404);
+
+        const text = metrics.render();
+
+        expect(text).toContain('# TYPE langflow_chatbot_http_requests_total counter');
+        expect(text).toContain('langflow_chatbot_http_requests_total{route="chat",profile="support",method="POST",status="200"} 2');
+        expect(text).toContain('langflow_chatbot_http_requests_total{route="config",profile="",method="GET",status="404"} 1');
+        expect(text.endsWith('\n')).toBe(true);
+    });
+
+    it('should escape quotes, backslashes and newlines in label values', () => {
+        const metrics = new ProxyMetrics();
+        metrics.recordRequest('chat', 'a"b\\c\nd', 'POST', 200);
+
+        expect(metrics.render()).toContain('profile="a\\"b\\\\c\\nd"');
+    });
+
+    it('should time a chat into cumulative histogram buckets', () => {
+        jest.useFakeTimers();
+        const metrics = new ProxyMetrics([1, 5]);
+        const observation = metrics.startChat('support', 'stream');
+        expect(metrics.render()).toContain('langflow_chatbot_active_streams{profile="support"} 1');
+
+        jest.advanceTimersByTime(500);
+        observation.firstToken();
+        jest.advanceTimersByTime(2500);
+        observation.firstToken();
+        observation.finish('completed');
+        observation.finish('error');
+
+        const text = metrics.render();
+        expect(text).toContain('langflow_chatbot_time_to_first_token_seconds_bucket{profile="support",le="1"} 1');
+        expect(text).toContain('langflow_chatbot_time_to_first_token_seconds_count{profile="support"} 1');
+        expect(text).toContain('langflow_chatbot_response_duration_seconds_bucket{profile="support",mode="stream",le="1"} 0');
+        expect(text).toContain('langflow_chatbot_response_duration_seconds_bucket{profile="support",mode="stream",le="5"} 1');
+        expect(text).toContain('langflow_chatbot_response_duration_seconds_bucket{profile="support",mode="stream",le="+Inf"} 1');
+        expect(text).toContain('langflow_chatbot_response_duration_seconds_sum{profile="support",mode="stream"} 3');
+        expect(text).toContain('langflow_chatbot_chat_requests_total{profile="support",mode="stream",outcome="completed"} 1');
+        expect(text).not.toContain('outcome="error"');
+        expect(text).toContain('langflow_chatbot_active_streams{profile="support"} 0');
+    });
+
+    it('should count cancelled and timed-out chats without timing them', () => {
+        const metrics = new ProxyMetrics();
+        metrics.startChat('support', 'non_stream').finish('timeout');
+        metrics.startChat('support', 'non_stream').finish('cancelled');
+
+        const text = metrics.render();
+        expect(text).toContain('langflow_chatbot_chat_requests_total{profile="support",mode="non_stream",outcome="timeout"} 1');
+        expect(text).toContain('langflow_chatbot_chat_requests_total{profile="support",mode="non_stream",outcome="cancelled"} 1');
+        expect(text).not.toContain('langflow_chatbot_response_duration_seconds_count');
+    });
+
+    it('should serve the rendered metrics with the Prometheus content type', () => {
+        const metrics = new ProxyMetrics();
+        metrics.recordUpstreamError(503);
+        const res = { setHeader: jest.fn(), end: jest.fn(), statusCode: 0 } as unknown as http.ServerResponse;
+
+        handleMetricsRequest(res, metrics);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.setHeader).toHaveBeenCalledWith('Content-Type', PROMETHEUS_CONTENT_TYPE);
+        expect(res.end).toHaveBeenCalledWith(expect.stringContaining('langflow_chatbot_upstream_errors_total{status="503"} 1'));
+    });
+});
+
+describe('classifyRoute', () => {
+    it.each([
+        ['/chat/support', { route: 'chat', profileId: 'support' }],
+        ['/chat/support/history', { route: 'history', profileId: 'support' }],
+        ['/chat/support/files/flow-1/a.png', { route: 'files', profileId: 'support' }],
+        ['/config/support', { route: 'config', profileId: 'support' }],
+        ['/profiles', { route: 'profiles' }],
+        ['/flows-config', { route: 'flows-config' }],
+        ['/metrics', { route: 'metrics' }],
+        ['/healthz', { route: 'healthz' }],
+        ['/readyz', { route: 'readyz' }],
+        ['/ws', { route: 'ws' }],
+        ['/some/unknown/path', { route: 'other' }],
+    ])('should classify %s', (pathname, expected) => {
+        expect(classifyRoute(pathname)).toEqual(expected);
+    });
+
+    it('should count every unknown path under other', () => {
+        const metrics = new ProxyMetrics();
+        ['/aaa', '/aab', '/unknown-route', '/'].forEach(pathname => metrics.recordRequest(classifyRoute(pathname).route, '', 'GET', 404));
+
+        const output = metrics.render();
+
+        expect(output).toContain('langflow_chatbot_http_requests_total{route="other",profile="",method="GET",status="404"} 4');
+        expect(output).not.toMatch(/route="(aaa|aab|unknown-route)"/);
+    });
+});
+
+describe('upstreamErrorLabel', () => {
+    it('should name the status, a timeout, or a network error', () => {
+        expect(upstreamErrorLabel(502)).toBe('502');
+        expect(upstreamErrorLabel(Object.assign(new Error('Not Found'), { cause: { status: 404 } }))).toBe('404');
+        expect(upstreamErrorLabel(new UpstreamTimeoutError('flow run', 1000))).toBe('timeout');
+        expect(upstreamErrorLabel(new Error('fetch failed'))).toBe('network');
+    });
+});
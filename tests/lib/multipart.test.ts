@@ -0,0 +1,63 @@
+import http from 'http';
+import { Readable } from 'stream';
+import { getMultipartBoundary, parseMultipartBody, parseMultipartBuffer } from '../../src/lib/multipart';
+
+const boundary = 'XyZ123';
+
+function multipartBody(parts: string[]): Buffer {
+    return Buffer.from(parts.map(part => `--${boundary}\r\n${part}\r\n`).join('') + `--${boundary}--\r\n`, 'utf-8');
+}
+
+describe('getMultipartBoundary', () => {
+    it('should read plain and quoted boundaries', () => {
+        expect(getMultipartBoundary('multipart/form-data; boundary=XyZ123')).toBe('XyZ123');
+        expect(getMultipartBoundary('Multipart/Form-Data; charset=utf-8; boundary="a b"')).toBe('a b');
+    });
+
+    it('should return null for other types or a missing boundary', () => {
+        expect(getMultipartBoundary(undefined)).toBeNull();
+        expect(getMultipartBoundary('application/json')).toBeNull();
+        expect(getMultipartBoundary('multipart/form-data')).toBeNull();
+        expect(getMultipartBoundary('multipart/form-datax; boundary=a')).toBeNull();
+    });
+});
+
+describe('parseMultipartBuffer', () => {
+    it('should split fields and files, keeping file bytes as they are', () => {
+        const parts = parseMultipartBuffer(multipartBody([
+            'Content-Disposition: form-data; name="note"\r\n\r\nhello',
+            'Content-Disposition: form-data; name="file"; filename="a \\"b\\".png"\r\nContent-Type: image/png\r\n\r\né\r\nline',
+        ]), boundary);
+
+        expect(parts).toHaveLength(2);
+        expect(parts[0]).toEqual({ name: 'note', filename: undefined, contentType: 'application/octet-stream', data: Buffer.from('hello') });
+        expect(parts[1].name).toBe('file');
+        expect(parts[1].filename).toBe('a "b".png');
+        expect(parts[1].contentType).toBe('image/png');
+        expect(parts[1].data.toString('utf-8')).toBe('é\r\nline');
+    });
+
+    it('should accept an empty body of only the closing boundary', () => {
+        expect(parseMultipartBuffer(Buffer.from(`--${boundary}--\r\n`), boundary)).toEqual([]);
+    });
+
+    it.each([
+        ['the boundary is missing', 'no boundary here'],
+        ['the closing boundary is missing', `--${boundary}\r\nContent-Disposition: form-data; name="a"\r\n\r\nvalue`],
+        ['a part has no headers', `--${boundary}\r\nvalue\r\n--${boundary}--`],
+        ['a part has no form-data name', `--${boundary}\r\nContent-Type: text/plain\r\n\r\nvalue\r\n--${boundary}--`],
+    ])('should throw when %s', (_reason, body) => {
+        expect(() => parseMultipartBuffer(Buffer.from(body), boundary)).toThrow('Invalid multipart body');
+    });
+});
+
+describe('parseMultipartBody', () => {
+    it('should read the request before parsing it, enforcing the size limit', async () => {
+        const body = multipartBody(['Content-Disposition: form-data; name="file"; filename="a.txt"\r\nContent-Type: text/plain\r\n\r\nabc']);
+        const request = () => Readable.from([body]) as unknown as http.IncomingMessage;
+
+        const parts = await parseMultipartBody(request(), boundary, body.length);
+        expect(parts.map(part => part.filename)).toEqual(['a.txt']);
+        await expect(parseMultipartBody(request(), boundary, 10)).rejects.toThrow('Request body too large');
+    });
+});
@@ -0,0 +1,113 @@
+import http from 'http';
+import { RateLimiter, isValidRateLimitConfig } from '../../src/lib/rateLimiter';
+import { Profile, RateLimitConfig } from '../../src/types';
+
+const createReq = (remoteAddress: string): http.IncomingMessage => ({ socket: { remoteAddress } } as unknown as http.IncomingMessage);
+
+const profileWithLimit = (rateLimit?: RateLimitConfig, profileId = 'bot'): Profile => ({
+    profileId,
+    server: { flowId: 'flow', rateLimit },
+    chatbot: {},
+});
+
+describe('isValidRateLimitConfig', () => {
+    it.each([
+        [{ requestsPerMinute: 10 }, true],
+        [{ requestsPerMinute: 0.5, burst: 2, keyBy: 'principal' }, true],
+        [{ requestsPerMinute: 0 }, false],
+        [{ requestsPerMinute: 10, burst: 0 }, false],
+        [{ requestsPerMinute: 10, keyBy: 'cookie' }, false],
+        [{ burst: 5 }, false],
+        ['10/min', false],
+        [null, false],
+    ])('should classify %p as %p', (config, expected) => {
+        expect(isValidRateLimitConfig(config)).toBe(expected);
+    });
+});
+
+describe('RateLimiter', () => {
+    let now: number;
+    const req = createReq('10.0.0.1');
+
+    beforeEach(() => {
+        now = 0;
+    });
+
+    it('should allow everything when no limit applies', () => {
+        const limiter = new RateLimiter(undefined, () => now);
+        for (let i = 0; i < 100; i++) {
+            expect(limiter.consume(profileWithLimit(), { req })).toEqual({ allowed: true });
+        }
+    });
+
+    it('should allow a burst and then reject with the time until the next token', () => {
+        const limiter = new RateLimiter(undefined, () => now);
+        const profile = profileWithLimit({ requestsPerMinute: 6, burst: 2 });
+        expect(limiter.consume(profile, { req }).allowed).toBe(true);
+        expect(limiter.consume(profile, { req }).allowed).toBe(true);
+        expect(limiter.consume(profile, { req })).toEqual({ allowed: false, retryAfterSeconds: 10 });
+
+        now = 4_000;
+        expect(limiter.consume(profile, { req })).toEqual({ allowed: false, retryAfterSeconds: 6 });
+        now = 10_000;
+        expect(limiter.consume(profile, { req }).allowed).toBe(true);
+    });
+
+    it('should keep separate buckets per client IP and per profile', () => {
+        const limiter = new RateLimiter(undefined, () => now);
+        const profile = profileWithLimit({ requestsPerMinute: 1 });
+        expect(limiter.consume(profile, { req }).allowed).toBe(true);
+        expect(limiter.consume(profile, { req }).allowed).toBe(false);
+        expect(limiter.consume(profile, { req: createReq('10.0.0.2') }).allowed).toBe(true);
+        expect(limiter.consume(profileWithLimit({ requestsPerMinute: 1 }, 'other-bot'), { req }).allowed).toBe(true);
+    });
+
+    it('should key by session or principal and fall back to the IP when they are missing', () => {
+        const limiter = new RateLimiter(undefined, () => now);
+        const bySession = profileWithLimit({ requestsPerMinute: 1, keyBy: 'session' }, 'session-bot');
+        const alice = { id: 'alice' };
+        expect(limiter.consume(bySession, { req, sessionId: 's1', principal: alice }).allowed).toBe(true);
+        expect(limiter.consume(bySession, { req, sessionId: 's2', principal: alice }).allowed).toBe(true);
+        expect(limiter.consume(bySession, { req, sessionId: 's1', principal: alice }).allowed).toBe(false);
+        expect(limiter.consume(bySession, { req, sessionId: 's1', principal: { id: 'bob' } }).allowed).toBe(true);
+        expect(limiter.consume(bySession, { req }).allowed).toBe(true);
+        expect(limiter.consume(bySession, { req }).allowed).toBe(false);
+
+        const byPrincipal = profileWithLimit({ requestsPerMinute: 1, keyBy: 'principal' }, 'principal-bot');
+        expect(limiter.consume(byPrincipal, { req, principal: { id: 'alice' } }).allowed).toBe(true);
+        expect(limiter.consume(byPrincipal, { req: createReq('10.0.0.9'), principal: { id: 'alice' } }).allowed).toBe(false);
+        expect(limiter.consume(byPrincipal, { req, principal: { id: 'bob' } }).allowed).toBe(true);
+    });
+
+    it('should key anonymous sessions by IP, so rotating session IDs does not get fresh buckets', () => {
+        const limiter = new RateLimiter(undefined, () => now);
+        const bySession = profileWithLimit({ requestsPerMinute: 1, keyBy: 'session' }, 'session-bot');
+        expect(limiter.consume(bySession, { req, sessionId: 's1' }).allowed).toBe(true);
+        expect(limiter.consume(bySession, { req, sessionId: 's2' }).allowed).toBe(false);
+        expect(limiter.consume(bySession, { req: createReq('10.0.0.2'), sessionId: 's3' }).allowed).toBe(true);
+    });
+
+    it('should check without spending a token', () => {
+        const limiter = new RateLimiter(undefined, () => now);
+        const profile = profileWithLimit({ requestsPerMinute: 1 });
+        expect(limiter.check(profile, { req }).allowed).toBe(true);
+        expect(limiter.check(profile, { req }).allowed).toBe(true);
+        expect(limiter.consume(profile, { req }).allowed).toBe(true);
+        expect(limiter.check(profile, { req })).toEqual({ allowed: false, retryAfterSeconds: 60 });
+    });
+
+    it('should apply the global limit across profiles', () => {
+        const limiter = new RateLimiter({ requestsPerMinute: 2 }, () => now);
+        expect(limiter.consume(profileWithLimit(undefined, 'a'), { req }).allowed).toBe(true);
+        expect(limiter.consume(profileWithLimit(undefined, 'b'), { req }).allowed).toBe(true);
+        expect(limiter.consume(profileWithLimit(undefined, 'c'), { req })).toEqual({ allowed: false, retryAfterSeconds: 30 });
+    });
+
+    it('should not spend a global token when the profile limit rejects the request', () => {
+        const limiter = new RateLimiter({ requestsPerMinute: 2, burst: 2 }, () => now);
+        const strict = profileWithLimit({ requestsPerMinute: 1 }, 'strict');
+        expect(limiter.consume(strict, { req }).allowed).toBe(true);
+        expect(limiter.consume(strict, { req }).allowed).toBe(false);
+        expect(limiter.consume(profileWithLimit(undefined, 'open'), { req }).allowed).toBe(true);
+    });
+});
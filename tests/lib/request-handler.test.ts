@@ -2,7 +2,10 @@ import http from 'http';
 import { URL } from 'url';
 import { LangflowClient } from '@datastax/langflow-client';
 import { Profile } from '../../src/types';
-import { handleRequest } from '../../src/lib/request-handler';
+import { buildChatRequestOptions, handleRequest } from '../../src/lib/request-handler';
+import { SessionOwnershipGuard } from '../../src/lib/auth/sessionOwnership';
+import { FileOwnershipGuard } from '../../src/lib/auth/fileOwnership';
+import { RateLimiter } from '../../src/lib/rateLimiter';
 import {
     PROFILE_CONFIG_ENDPOINT_PREFIX,
     PROFILE_CHAT_ENDPOINT_PREFIX,
@@ -31,6 +34,11 @@ jest.mock('../../src/lib/langflow/historyHandlers', () => ({
 jest.mock('../../src/lib/langflow/chatHandlers', () => ({
     handleChatMessageRequest: jest.fn(),
 }));
+jest.mock('../../src/lib/langflow/fileHandlers', () => ({
+    createAttachmentContext: jest.fn(),
+    handleFileUploadRequest: jest.fn(),
+    handleFileDownloadRequest: jest.fn(),
+}));
 
 // Import the mocked functions for use in tests
 import { sendJsonError } from '../../src/lib/request-utils';
@@ -38,6 +46,7 @@ import { handleGetChatbotConfigRequest, handleListChatbotProfilesRequest } from
 import { handleGetFlowsRequest } from '../../src/lib/langflow/flowsHandlers';
 import { handleGetChatHistoryRequest } from '../../src/lib/langflow/historyHandlers';
 import { handleChatMessageRequest } from '../../src/lib/langflow/chatHandlers';
+import { handleFileDownloadRequest, handleFileUploadRequest } from '../../src/lib/langflow/fileHandlers';
 
 
 // Helper to create a mock IncomingMessage
@@ -150,7 +159,7 @@ describe('handleRequest', () => {
         test('GET should call handleGetChatbotConfigRequest for valid path', async () => {
             mockReq = createMockReq('GET', configPath);
             await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed);
-            expect(handleGetChatbotConfigRequest).toHaveBeenCalledWith(profileId, mockRes, mockChatbotConfigurations, mockProxyApiBasePath);
+            expect(handleGetChatbotConfigRequest).toHaveBeenCalledWith(profileId, mockRes, mockChatbotConfigurations, mockProxyApiBasePath, expect.any(Object));
         });
 
         test('Non-GET method should result in 404', async () => {
@@ -166,7 +175,7 @@ describe('handleRequest', () => {
         test('GET should call handleListChatbotProfilesRequest', async () => {
             mockReq = createMockReq('GET', profilesPath);
             await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed);
-            expect(handleListChatbotProfilesRequest).toHaveBeenCalledWith(mockReq, mockRes, mockChatbotConfigurations);
+            expect(handleListChatbotProfilesRequest).toHaveBeenCalledWith(mockReq, mockRes, mockChatbotConfigurations, expect.any(Object));
         });
 
         test('Non-GET method should result in 404', async () => {
@@ -182,7 +191,7 @@ describe('handleRequest', () => {
         test('GET should call handleGetFlowsRequest', async () => {
             mockReq = createMockReq('GET', flowsPath);
             await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed);
-            expect(handleGetFlowsRequest).toHaveBeenCalledWith(mockReq, mockRes, mockMakeDirectLangflowApiRequest);
+            expect(handleGetFlowsRequest).toHaveBeenCalledWith(mockReq, mockRes, mockMakeDirectLangflowApiRequest, expect.any(Object));
         });
 
         test('Non-GET method should result in 404', async () => {
@@ -234,7 +243,7 @@ describe('handleRequest', () => {
             test('POST to messagesPath should call handleChatMessageRequest with default body params', async () => {
                 mockReq = createMockReq('POST', messagesPath, { message: 'Hello' });
                 await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed);
-                expect(handleChatMessageRequest).toHaveBeenCalledWith(mockReq, mockRes, validProfile.server.flowId, validProfile.server.enableStream, mockLangflowClient, undefined, false);
+                expect(handleChatMessageRequest).toHaveBeenCalledWith(mockReq, mockRes, validProfile.server.flowId, validProfile.server.enableStream, mockLangflowClient, undefined, false, { profileId, conversationStore: undefined, principal: null });
             });
 
             test('POST to messagesPath should call handleChatMessageRequest with provided body params', async () => {
@@ -242,7 +251,7 @@ describe('handleRequest', () => {
                 const testBody = { "data": "test" };
                 const testIsPreParsed = true;
                 await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, testBody, testIsPreParsed);
-                expect(handleChatMessageRequest).toHaveBeenCalledWith(mockReq, mockRes, validProfile.server.flowId, validProfile.server.enableStream, mockLangflowClient, testBody, testIsPreParsed);
+                expect(handleChatMessageRequest).toHaveBeenCalledWith(mockReq, mockRes, validProfile.server.flowId, validProfile.server.enableStream, mockLangflowClient, testBody, testIsPreParsed, { profileId, conversationStore: undefined, principal: null });
             });
 
             test('POST to messagesPath should respect enableStream=false in profile', async () => {
@@ -257,7 +266,7 @@ describe('handleRequest', () => {
                 mockChatbotConfigurations.set(profileId, noStreamProfile);
                 mockReq = createMockReq('POST', messagesPath, { message: 'Hello' });
                 await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed);
-                expect(handleChatMessageRequest).toHaveBeenCalledWith(mockReq, mockRes, noStreamProfile.server.flowId, false, mockLangflowClient, undefined, false);
+                expect(handleChatMessageRequest).toHaveBeenCalledWith(mockReq, mockRes, noStreamProfile.server.flowId, false, mockLangflowClient, undefined, false, { profileId, conversationStore: undefined, principal: null });
             });
 
             test('POST to messagesPath should respect enableStream=true in profile', async () => {
@@ -272,20 +281,68 @@ describe('handleRequest', () => {
                 mockChatbotConfigurations.set(profileId, streamProfile);
                 mockReq = createMockReq('POST', messagesPath, { message: 'Hello Stream' });
                 await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed);
-                expect(handleChatMessageRequest).toHaveBeenCalledWith(mockReq, mockRes, streamProfile.server.flowId, true, mockLangflowClient, undefined, false);
+                expect(handleChatMessageRequest).toHaveBeenCalledWith(mockReq, mockRes, streamProfile.server.flowId, true, mockLangflowClient, undefined, false, { profileId, conversationStore: undefined, principal: null });
             });
 
             test('GET to historyPath should call handleGetChatHistoryRequest with session_id', async () => {
                 const sessionId = 'session-xyz';
                 mockReq = createMockReq('GET', `${historyPath}?session_id=${sessionId}`);
                 await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed);
-                expect(handleGetChatHistoryRequest).toHaveBeenCalledWith(mockRes, validProfile.server.flowId, sessionId, mockMakeDirectLangflowApiRequest);
+                expect(handleGetChatHistoryRequest).toHaveBeenCalledWith(mockRes, validProfile.server.flowId, sessionId, mockMakeDirectLangflowApiRequest, undefined, expect.any(Object));
+            });
+
+            test('should pass the conversation store and profileId to chat and history handlers when configured', async () => {
+                const conversationStore = { appendMessages: jest.fn(), getMessages: jest.fn() };
+                mockReq = createMockReq('POST', messagesPath, { message: 'Hello' });
+                await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed, { conversationStore });
+                expect(handleChatMessageRequest).toHaveBeenCalledWith(mockReq, mockRes, validProfile.server.flowId, validProfile.server.enableStream, mockLangflowClient, undefined, false, { profileId, conversationStore, principal: null });
+
+                mockReq = createMockReq('GET', `${historyPath}?session_id=s1`);
+                await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed, { conversationStore });
+                expect(handleGetChatHistoryRequest).toHaveBeenCalledWith(mockRes, validProfile.server.flowId, 's1', mockMakeDirectLangflowApiRequest, { store: conversationStore, profileId }, expect.any(Object));
+            });
+
+            test('should pass the rate limiter together with the profile to the chat handler', async () => {
+                const rateLimiter = new RateLimiter();
+                mockReq = createMockReq('POST', messagesPath, { message: 'Hello' });
+                await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed, { rateLimiter });
+                expect(handleChatMessageRequest).toHaveBeenCalledWith(mockReq, mockRes, validProfile.server.flowId, validProfile.server.enableStream, mockLangflowClient, undefined, false, { profileId, principal: null, rateLimit: { limiter: rateLimiter, profile: validProfile } });
             });
 
             test('GET to historyPath should call handleGetChatHistoryRequest with null session_id if not provided', async () => {
                 mockReq = createMockReq('GET', historyPath);
                 await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed);
-                expect(handleGetChatHistoryRequest).toHaveBeenCalledWith(mockRes, validProfile.server.flowId, null, mockMakeDirectLangflowApiRequest);
+                expect(handleGetChatHistoryRequest).toHaveBeenCalledWith(mockRes, validProfile.server.flowId, null, mockMakeDirectLangflowApiRequest, undefined, expect.any(Object));
+            });
+
+            test('POST to the files path should call handleFileUploadRequest with the Langflow connection', async () => {
+                mockReq = createMockReq('POST', `${messagesPath}/files`);
+                await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed);
+                expect(handleFileUploadRequest).toHaveBeenCalledWith(mockReq, mockRes, validProfile, { endpointUrl: mockLangflowEndpointUrl, apiKey: mockLangflowApiKey }, expect.any(Object));
+                expect(handleChatMessageRequest).not.toHaveBeenCalled();
+            });
+
+            test('GET below the files path should call handleFileDownloadRequest with the still encoded segments', async () => {
+                mockReq = createMockReq('GET', `${messagesPath}/files/flow-1/a%20b.png`);
+                await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed);
+                expect(handleFileDownloadRequest).toHaveBeenCalledWith(mockRes, validProfile, ['flow-1', 'a%20b.png'], expect.any(Function), expect.any(Object));
+
+                const makeDirect = (handleFileDownloadRequest as jest.Mock).mock.calls[0][3];
+                await makeDirect(mockRes, '/api/v1/files/download/flow-1/a%20b.png', 'GET');
+                expect(mockMakeDirectLangflowApiRequest).toHaveBeenCalledWith(mockRes, '/api/v1/files/download/flow-1/a%20b.png', 'GET', undefined, undefined);
+            });
+
+            test('should pass the file ownership guard, the caller and the session_id to the file routes', async () => {
+                const fileOwnership = new FileOwnershipGuard();
+                const options = { fileOwnership };
+                const uploadReq = createMockReq('POST', `${messagesPath}/files?session_id=s1`);
+                await handleRequest(uploadReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed, options);
+                mockReq = createMockReq('GET', `${messagesPath}/files/flow-1/a.png?session_id=s1`);
+                await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed, options);
+
+                const caller = expect.objectContaining({ fileOwnership, principal: null, sessionId: 's1' });
+                expect(handleFileUploadRequest).toHaveBeenCalledWith(uploadReq, mockRes, validProfile, expect.any(Object), caller);
+                expect(handleFileDownloadRequest).toHaveBeenCalledWith(mockRes, validProfile, ['flow-1', 'a.png'], expect.any(Function), caller);
             });
 
             test('Invalid method to messagesPath should result in 404', async () => {
@@ -301,10 +358,222 @@ describe('handleRequest', () => {
             });
         });
     });
+
+    describe('Access control', () => {
+        const publicProfile: Profile = { profileId: 'public-bot', server: { flowId: 'flow-public' }, chatbot: {} };
+        const membersProfile: Profile = { profileId: 'members-bot', server: { flowId: 'flow-members', access: 'authenticated' }, chatbot: {} };
+        const staffProfile: Profile = { profileId: 'staff-bot', server: { flowId: 'flow-staff', access: { roles: ['staff', 'admin'] } }, chatbot: {} };
+        let authenticate: jest.Mock;
+
+        const callHandleRequest = (req: http.IncomingMessage) => handleRequest(
+            req, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey,
+            mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed, { authenticate }
+        );
+
+        beforeEach(() => {
+            mockChatbotConfigurations.set(publicProfile.profileId, publicProfile);
+            mockChatbotConfigurations.set(membersProfile.profileId, membersProfile);
+            mockChatbotConfigurations.set(staffProfile.profileId, staffProfile);
+            authenticate = jest.fn().mockResolvedValue(null);
+        });
+
+        test('should allow anonymous callers to use public profiles', async () => {
+            mockReq = createMockReq('POST', `${PROFILE_CHAT_ENDPOINT_PREFIX}/public-bot`);
+            await callHandleRequest(mockReq);
+            expect(authenticate).toHaveBeenCalledWith(mockReq);
+            expect(handleChatMessageRequest).toHaveBeenCalled();
+        });
+
+        test('should respond 401 to anonymous callers of authenticated profiles', async () => {
+            mockReq = createMockReq('POST', `${PROFILE_CHAT_ENDPOINT_PREFIX}/members-bot`);
+            await callHandleRequest(mockReq);
+            expect(sendJsonError).toHaveBeenCalledWith(mockRes, 401, "Authentication required.");
+            expect(handleChatMessageRequest).not.toHaveBeenCalled();
+        });
+
+        test('should treat a throwing authenticate hook as anonymous', async () => {
+            authenticate.mockRejectedValueOnce(new Error('bad token'));
+            mockReq = createMockReq('GET', `${PROFILE_CHAT_ENDPOINT_PREFIX}/members-bot/history?session_id=s1`);
+            await callHandleRequest(mockReq);
+            expect(sendJsonError).toHaveBeenCalledWith(mockRes, 401, "Authentication required.");
+            expect(handleGetChatHistoryRequest).not.toHaveBeenCalled();
+        });
+
+        test('should pass the resolved principal to the chat handler', async () => {
+            const principal = { id: 'user-1' };
+            authenticate.mockResolvedValueOnce(principal);
+            mockReq = createMockReq('POST', `${PROFILE_CHAT_ENDPOINT_PREFIX}/members-bot`);
+            await callHandleRequest(mockReq);
+            expect(handleChatMessageRequest).toHaveBeenCalledWith(
+                mockReq, mockRes, 'flow-members', true, mockLangflowClient, undefined, false,
+                { profileId: 'members-bot', conversationStore: undefined, principal }
+            );
+        });
+
+        test('should respond 403 when the principal lacks the required roles', async () => {
+            authenticate.mockResolvedValueOnce({ id: 'user-1', roles: ['customer'] });
+            mockReq = createMockReq('GET', `${PROFILE_CONFIG_ENDPOINT_PREFIX}/staff-bot`);
+            await callHandleRequest(mockReq);
+            expect(sendJsonError).toHaveBeenCalledWith(mockRes, 403, "Access to chatbot profile 'staff-bot' is not permitted.");
+            expect(handleGetChatbotConfigRequest).not.toHaveBeenCalled();
+        });
+
+        test('should allow principals holding one of the required roles', async () => {
+            authenticate.mockResolvedValueOnce({ id: 'user-2', roles: ['admin'] });
+            mockReq = createMockReq('GET', `${PROFILE_CONFIG_ENDPOINT_PREFIX}/staff-bot`);
+            await callHandleRequest(mockReq);
+            expect(handleGetChatbotConfigRequest).toHaveBeenCalledWith('staff-bot', mockRes, mockChatbotConfigurations, mockProxyApiBasePath, expect.any(Object));
+        });
+
+        test('should only list the profiles the caller may access', async () => {
+            authenticate.mockResolvedValueOnce({ id: 'user-1' });
+            mockReq = createMockReq('GET', PROXY_PROFILES_SUFFIX);
+            await callHandleRequest(mockReq);
+            const listedProfiles = (handleListChatbotProfilesRequest as jest.Mock).mock.calls[0][2] as Map<string, Profile>;
+            expect(Array.from(listedProfiles.keys())).toEqual(['public-bot', 'members-bot']);
+        });
+
+        describe('Session ownership', () => {
+            let sessionOwnership: SessionOwnershipGuard;
+
+            const callWithOwnership = (req: http.IncomingMessage) => handleRequest(
+                req, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey,
+                mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed, { authenticate, sessionOwnership }
+            );
+
+            beforeEach(async () => {
+                sessionOwnership = new SessionOwnershipGuard();
+                await sessionOwnership.claim('members-bot', 's1', { id: 'owner' });
+                jest.spyOn(console, 'warn').mockImplementation(() => {});
+            });
+
+            afterEach(() => {
+                (console.warn as jest.Mock).mockRestore();
+            });
+
+            test('should serve history to the principal that owns the session', async () => {
+                authenticate.mockResolvedValueOnce({ id: 'owner' });
+                mockReq = createMockReq('GET', `${PROFILE_CHAT_ENDPOINT_PREFIX}/members-bot/history?session_id=s1`);
+                await callWithOwnership(mockReq);
+                expect(handleGetChatHistoryRequest).toHaveBeenCalled();
+            });
+
+            test('should respond 403 to history requests for a session owned by someone else', async () => {
+                authenticate.mockResolvedValueOnce({ id: 'intruder' });
+                mockReq = createMockReq('GET', `${PROFILE_CHAT_ENDPOINT_PREFIX}/members-bot/history?session_id=s1`);
+                await callWithOwnership(mockReq);
+                expect(sendJsonError).toHaveBeenCalledWith(mockRes, 403, "This session belongs to another user.");
+                expect(handleGetChatHistoryRequest).not.toHaveBeenCalled();
+            });
+
+            test('should pass the guard to the chat handler', async () => {
+                const principal = { id: 'owner' };
+                authenticate.mockResolvedValueOnce(principal);
+                mockReq = createMockReq('POST', `${PROFILE_CHAT_ENDPOINT_PREFIX}/members-bot`);
+                await callWithOwnership(mockReq);
+                expect(handleChatMessageRequest).toHaveBeenCalledWith(
+                    mockReq, mockRes, 'flow-members', true, mockLangflowClient, undefined, false,
+                    { profileId: 'members-bot', conversationStore: undefined, principal, sessionOwnership }
+                );
+            });
+        });
+    });
     
+    describe('Flow resolution', () => {
+        const unavailableProfile: Profile = { profileId: 'broken-bot', server: { flowId: 'missing-flow', status: 'unavailable' }, chatbot: {} };
+        let lazyProfile: Profile;
+        let resolveProfileFlow: jest.Mock;
+
+        const callHandleRequest = (req: http.IncomingMessage) => handleRequest(
+            req, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey,
+            mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed, { resolveProfileFlow }
+        );
+
+        beforeEach(() => {
+            lazyProfile = { profileId: 'lazy-bot', server: { flowId: 'later-flow', status: 'unresolved' }, chatbot: {} };
+            mockChatbotConfigurations.set(unavailableProfile.profileId, unavailableProfile);
+            mockChatbotConfigurations.set(lazyProfile.profileId, lazyProfile);
+            resolveProfileFlow = jest.fn().mockResolvedValue(false);
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+        });
+
+        afterEach(() => {
+            (console.warn as jest.Mock).mockRestore();
+        });
+
+        test.each([
+            ['GET', `${PROFILE_CONFIG_ENDPOINT_PREFIX}/broken-bot`],
+            ['POST', `${PROFILE_CHAT_ENDPOINT_PREFIX}/broken-bot`],
+            ['GET', `${PROFILE_CHAT_ENDPOINT_PREFIX}/broken-bot/history?session_id=s1`],
+        ])('should respond 503 to %s %s for an unavailable profile', async (method, path) => {
+            mockReq = createMockReq(method, path);
+            await callHandleRequest(mockReq);
+            expect(sendJsonError).toHaveBeenCalledWith(mockRes, 503, "Chatbot profile 'broken-bot' is currently unavailable.", "Its flow could not be found in Langflow.");
+            expect(handleGetChatbotConfigRequest).not.toHaveBeenCalled();
+            expect(handleChatMessageRequest).not.toHaveBeenCalled();
+            expect(handleGetChatHistoryRequest).not.toHaveBeenCalled();
+            expect(resolveProfileFlow).not.toHaveBeenCalled();
+        });
+
+        test('should retry resolving an unresolved profile and respond 503 if it still fails', async () => {
+            mockReq = createMockReq('POST', `${PROFILE_CHAT_ENDPOINT_PREFIX}/lazy-bot`);
+            await callHandleRequest(mockReq);
+            expect(resolveProfileFlow).toHaveBeenCalledWith(lazyProfile);
+            expect(sendJsonError).toHaveBeenCalledWith(mockRes, 503, "Chatbot profile 'lazy-bot' is currently unavailable.", "Its flow could not be found in Langflow.");
+            expect(handleChatMessageRequest).not.toHaveBeenCalled();
+        });
+
+        test('should use the flow resolved on first use', async () => {
+            resolveProfileFlow.mockImplementationOnce(async (profile: Profile) => {
+                profile.server.flowId = 'resolved-uuid';
+                profile.server.status = 'available';
+                return true;
+            });
+            mockReq = createMockReq('POST', `${PROFILE_CHAT_ENDPOINT_PREFIX}/lazy-bot`);
+            await callHandleRequest(mockReq);
+            expect(handleChatMessageRequest).toHaveBeenCalledWith(
+                mockReq, mockRes, 'resolved-uuid', true, mockLangflowClient, undefined, false,
+                { profileId: 'lazy-bot', conversationStore: undefined, principal: null }
+            );
+        });
+
+        test('should still list unavailable profiles', async () => {
+            mockReq = createMockReq('GET', PROXY_PROFILES_SUFFIX);
+            await callHandleRequest(mockReq);
+            const listedProfiles = (handleListChatbotProfilesRequest as jest.Mock).mock.calls[0][2] as Map<string, Profile>;
+            expect(Array.from(listedProfiles.keys())).toEqual(['broken-bot', 'lazy-bot']);
+        });
+    });
+
     test('should send 404 for non-matching paths', async () => {
         mockReq = createMockReq('GET', '/some/other/path');
         await handleRequest(mockReq, mockRes, mockChatbotConfigurations, mockLangflowClient, mockLangflowEndpointUrl, mockLangflowApiKey, mockMakeDirectLangflowApiRequest, mockProxyApiBasePath, mockPreParsedBody, mockIsBodyPreParsed);
         expect(sendJsonError).toHaveBeenCalledWith(mockRes, 404, "Endpoint not found or method not supported.");
     });
-}); 
\ No newline at end of file
+}); 
+
+describe('buildChatRequestOptions', () => {
+    it("should combine the proxy's collaborators with the profile's settings for both transports", () => {
+        const profile: Profile = {
+            profileId: 'support',
+            server: { flowId: 'flow-1', messagePolicy: { maxMessageLength: 10 }, clientTweaks: ['A.b'], upstream: { responseTimeoutMs: 5 } },
+            chatbot: {},
+        };
+        const fileOwnership = new FileOwnershipGuard();
+        const rateLimiter = new RateLimiter();
+        const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+
+        const options = buildChatRequestOptions(profile, { id: 'alice' }, { fileOwnership, rateLimiter, upstream: { connectTimeoutMs: 1 } }, {}, logger);
+
+        expect(options).toEqual(expect.objectContaining({
+            profileId: 'support',
+            principal: { id: 'alice' },
+            fileOwnership,
+            rateLimit: { limiter: rateLimiter, profile },
+            messagePolicy: { maxMessageLength: 10 },
+            clientTweaks: ['A.b'],
+            upstream: expect.objectContaining({ connectTimeoutMs: 1, responseTimeoutMs: 5 }),
+            logger,
+        }));
+    });
+});
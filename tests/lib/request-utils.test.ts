@@ -1,6 +1,7 @@
 import http from 'http';
 import { Readable } from 'stream'; // For mocking IncomingMessage
 import { parseJsonBody, sendJsonError, proxyLangflowApiRequest } from '../../src/lib/request-utils';
+import { UpstreamTimeoutError } from '../../src/lib/langflow/upstream';
 
 // Mock console methods as they are used in proxyLangflowApiRequest
 const mockConsoleLog = jest.fn();
@@ -89,6 +90,31 @@ describe('request-utils', () => {
 
             await expect(parseJsonBody(req)).rejects.toThrow(mockError);
         });
+
+        test('should reject a body larger than the byte limit while it is being read', async () => {
+            const req = createMockIncomingMessage({ message: 'x'.repeat(100) });
+            await expect(parseJsonBody(req, 50)).rejects.toThrow('Request body too large: the limit is 50 bytes.');
+        });
+
+        test('should reject up front when Content-Length exceeds the byte limit', async () => {
+            const req = createMockIncomingMessage({ message: 'hi' });
+            req.headers['content-length'] = '5000';
+            const resumeSpy = jest.spyOn(req, 'resume');
+            await expect(parseJsonBody(req, 1000)).rejects.toThrow('Request body too large: the limit is 1000 bytes.');
+            expect(resumeSpy).toHaveBeenCalled();
+        });
+
+        test('should count bytes rather than characters and decode multi-byte text split across chunks', async () => {
+            const body = Buffer.from(JSON.stringify({ message: 'héllo wörld' }), 'utf-8');
+            const readable = new Readable();
+            readable._read = () => {};
+            readable.push(body.subarray(0, 15));
+            readable.push(body.subarray(15));
+            readable.push(null);
+            const req = Object.assign(readable, { headers: {} }) as unknown as http.IncomingMessage;
+
+            await expect(parseJsonBody(req, body.length)).resolves.toEqual({ message: 'héllo wörld' });
+        });
     });
 
     describe('sendJsonError', () => {
@@ -153,6 +179,24 @@ describe('request-utils', () => {
             expect(mockConsoleError).not.toHaveBeenCalled();
         });
 
+        test('should answer 504 without relaying anything when the body times out', async () => {
+            const mockLangflowResponse = {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                headers: new Headers({ 'Content-Type': 'application/json', 'X-Custom-Header': 'custom-value' }),
+                text: async () => { throw new UpstreamTimeoutError('GET /api/v1/flows/', 1000); },
+            } as unknown as Response;
+            langflowApiCallMock.mockResolvedValueOnce(mockLangflowResponse);
+
+            const result = await proxyLangflowApiRequest(mockRes, langflowApiCallMock);
+
+            expect(result).toBeNull();
+            expect(mockRes.statusCode).toBe(504);
+            expect(mockRes.setHeader).not.toHaveBeenCalledWith('x-custom-header', 'custom-value');
+            expect(mockRes.end).toHaveBeenCalledWith(JSON.stringify({ error: "Langflow did not respond in time.", detail: "No response from Langflow within 1000 ms (GET /api/v1/flows/)." }));
+        });
+
         test('should proxy successful non-JSON (text/plain) response from Langflow', async () => {
             const mockLangflowText = 'Hello Langflow';
             const mockLangflowResponse = {
@@ -1,4 +1,4 @@
-import { loadBaseConfig, loadInstanceConfig } from '../../../src/lib/startup/config-loader';
+import { loadBaseConfig, loadInstanceConfig, loadInstanceDocument, validateConfig } from '../../../src/lib/startup/config-loader';
 
 import fs from 'fs';
 import path from 'path';
@@ -27,10 +27,11 @@ const mockedFs = fs as jest.Mocked<typeof fs>;
 const originalPathResolve = path.resolve;
 let mockPathResolve: jest.SpyInstance;
 
-// Mock console.log and console.error
+// Mock console.log, console.warn and console.error
 global.console = {
     ...global.console,
     log: jest.fn(),
+    warn: jest.fn(),
     error: jest.fn(),
 };
 
@@ -208,7 +209,7 @@ describe('loadInstanceConfig', () => {
         mockedFs.readFileSync.mockReturnValue(mockFileContent);
 
         expect(() => loadInstanceConfig(mockFilePath)).toThrow(
-            `Instance YAML config missing required 'profiles' array. Path: ${resolvedMockPath}`
+            `ConfigLoader: Invalid instance configuration. Path: ${resolvedMockPath}\n  - profiles (line 1): is required`
         );
     });
 
@@ -222,7 +223,7 @@ describe('loadInstanceConfig', () => {
         mockedFs.readFileSync.mockReturnValue(mockFileContent);
 
         expect(() => loadInstanceConfig(mockFilePath)).toThrow(
-            `Instance YAML config missing required 'profiles' array. Path: ${resolvedMockPath}`
+            `  - profiles (line 1): must be a list, got a mapping`
         );
     });
 
@@ -237,7 +238,7 @@ describe('loadInstanceConfig', () => {
         mockedFs.readFileSync.mockReturnValue(mockFileContent);
 
         expect(() => loadInstanceConfig(mockFilePath)).toThrow(
-            `ConfigLoader: Profile at index 0 is missing required 'profileId' or 'server.flowId'. Path: ${resolvedMockPath}`
+            `ConfigLoader: Invalid instance configuration. Path: ${resolvedMockPath}\n  - profiles[0].profileId (line 2): is required`
         );
     });
 
@@ -252,7 +253,121 @@ describe('loadInstanceConfig', () => {
         mockedFs.readFileSync.mockReturnValue(mockFileContent);
 
         expect(() => loadInstanceConfig(mockFilePath)).toThrow(
-            `ConfigLoader: Profile at index 0 is missing required 'profileId' or 'server.flowId'. Path: ${resolvedMockPath}`
+            `  - profiles[0].server.flowId (line 3): is required`
+        );
+    });
+
+    test('should keep a valid server.access rule', () => {
+        const mockFilePath = 'access-config.yaml';
+        const mockProfilesData = [
+            { profileId: 'staff', server: { flowId: 'flow1', access: { roles: ['staff'] } } },
+            { profileId: 'members', server: { flowId: 'flow2', access: 'authenticated' } },
+        ];
+        mockPathResolve.mockImplementation(inputPath => originalPathResolve(inputPath));
+        mockedFs.existsSync.mockReturnValue(true);
+        mockedFs.readFileSync.mockReturnValue(yaml.dump({ profiles: mockProfilesData }));
+
+        const result = loadInstanceConfig(mockFilePath);
+        expect(result[0].server.access).toEqual({ roles: ['staff'] });
+        expect(result[1].server.access).toBe('authenticated');
+    });
+
+    test('should throw an error if a profile has an invalid server.access rule', () => {
+        const mockFilePath = 'invalid-access-config.yaml';
+        const resolvedMockPath = originalPathResolve(mockFilePath);
+        const mockProfilesData = [{ profileId: 'id1', server: { flowId: 'flow1', access: { roles: [] } } }];
+        mockPathResolve.mockImplementation(inputPath => inputPath === mockFilePath ? resolvedMockPath : originalPathResolve(inputPath));
+        mockedFs.existsSync.mockReturnValue(true);
+        mockedFs.readFileSync.mockReturnValue(yaml.dump({ profiles: mockProfilesData }));
+
+        expect(() => loadInstanceConfig(mockFilePath)).toThrow(
+            `  - profiles[0].server.access (line 5): must be 'public', 'authenticated' or { roles: [...] } with at least one role`
+        );
+    });
+
+    test('should keep a valid server.rateLimit and reject an invalid one', () => {
+        const mockFilePath = 'rate-limit-config.yaml';
+        const resolvedMockPath = originalPathResolve(mockFilePath);
+        mockPathResolve.mockImplementation(inputPath => inputPath === mockFilePath ? resolvedMockPath : originalPathResolve(inputPath));
+        mockedFs.existsSync.mockReturnValue(true);
+        mockedFs.readFileSync.mockReturnValueOnce(yaml.dump({
+            profiles: [{ profileId: 'id1', server: { flowId: 'flow1', rateLimit: { requestsPerMinute: 10, burst: 3, keyBy: 'session' } } }],
+        }));
+
+        expect(loadInstanceConfig(mockFilePath)[0].server.rateLimit).toEqual({ requestsPerMinute: 10, burst: 3, keyBy: 'session' });
+
+        mockedFs.readFileSync.mockReturnValueOnce(yaml.dump({
+            profiles: [{ profileId: 'id1', server: { flowId: 'flow1', rateLimit: { requestsPerMinute: 10, keyBy: 'cookie' } } }],
+        }));
+        expect(() => loadInstanceConfig(mockFilePath)).toThrow(
+            `  - profiles[0].server.rateLimit.keyBy (line 7): must be one of 'ip', 'session', 'principal', got 'cookie'`
+        );
+    });
+
+    test('should keep a valid server.messagePolicy and reject an invalid blocked pattern', () => {
+        const mockFilePath = 'message-policy-config.yaml';
+        const resolvedMockPath = originalPathResolve(mockFilePath);
+        const messagePolicy = { maxMessageLength: 2000, maxBodyBytes: 16384, blockedPatterns: ['secret'] };
+        mockPathResolve.mockImplementation(inputPath => inputPath === mockFilePath ? resolvedMockPath : originalPathResolve(inputPath));
+        mockedFs.existsSync.mockReturnValue(true);
+        mockedFs.readFileSync.mockReturnValueOnce(yaml.dump({ profiles: [{ profileId: 'id1', server: { flowId: 'flow1', messagePolicy } }] }));
+
+        expect(loadInstanceConfig(mockFilePath)[0].server.messagePolicy).toEqual(messagePolicy);
+
+        mockedFs.readFileSync.mockReturnValueOnce(yaml.dump({ profiles: [{ profileId: 'id1', server: { flowId: 'flow1', messagePolicy: { blockedPatterns: ['(unclosed'] } } }] }));
+        expect(() => loadInstanceConfig(mockFilePath)).toThrow(
+            `  - profiles[0].server.messagePolicy.blockedPatterns[0] (line 7): is not a valid regular expression`
+        );
+    });
+
+    test('should keep server.upstream and reject a non-positive timeout', () => {
+        const mockFilePath = 'upstream-config.yaml';
+        const resolvedMockPath = originalPathResolve(mockFilePath);
+        const upstream = { connectTimeoutMs: 5000, responseTimeoutMs: 30000, retries: 0 };
+        mockPathResolve.mockImplementation(inputPath => inputPath === mockFilePath ? resolvedMockPath : originalPathResolve(inputPath));
+        mockedFs.existsSync.mockReturnValue(true);
+        mockedFs.readFileSync.mockReturnValueOnce(yaml.dump({ profiles: [{ profileId: 'id1', server: { flowId: 'flow1', upstream } }] }));
+
+        expect(loadInstanceConfig(mockFilePath)[0].server.upstream).toEqual(upstream);
+
+        mockedFs.readFileSync.mockReturnValueOnce(yaml.dump({ profiles: [{ profileId: 'id1', server: { flowId: 'flow1', upstream: { responseTimeoutMs: 0 } } }] }));
+        expect(() => loadInstanceConfig(mockFilePath)).toThrow(`  - profiles[0].server.upstream.responseTimeoutMs (line 6): must be greater than 0, got 0`);
+    });
+
+    test('should log unknown keys as warnings and report every error at once', () => {
+        const mockFilePath = 'typo-config.yaml';
+        const resolvedMockPath = originalPathResolve(mockFilePath);
+        mockPathResolve.mockImplementation(inputPath => inputPath === mockFilePath ? resolvedMockPath : originalPathResolve(inputPath));
+        mockedFs.existsSync.mockReturnValue(true);
+        mockedFs.readFileSync.mockReturnValueOnce([
+            'profiles:',
+            '  - profileId: id1',
+            '    server:',
+            '      flowId: flow1',
+            '    chatbot:',
+            '      floatingWidget:',
+            '        floatPostion: top-left',
+        ].join('\n'));
+
+        expect(loadInstanceConfig(mockFilePath)).toHaveLength(1);
+        expect(global.console.warn).toHaveBeenCalledWith(
+            `ConfigLoader: profiles[0].chatbot.floatingWidget.floatPostion (line 7): unknown key 'floatPostion' is ignored (did you mean 'floatPosition'?). Path: ${resolvedMockPath}`
+        );
+
+        mockedFs.readFileSync.mockReturnValueOnce([
+            'profiles:',
+            '  - profileId: id1',
+            '    server:',
+            '      flowId: flow1',
+            '      enableStream: "yes"',
+            '  - profileId: id1',
+            '    server:',
+            '      flowId: flow2',
+        ].join('\n'));
+        expect(() => loadInstanceConfig(mockFilePath)).toThrow(
+            `ConfigLoader: Invalid instance configuration. Path: ${resolvedMockPath}\n`
+            + `  - profiles[0].server.enableStream (line 5): must be true or false, got string "yes"\n`
+            + `  - profiles[1].profileId (line 6): duplicate profileId 'id1' (already defined at profiles[0], line 2)`
         );
     });
 
@@ -277,4 +392,89 @@ describe('loadInstanceConfig', () => {
             }
         ]);
     });
-}); 
\ No newline at end of file
+});
+
+describe('loadInstanceDocument', () => {
+    const mockFilePath = 'instance-document-config.yaml';
+    const resolvedMockPath = originalPathResolve(mockFilePath);
+    const profiles = [{ profileId: 'id1', server: { flowId: 'flow1' } }];
+
+    beforeEach(() => {
+        mockedFs.existsSync.mockReset().mockReturnValue(true);
+        mockedFs.readFileSync.mockReset();
+    });
+
+    test('should read the file once for the profiles and the top-level sections', () => {
+        mockedFs.readFileSync.mockReturnValue(yaml.dump({
+            rate_limit: { requestsPerMinute: 30, keyBy: 'principal' },
+            upstream: { retries: 4, retryBackoffMs: 100 },
+            profiles,
+        }));
+
+        const result = loadInstanceDocument(mockFilePath);
+
+        expect(mockedFs.readFileSync).toHaveBeenCalledTimes(1);
+        expect(result.profiles.map(profile => profile.profileId)).toEqual(['id1']);
+        expect(result.rateLimit).toEqual({ requestsPerMinute: 30, keyBy: 'principal' });
+        expect(result.upstream).toEqual({ retries: 4, retryBackoffMs: 100 });
+    });
+
+    test('should leave the top-level sections undefined when they are not configured', () => {
+        mockedFs.readFileSync.mockReturnValue(yaml.dump({ profiles }));
+        const result = loadInstanceDocument(mockFilePath);
+        expect(result.rateLimit).toBeUndefined();
+        expect(result.upstream).toBeUndefined();
+    });
+
+    test('should throw on an invalid global limit', () => {
+        mockedFs.readFileSync.mockReturnValue(yaml.dump({ rate_limit: { requestsPerMinute: 0 }, profiles }));
+        expect(() => loadInstanceDocument(mockFilePath)).toThrow(
+            `ConfigLoader: Invalid instance configuration. Path: ${resolvedMockPath}\n  - rate_limit.requestsPerMinute (line 2): must be greater than 0, got 0`
+        );
+    });
+
+    test('should throw on an invalid upstream section', () => {
+        mockedFs.readFileSync.mockReturnValue(yaml.dump({ upstream: { retries: -1 }, profiles }));
+        expect(() => loadInstanceDocument(mockFilePath)).toThrow('ConfigLoader: Invalid instance configuration.');
+    });
+});
+
+describe('validateConfig', () => {
+    const mockFilePath = 'validate-config.yaml';
+    const resolvedMockPath = originalPathResolve(mockFilePath);
+
+    beforeEach(() => {
+        mockedFs.existsSync.mockReset().mockReturnValue(true);
+        mockedFs.readFileSync.mockReset();
+    });
+
+    test('should return errors and warnings without throwing', () => {
+        mockedFs.readFileSync.mockReturnValue('profiles:\n  - profileId: id1\n    server: {}\n    extra: true\n');
+
+        expect(validateConfig(mockFilePath)).toEqual({
+            valid: false,
+            errors: [{ path: 'profiles[0].server.flowId', line: 3, message: 'is required' }],
+            warnings: [{ path: 'profiles[0].extra', line: 4, message: "unknown key 'extra' is ignored" }],
+        });
+    });
+
+    test('should report a missing file as an error', () => {
+        mockedFs.existsSync.mockReturnValue(false);
+        expect(validateConfig(mockFilePath)).toEqual({
+            valid: false,
+            errors: [{ path: '(file)', message: `file not found at ${resolvedMockPath}` }],
+            warnings: [],
+        });
+    });
+
+    test('should report YAML syntax errors with their line', () => {
+        mockedFs.readFileSync.mockReturnValue('profiles:\n  - profileId: id1\n    server: { flowId: "abc"\n');
+
+        const result = validateConfig(mockFilePath);
+        expect(result.valid).toBe(false);
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0].path).toBe('(file)');
+        expect(result.errors[0].line).toEqual(expect.any(Number));
+        expect(result.errors[0].message).toMatch(/^invalid YAML: /);
+    });
+});
@@ -0,0 +1,227 @@
+import yaml from 'js-yaml';
+import { formatConfigIssue, parseYamlWithLines, validateInstanceConfigDocument } from '../../../src/lib/startup/config-schema';
+
+const validateYaml = (source: string) => {
+    const { value, lines } = parseYamlWithLines(source);
+    return validateInstanceConfigDocument(value, lines);
+};
+
+describe('parseYamlWithLines', () => {
+    it('should record the 1-based line of each key, including inside lists', () => {
+        const { value, lines } = parseYamlWithLines([
+            'rate_limit:',
+            '  requestsPerMinute: 60',
+            'profiles:',
+            '  - profileId: support',
+            '    server:',
+            '      flowId: abc',
+            '  - profileId: sales',
+        ].join('\n'));
+
+        expect(value).toEqual({
+            rate_limit: { requestsPerMinute: 60 },
+            profiles: [{ profileId: 'support', server: { flowId: 'abc' } }, { profileId: 'sales' }],
+        });
+        expect(lines.get('rate_limit.requestsPerMinute')).toBe(2);
+        expect(lines.get('profiles')).toBe(3);
+        expect(lines.get('profiles[0]')).toBe(4);
+        expect(lines.get('profiles[0].server.flowId')).toBe(6);
+        expect(lines.get('profiles[1].profileId')).toBe(7);
+    });
+
+    it('should throw a YAMLException on syntax errors', () => {
+        expect(() => parseYamlWithLines('profiles: [ { profileId: "id1" :::: } ]')).toThrow(yaml.YAMLException);
+    });
+});
+
+describe('validateInstanceConfigDocument', () => {
+    it('should accept a complete configuration without warnings', () => {
+        const result = validateYaml([
+            'langflow_connection:',
+            '  endpoint_url: http://localhost:7860',
+            'rate_limit:',
+            '  requestsPerMinute: 120',
+            'profiles:',
+            '  - profileId: support',
+            '    server:',
+            '      flowId: abc',
+            '      enableStream: true',
+            '      access: { roles: [staff] }',
+            '      rateLimit: { requestsPerMinute: 10, burst: 3, keyBy: session }',
+            '      messagePolicy: { maxMessageLength: 500, blockedPatterns: ["\\\\bpassword\\\\b"] }',
+            '    chatbot:',
+            '      labels: { widgetTitle: Help, welcomeMessage: Hi }',
+            '      floatingWidget: { useFloating: true, floatPosition: bottom-left }',
+            '      messageFormat: markdown',
+            '      sanitizer: { mode: allowlist, allowedTags: [b], allowedAttributes: { a: [href] } }',
+        ].join('\n'));
+
+        expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('should report type errors with their path and line', () => {
+        const result = validateYaml([
+            'profiles:',
+            '  - profileId: support',
+            '    server:',
+            '      flowId: abc',
+            '      enableStream: "yes"',
+            '    chatbot:',
+            '      floatingWidget:',
+            '        floatPosition: middle',
+        ].join('\n'));
+
+        expect(result.valid).toBe(false);
+        expect(result.errors.map(formatConfigIssue)).toEqual([
+            'profiles[0].server.enableStream (line 5): must be true or false, got string "yes"',
+            "profiles[0].chatbot.floatingWidget.floatPosition (line 8): must be one of 'bottom-right', 'bottom-left', 'top-right', 'top-left', got 'middle'",
+        ]);
+    });
+
+    it('should report missing required keys at the line of the enclosing value', () => {
+        const result = validateYaml([
+            'profiles:',
+            '  - profileId: support',
+            '    server:',
+            '      enableStream: true',
+            '  - server:',
+            '      flowId: abc',
+        ].join('\n'));
+
+        expect(result.errors.map(formatConfigIssue)).toEqual([
+            'profiles[0].server.flowId (line 3): is required',
+            'profiles[1].profileId (line 5): is required',
+        ]);
+    });
+
+    it('should warn about unknown keys and suggest close matches', () => {
+        const result = validateYaml([
+            'profiles:',
+            '  - profileId: support',
+            '    server:',
+            '      flowId: abc',
+            '    chatbot:',
+            '      floatingWidget:',
+            '        floatPostion: top-left',
+            '      colour: red',
+        ].join('\n'));
+
+        expect(result.valid).toBe(true);
+        expect(result.warnings.map(formatConfigIssue)).toEqual([
+            "profiles[0].chatbot.floatingWidget.floatPostion (line 7): unknown key 'floatPostion' is ignored (did you mean 'floatPosition'?)",
+            "profiles[0].chatbot.colour (line 8): unknown key 'colour' is ignored",
+        ]);
+    });
+
+    it('should reject duplicate profile IDs', () => {
+        const result = validateYaml([
+            'profiles:',
+            '  - profileId: support',
+            '    server: { flowId: a }',
+            '  - profileId: support',
+            '    server: { flowId: b }',
+        ].join('\n'));
+
+        expect(result.errors.map(formatConfigIssue)).toEqual([
+            "profiles[1].profileId (line 4): duplicate profileId 'support' (already defined at profiles[0], line 2)",
+        ]);
+    });
+
+    it('should report invalid blocked patterns and rate limits', () => {
+        const result = validateInstanceConfigDocument({
+            profiles: [{
+                profileId: 'support',
+                server: { flowId: 'abc', rateLimit: { burst: 0 }, messagePolicy: { maxBodyBytes: 1.5, blockedPatterns: ['(open'] } },
+            }],
+        });
+
+        expect(result.errors.map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+            'profiles[0].server.rateLimit.requestsPerMinute: is required',
+            'profiles[0].server.rateLimit.burst: must be at least 1, got 0',
+            'profiles[0].server.messagePolicy.maxBodyBytes: must be a whole number, got 1.5',
+            expect.stringMatching(/^profiles\[0\]\.server\.messagePolicy\.blockedPatterns\[0\]: is not a valid regular expression/),
+        ]);
+    });
+
+    it('should report invalid attachment limits and MIME types', () => {
+        const result = validateInstanceConfigDocument({
+            profiles: [{
+                profileId: 'support',
+                server: { flowId: 'abc', attachments: { maxFiles: 0, allowedTypes: ['image/*', 'pdf'] } },
+            }],
+        });
+
+        expect(result.errors.map(issue => issue.path)).toEqual([
+            'profiles[0].server.attachments.maxFiles',
+            'profiles[0].server.attachments.allowedTypes[1]',
+        ]);
+    });
+
+    it('should report tweaks that are not per component and allowlist keys without a field', () => {
+        const result = validateInstanceConfigDocument({
+            profiles: [{
+                profileId: 'support',
+                server: { flowId: 'abc', tweaks: { 'OpenAIModel-a1': { temperature: 0.2 }, temperature: 0.2 }, clientTweaks: ['OpenAIModel-a1.temperature', 'OpenAIModel-a1'] },
+            }],
+        });
+
+        expect(result.errors.map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+            'profiles[0].server.tweaks.temperature: must be a mapping, got number 0.2',
+            "profiles[0].server.clientTweaks[1]: must name a component field as '<componentId>.<field>'",
+        ]);
+    });
+
+    it('should validate the page context fields and their tweak keys', () => {
+        const result = validateInstanceConfigDocument({
+            profiles: [{
+                profileId: 'shop',
+                server: {
+                    flowId: 'abc',
+                    context: {
+                        fields: { productId: { type: 'string', pattern: '[A-Z' }, quantity: { type: 'integer' }, locale: {} },
+                        tweaks: { 'Prompt-1.product': '{{productId}}', product: '{{productId}}' },
+                        messagePrefix: 'Viewing {{productId}}: ',
+                    },
+                },
+            }],
+        });
+
+        expect(result.errors.map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+            expect.stringMatching(/^profiles\[0\]\.server\.context\.fields\.productId\.pattern: is not a valid regular expression/),
+            "profiles[0].server.context.fields.quantity.type: must be one of 'string', 'number', 'boolean', got 'integer'",
+            'profiles[0].server.context.fields.locale.type: is required',
+            "profiles[0].server.context.tweaks.product: must name a component field as '<componentId>.<field>'",
+        ]);
+    });
+
+    it('should validate the input and output types and the output component', () => {
+        const result = validateInstanceConfigDocument({
+            profiles: [{ profileId: 'summaries', server: { flowId: 'abc', inputType: 'text', outputType: 'message', outputComponent: '' } }],
+        });
+
+        expect(result.errors.map(issue => issue.path)).toEqual([
+            'profiles[0].server.outputType',
+            'profiles[0].server.outputComponent',
+        ]);
+    });
+
+    it('should validate reply extractor names and path selectors', () => {
+        const result = validateInstanceConfigDocument({
+            profiles: [{
+                profileId: 'support',
+                server: { flowId: 'abc', debugReplyExtractors: true, replyExtractors: ['defaults', { path: 'outputs[0].outputs[*].results.text.text' }, '', { path: 'outputs[x]' }, 42] },
+            }],
+        });
+
+        expect(result.errors.map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+            'profiles[0].server.replyExtractors[2]: must not be empty',
+            "profiles[0].server.replyExtractors[3]: has an invalid path (cannot parse '[x]')",
+            "profiles[0].server.replyExtractors[4]: must be an extractor name or { path: '<selector>' }",
+        ]);
+    });
+
+    it('should require the document to be a mapping with a profiles list', () => {
+        expect(validateInstanceConfigDocument(null).errors).toEqual([{ path: '(root)', line: undefined, message: 'must be a mapping, got null' }]);
+        expect(validateInstanceConfigDocument({ profiles: 'none' }).errors.map(issue => issue.message)).toEqual(['must be a list, got string "none"']);
+    });
+});
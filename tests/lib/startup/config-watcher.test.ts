@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import { diffProfiles, formatProfileDiff, watchConfigFile, DEFAULT_CONFIG_WATCH_INTERVAL_MS } from '../../../src/lib/startup/config-watcher';
+import { Profile } from '../../../src/types';
+
+const profile = (profileId: string, server: Partial<Profile['server']> = {}, chatbot: Profile['chatbot'] = {}): Profile => ({
+    profileId,
+    server: { flowId: 'flow', ...server },
+    chatbot,
+});
+
+describe('diffProfiles', () => {
+    it('should report added, removed and changed profiles with the changed field paths', () => {
+        const previous = new Map([
+            ['support', profile('support', { enableStream: true }, { labels: { widgetTitle: 'Support' } })],
+            ['legacy', profile('legacy')],
+            ['same', profile('same')],
+        ]);
+        const next = new Map([
+            ['support', profile('support', { enableStream: false }, { labels: { widgetTitle: 'Help' } })],
+            ['same', profile('same')],
+            ['sales', profile('sales')],
+        ]);
+
+        expect(diffProfiles(previous, next)).toEqual({
+            added: ['sales'],
+            removed: ['legacy'],
+            changed: [{ profileId: 'support', fields: ['server.enableStream', 'chatbot.labels.widgetTitle'] }],
+        });
+    });
+
+    it('should treat array values as a single field', () => {
+        const previous = new Map([['bot', profile('bot', { access: { roles: ['staff'] } })]]);
+        const next = new Map([['bot', profile('bot', { access: { roles: ['staff', 'admin'] } })]]);
+        expect(diffProfiles(previous, next).changed).toEqual([{ profileId: 'bot', fields: ['server.access.roles'] }]);
+    });
+});
+
+describe('formatProfileDiff', () => {
+    it('should describe an empty diff', () => {
+        expect(formatProfileDiff({ added: [], removed: [], changed: [] })).toBe('no profile changes');
+    });
+
+    it('should cap the number of listed fields per profile', () => {
+        const fields = Array.from({ length: 12 }, (_, i) => `chatbot.labels.f${i}`);
+        expect(formatProfileDiff({ added: [], removed: [], changed: [{ profileId: 'bot', fields }] }))
+            .toBe(`changed: bot (${fields.slice(0, 10).join(', ')}, +2 more)`);
+    });
+});
+
+describe('watchConfigFile', () => {
+    let watchFileSpy: jest.SpyInstance;
+    let unwatchFileSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        watchFileSpy = jest.spyOn(fs, 'watchFile').mockImplementation((() => undefined) as any);
+        unwatchFileSpy = jest.spyOn(fs, 'unwatchFile').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should poll the resolved path without keeping the process alive', () => {
+        watchConfigFile('config.yaml', jest.fn());
+        expect(watchFileSpy).toHaveBeenCalledWith(path.resolve('config.yaml'), { interval: DEFAULT_CONFIG_WATCH_INTERVAL_MS, persistent: false }, expect.any(Function));
+    });
+
+    it('should call onChange only when the modification time or size changed', () => {
+        const onChange = jest.fn();
+        watchConfigFile('config.yaml', onChange, 100);
+        const listener = watchFileSpy.mock.calls[0][2];
+
+        listener({ mtimeMs: 1, size: 10 }, { mtimeMs: 1, size: 10 });
+        expect(onChange).not.toHaveBeenCalled();
+        listener({ mtimeMs: 2, size: 10 }, { mtimeMs: 1, size: 10 });
+        expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop watching on close', () => {
+        const watcher = watchConfigFile('config.yaml', jest.fn());
+        watcher.close();
+        expect(unwatchFileSpy).toHaveBeenCalledWith(path.resolve('config.yaml'), watchFileSpy.mock.calls[0][2]);
+    });
+});
@@ -180,13 +180,20 @@ describe('LangflowChatbotInstance', () => {
             MockedFloatingChatWidget.mockClear();
         });
 
+        it('should pass the configured stream transport to the client', async () => {
+            instance = new LangflowChatbotInstance({ ...mockDefaultInitConfig, streamTransport: 'sse' });
+            await instance.init();
+
+            expect(LangflowChatClient).toHaveBeenCalledWith(mockProfileId, mockDefaultInitConfig.proxyApiBasePath, mockLoggerInstance, { streamTransport: 'sse' });
+        });
+
         it('should fetch server config, create client, and init ChatWidget for embedded mode', async () => {
             instance = new LangflowChatbotInstance(mockDefaultInitConfig);
             await instance.init();
 
             const expectedConfigUrl = `${mockDefaultInitConfig.proxyApiBasePath}/config/${mockProfileId}`;
             expect(fetch).toHaveBeenCalledWith(expectedConfigUrl);
-            expect(LangflowChatClient).toHaveBeenCalledWith(mockProfileId, mockDefaultInitConfig.proxyApiBasePath, mockLoggerInstance);
+            expect(LangflowChatClient).toHaveBeenCalledWith(mockProfileId, mockDefaultInitConfig.proxyApiBasePath, mockLoggerInstance, { streamTransport: undefined });
             expect(MockedChatWidget).toHaveBeenCalledTimes(1);
             expect(MockedFloatingChatWidget).not.toHaveBeenCalled();
             expect(mockChatContainer.style.display).toBe('block');
@@ -266,7 +273,7 @@ describe('LangflowChatbotInstance', () => {
             instance = new LangflowChatbotInstance(initConfNoUiDetails);
             await instance.init();
             expect((instance as any)['widgetInstance']).toBeDefined();
-            expect(LangflowChatClient).toHaveBeenCalledWith(initConfNoUiDetails.profileId, initConfNoUiDetails.proxyApiBasePath, mockLoggerInstance);
+            expect(LangflowChatClient).toHaveBeenCalledWith(initConfNoUiDetails.profileId, initConfNoUiDetails.proxyApiBasePath, mockLoggerInstance, { streamTransport: undefined });
 
             if (MockedChatWidget.mock.calls.length > 0) {
                 const chatWidgetArgs = MockedChatWidget.mock.calls[0];
@@ -291,6 +298,24 @@ describe('LangflowChatbotInstance', () => {
             }
         });
 
+        it('should use the messageFormat from initialConfig when the profile sets none', async () => {
+            instance = new LangflowChatbotInstance({ ...mockDefaultInitConfig, messageFormat: 'markdown' });
+            await instance.init();
+
+            expect(MockedChatWidget.mock.calls[0][3]).toEqual(expect.objectContaining({ messageFormat: 'markdown' }));
+        });
+
+        it('should prefer the messageFormat set on the profile over initialConfig', async () => {
+            const plaintextProfile = { ...mockServerProfileData, messageFormat: 'plaintext' };
+            (fetch as jest.Mock).mockResolvedValueOnce({
+                ok: true, json: async () => JSON.parse(JSON.stringify(plaintextProfile)), text: async () => JSON.stringify(plaintextProfile)
+            });
+            instance = new LangflowChatbotInstance({ ...mockDefaultInitConfig, messageFormat: 'markdown' });
+            await instance.init();
+
+            expect(MockedChatWidget.mock.calls[0][3]).toEqual(expect.objectContaining({ messageFormat: 'plaintext' }));
+        });
+
         it('should init FloatingChatWidget if useFloating is true (from merged server and initial config)', async () => {
             const serverSuggestsFloating = { 
                 floatingWidget: { useFloating: true, floatPosition: 'top-right' },
@@ -421,7 +446,7 @@ describe('LangflowChatbotInstance', () => {
             expect(fetch).toHaveBeenCalledWith(expectedConfigUrlReinit);
             expect(fetch).toHaveBeenCalledTimes(2); 
             // LangflowChatClient should be called with the correct base path on re-init too
-            expect(LangflowChatClient).toHaveBeenLastCalledWith(mockDefaultInitConfig.profileId, mockDefaultInitConfig.proxyApiBasePath, mockLoggerInstance);
+            expect(LangflowChatClient).toHaveBeenLastCalledWith(mockDefaultInitConfig.profileId, mockDefaultInitConfig.proxyApiBasePath, mockLoggerInstance, { streamTransport: undefined });
             // ChatWidget constructor should also be called twice
             expect(MockedChatWidget).toHaveBeenCalledTimes(2);
 
@@ -759,6 +784,16 @@ describe('LangflowChatbotInstance', () => {
             expect(mockLoggerInstance.info).toHaveBeenCalledWith("Instance destroyed.");
         });
 
+        it('should close the chat client on destroy', async () => {
+            instance = new LangflowChatbotInstance(mockDefaultInitConfig);
+            await instance.init();
+            const chatClient = (instance as any).chatClient;
+
+            instance.destroy();
+            expect(chatClient.close).toHaveBeenCalledTimes(1);
+            expect((instance as any).chatClient).toBeNull();
+        });
+
         it('should clear container innerHTML for embedded mode on destroy', async () => {
             instance = new LangflowChatbotInstance(mockDefaultInitConfig);
             await instance.init();
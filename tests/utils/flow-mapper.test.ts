@@ -70,7 +70,8 @@ describe('FlowMapper', () => {
         expectedUrl.searchParams.append('header_flows', 'true');
         expect(global.fetch).toHaveBeenCalledWith(expectedUrl.toString(), {
             method: 'GET',
-            headers: { 'Accept': 'application/json', 'Authorization': 'Bearer test-api-key' }
+            headers: { 'Accept': 'application/json', 'Authorization': 'Bearer test-api-key' },
+            signal: expect.any(AbortSignal),
         });
 
         expect(mockConsoleLog).toHaveBeenCalledWith("FlowMapper: Initializing - fetching all flows from Langflow...");
@@ -160,7 +161,8 @@ describe('FlowMapper', () => {
         expectedUrl.searchParams.append('header_flows', 'true');
         expect(global.fetch).toHaveBeenCalledWith(expectedUrl.toString(), {
             method: 'GET',
-            headers: { 'Accept': 'application/json', 'Authorization': 'Bearer api-key-here' }
+            headers: { 'Accept': 'application/json', 'Authorization': 'Bearer api-key-here' },
+            signal: expect.any(AbortSignal),
         });
         expect(flowMapper.getTrueFlowId('flow-b-endpoint')).toBe('uuid-flow-b');
         expect(mockConsoleError).not.toHaveBeenCalled();
@@ -185,7 +187,7 @@ describe('FlowMapper', () => {
     test('initialize: should handle network error during fetch', async () => {
         (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('Network connection failed'));
 
-        flowMapper = new FlowMapper(mockLangflowEndpoint, 'any-key');
+        flowMapper = new FlowMapper(mockLangflowEndpoint, 'any-key', () => ({ retries: 0 }));
         await expect(flowMapper.initialize()).rejects.toThrow('Network connection failed');
         expect(mockConsoleError).toHaveBeenCalledWith("FlowMapper: CRITICAL - Error during flow map initialization: Network connection failed");
     });
@@ -316,4 +318,77 @@ describe('FlowMapper', () => {
         expect(mockConsoleLog).toHaveBeenCalledWith("FlowMapper: Already initialized."); // From the second call
     });
 
+    test('refresh: should re-fetch flows and pick up renamed flows', async () => {
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce({ ok: true, json: async () => [{ endpoint_name: 'old-name', id: 'uuid-1' }], status: 200, statusText: 'OK' })
+            .mockResolvedValueOnce({ ok: true, json: async () => [{ endpoint_name: 'new-name', id: 'uuid-1' }], status: 200, statusText: 'OK' });
+
+        flowMapper = new FlowMapper(mockLangflowEndpoint);
+        await flowMapper.initialize();
+        await flowMapper.refresh();
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+        expect(flowMapper.getTrueFlowId('new-name')).toBe('uuid-1');
+        expect(flowMapper.getTrueFlowId('old-name')).toBeUndefined();
+    });
+
+    test('refresh: should log names that were added, remapped or removed', async () => {
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce({ ok: true, json: async () => [
+                { endpoint_name: 'support', id: 'uuid-1' },
+                { endpoint_name: 'legacy', id: 'uuid-2' },
+            ], status: 200, statusText: 'OK' })
+            .mockResolvedValueOnce({ ok: true, json: async () => [
+                { endpoint_name: 'support', id: 'uuid-3' },
+                { endpoint_name: 'sales', id: 'uuid-4' },
+            ], status: 200, statusText: 'OK' });
+
+        flowMapper = new FlowMapper(mockLangflowEndpoint);
+        await flowMapper.initialize();
+        expect(mockConsoleLog).not.toHaveBeenCalledWith(expect.stringContaining('New flow name'));
+        await flowMapper.refresh();
+
+        expect(mockConsoleLog).toHaveBeenCalledWith("FlowMapper: Flow name 'support' now maps to ID uuid-3 (was uuid-1).");
+        expect(mockConsoleLog).toHaveBeenCalledWith("FlowMapper: New flow name 'sales' maps to ID uuid-4.");
+        expect(mockConsoleLog).toHaveBeenCalledWith("FlowMapper: Flow name 'legacy' is no longer present in Langflow.");
+    });
+
+    test('refresh: should keep the previous mappings if the fetch fails', async () => {
+        (global.fetch as jest.Mock)
+            .mockResolvedValueOnce({ ok: true, json: async () => [{ endpoint_name: 'flow-one', id: 'uuid-1' }], status: 200, statusText: 'OK' })
+            .mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+        flowMapper = new FlowMapper(mockLangflowEndpoint, undefined, () => ({ retries: 0 }));
+        await flowMapper.initialize();
+        await expect(flowMapper.refresh()).rejects.toThrow('ECONNREFUSED');
+
+        mockConsoleWarn.mockClear();
+        expect(flowMapper.getTrueFlowId('flow-one')).toBe('uuid-1');
+        expect(mockConsoleWarn).not.toHaveBeenCalled();
+    });
+
+    test('should log through an injected logger instead of the console', () => {
+        const logger = { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() };
+        flowMapper = new FlowMapper(mockLangflowEndpoint, undefined, undefined, logger);
+
+        flowMapper.getTrueFlowId('some-flow');
+
+        expect(logger.warn).toHaveBeenCalledWith("FlowMapper: getTrueFlowId called before successful initialization. Results may be incorrect.");
+        expect(mockConsoleWarn).not.toHaveBeenCalled();
+    });
+
+    test('getStatus: should report the mapped flows and the last fetch error until a fetch succeeds', async () => {
+        (global.fetch as jest.Mock)
+            .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+            .mockResolvedValueOnce({ ok: true, json: async () => [{ endpoint_name: 'flow-one', id: 'uuid-1' }], status: 200, statusText: 'OK' });
+
+        flowMapper = new FlowMapper(mockLangflowEndpoint, undefined, () => ({ retries: 0 }));
+        expect(flowMapper.getStatus()).toEqual({ initialized: false, flows: 0, lastError: undefined });
+        await expect(flowMapper.initialize()).rejects.toThrow('ECONNREFUSED');
+        expect(flowMapper.getStatus()).toEqual({ initialized: false, flows: 0, lastError: 'ECONNREFUSED' });
+
+        await flowMapper.initialize();
+        expect(flowMapper.getStatus()).toEqual({ initialized: true, flows: 1, lastError: undefined });
+    });
+
 }); 
\ No newline at end of file
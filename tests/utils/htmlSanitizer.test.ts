@@ -0,0 +1,92 @@
+/** @jest-environment jsdom */
+
+import { HtmlSanitizer, escapeHtml } from '../../src/utils/htmlSanitizer';
+import { MarkdownMessageParser } from '../../src/components/messageParsers/MarkdownMessageParser';
+
+describe('escapeHtml', () => {
+    it('should escape HTML special characters', () => {
+        expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+    });
+});
+
+describe('HtmlSanitizer', () => {
+    describe('allowlist mode (default)', () => {
+        let sanitizer: HtmlSanitizer;
+
+        beforeEach(() => {
+            sanitizer = new HtmlSanitizer();
+        });
+
+        it('should return an empty string for empty input', () => {
+            expect(sanitizer.sanitize('')).toBe('');
+        });
+
+        it('should keep plain text and allowed formatting', () => {
+            expect(sanitizer.sanitize('Hello <strong>world</strong> &amp; <em>you</em>')).toBe('Hello <strong>world</strong> &amp; <em>you</em>');
+        });
+
+        it('should drop script-like elements together with their content', () => {
+            expect(sanitizer.sanitize('a<script>alert(1)</script><style>p{}</style><iframe src="x"></iframe>b')).toBe('ab');
+        });
+
+        it('should unwrap disallowed elements but keep their text', () => {
+            expect(sanitizer.sanitize('<form><button>Click <b>me</b></button></form>')).toBe('Click <b>me</b>');
+        });
+
+        it('should strip event handler attributes and attributes outside the allowlist', () => {
+            expect(sanitizer.sanitize('<p onclick="x()" id="p1" class="note">hi</p>')).toBe('<p class="note">hi</p>');
+        });
+
+        it('should remove comments', () => {
+            expect(sanitizer.sanitize('a<!-- hidden -->b')).toBe('ab');
+        });
+
+        it('should drop unsafe URL schemes, including obfuscated ones', () => {
+            expect(sanitizer.sanitize('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+            expect(sanitizer.sanitize('<a href=" java\tscript:alert(1)">x</a>')).toBe('<a>x</a>');
+            expect(sanitizer.sanitize('<a href="data:text/html,hi">x</a>')).toBe('<a>x</a>');
+        });
+
+        it('should keep safe and relative URLs', () => {
+            expect(sanitizer.sanitize('<a href="https://example.com">x</a>')).toBe('<a href="https://example.com">x</a>');
+            expect(sanitizer.sanitize('<a href="mailto:a@b.c">x</a>')).toBe('<a href="mailto:a@b.c">x</a>');
+            expect(sanitizer.sanitize('<a href="/docs#top">x</a>')).toBe('<a href="/docs#top">x</a>');
+        });
+
+        it('should force rel="noopener noreferrer" on links opening a new tab', () => {
+            expect(sanitizer.sanitize('<a href="https://e.com" target="_blank">x</a>'))
+                .toBe('<a href="https://e.com" target="_blank" rel="noopener noreferrer">x</a>');
+        });
+
+        it('should drop style attributes with dangerous CSS', () => {
+            expect(sanitizer.sanitize('<td style="background: url(https://evil)">x</td>')).not.toContain('style');
+        });
+
+        it('should pass Markdown parser output through unchanged', () => {
+            const html = new MarkdownMessageParser().parseComplete(
+                '# T\n\n**b** [l](https://e.com)\n\n```js\nx\n```\n\n| a | b |\n|:--|--:|\n| 1 | 2 |\n\n3. x'
+            );
+            expect(sanitizer.sanitize(html)).toBe(html);
+        });
+    });
+
+    describe('custom allowlist', () => {
+        it('should only allow the configured tags and attributes', () => {
+            const sanitizer = new HtmlSanitizer({ allowedTags: ['img', 'b'], allowedAttributes: { img: ['src', 'alt'] } });
+            expect(sanitizer.sanitize('<p><b class="x">hi</b><img src="https://e.com/a.png" alt="a" onerror="x()"></p>'))
+                .toBe('<b>hi</b><img src="https://e.com/a.png" alt="a">');
+        });
+
+        it('should never allow event handler attributes even when configured', () => {
+            const sanitizer = new HtmlSanitizer({ allowedAttributes: { '*': ['onclick'] } });
+            expect(sanitizer.sanitize('<b onclick="x()">hi</b>')).toBe('<b>hi</b>');
+        });
+    });
+
+    describe('strict mode', () => {
+        it('should escape everything', () => {
+            const sanitizer = new HtmlSanitizer({ mode: 'strict' });
+            expect(sanitizer.sanitize('<b>hi</b> & bye')).toBe('&lt;b&gt;hi&lt;/b&gt; &amp; bye');
+        });
+    });
+});